@@ -0,0 +1,8 @@
+import nextJest from 'next/jest.js';
+
+// Loads next.config.ts and the tsconfig "@/" path alias so tests import modules the way the app does
+const createJestConfig = nextJest({ dir: './' });
+
+export default createJestConfig({
+  testEnvironment: 'node',
+});
@@ -0,0 +1,171 @@
+/**
+ * Builds public/psgc/psgc.json (see src/lib/psgc.ts) from the PSGC Publication Datafile
+ * published quarterly by the Philippine Statistics Authority at https://psa.gov.ph/classification/psgc.
+ *
+ * Usage: npm run build:psgc -- <PSGC Publication Datafile.xlsx> [output.json]
+ *
+ * The app stores nine-digit codes (RRPPMMBBB), so areas are keyed by the datafile's
+ * "Correspondence Code" column rather than its ten-digit PSGC. Sub-municipalities (the
+ * districts of Manila) are folded into their city, "(Pob.)" is added to poblacion barangays
+ * and old names become aliases. Areas without a correspondence code are skipped.
+ */
+import { writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { readSheet } from 'read-excel-file/node';
+
+const DEFAULT_OUTPUT = 'public/psgc/psgc.json';
+
+// Provinces the nine-digit codes do not have. Metro Manila has none, so its region code stands in;
+// Maguindanao was split after the codes were frozen, so both halves keep its code.
+const STAND_IN_PROVINCES = [
+  {
+    code: '130000000',
+    name: 'Metro Manila',
+    aliases: ['NCR', 'National Capital Region'],
+    covers: (code) => code.startsWith('13'),
+  },
+  {
+    code: '153800000',
+    name: 'Maguindanao',
+    aliases: ['Maguindanao del Norte', 'Maguindanao del Sur'],
+    covers: (code) => code.startsWith('1538'),
+  },
+];
+
+const text = (value) => (value === null || value === undefined ? '' : String(value).trim());
+
+// Nine-digit code of a cell; leading zeros may be lost when the cell holds a number
+const toCode = (value) => {
+  const code = text(value);
+  return /^\d{8,9}$/.test(code) ? code.padStart(9, '0') : null;
+};
+
+const toAliases = (oldNames) => {
+  const aliases = text(oldNames).split(/[,;]/).map((name) => name.trim()).filter(Boolean);
+  return aliases.length > 0 ? { aliases } : {};
+};
+
+const provinceCodeOf = (code) => `${code.slice(0, 4)}00000`;
+const cityCodeOf = (code) => `${code.slice(0, 6)}000`;
+
+const main = async () => {
+  const [input, output = DEFAULT_OUTPUT] = process.argv.slice(2);
+  if (!input) {
+    console.error('Usage: npm run build:psgc -- <PSGC Publication Datafile.xlsx> [output.json]');
+    process.exit(1);
+  }
+
+  const [header, ...rows] = await readSheet(input, 'PSGC');
+  const column = (title) => {
+    const index = header.findIndex((cell) => text(cell).toLowerCase() === title.toLowerCase());
+    if (index === -1) throw new Error(`Column "${title}" not found in the PSGC sheet.`);
+    return index;
+  };
+  const columns = {
+    name: column('Name'),
+    code: column('Correspondence Code'),
+    level: column('Geographic Level'),
+    oldNames: column('Old names'),
+    status: column('Status'),
+  };
+
+  const records = rows.map((row) => ({
+    code: toCode(row[columns.code]),
+    name: text(row[columns.name]),
+    level: text(row[columns.level]),
+    oldNames: row[columns.oldNames],
+    status: text(row[columns.status]),
+  }));
+  const skipped = records.filter((record) => !record.code && record.name);
+
+  // "City of Isabela (Not a Province)" and the like name the province code of an independent city
+  const notAProvince = new Map(
+    records
+      .filter((record) => record.code && /\(Not a Province\)/i.test(record.name))
+      .map((record) => [record.code, record.name.replace(/\s*\(Not a Province\)/i, '')])
+  );
+
+  const provinces = new Map();
+  for (const record of records) {
+    if (record.level === 'Prov' && record.code) {
+      provinces.set(record.code, { code: record.code, name: record.name, level: 'province', parent: null, ...toAliases(record.oldNames) });
+    }
+  }
+
+  // Independent cities outside any province become their own province, as the datafile's summaries treat them
+  const provinceFor = (city) => {
+    const standIn = STAND_IN_PROVINCES.find((province) => province.covers(city.code));
+    const code = standIn?.code ?? provinceCodeOf(city.code);
+    if (!provinces.has(code)) {
+      provinces.set(code, standIn
+        ? { code, name: standIn.name, level: 'province', parent: null, aliases: standIn.aliases }
+        : { code, name: notAProvince.get(code) ?? city.name, level: 'province', parent: null });
+    }
+    return code;
+  };
+
+  const cities = new Map();
+  for (const record of records) {
+    if ((record.level === 'City' || record.level === 'Mun') && record.code) {
+      cities.set(record.code, {
+        code: record.code,
+        name: record.name,
+        level: 'city',
+        parent: provinceFor(record),
+        ...toAliases(record.oldNames),
+      });
+    }
+  }
+
+  // Barangays of a sub-municipality belong to its city
+  const subMunicipalities = new Map(
+    records
+      .filter((record) => record.level === 'SubMun' && record.code && cities.has(provinceCodeOf(record.code)))
+      .map((record) => [record.code, provinceCodeOf(record.code)])
+  );
+
+  const barangays = new Map();
+  let orphanBarangays = 0;
+  for (const record of records) {
+    if (record.level !== 'Bgy' || !record.code) continue;
+
+    const parent = subMunicipalities.get(cityCodeOf(record.code)) ?? cityCodeOf(record.code);
+    if (!cities.has(parent)) {
+      orphanBarangays++;
+      continue;
+    }
+    const isPoblacion = record.status === 'Pob.' && !/\(pob/i.test(record.name);
+    barangays.set(record.code, {
+      code: record.code,
+      name: isPoblacion ? `${record.name} (Pob.)` : record.name,
+      level: 'barangay',
+      parent,
+      ...toAliases(record.oldNames),
+    });
+  }
+
+  const byCode = (a, b) => a.code.localeCompare(b.code);
+  const areas = [...provinces.values(), ...cities.values(), ...barangays.values()].sort(
+    (a, b) => ['province', 'city', 'barangay'].indexOf(a.level) - ['province', 'city', 'barangay'].indexOf(b.level) || byCode(a, b)
+  );
+
+  // One area per line keeps diffs between publications readable
+  const source = `Philippine Standard Geographic Code (PSGC), Philippine Statistics Authority. ${basename(input)}, nine-digit correspondence codes.`;
+  await writeFile(
+    output,
+    `{\n  "source": ${JSON.stringify(source)},\n  "areas": [\n${areas.map((area) => `    ${JSON.stringify(area)}`).join(',\n')}\n  ]\n}\n`
+  );
+
+  console.log(`Wrote ${provinces.size} provinces, ${cities.size} cities/municipalities and ${barangays.size} barangays to ${output}.`);
+  if (skipped.length > 0) {
+    console.log(`Skipped ${skipped.length} areas without a correspondence code, e.g. ${skipped.slice(0, 3).map((record) => record.name).join(', ')}.`);
+  }
+  if (orphanBarangays > 0) {
+    console.log(`Skipped ${orphanBarangays} barangays whose city/municipality is not in the datafile.`);
+  }
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,17 @@
+import { getElectionEvents } from '@/services/electionService';
+import { buildElectionCalendar } from '@/lib/icalendar';
+
+// Subscription feed for calendar apps; read anonymously, so always rendered on request
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const events = await getElectionEvents();
+
+  return new Response(buildElectionCalendar(events), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="election-calendar.ics"',
+      'Cache-Control': 'public, max-age=3600',
+    },
+  });
+}
@@ -0,0 +1,294 @@
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, CheckCircle2, MapPinCheck, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PsgcCombobox } from '@/components/address/PsgcCombobox';
+import { useToast } from '@/hooks/use-toast';
+import {
+  formatPsgcMatch, getPsgcChildren, loadPsgcAreas, matchPsgcAddress,
+  type PsgcAddressMatch, type PsgcArea
+} from '@/lib/psgc';
+import { applyPsgcCodes, getUnnormalizedAddresses } from '@/services/addressService';
+import type { PsgcCodeAssignment, UnnormalizedAddress } from '@/types';
+
+const SOURCE_LABELS: Record<UnnormalizedAddress['source'], string> = {
+  residence: 'Residence',
+  declared_address: 'Declared Address',
+  transfer: 'Previous Address',
+  place_of_birth: 'Place of Birth',
+};
+
+// Codes picked by hand for a row under review
+interface ManualPick {
+  province: PsgcArea | null;
+  city: PsgcArea | null;
+  barangay: PsgcArea | null;
+}
+
+const emptyPick: ManualPick = { province: null, city: null, barangay: null };
+
+const rowKey = (row: UnnormalizedAddress) => `${row.source}-${row.record_id}`;
+
+const formatWritten = (row: UnnormalizedAddress) =>
+  [row.barangay, row.city_municipality, row.province].filter(Boolean).join(', ');
+
+const toAssignment = (row: UnnormalizedAddress, match: PsgcAddressMatch): PsgcCodeAssignment => ({
+  source: row.source,
+  record_id: row.record_id,
+  province_code: match.province.code,
+  city_municipality_code: match.city.code,
+  barangay_code: row.source === 'place_of_birth' ? null : match.barangay?.code ?? null,
+});
+
+export default function AddressNormalizerPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [rows, setRows] = useState<UnnormalizedAddress[]>([]);
+  const [areas, setAreas] = useState<PsgcArea[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const [picks, setPicks] = useState<Record<string, ManualPick>>({});
+
+  const loadRows = async () => {
+    setIsLoading(true);
+    try {
+      const [addresses, psgcAreas] = await Promise.all([getUnnormalizedAddresses(), loadPsgcAreas()]);
+      setRows(addresses);
+      setAreas(psgcAreas);
+      setPicks({});
+    } catch (error) {
+      console.error('Error loading PSGC data:', error);
+      toast({ title: 'Error', description: 'Failed to load the PSGC data.', variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRows();
+  }, []);
+
+  const results = useMemo(
+    () => rows.map(row => ({
+      row,
+      result: matchPsgcAddress(areas, {
+        province: row.province,
+        cityMunicipality: row.city_municipality,
+        barangay: row.source === 'place_of_birth' ? null : row.barangay,
+      }),
+    })),
+    [rows, areas]
+  );
+
+  const matched = results.flatMap(({ row, result }) => result.status === 'matched' ? [{ row, match: result.match }] : []);
+  const needsReview = results.filter(({ result }) => result.status !== 'matched');
+
+  const apply = async (assignments: PsgcCodeAssignment[]) => {
+    setIsApplying(true);
+    try {
+      const updated = await applyPsgcCodes(assignments);
+      toast({ title: 'PSGC Codes Saved', description: `${updated} address${updated === 1 ? '' : 'es'} normalized.` });
+      await loadRows();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save the PSGC codes.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const setPick = (row: UnnormalizedAddress, pick: ManualPick) =>
+    setPicks(prev => ({ ...prev, [rowKey(row)]: pick }));
+
+  const renderManualPick = (row: UnnormalizedAddress) => {
+    const pick = picks[rowKey(row)] ?? emptyPick;
+    const cities = pick.province ? getPsgcChildren(areas, 'city', pick.province.code) : [];
+    const barangays = pick.city ? getPsgcChildren(areas, 'barangay', pick.city.code) : [];
+
+    return (
+      <div className="grid gap-2 md:grid-cols-3">
+        <PsgcCombobox
+          options={getPsgcChildren(areas, 'province', null)}
+          value={pick.province?.name ?? ''}
+          code={pick.province?.code}
+          placeholder="Province"
+          allowCustom={false}
+          onSelect={(area) => setPick(row, { ...emptyPick, province: area })}
+        />
+        <PsgcCombobox
+          options={cities}
+          value={pick.city?.name ?? ''}
+          code={pick.city?.code}
+          placeholder="City / Municipality"
+          disabled={!pick.province}
+          allowCustom={false}
+          onSelect={(area) => setPick(row, { ...pick, city: area, barangay: null })}
+        />
+        {row.source !== 'place_of_birth' && (
+          <PsgcCombobox
+            options={barangays}
+            value={pick.barangay?.name ?? ''}
+            code={pick.barangay?.code}
+            placeholder={pick.city && barangays.length === 0 ? 'No barangays in the data' : 'Barangay'}
+            disabled={barangays.length === 0}
+            allowCustom={false}
+            onSelect={(area) => setPick(row, { ...pick, barangay: area })}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 bg-white p-6 rounded-xl shadow-sm">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-primary/10 rounded-xl">
+            <MapPinCheck className="h-7 w-7 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Address Normalizer</h2>
+            <p className="text-muted-foreground">
+              Match typed-in addresses and places of birth to PSGC codes
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/dashboard')}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+          </Button>
+          <Button variant="outline" onClick={loadRows} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle>Confident Matches</CardTitle>
+            <CardDescription>
+              Addresses that resolve to exactly one place in the PSGC data. The names stay as written; only the codes are stored.
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => apply(matched.map(({ row, match }) => toAssignment(row, match)))}
+            disabled={isLoading || isApplying || matched.length === 0}
+          >
+            <CheckCircle2 className="mr-2 h-4 w-4" />
+            Apply {matched.length} Match{matched.length === 1 ? '' : 'es'}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading addresses...</p>
+          ) : matched.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No addresses to normalize automatically.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Record</TableHead>
+                  <TableHead>As Written</TableHead>
+                  <TableHead>PSGC Match</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matched.map(({ row, match }) => (
+                  <TableRow key={rowKey(row)}>
+                    <TableCell>
+                      <div className="font-medium">{row.context}</div>
+                      <Badge variant="outline">{SOURCE_LABELS[row.source]}</Badge>
+                    </TableCell>
+                    <TableCell>{formatWritten(row)}</TableCell>
+                    <TableCell>{formatPsgcMatch(match)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Needs Review</CardTitle>
+          <CardDescription>
+            Addresses with several possible places or none in the PSGC data. Pick the right place and apply each row.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!isLoading && needsReview.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nothing to review.</p>
+          )}
+          {needsReview.map(({ row, result }) => {
+            const pick = picks[rowKey(row)] ?? emptyPick;
+            const candidateMatch = pick.province && pick.city
+              ? { province: pick.province, city: pick.city, barangay: pick.barangay }
+              : null;
+
+            return (
+              <div key={rowKey(row)} className="rounded-lg border p-4 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{row.context}</span>
+                      <Badge variant="outline">{SOURCE_LABELS[row.source]}</Badge>
+                      <Badge variant={result.status === 'ambiguous' ? 'secondary' : 'destructive'}>
+                        {result.status === 'ambiguous' ? 'Ambiguous' : 'No Match'}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">As written: {formatWritten(row) || '—'}</p>
+                    {result.status === 'unmatched' && (
+                      <p className="text-sm text-muted-foreground">{result.reason}</p>
+                    )}
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => candidateMatch && apply([toAssignment(row, candidateMatch)])}
+                    disabled={isApplying || !candidateMatch}
+                  >
+                    Apply
+                  </Button>
+                </div>
+
+                {result.status === 'ambiguous' && (
+                  <Select
+                    value={candidateMatch ? String(result.candidates.findIndex(c =>
+                      c.city.code === candidateMatch.city.code && c.barangay?.code === candidateMatch.barangay?.code
+                    )) : undefined}
+                    onValueChange={(index) => {
+                      const candidate = result.candidates[Number(index)];
+                      setPick(row, { province: candidate.province, city: candidate.city, barangay: candidate.barangay });
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={`Choose one of ${result.candidates.length} places`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {result.candidates.map((candidate, index) => (
+                        <SelectItem key={index} value={String(index)}>{formatPsgcMatch(candidate)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {renderManualPick(row)}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
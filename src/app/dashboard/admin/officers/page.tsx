@@ -0,0 +1,603 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { History, Landmark, MailPlus, RefreshCw, Trash2, UserCog, UserCheck, UserX, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { PsgcCombobox } from '@/components/address/PsgcCombobox';
+import { useToast } from '@/hooks/use-toast';
+import { getPsgcChildren, loadPsgcAreas, type PsgcArea } from '@/lib/psgc';
+import {
+  addOfficerJurisdiction, deleteApplication, getOfficerAccounts, getOfficerRecentActions, getPendingInvitations, inviteOfficer,
+  removeOfficerJurisdiction, revokeOfficerInvitation, setOfficerSuspended, updateOfficerPosition
+} from '@/services/adminService';
+import { formatJurisdiction } from '@/services/officerService';
+import { APPLICATION_TYPE_LABELS } from '@/services/registrationPeriodService';
+import type { Officer, OfficerAccount, OfficerInvitation, OfficerRecentAction } from '@/types';
+
+const POSITIONS: Officer['position'][] = ['Election Officer', 'Board Member'];
+
+const actionLabels: Record<OfficerRecentAction['action'], string> = {
+  set_pending: 'Returned to pending',
+  verify: 'Verified',
+  approve: 'Approved',
+  disapprove: 'Disapproved',
+};
+
+// Province and, optionally, city/municipality picked from the PSGC data
+interface JurisdictionPick {
+  province: PsgcArea | null;
+  city: PsgcArea | null;
+}
+
+const emptyPick: JurisdictionPick = { province: null, city: null };
+
+const emptyInvitation = { email: '', first_name: '', last_name: '', position: 'Election Officer' as Officer['position'] };
+
+const toJurisdiction = (pick: JurisdictionPick) => ({
+  province: pick.province?.name ?? '',
+  province_code: pick.province?.code ?? null,
+  city_municipality: pick.city?.name ?? null,
+  city_municipality_code: pick.city?.code ?? null,
+});
+
+const formatOfficerName = (officer: { first_name: string | null; last_name: string | null }) =>
+  [officer.last_name, officer.first_name].filter(Boolean).join(', ') || 'Unnamed officer';
+
+interface JurisdictionPickerProps {
+  areas: PsgcArea[];
+  value: JurisdictionPick;
+  onChange: (value: JurisdictionPick) => void;
+}
+
+function JurisdictionPicker({ areas, value, onChange }: JurisdictionPickerProps) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      <PsgcCombobox
+        options={getPsgcChildren(areas, 'province', null)}
+        value={value.province?.name ?? ''}
+        code={value.province?.code}
+        placeholder="Province"
+        allowCustom={false}
+        onSelect={(area) => onChange({ province: area, city: null })}
+      />
+      <PsgcCombobox
+        options={value.province ? getPsgcChildren(areas, 'city', value.province.code) : []}
+        value={value.city?.name ?? ''}
+        code={value.city?.code}
+        placeholder="Whole province, or a city / municipality"
+        disabled={!value.province}
+        allowCustom={false}
+        onSelect={(area) => onChange({ ...value, city: area })}
+      />
+    </div>
+  );
+}
+
+export default function OfficerAdministrationPage() {
+  const { toast } = useToast();
+
+  const [officers, setOfficers] = useState<OfficerAccount[]>([]);
+  const [invitations, setInvitations] = useState<OfficerInvitation[]>([]);
+  const [areas, setAreas] = useState<PsgcArea[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [newInvitation, setNewInvitation] = useState(emptyInvitation);
+  const [invitationPlace, setInvitationPlace] = useState<JurisdictionPick>(emptyPick);
+  const [isInviting, setIsInviting] = useState(false);
+
+  const [jurisdictionOfficer, setJurisdictionOfficer] = useState<OfficerAccount | null>(null);
+  const [jurisdictionPlace, setJurisdictionPlace] = useState<JurisdictionPick>(emptyPick);
+  const [isSavingJurisdiction, setIsSavingJurisdiction] = useState(false);
+
+  const [officerToToggle, setOfficerToToggle] = useState<OfficerAccount | null>(null);
+
+  const [applicationToDelete, setApplicationToDelete] = useState('');
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const [activityOfficer, setActivityOfficer] = useState<OfficerAccount | null>(null);
+  const [recentActions, setRecentActions] = useState<OfficerRecentAction[]>([]);
+  const [isLoadingActions, setIsLoadingActions] = useState(false);
+
+  const loadOfficers = async () => {
+    setIsLoading(true);
+    const [officerData, invitationData] = await Promise.all([getOfficerAccounts(), getPendingInvitations()]);
+    setOfficers(officerData);
+    setInvitations(invitationData);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadOfficers();
+    loadPsgcAreas()
+      .then(setAreas)
+      .catch(error => console.error('Error loading PSGC data:', error));
+  }, []);
+
+  // Runs an account change, reporting its error and reloading the lists afterwards
+  const runChange = async (change: () => Promise<void>, success: { title: string; description: string }, failure: string) => {
+    try {
+      await change();
+      toast(success);
+      await loadOfficers();
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : failure,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const isInvitationValid = /\S+@\S+\.\S+/.test(newInvitation.email.trim()) && !!invitationPlace.province;
+
+  const handleInvite = async () => {
+    if (!isInvitationValid) return;
+
+    setIsInviting(true);
+    const email = newInvitation.email.trim();
+    try {
+      const result = await inviteOfficer({
+        ...newInvitation,
+        email,
+        first_name: newInvitation.first_name.trim() || null,
+        last_name: newInvitation.last_name.trim() || null,
+        ...toJurisdiction(invitationPlace),
+      });
+      toast({
+        title: result === 'activated' ? 'Officer Added' : 'Invitation Created',
+        description: result === 'activated'
+          ? `${email} already had an account and is now an officer.`
+          : `${email} becomes an officer on signing up with this email address.`,
+      });
+      setNewInvitation(emptyInvitation);
+      setInvitationPlace(emptyPick);
+      await loadOfficers();
+    } catch (error) {
+      toast({
+        title: 'Invitation Failed',
+        description: error instanceof Error ? error.message : 'Failed to invite the officer.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = (invitation: OfficerInvitation) => runChange(
+    () => revokeOfficerInvitation(invitation.invitation_id),
+    { title: 'Invitation Revoked', description: `The invitation for ${invitation.email} was withdrawn.` },
+    'Failed to revoke the invitation.'
+  );
+
+  const handlePositionChange = (officer: OfficerAccount, position: Officer['position']) => runChange(
+    () => updateOfficerPosition(officer.officer_id, position),
+    { title: 'Position Updated', description: `${formatOfficerName(officer)} is now a ${position}.` },
+    'Failed to update the position.'
+  );
+
+  const handleRemoveJurisdiction = (officer: OfficerAccount, jurisdictionId: number) => runChange(
+    () => removeOfficerJurisdiction(jurisdictionId),
+    { title: 'Jurisdiction Removed', description: `The jurisdiction was removed from ${formatOfficerName(officer)}.` },
+    'Failed to remove the jurisdiction.'
+  );
+
+  const handleAddJurisdiction = async () => {
+    if (!jurisdictionOfficer || !jurisdictionPlace.province) return;
+
+    setIsSavingJurisdiction(true);
+    const jurisdiction = toJurisdiction(jurisdictionPlace);
+    const added = await runChange(
+      () => addOfficerJurisdiction({ officer_id: jurisdictionOfficer.officer_id, ...jurisdiction }),
+      { title: 'Jurisdiction Added', description: `${formatOfficerName(jurisdictionOfficer)} now covers ${formatJurisdiction({ ...jurisdiction, district: null })}.` },
+      'Failed to add the jurisdiction.'
+    );
+    setIsSavingJurisdiction(false);
+
+    if (added) {
+      setJurisdictionOfficer(null);
+      setJurisdictionPlace(emptyPick);
+    }
+  };
+
+  const handleToggleSuspension = async () => {
+    if (!officerToToggle) return;
+
+    const suspend = !officerToToggle.suspended_at;
+    await runChange(
+      () => setOfficerSuspended(officerToToggle.officer_id, suspend),
+      {
+        title: suspend ? 'Officer Suspended' : 'Officer Reactivated',
+        description: suspend
+          ? `${formatOfficerName(officerToToggle)} can no longer use the dashboard.`
+          : `${formatOfficerName(officerToToggle)} can use the dashboard again.`,
+      },
+      'Failed to update the account.'
+    );
+    setOfficerToToggle(null);
+  };
+
+  const handleDeleteApplication = async () => {
+    const applicationId = applicationToDelete.trim();
+    const deleted = await runChange(
+      () => deleteApplication(applicationId),
+      { title: 'Application Deleted', description: `Application ${applicationId} and its records were deleted.` },
+      'Failed to delete the application.'
+    );
+    setIsConfirmingDelete(false);
+    if (deleted) setApplicationToDelete('');
+  };
+
+  const openActivity = async (officer: OfficerAccount) => {
+    setActivityOfficer(officer);
+    setRecentActions([]);
+    setIsLoadingActions(true);
+    setRecentActions(await getOfficerRecentActions(officer.officer_id));
+    setIsLoadingActions(false);
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 bg-white p-6 rounded-xl shadow-sm">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-primary/10 rounded-xl">
+            <UserCog className="h-7 w-7 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Officer Administration</h2>
+            <p className="text-muted-foreground">
+              Invite officers, set their positions and jurisdictions, and suspend accounts
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={loadOfficers} disabled={isLoading}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Invite Officer</CardTitle>
+          <CardDescription>
+            An existing account with this email becomes an officer right away; otherwise the invitation is granted when
+            the person signs up with it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <div>
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={newInvitation.email}
+                onChange={(e) => setNewInvitation(prev => ({ ...prev, email: e.target.value }))}
+                placeholder="officer@comelec.gov.ph"
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="invite-last-name">Last Name</Label>
+              <Input
+                id="invite-last-name"
+                value={newInvitation.last_name}
+                onChange={(e) => setNewInvitation(prev => ({ ...prev, last_name: e.target.value }))}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="invite-first-name">First Name</Label>
+              <Input
+                id="invite-first-name"
+                value={newInvitation.first_name}
+                onChange={(e) => setNewInvitation(prev => ({ ...prev, first_name: e.target.value }))}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="invite-position">Position</Label>
+              <Select
+                value={newInvitation.position}
+                onValueChange={(value) => setNewInvitation(prev => ({ ...prev, position: value as Officer['position'] }))}
+              >
+                <SelectTrigger id="invite-position" className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {POSITIONS.map(position => <SelectItem key={position} value={position}>{position}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label>Jurisdiction</Label>
+            <div className="mt-2">
+              <JurisdictionPicker areas={areas} value={invitationPlace} onChange={setInvitationPlace} />
+            </div>
+          </div>
+          <Button onClick={handleInvite} disabled={!isInvitationValid || isInviting}>
+            <MailPlus className="mr-2 h-4 w-4" />
+            {isInviting ? 'Inviting...' : 'Invite Officer'}
+          </Button>
+
+          {invitations.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pending Invitation</TableHead>
+                  <TableHead>Position</TableHead>
+                  <TableHead>Jurisdiction</TableHead>
+                  <TableHead>Invited</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map(invitation => (
+                  <TableRow key={invitation.invitation_id}>
+                    <TableCell>
+                      <div className="font-medium">{invitation.email}</div>
+                      <div className="text-xs text-muted-foreground">{formatOfficerName(invitation)}</div>
+                    </TableCell>
+                    <TableCell>{invitation.position}</TableCell>
+                    <TableCell>{formatJurisdiction({ ...invitation, district: null })}</TableCell>
+                    <TableCell>{format(new Date(invitation.invited_at), 'MMM d, yyyy')}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleRevoke(invitation)} title="Revoke invitation">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Officers</CardTitle>
+          <CardDescription>
+            Officers only see applications within their jurisdictions. Suspended officers keep their records but cannot
+            use the dashboard until reactivated.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Officer</TableHead>
+                <TableHead>Position</TableHead>
+                <TableHead>Jurisdictions</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">Loading officers...</TableCell>
+                </TableRow>
+              ) : officers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">No officers yet.</TableCell>
+                </TableRow>
+              ) : officers.map(officer => (
+                <TableRow key={officer.officer_id}>
+                  <TableCell>
+                    <div className="font-medium">{formatOfficerName(officer)}</div>
+                    <div className="text-xs text-muted-foreground">{officer.email ?? '—'}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={officer.position}
+                      onValueChange={(value) => handlePositionChange(officer, value as Officer['position'])}
+                    >
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {POSITIONS.map(position => <SelectItem key={position} value={position}>{position}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {officer.jurisdictions.length === 0 && (
+                        <span className="text-xs text-muted-foreground">None; no applications are visible</span>
+                      )}
+                      {officer.jurisdictions.map(jurisdiction => (
+                        <Badge key={jurisdiction.jurisdiction_id} variant="secondary">
+                          {formatJurisdiction(jurisdiction)}
+                          <button
+                            type="button"
+                            className="ml-2 hover:text-destructive"
+                            onClick={() => handleRemoveJurisdiction(officer, jurisdiction.jurisdiction_id)}
+                            title="Remove jurisdiction"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {officer.suspended_at ? (
+                      <Badge variant="destructive" title={`Since ${format(new Date(officer.suspended_at), 'MMM d, yyyy')}`}>Suspended</Badge>
+                    ) : (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Active</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setJurisdictionOfficer(officer)}>
+                        <Landmark className="mr-2 h-4 w-4" />
+                        Add Jurisdiction
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => openActivity(officer)}>
+                        <History className="mr-2 h-4 w-4" />
+                        Activity
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setOfficerToToggle(officer)}>
+                        {officer.suspended_at
+                          ? <><UserCheck className="mr-2 h-4 w-4" />Reactivate</>
+                          : <><UserX className="mr-2 h-4 w-4" />Suspend</>}
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={jurisdictionOfficer !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setJurisdictionOfficer(null);
+            setJurisdictionPlace(emptyPick);
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Add Jurisdiction</AlertDialogTitle>
+            <AlertDialogDescription>
+              {jurisdictionOfficer && formatOfficerName(jurisdictionOfficer)} will also see applications from this place.
+              Leave the city/municipality empty to cover the whole province.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="my-4">
+            <JurisdictionPicker areas={areas} value={jurisdictionPlace} onChange={setJurisdictionPlace} />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSavingJurisdiction}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleAddJurisdiction();
+              }}
+              disabled={!jurisdictionPlace.province || isSavingJurisdiction}
+            >
+              {isSavingJurisdiction ? 'Saving...' : 'Add Jurisdiction'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Delete Application</CardTitle>
+          <CardDescription>
+            Removes an application with its status history, hearing and appointment records. Officers cannot delete
+            records; use this only for applications filed in error.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row gap-4 sm:items-end">
+          <div className="flex-1">
+            <Label htmlFor="delete-application-id">Application ID</Label>
+            <Input
+              id="delete-application-id"
+              value={applicationToDelete}
+              onChange={(e) => setApplicationToDelete(e.target.value)}
+              className="mt-2"
+            />
+          </div>
+          <Button variant="destructive" onClick={() => setIsConfirmingDelete(true)} disabled={!applicationToDelete.trim()}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete Application
+          </Button>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete application {applicationToDelete.trim()}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The application and everything recorded for it are removed permanently. The applicant&apos;s voter record
+              is kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteApplication}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={officerToToggle !== null} onOpenChange={(open) => !open && setOfficerToToggle(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {officerToToggle?.suspended_at ? 'Reactivate' : 'Suspend'} {officerToToggle && formatOfficerName(officerToToggle)}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {officerToToggle?.suspended_at
+                ? 'The officer regains access to the dashboard with their current position and jurisdictions.'
+                : 'The officer loses access to the dashboard and to applications at once. Their past actions are kept.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleToggleSuspension}>
+              {officerToToggle?.suspended_at ? 'Reactivate' : 'Suspend'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={activityOfficer !== null} onOpenChange={(open) => !open && setActivityOfficer(null)}>
+        <AlertDialogContent className="max-w-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Recent Actions — {activityOfficer && formatOfficerName(activityOfficer)}</AlertDialogTitle>
+            <AlertDialogDescription>The officer&apos;s latest status changes, newest first.</AlertDialogDescription>
+          </AlertDialogHeader>
+          {isLoadingActions ? (
+            <p className="text-sm text-muted-foreground">Loading actions...</p>
+          ) : recentActions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No actions recorded for this officer.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Application</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>When</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recentActions.map(action => (
+                  <TableRow key={action.history_id}>
+                    <TableCell className="font-medium">{action.public_facing_id}</TableCell>
+                    <TableCell>{APPLICATION_TYPE_LABELS[action.application_type] ?? action.application_type}</TableCell>
+                    <TableCell>{actionLabels[action.action]}</TableCell>
+                    <TableCell>{format(new Date(action.changed_at), 'MMM d, yyyy h:mm a')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Close</AlertDialogCancel>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
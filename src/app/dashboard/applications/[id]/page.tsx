@@ -1,15 +1,20 @@
 'use client';
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { getApplicationByPublicId, updateApplicationRemarks, updateApplicationStatus, approveApplicationWithVoterRecord, getOfficerAssignments, updateErbHearingDate } from '@/services/applicationService';
+import Link from 'next/link';
+import { getApplicationByPublicId, updateApplicationRemarks, updateApplicationStatus, approveApplicationWithVoterRecord, getOfficerAssignments, getApplicationStatusHistory, getStatusTransitions, getApplicationOutcomeAudit, getApplicantResidences, formatResidence, IllegalStatusTransitionError, StatusReasonRequiredError } from '@/services/applicationService';
+import { getVinError, VIN_FORMAT_HINT } from '@/lib/vin';
+import { getPrecincts, getPrecinctsForAddress, hasPrecinctCapacity, suggestPrecinct } from '@/services/precinctService';
+import { assignApplicationToHearing, formatHearingSchedule, getApplicationHearing, getHearingSessions, removeApplicationFromHearing } from '@/services/erbService';
 import { Badge } from '@/components/ui/badge';
 import { Button, buttonVariants } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, CheckCircle, Edit, FileText, User, MapPin, CalendarDays, Briefcase, Accessibility, Save, XCircle, MessageSquare, Building, Users, ShieldCheck, Trash2, Clock, CreditCard, Camera, X } from 'lucide-react';
+import { ArrowLeft, CheckCircle, Edit, FileText, User, MapPin, CalendarDays, Briefcase, Accessibility, Save, XCircle, MessageSquare, Building, Users, ShieldCheck, Trash2, Clock, CreditCard, Camera } from 'lucide-react';
 import { format } from 'date-fns';
 import {
   AlertDialog,
@@ -22,70 +27,71 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
-
-import Image from "next/image";
-import { Application } from '@/types';
+import { ApplicantResidence, Application, ApplicationHearing, ErbHearingSession, ApplicationOutcomeAudit, ApplicationStatusHistoryEntry, ApplicationStatusTransition, DocumentChecklist, OfficerPermission, Precinct } from '@/types';
+import { ApplicationStatusTimeline } from '@/components/applications/ApplicationStatusTimeline';
+import { DuplicateMatchesCard } from '@/components/applications/DuplicateMatchesCard';
+import { DocumentReviewWorkspace, getUploadedDocumentTypes } from '@/components/applications/DocumentReviewWorkspace';
+import { BiometricsCaptureCard } from '@/components/biometrics/BiometricsCaptureCard';
+import { isChecklistPassed } from '@/lib/documentChecklist';
+import { useOfficerPermissions } from '@/hooks/useOfficerPermissions';
+import { PermissionDeniedError } from '@/services/officerService';
 
-type IdVerificationDialogProps = {
-  imageUrl: string;
-  title: string;
-  description: string;
+// Button presentation for each action in application_status_transition
+const transitionActionInfo: Record<ApplicationStatusTransition['action'], {
+  label: string;
+  icon: React.ElementType;
+  className?: string;
+  variant?: 'default' | 'destructive' | 'outline';
+}> = {
+  verify: { label: 'Mark as Verified', icon: CheckCircle, className: 'bg-blue-600 hover:bg-blue-700' },
+  approve: { label: 'Approve', icon: CheckCircle, className: 'bg-green-600 hover:bg-green-700' },
+  disapprove: { label: 'Disapprove', icon: XCircle, variant: 'destructive' },
+  set_pending: { label: 'Revert to Pending', icon: Clock, variant: 'outline' },
 };
 
-function IdVerificationDialog({ imageUrl, title, description }: IdVerificationDialogProps) {
-  return (
-    <Dialog>
-      <DialogTrigger asChild>
-        <p className="text-sm text-blue-600 cursor-pointer hover:underline">
-          View Image
-        </p>
-      </DialogTrigger>
-      <DialogContent className="max-w-3xl">
-        <DialogHeader>
-          <DialogTitle>{title}</DialogTitle>
-          <DialogDescription>{description}</DialogDescription>
-        </DialogHeader>
-        <div className="relative w-full h-[400px] mt-4">
-          <Image
-            src={imageUrl}
-            alt={title}
-            fill
-            className="object-contain rounded-lg"
-          />
-        </div>
-      </DialogContent>
-    </Dialog>
-  );
-}
+// What the approval dialog asks for, and what approve_application changes, per application type
+const approvalRequirements: Record<Application['applicationType'], {
+  precinct: 'required' | 'optional' | 'none';
+  voterId: boolean;
+  outcome: string;
+}> = {
+  register: { precinct: 'required', voterId: true, outcome: 'A voter record is created with the precinct and voter ID (a VIN is generated if none is entered), the declared address becomes the residence of record, and the voter becomes Active.' },
+  transfer: { precinct: 'required', voterId: false, outcome: 'The voter record is moved to the new precinct and the declared address replaces the residence of record.' },
+  transfer_with_reactivation: { precinct: 'required', voterId: false, outcome: 'The voter record is moved to the new precinct, the declared address replaces the residence of record, open deactivation records are resolved and the voter becomes Active.' },
+  reactivation: { precinct: 'none', voterId: false, outcome: 'Open deactivation records are resolved and the voter becomes Active.' },
+  reinstatement: { precinct: 'optional', voterId: false, outcome: 'Open deactivation records are resolved and the voter becomes Active. A precinct, if given, replaces the current one.' },
+  correction_of_entry: { precinct: 'none', voterId: false, outcome: "The requested value is written to the voter's record. \"Other\" corrections must be applied manually." },
+};
 
 export default function ApplicationDetailsPage() {
   const params = useParams();
   const router = useRouter();
   const { toast } = useToast();
+  const { can, deniedReason } = useOfficerPermissions();
   const [application, setApplication] = useState<any | null>(null);
   const [remarks, setRemarks] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [previewImage, setPreviewImage] = useState<{ url: string; label: string } | null>(null);
+  const [documentChecklist, setDocumentChecklist] = useState<DocumentChecklist>({});
   const [isEditingRemarks, setIsEditingRemarks] = useState(false);
   const [statusUpdateLoading, setStatusUpdateLoading] = useState(false);
-  const [disapprovalReason, setDisapprovalReason] = useState('');
-  const [showDisapprovalDialog, setShowDisapprovalDialog] = useState(false);
+  const [transitionReason, setTransitionReason] = useState('');
+  const [reasonTransition, setReasonTransition] = useState<ApplicationStatusTransition | null>(null);
+  const [statusTransitions, setStatusTransitions] = useState<ApplicationStatusTransition[]>([]);
+  const [outcomeAudit, setOutcomeAudit] = useState<ApplicationOutcomeAudit[]>([]);
+  const [residences, setResidences] = useState<ApplicantResidence[]>([]);
   const [showApprovalDialog, setShowApprovalDialog] = useState(false);
   const [voterInfo, setVoterInfo] = useState({ precinctNumber: '', voterId: '' });
+  const [precincts, setPrecincts] = useState<Precinct[]>([]);
+  const [unresolvedDuplicates, setUnresolvedDuplicates] = useState(0);
+  const [biometricsComplete, setBiometricsComplete] = useState(false);
   const [officerAssignments, setOfficerAssignments] = useState<any[]>([]);
-  const [isEditingErbDate, setIsEditingErbDate] = useState(false);
-  const [erbHearingDate, setErbHearingDate] = useState('');
-  const [erbDateUpdateLoading, setErbDateUpdateLoading] = useState(false);
+  const [statusHistory, setStatusHistory] = useState<ApplicationStatusHistoryEntry[]>([]);
+  const [hearing, setHearing] = useState<ApplicationHearing | null>(null);
+  const [upcomingSessions, setUpcomingSessions] = useState<ErbHearingSession[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState('');
+  const [hearingUpdateLoading, setHearingUpdateLoading] = useState(false);
 
   const id = typeof params.id === 'string' ? params.id : '';
 
@@ -96,8 +102,14 @@ export default function ApplicationDetailsPage() {
       
       Promise.all([
         getApplicationByPublicId(id),
-        getOfficerAssignments(id)
-      ])        .then(([appData, assignments]) => {
+        getOfficerAssignments(id),
+        getApplicationStatusHistory(id),
+        getStatusTransitions(),
+        getApplicationOutcomeAudit(id),
+        getApplicantResidences(id),
+        getApplicationHearing(id),
+        getHearingSessions(format(new Date(), 'yyyy-MM-dd'))
+      ])        .then(([appData, assignments, history, transitions, audit, residenceHistory, hearingData, sessions]) => {
           console.log('[DEBUG] Application data received:', appData);
           console.log('[DEBUG] Application address fields:', {
             houseNumber: appData?.houseNumber,
@@ -119,39 +131,83 @@ export default function ApplicationDetailsPage() {
           if (appData) {
             setApplication(appData);
             setRemarks(appData.remarks || '');
-            setErbHearingDate(appData.erbHearingDate || '');
           } else {
             setApplication(null);
           }
           setOfficerAssignments(assignments || []);
+          setStatusHistory(history);
+          // Start from the checklist saved with the latest verification or disapproval, if any
+          setDocumentChecklist([...history].reverse().find(entry => entry.document_checklist)?.document_checklist ?? {});
+          setStatusTransitions(transitions);
+          setOutcomeAudit(audit);
+          setResidences(residenceHistory);
+          setHearing(hearingData);
+          setUpcomingSessions(sessions);
         })
         .catch(e => {
           setError('Failed to fetch application details.');
           setApplication(null);
           setOfficerAssignments([]);
+          setStatusHistory([]);
         })
         .finally(() => setIsLoading(false));
     }
   }, [id]);
 
-  const handleStatusUpdate = async (newStatus: Application['status'], reasonForDisapproval?: string) => {
+  const handleStatusUpdate = async (newStatus: Application['status'], reason?: string) => {
     if (!application) return;
     
     // For approval, show the voter information dialog instead
     if (newStatus === 'approved') {
+      if (unresolvedDuplicates > 0) {
+        toast({
+          title: 'Possible Duplicate Registration',
+          description: 'Review the possible duplicate registrations below. Approval is blocked until every match is dismissed.',
+          variant: 'destructive'
+        });
+        return;
+      }
+      if (application.applicationType === 'register' && !biometricsComplete) {
+        toast({
+          title: 'Biometrics Incomplete',
+          description: 'Capture both thumbprints, the specimen signature and the photo in the Biometrics section before approving.',
+          variant: 'destructive'
+        });
+        return;
+      }
       setShowApprovalDialog(true);
+      if (approvalRequirements[application.applicationType as Application['applicationType']].precinct !== 'none') {
+        const precinctList = await getPrecincts();
+        setPrecincts(precinctList);
+        // Pre-select the precinct covering the declared barangay; reinstatements keep the current precinct unless changed
+        const suggested = suggestPrecinct(precinctList, application);
+        if (suggested && application.applicationType !== 'reinstatement') {
+          setVoterInfo(prev => ({ ...prev, precinctNumber: prev.precinctNumber || suggested.precinct_number }));
+        }
+      }
+      return;
+    }
+
+    // Registrations carry the document review checklist with their verification or disapproval
+    const isDocumentReview = application.applicationType === 'register' && (newStatus === 'verified' || newStatus === 'disapproved');
+    if (isDocumentReview && newStatus === 'verified' && !isChecklistPassed(documentChecklist, getUploadedDocumentTypes(application))) {
+      toast({
+        title: 'Document Review Incomplete',
+        description: 'Tick every check in the Document Review section before verifying. Disapprove the application if a check fails.',
+        variant: 'destructive'
+      });
       return;
     }
     
     setStatusUpdateLoading(true);
     try {
-      const success = await updateApplicationStatus(application.id, newStatus, reasonForDisapproval);
+      const success = await updateApplicationStatus(application.id, newStatus, reason, isDocumentReview ? documentChecklist : undefined);
       if (success) {
         // Update local application state
         setApplication((prev: any) => ({ 
           ...prev, 
           status: newStatus,
-          reasonForDisapproval: newStatus === 'disapproved' ? reasonForDisapproval : null
+          reasonForDisapproval: newStatus === 'disapproved' ? reason : null
         }));
         
         toast({
@@ -159,14 +215,13 @@ export default function ApplicationDetailsPage() {
           description: `Application ${application.id} has been ${newStatus}.`,
         });
         
-        if (newStatus === 'disapproved') {
-          setShowDisapprovalDialog(false);
-          setDisapprovalReason('');
-        }
+        setReasonTransition(null);
+        setTransitionReason('');
         
-        // Refresh officer assignments after status update
-        const assignments = await getOfficerAssignments(id);
+        // Refresh officer assignments and status history after status update
+        const [assignments, history] = await Promise.all([getOfficerAssignments(id), getApplicationStatusHistory(id)]);
         setOfficerAssignments(assignments || []);
+        setStatusHistory(history);
       } else {
         toast({ 
           title: 'Error', 
@@ -177,8 +232,11 @@ export default function ApplicationDetailsPage() {
     } catch (error) {
       console.error('Error updating status:', error);
       toast({ 
-        title: 'Error', 
-        description: 'Failed to update status.', 
+        title: error instanceof IllegalStatusTransitionError || error instanceof PermissionDeniedError ? 'Status Change Not Allowed'
+          : error instanceof StatusReasonRequiredError ? 'Reason Required' : 'Error', 
+        description: error instanceof IllegalStatusTransitionError
+          ? `${error.message} Refresh the page to see its current status.`
+          : error instanceof PermissionDeniedError || error instanceof StatusReasonRequiredError ? error.message : 'Failed to update status.', 
         variant: 'destructive' 
       });
     } finally {
@@ -186,11 +244,37 @@ export default function ApplicationDetailsPage() {
     }
   };
 
+  const handleTransition = (transition: ApplicationStatusTransition) => {
+    if (transition.requires_reason) {
+      setReasonTransition(transition);
+      return;
+    }
+    handleStatusUpdate(transition.to_status);
+  };
+
   const handleApprovalWithVoterRecord = async () => {
-    if (!application || !voterInfo.precinctNumber.trim() || !voterInfo.voterId.trim()) {
+    if (!application) return;
+    const requirements = approvalRequirements[application.applicationType as Application['applicationType']];
+    if (requirements.precinct === 'required' && !voterInfo.precinctNumber.trim()) {
       toast({
         title: 'Missing Information',
-        description: 'Please provide both precinct number and voter ID.',
+        description: 'Please provide the precinct number.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const vinError = requirements.voterId && voterInfo.voterId.trim() ? getVinError(voterInfo.voterId) : null;
+    if (vinError) {
+      toast({ title: 'Invalid Voter ID', description: vinError, variant: 'destructive' });
+      return;
+    }
+
+    const selectedPrecinct = precincts.find(p => p.precinct_number === voterInfo.precinctNumber);
+    if (voterInfo.precinctNumber && selectedPrecinct && !hasPrecinctCapacity(selectedPrecinct)) {
+      toast({
+        title: 'Precinct Full',
+        description: `Precinct ${selectedPrecinct.precinct_number} is at its capacity of ${selectedPrecinct.capacity} voters.`,
         variant: 'destructive'
       });
       return;
@@ -209,15 +293,23 @@ export default function ApplicationDetailsPage() {
         
         toast({
           title: 'Application Approved',
-          description: `Application ${application.id} has been approved and voter record created.`,
+          description: `Application ${application.id} has been approved and the voter record updated.`,
         });
         
         setShowApprovalDialog(false);
         setVoterInfo({ precinctNumber: '', voterId: '' });
         
-        // Refresh officer assignments after approval
-        const assignments = await getOfficerAssignments(id);
+        // Refresh officer assignments, status history and record changes after approval
+        const [assignments, history, audit, residenceHistory] = await Promise.all([
+          getOfficerAssignments(id),
+          getApplicationStatusHistory(id),
+          getApplicationOutcomeAudit(id),
+          getApplicantResidences(id)
+        ]);
         setOfficerAssignments(assignments || []);
+        setStatusHistory(history);
+        setOutcomeAudit(audit);
+        setResidences(residenceHistory);
       } else {
         toast({ 
           title: 'Error', 
@@ -228,8 +320,10 @@ export default function ApplicationDetailsPage() {
     } catch (error) {
       console.error('Error approving application:', error);
       toast({ 
-        title: 'Error', 
-        description: 'Failed to approve application.', 
+        title: error instanceof IllegalStatusTransitionError || error instanceof PermissionDeniedError ? 'Status Change Not Allowed' : 'Error', 
+        description: error instanceof IllegalStatusTransitionError
+          ? `${error.message} Refresh the page to see its current status.`
+          : error instanceof Error ? error.message : 'Failed to approve application.', 
         variant: 'destructive' 
       });
     } finally {
@@ -242,50 +336,49 @@ export default function ApplicationDetailsPage() {
     setShowDeleteDialog(false);
   };
 
-  const handleErbHearingDateUpdate = async () => {
-    if (!application) return;
-    
-    setErbDateUpdateLoading(true);
+  const handleAssignHearing = async () => {
+    if (!application || !selectedSessionId) return;
+
+    setHearingUpdateLoading(true);
     try {
-      const dateToUpdate = erbHearingDate ? erbHearingDate : null;
-      const success = await updateErbHearingDate(application.id, dateToUpdate);
-      
-      if (success) {
-        setApplication((prev: any) => ({ 
-          ...prev, 
-          erbHearingDate: dateToUpdate
-        }));
-        
-        toast({
-          title: 'ERB Hearing Date Updated',
-          description: dateToUpdate 
-            ? `ERB hearing date set to ${format(new Date(dateToUpdate), 'PPP')}`
-            : 'ERB hearing date cleared',
-        });
-        
-        setIsEditingErbDate(false);
-      } else {
-        toast({ 
-          title: 'Error', 
-          description: 'Failed to update ERB hearing date.', 
-          variant: 'destructive' 
-        });
-      }
+      const docketNumber = await assignApplicationToHearing(application.id, Number(selectedSessionId));
+      const [hearingData, sessions] = await Promise.all([
+        getApplicationHearing(application.id),
+        getHearingSessions(format(new Date(), 'yyyy-MM-dd'))
+      ]);
+      setHearing(hearingData);
+      setUpcomingSessions(sessions);
+      setSelectedSessionId('');
+
+      toast({
+        title: 'ERB Hearing Scheduled',
+        description: `Docket no. ${docketNumber}${hearingData ? ` on ${formatHearingSchedule(hearingData.session)}` : ''}.`,
+      });
     } catch (error) {
-      console.error('Error updating ERB hearing date:', error);
-      toast({ 
-        title: 'Error', 
-        description: 'Failed to update ERB hearing date.', 
-        variant: 'destructive' 
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to schedule ERB hearing.',
+        variant: 'destructive'
       });
     } finally {
-      setErbDateUpdateLoading(false);
+      setHearingUpdateLoading(false);
     }
   };
 
-  const handleCancelErbDateEdit = () => {
-    setErbHearingDate(application?.erbHearingDate || '');
-    setIsEditingErbDate(false);
+  const handleRemoveHearing = async () => {
+    if (!application) return;
+
+    setHearingUpdateLoading(true);
+    const success = await removeApplicationFromHearing(application.id);
+    setHearingUpdateLoading(false);
+
+    if (success) {
+      setHearing(null);
+      setUpcomingSessions(await getHearingSessions(format(new Date(), 'yyyy-MM-dd')));
+      toast({ title: 'ERB Hearing Removed', description: 'The application was removed from the hearing docket.' });
+    } else {
+      toast({ title: 'Error', description: 'Failed to remove the ERB hearing.', variant: 'destructive' });
+    }
   };
 
   const DetailItem = ({ label, value, icon, isBoolean = false }: { label: string; value?: string | number | null | boolean | string[]; icon?: React.ElementType; isBoolean?: boolean }) => {
@@ -418,6 +511,21 @@ export default function ApplicationDetailsPage() {
     '': 'Unknown Type',
   };
 
+  // Transitions leaving the current status; those the officer's position cannot take are hidden with the reason.
+  // Approving a registration also assigns the voter ID.
+  const availableTransitions = statusTransitions.filter(transition => transition.from_status === application.status);
+  const getMissingPermission = (transition: ApplicationStatusTransition): OfficerPermission | null => {
+    if (!can(transition.action)) return transition.action;
+    if (transition.action === 'approve' && application.applicationType === 'register' && !can('assign_vin')) return 'assign_vin';
+    return null;
+  };
+  const deniedTransitionReasons = Array.from(new Set(
+    availableTransitions.flatMap(transition => {
+      const missing = getMissingPermission(transition);
+      return missing ? [deniedReason(missing)] : [];
+    })
+  ));
+
   // Status badge variant
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
@@ -460,70 +568,38 @@ export default function ApplicationDetailsPage() {
               </p>
             </div>
             <div className="flex flex-wrap gap-2">
-              {application.status === 'pending' && (
-                <Button
-                  onClick={() => handleStatusUpdate('verified')}
-                  disabled={statusUpdateLoading}
-                  className="bg-blue-600 hover:bg-blue-700"
-                >
-                  {statusUpdateLoading ? (
-                    <svg className="animate-spin h-4 w-4 mr-2" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                  ) : (
-                    <CheckCircle className="mr-2 h-4 w-4" />
-                  )}
-                  Mark as Verified
-                </Button>
-              )}
-              
-              {(application.status === 'pending' || application.status === 'verified') && (
-                <>
-                  <Button
-                    onClick={() => handleStatusUpdate('approved')}
-                    disabled={statusUpdateLoading}
-                    className="bg-green-600 hover:bg-green-700"
-                  >
-                    {statusUpdateLoading ? (
-                      <svg className="animate-spin h-4 w-4 mr-2" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                      </svg>
-                    ) : (
-                      <CheckCircle className="mr-2 h-4 w-4" />
-                    )}
-                    Approve
-                  </Button>
-                  
-                  <Button
-                    onClick={() => setShowDisapprovalDialog(true)}
-                    disabled={statusUpdateLoading}
-                    variant="destructive"
-                  >
-                    <XCircle className="mr-2 h-4 w-4" />
-                    Disapprove
-                  </Button>
-                </>
-              )}
-              
-              {application.status !== 'pending' && (
-                <Button
-                  onClick={() => handleStatusUpdate('pending')}
-                  disabled={statusUpdateLoading}
-                  variant="outline"
-                >
-                  {statusUpdateLoading ? (
-                    <svg className="animate-spin h-4 w-4 mr-2" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                  ) : (
-                    <Clock className="mr-2 h-4 w-4" />
-                  )}
-                  Revert to Pending
-                </Button>
+              {availableTransitions
+                .filter(transition => !getMissingPermission(transition))
+                .map(transition => {
+                  const { label, icon: ActionIcon, className, variant } = transitionActionInfo[transition.action];
+                  return (
+                    <Button
+                      key={transition.to_status}
+                      onClick={() => handleTransition(transition)}
+                      disabled={statusUpdateLoading}
+                      className={className}
+                      variant={variant}
+                    >
+                      {statusUpdateLoading ? (
+                        <svg className="animate-spin h-4 w-4 mr-2" viewBox="0 0 24 24">
+                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                        </svg>
+                      ) : (
+                        <ActionIcon className="mr-2 h-4 w-4" />
+                      )}
+                      {label}
+                    </Button>
+                  );
+                })}
+              {application.status === 'approved' && (
+                <p className="text-sm text-muted-foreground">
+                  Approved applications are final. Changes to the voter record require a new application.
+                </p>
               )}
+              {deniedTransitionReasons.map(reason => (
+                <p key={reason} className="text-sm text-muted-foreground w-full">{reason}</p>
+              ))}
             </div>
           </div>
           
@@ -535,39 +611,43 @@ export default function ApplicationDetailsPage() {
           )}
         </div>
 
-        {/* Disapproval Dialog */}
-        <AlertDialog open={showDisapprovalDialog} onOpenChange={setShowDisapprovalDialog}>
+        {/* Reason Dialog for transitions that require one (disapproval, returning to pending) */}
+        <AlertDialog open={!!reasonTransition} onOpenChange={(open) => !open && setReasonTransition(null)}>
           <AlertDialogContent>
             <AlertDialogHeader>
-              <AlertDialogTitle>Disapprove Application</AlertDialogTitle>
+              <AlertDialogTitle>
+                {reasonTransition?.action === 'disapprove' ? 'Disapprove Application' : transitionActionInfo[reasonTransition?.action ?? 'set_pending'].label}
+              </AlertDialogTitle>
               <AlertDialogDescription>
-                Please provide a reason for disapproving this application. This will be shown to the applicant.
+                {reasonTransition?.action === 'disapprove'
+                  ? 'Please provide a reason for disapproving this application. This will be shown to the applicant.'
+                  : 'Please provide a reason for moving this application back to pending. This will be recorded in the status history.'}
               </AlertDialogDescription>
             </AlertDialogHeader>
             <div className="my-4">
-              <Label htmlFor="disapproval-reason">Reason for disapproval</Label>
+              <Label htmlFor="transition-reason">Reason</Label>
               <Textarea
-                id="disapproval-reason"
-                value={disapprovalReason}
-                onChange={(e) => setDisapprovalReason(e.target.value)}
-                placeholder="Enter the reason for disapproval..."
+                id="transition-reason"
+                value={transitionReason}
+                onChange={(e) => setTransitionReason(e.target.value)}
+                placeholder="Enter the reason..."
                 rows={4}
                 className="mt-2"
               />
             </div>
             <AlertDialogFooter>
               <AlertDialogCancel onClick={() => {
-                setDisapprovalReason('');
-                setShowDisapprovalDialog(false);
+                setTransitionReason('');
+                setReasonTransition(null);
               }}>
                 Cancel
               </AlertDialogCancel>
               <AlertDialogAction
-                onClick={() => handleStatusUpdate('disapproved', disapprovalReason)}
-                disabled={!disapprovalReason.trim() || statusUpdateLoading}
-                className="bg-red-600 hover:bg-red-700"
+                onClick={() => reasonTransition && handleStatusUpdate(reasonTransition.to_status, transitionReason)}
+                disabled={!transitionReason.trim() || statusUpdateLoading}
+                className={reasonTransition?.action === 'disapprove' ? 'bg-red-600 hover:bg-red-700' : undefined}
               >
-                {statusUpdateLoading ? 'Processing...' : 'Disapprove Application'}
+                {statusUpdateLoading ? 'Processing...' : transitionActionInfo[reasonTransition?.action ?? 'set_pending'].label}
               </AlertDialogAction>
             </AlertDialogFooter>
           </AlertDialogContent>
@@ -579,36 +659,58 @@ export default function ApplicationDetailsPage() {
             <AlertDialogHeader>
               <AlertDialogTitle>Approve Application</AlertDialogTitle>
               <AlertDialogDescription>
-                Please provide voter registration details to complete the approval process.
+                Approving applies this application to the voter's record. Please confirm the details below.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <div className="space-y-4 my-4">
-              <div>
-                <Label htmlFor="precinct-number">Precinct Number</Label>
-                <Input
-                  id="precinct-number"
-                  value={voterInfo.precinctNumber}
-                  onChange={(e) => setVoterInfo(prev => ({ ...prev, precinctNumber: e.target.value }))}
-                  placeholder="e.g., 001-A"
-                  className="mt-2"
-                />
-              </div>
-              <div>
-                <Label htmlFor="voter-id">Voter ID</Label>
-                <Input
-                  id="voter-id"
-                  value={voterInfo.voterId}
-                  onChange={(e) => setVoterInfo(prev => ({ ...prev, voterId: e.target.value }))}
-                  placeholder="e.g., 20250001234"
-                  className="mt-2"
-                />
-              </div>
+              {approvalRequirements[application.applicationType as Application['applicationType']].precinct !== 'none' && (
+                <div>
+                  <Label htmlFor="precinct-number">
+                    {application.applicationType === 'register' ? 'Precinct Number' : 'New Precinct Number'}
+                    {approvalRequirements[application.applicationType as Application['applicationType']].precinct === 'optional' && ' (optional)'}
+                  </Label>
+                  <Select
+                    value={voterInfo.precinctNumber}
+                    onValueChange={(value) => setVoterInfo(prev => ({ ...prev, precinctNumber: value }))}
+                  >
+                    <SelectTrigger id="precinct-number" className="mt-2">
+                      <SelectValue placeholder={precincts.length === 0 ? 'No precincts available' : 'Select a precinct'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {precincts.map(p => (
+                        <SelectItem key={p.precinct_number} value={p.precinct_number} disabled={!hasPrecinctCapacity(p)}>
+                          {p.precinct_number} · {p.barangay}, {p.city_municipality} ({p.registered_voters ?? 0}/{p.capacity})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <PrecinctHint
+                    precinct={precincts.find(p => p.precinct_number === voterInfo.precinctNumber)}
+                    localPrecincts={getPrecinctsForAddress(precincts, application)}
+                    barangay={application.barangay}
+                  />
+                </div>
+              )}
+              {approvalRequirements[application.applicationType as Application['applicationType']].voterId && (
+                <div>
+                  <Label htmlFor="voter-id">Voter ID (optional)</Label>
+                  <Input
+                    id="voter-id"
+                    value={voterInfo.voterId}
+                    onChange={(e) => setVoterInfo(prev => ({ ...prev, voterId: e.target.value }))}
+                    placeholder="Leave blank to generate a VIN"
+                    className="mt-2"
+                  />
+                  <p className={`text-xs mt-1 ${voterInfo.voterId.trim() && getVinError(voterInfo.voterId) ? 'text-red-600' : 'text-muted-foreground'}`}>
+                    {voterInfo.voterId.trim() ? getVinError(voterInfo.voterId) ?? 'Valid VIN.' : `Format: ${VIN_FORMAT_HINT}`}
+                  </p>
+                </div>
+              )}
               <div className="text-xs text-muted-foreground bg-blue-50 p-3 rounded-lg">
-                <p className="font-medium text-blue-900 mb-1">Information Required:</p>
-                <ul className="space-y-1 text-blue-800">
-                  <li>• Precinct Number: The assigned precinct for this voter</li>
-                  <li>• Voter ID: Unique identifier for the voter record</li>
-                </ul>
+                <p className="font-medium text-blue-900 mb-1">On approval:</p>
+                <p className="text-blue-800">
+                  {approvalRequirements[application.applicationType as Application['applicationType']].outcome}
+                </p>
               </div>
             </div>
             <AlertDialogFooter>
@@ -620,7 +722,11 @@ export default function ApplicationDetailsPage() {
               </AlertDialogCancel>
               <AlertDialogAction
                 onClick={handleApprovalWithVoterRecord}
-                disabled={!voterInfo.precinctNumber.trim() || !voterInfo.voterId.trim() || statusUpdateLoading}
+                disabled={
+                  (approvalRequirements[application.applicationType as Application['applicationType']].precinct === 'required' && !voterInfo.precinctNumber.trim()) ||
+                  (approvalRequirements[application.applicationType as Application['applicationType']].voterId && !!voterInfo.voterId.trim() && !!getVinError(voterInfo.voterId)) ||
+                  statusUpdateLoading
+                }
                 className="bg-green-600 hover:bg-green-700"
               >
                 {statusUpdateLoading ? 'Processing...' : 'Approve Application'}
@@ -630,6 +736,19 @@ export default function ApplicationDetailsPage() {
         </AlertDialog>
         
         <CardContent className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {application.applicationType === 'register' && (
+            <DuplicateMatchesCard
+              applicationId={application.id}
+              applicant={{
+                name: `${pi.firstName} ${pi.middleName || ''} ${pi.lastName}`.replace(/\s+/g, ' '),
+                dateOfBirth: pi.dob,
+                placeOfBirth: `${pi.placeOfBirthCityMun}, ${pi.placeOfBirthProvince}`,
+                fatherName: `${cd.fatherFirstName || ''} ${cd.fatherLastName || ''}`.trim(),
+                motherMaidenName: `${cd.motherFirstName || ''} ${cd.motherLastName || ''}`.trim(),
+              }}
+              onUnresolvedChange={setUnresolvedDuplicates}
+            />
+          )}
           <Card>
             <CardHeader><CardTitle className="flex items-center"><User className="mr-2"/>Personal Information</CardTitle></CardHeader>
             <CardContent>
@@ -688,6 +807,28 @@ export default function ApplicationDetailsPage() {
               </div>
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader><CardTitle className="flex items-center"><MapPin className="mr-2"/>Residence of Record</CardTitle></CardHeader>
+            <CardContent>
+              {residences.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No residence of record yet. It is set when a registration or transfer is approved.</p>
+              ) : (
+                <div className="space-y-3">
+                  {residences.map(residence => (
+                    <div key={residence.residence_id} className={residence.effective_to ? 'text-sm text-gray-500' : 'text-sm'}>
+                      <p className="font-medium">
+                        {formatResidence(residence)}
+                        {!residence.effective_to && <Badge variant="secondary" className="ml-2">Current</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(residence.effective_from), 'PPP')} – {residence.effective_to ? format(new Date(residence.effective_to), 'PPP') : 'present'}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
           <Card>
             <CardHeader><CardTitle className="flex items-center"><Building className="mr-2"/>Period of Residence</CardTitle></CardHeader>
             <CardContent>
@@ -824,163 +965,100 @@ export default function ApplicationDetailsPage() {
             </Card>
           )}
           
-          {/* Registration Application Details - ID & Selfie Preview */}
+          {/* Registration Application Details - Document Review Workspace */}
           {application.applicationType === 'register' && (
-            <Card className="lg:col-span-3">
-              <CardHeader><CardTitle className="flex items-center"><FileText className="mr-2"/>ID & Selfie Preview</CardTitle></CardHeader>
-              <CardContent>
-                <div className="flex flex-wrap gap-8">
-                  {application.governmentIdFrontUrl && (
-                    <div>
-                      <div className="font-semibold mb-1">Front ID</div>
-                      <Image
-                        src={application.governmentIdFrontUrl}
-                        alt="Front ID"
-                        width={220}
-                        height={140}
-                        className="rounded border cursor-pointer hover:opacity-80"
-                        onClick={() => setPreviewImage({ url: application.governmentIdFrontUrl, label: 'Front ID' })}
-                      />
-                    </div>
-                  )}
-                  {application.governmentIdBackUrl && (
-                    <div>
-                      <div className="font-semibold mb-1">Back ID</div>
-                      <Image
-                        src={application.governmentIdBackUrl}
-                        alt="Back ID"
-                        width={220}
-                        height={140}
-                        className="rounded border cursor-pointer hover:opacity-80"
-                        onClick={() => setPreviewImage({ url: application.governmentIdBackUrl, label: 'Back ID' })}
-                      />
-                    </div>
-                  )}
-                  {application.idSelfieUrl && (
-                    <div>
-                      <div className="font-semibold mb-1">Selfie with ID</div>
-                      <Image
-                        src={application.idSelfieUrl}
-                        alt="Selfie with ID"
-                        width={140}
-                        height={140}
-                        className="rounded-full border cursor-pointer hover:opacity-80"
-                        onClick={() => setPreviewImage({ url: application.idSelfieUrl, label: 'Selfie with ID' })}
-                      />
-                    </div>
-                  )}
-                  {!(application.governmentIdFrontUrl || application.governmentIdBackUrl || application.idSelfieUrl) && (
-                    <div className="text-muted-foreground">No ID or selfie images uploaded.</div>
-                  )}
-                </div>
-                {/* Floating image modal */}
-                {previewImage && (
-                  <div
-                    className="fixed inset-0 z-50 flex items-center justify-center bg-black/70"
-                    onClick={() => setPreviewImage(null)}
-                  >
-                    <div
-                      className="relative bg-white rounded-lg shadow-lg p-4 max-w-full max-h-full flex flex-col items-center"
-                      onClick={e => e.stopPropagation()}
-                    >
-                      <button
-                        className="absolute top-2 right-2 text-gray-600 hover:text-black"
-                        onClick={() => setPreviewImage(null)}
-                        aria-label="Close preview"
-                      >
-                        <X className="w-6 h-6" />
-                      </button>
-                      <div className="mb-2 font-semibold text-lg">{previewImage.label}</div>
-                      <div className="relative w-[90vw] max-w-2xl h-[60vh] max-h-[80vw]">
-                        <Image
-                          src={previewImage.url}
-                          alt={previewImage.label}
-                          fill
-                          className="object-contain rounded-lg"
-                        />
-                      </div>
-                    </div>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+            <DocumentReviewWorkspace
+              application={application}
+              checklist={documentChecklist}
+              onChecklistChange={setDocumentChecklist}
+              readOnly={!['pending', 'verified'].includes(application.status)}
+            />
+          )}
+
+          {/* Registration Application Details - Biometrics captured at the office visit */}
+          {application.applicationType === 'register' && (
+            <BiometricsCaptureCard
+              applicationId={application.id}
+              readOnly={!['pending', 'verified'].includes(application.status)}
+              onCompleteChange={setBiometricsComplete}
+            />
           )}
           
-          {/* ERB Hearing Date Section */}
+          {/* ERB Hearing Section */}
           <div className="px-6 pb-4 border-b">
           <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
             <div>
-              <h3 className="text-lg font-semibold mb-2">ERB Hearing Date</h3>
-              <p className="text-sm text-muted-foreground">
-                Assign or update the Election Registration Board hearing date
-              </p>
+              <h3 className="text-lg font-semibold mb-2">ERB Hearing</h3>
+              {hearing ? (
+                <div className="text-sm space-y-1">
+                  <p className="flex items-center gap-2">
+                    <CalendarDays className="h-4 w-4 text-muted-foreground" />
+                    {formatHearingSchedule(hearing.session)} · {hearing.session.venue}
+                  </p>
+                  <p className="text-muted-foreground">
+                    Docket no. {hearing.docket_number}
+                    {hearing.decision && <> · Board decision: <span className="capitalize font-medium">{hearing.decision}</span></>}
+                    {' · '}
+                    <Link href={`/dashboard/erb/${hearing.session.session_id}`} className="text-primary hover:underline">View docket</Link>
+                  </p>
+                  {hearing.approval_blocked_reason && (
+                    <p className="text-red-600">
+                      The board&apos;s approval could not be applied: {hearing.approval_blocked_reason} Resolve it, then approve the application.
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {application.status === 'verified'
+                    ? 'Assign this application to an Election Registration Board hearing session'
+                    : 'Only verified applications can be scheduled for an ERB hearing'}
+                </p>
+              )}
             </div>
             <div className="flex flex-wrap gap-2 items-center">
-              {!isEditingErbDate ? (
+              {(application.status === 'verified' || hearing) && !can('schedule_hearing') && (
+                <p className="text-sm text-muted-foreground">{deniedReason('schedule_hearing')}</p>
+              )}
+              {application.status === 'verified' && can('schedule_hearing') && (
                 <>
-                  <div className="flex items-center gap-2">
-                    <CalendarDays className="h-4 w-4 text-muted-foreground" />
-                    <span className="text-sm">
-                      {application.erbHearingDate 
-                        ? format(new Date(application.erbHearingDate), 'PPP')
-                        : 'No hearing date set'
-                      }
-                    </span>
-                  </div>
+                  <Select value={selectedSessionId} onValueChange={setSelectedSessionId}>
+                    <SelectTrigger className="w-[280px]">
+                      <SelectValue placeholder={upcomingSessions.length === 0 ? 'No upcoming sessions' : hearing ? 'Move to session...' : 'Select a session'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {upcomingSessions
+                        .filter(s => s.session_id !== hearing?.session.session_id)
+                        .map(s => (
+                          <SelectItem
+                            key={s.session_id}
+                            value={String(s.session_id)}
+                            disabled={(s.assigned_count ?? 0) >= s.capacity}
+                          >
+                            {format(new Date(`${s.hearing_date}T00:00:00`), 'PPP')} · {s.venue} ({s.assigned_count ?? 0}/{s.capacity})
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
                   <Button
-                    onClick={() => setIsEditingErbDate(true)}
-                    variant="outline"
+                    onClick={handleAssignHearing}
+                    disabled={!selectedSessionId || hearingUpdateLoading}
                     size="sm"
                   >
-                    <Edit className="mr-2 h-4 w-4" />
-                    {application.erbHearingDate ? 'Edit Date' : 'Set Date'}
+                    <Save className="mr-2 h-4 w-4" />
+                    {hearing ? 'Move' : 'Assign'}
                   </Button>
                 </>
-              ) : (
-                <div className="flex items-center gap-2">
-                  <Input
-                    type="date"
-                    value={erbHearingDate}
-                    onChange={(e) => setErbHearingDate(e.target.value)}
-                    className="w-auto"
-                  />
-                  <Button
-                    onClick={handleErbHearingDateUpdate}
-                    disabled={erbDateUpdateLoading}
-                    size="sm"
-                  >
-                    {erbDateUpdateLoading ? (
-                      <svg className="animate-spin h-4 w-4 mr-2" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                      </svg>
-                    ) : (
-                      <Save className="mr-2 h-4 w-4" />
-                    )}
-                    Save
-                  </Button>
-                  <Button
-                    onClick={handleCancelErbDateEdit}
-                    variant="outline"
-                    size="sm"
-                  >
-                    <X className="mr-2 h-4 w-4" />
-                    Cancel
-                  </Button>
-                  {application.erbHearingDate && (
-                    <Button
-                      onClick={() => {
-                        setErbHearingDate('');
-                        handleErbHearingDateUpdate();
-                      }}
-                      variant="destructive"
-                      size="sm"
-                    >
-                      <Trash2 className="mr-2 h-4 w-4" />
-                      Clear
-                    </Button>
-                  )}
-                </div>
+              )}
+              {hearing && can('schedule_hearing') && (
+                <Button
+                  onClick={handleRemoveHearing}
+                  disabled={hearingUpdateLoading}
+                  variant="destructive"
+                  size="sm"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Remove
+                </Button>
               )}
             </div>
           </div>
@@ -1071,6 +1149,57 @@ export default function ApplicationDetailsPage() {
             </CardContent>
           </Card>
           
+          {/* Status History Timeline */}
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Clock className="mr-2 h-5 w-5" />
+                Status History
+              </CardTitle>
+              <CardDescription>Every status change on this application, oldest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ApplicationStatusTimeline entries={statusHistory} showOfficer showDocumentChecklist />
+            </CardContent>
+          </Card>
+
+          {/* Changes applied to the voter's master record on approval */}
+          {outcomeAudit.length > 0 && (
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <FileText className="mr-2 h-5 w-5" />
+                  Voter Record Changes
+                </CardTitle>
+                <CardDescription>Fields changed on the voter's record when this application was approved</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {outcomeAudit.map(audit => {
+                  const changes = diffSnapshots(audit);
+                  return (
+                    <div key={audit.audit_id} className="space-y-2">
+                      <p className="text-xs text-muted-foreground">Applied {format(new Date(audit.applied_at), 'PPP p')}</p>
+                      {audit.notes && <p className="text-sm">{audit.notes}</p>}
+                      {changes.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No fields changed.</p>
+                      ) : (
+                        <div className="rounded-lg border divide-y">
+                          {changes.map(change => (
+                            <div key={change.field} className="grid grid-cols-3 gap-2 p-2 text-sm">
+                              <span className="font-medium text-gray-600">{change.field}</span>
+                              <span className="text-red-700 line-through">{change.before ?? '—'}</span>
+                              <span className="text-green-700">{change.after ?? '—'}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Officer Assignment History */}
           {officerAssignments.length > 0 && (
             <Card className="lg:col-span-3">
@@ -1143,4 +1272,53 @@ function DetailItem({ label, value }: { label: string; value: string | number |
       <span className="text-sm text-gray-900 text-right max-w-xs truncate">{value || 'N/A'}</span>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Flattens the applicant and voter record snapshots and returns the fields whose values changed
+function diffSnapshots(audit: ApplicationOutcomeAudit) {
+  const flatten = (snapshot: ApplicationOutcomeAudit['before_snapshot']) => {
+    const openDeactivations = snapshot.deactivation_records.filter(record => record.status === 'Unresolved').length;
+    return {
+      ...(snapshot.applicant ?? {}),
+      precinct_number: snapshot.voter_record?.precinct_number,
+      voter_id: snapshot.voter_record?.voter_id,
+      residence: snapshot.residence ? formatResidence(snapshot.residence) : undefined,
+      unresolved_deactivations: openDeactivations,
+    } as Record<string, unknown>;
+  };
+  const before = flatten(audit.before_snapshot);
+  const after = flatten(audit.after_snapshot);
+
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({
+      field: field.replace(/_/g, ' '),
+      before: before[field] == null ? null : String(before[field]),
+      after: after[field] == null ? null : String(after[field]),
+    }));
+}
+
+// Details of the precinct picked in the approval dialog, or why none could be suggested
+function PrecinctHint({ precinct, localPrecincts, barangay }: { precinct?: Precinct; localPrecincts: Precinct[]; barangay?: string }) {
+  if (!precinct) {
+    return (
+      <p className="text-xs text-muted-foreground mt-1">
+        {localPrecincts.length === 0
+          ? <>No precinct covers Barangay {barangay || 'N/A'}. <Link href="/dashboard/precincts" className="text-primary hover:underline">Manage precincts</Link></>
+          : localPrecincts.every(p => !hasPrecinctCapacity(p))
+            ? `All precincts in Barangay ${barangay} are at capacity.`
+            : null}
+      </p>
+    );
+  }
+
+  return (
+    <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
+      <p>Polling place: {precinct.polling_place}{precinct.clustered_precinct && ` (clustered precinct ${precinct.clustered_precinct})`}</p>
+      <p>{precinct.registered_voters ?? 0} of {precinct.capacity} voters</p>
+      {!localPrecincts.includes(precinct) && (
+        <p className="text-amber-700">This precinct is not in the declared barangay.</p>
+      )}
+    </div>
+  );
+}
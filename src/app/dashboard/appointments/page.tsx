@@ -0,0 +1,459 @@
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { addDays, format } from 'date-fns';
+import { ArrowLeft, CalendarClock, CalendarDays, CalendarOff, CheckCircle2, Plus, RefreshCw, Trash2, Users, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  addOfficeHoliday, createBiometricsSlots, deleteBiometricsSlot, formatSlotTime, getBiometricsSlots,
+  getDailyAppointments, getOfficeHolidays, markAppointmentAttendance, removeOfficeHoliday
+} from '@/services/appointmentService';
+import type { BiometricsAppointment, BiometricsSlot, OfficeHoliday } from '@/types';
+
+const emptyOfficeDay = { date: '', startTime: '08:00', endTime: '17:00', slotMinutes: 30, capacity: 10 };
+const emptyHoliday = { holiday_date: '', name: '' };
+
+// Slots shown on the calendar, from today
+const CALENDAR_DAYS = 90;
+
+const attendanceInfo: Record<BiometricsAppointment['status'], { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  booked: { label: 'Booked', variant: 'outline' },
+  cancelled: { label: 'Cancelled', variant: 'secondary' },
+  attended: { label: 'Attended', variant: 'default' },
+  missed: { label: 'Missed', variant: 'destructive' },
+};
+
+// Parses a DATE column as a local date (new Date('yyyy-MM-dd') would be UTC midnight)
+const toLocalDate = (date: string) => new Date(`${date}T00:00:00`);
+
+export default function BiometricsAppointmentsPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [slots, setSlots] = useState<BiometricsSlot[]>([]);
+  const [holidays, setHolidays] = useState<OfficeHoliday[]>([]);
+  const [appointments, setAppointments] = useState<BiometricsAppointment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [officeDay, setOfficeDay] = useState(emptyOfficeDay);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newHoliday, setNewHoliday] = useState(emptyHoliday);
+  const [isAddingHoliday, setIsAddingHoliday] = useState(false);
+
+  const selectedDay = format(selectedDate, 'yyyy-MM-dd');
+
+  const loadCalendar = async () => {
+    const today = new Date();
+    const [slotList, holidayList] = await Promise.all([
+      getBiometricsSlots(format(today, 'yyyy-MM-dd'), format(addDays(today, CALENDAR_DAYS), 'yyyy-MM-dd')),
+      getOfficeHolidays(format(today, 'yyyy-MM-dd')),
+    ]);
+    setSlots(slotList);
+    setHolidays(holidayList);
+  };
+
+  const loadDay = async () => {
+    setAppointments(await getDailyAppointments(selectedDay));
+  };
+
+  const loadAll = async () => {
+    setIsLoading(true);
+    await Promise.all([loadCalendar(), loadDay()]);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadCalendar();
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadDay().finally(() => setIsLoading(false));
+  }, [selectedDay]);
+
+  const officeDates = useMemo(() => Array.from(new Set(slots.map(s => s.slot_date))).map(toLocalDate), [slots]);
+  const holidayDates = useMemo(() => holidays.map(h => toLocalDate(h.holiday_date)), [holidays]);
+  const daySlots = slots.filter(s => s.slot_date === selectedDay);
+  const dayHoliday = holidays.find(h => h.holiday_date === selectedDay);
+
+  const handleAttendance = async (appointment: BiometricsAppointment, status: 'attended' | 'missed') => {
+    const success = await markAppointmentAttendance(appointment.application_number, status);
+    if (success) {
+      toast({
+        title: status === 'attended' ? 'Marked as Attended' : 'Marked as Missed',
+        description: `${appointment.application?.applicantName || appointment.application?.id} was marked as ${status}.`,
+      });
+      await loadDay();
+    } else {
+      toast({ title: 'Error', description: 'Failed to record attendance.', variant: 'destructive' });
+    }
+  };
+
+  const handleCreateOfficeDay = async () => {
+    if (!officeDay.date || officeDay.slotMinutes < 5 || officeDay.capacity < 1) return;
+
+    setIsCreating(true);
+    try {
+      const created = await createBiometricsSlots(officeDay);
+      toast({
+        title: 'Office Day Opened',
+        description: created === 0
+          ? `All slots on ${format(toLocalDate(officeDay.date), 'PPP')} already exist.`
+          : `${created} slot${created === 1 ? '' : 's'} opened on ${format(toLocalDate(officeDay.date), 'PPP')}.`,
+      });
+      setSelectedDate(toLocalDate(officeDay.date));
+      setOfficeDay(emptyOfficeDay);
+      await loadCalendar();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to open the office day.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDeleteSlot = async (slot: BiometricsSlot) => {
+    try {
+      await deleteBiometricsSlot(slot.slot_id);
+      toast({ title: 'Slot Removed', description: `${formatSlotTime(slot)} was removed.` });
+      await loadCalendar();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to remove the slot.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAddHoliday = async () => {
+    if (!newHoliday.holiday_date || !newHoliday.name.trim()) return;
+
+    setIsAddingHoliday(true);
+    try {
+      await addOfficeHoliday({ holiday_date: newHoliday.holiday_date, name: newHoliday.name.trim() });
+      toast({
+        title: 'Holiday Added',
+        description: `No appointments can be booked on ${format(toLocalDate(newHoliday.holiday_date), 'PPP')}.`,
+      });
+      setNewHoliday(emptyHoliday);
+      await loadCalendar();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add the holiday.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsAddingHoliday(false);
+    }
+  };
+
+  const handleRemoveHoliday = async (holiday: OfficeHoliday) => {
+    if (await removeOfficeHoliday(holiday.holiday_date)) {
+      toast({ title: 'Holiday Removed', description: `${holiday.name} was removed.` });
+      await loadCalendar();
+    } else {
+      toast({ title: 'Error', description: 'Failed to remove the holiday.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 bg-white p-6 rounded-xl shadow-sm">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-primary/10 rounded-xl">
+            <CalendarClock className="h-7 w-7 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Biometrics Appointments</h2>
+            <p className="text-muted-foreground">
+              Office days, appointment slots and the daily list of applicants
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/dashboard')}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+          </Button>
+          <Button variant="outline" onClick={loadAll} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-xl">
+              <CalendarDays className="mr-2 h-5 w-5" />
+              Calendar
+            </CardTitle>
+            <CardDescription>Highlighted days have appointment slots; holidays are struck through.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col items-center">
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              onSelect={(date) => date && setSelectedDate(date)}
+              modifiers={{ officeDay: officeDates, holiday: holidayDates }}
+              modifiersClassNames={{
+                officeDay: 'bg-primary/15 font-semibold text-primary rounded-md',
+                holiday: 'line-through text-red-600',
+              }}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-xl">Appointments on {format(selectedDate, 'PPP')}</CardTitle>
+            <CardDescription>
+              {dayHoliday
+                ? `The office is closed for ${dayHoliday.name}.`
+                : 'Mark each applicant as attended when they arrive, or as missed after their slot.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {appointments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {isLoading ? 'Loading appointments...' : 'No appointments on this day.'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Applicant</TableHead>
+                    <TableHead>Application</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Attendance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {appointments.map(appointment => (
+                    <TableRow key={appointment.application_number}>
+                      <TableCell className="whitespace-nowrap">{formatSlotTime(appointment.slot)}</TableCell>
+                      <TableCell>{appointment.application?.applicantName || 'N/A'}</TableCell>
+                      <TableCell>
+                        {appointment.application ? (
+                          <Link href={`/dashboard/applications/${appointment.application.id}`} className="text-primary hover:underline">
+                            {appointment.application.id}
+                          </Link>
+                        ) : 'N/A'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={attendanceInfo[appointment.status].variant}>{attendanceInfo[appointment.status].label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleAttendance(appointment, 'attended')}
+                            disabled={appointment.status === 'attended'}
+                          >
+                            <CheckCircle2 className="mr-1 h-4 w-4" />
+                            Attended
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleAttendance(appointment, 'missed')}
+                            disabled={appointment.status === 'missed'}
+                          >
+                            <XCircle className="mr-1 h-4 w-4" />
+                            Missed
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {daySlots.length > 0 && (
+              <div className="mt-6 border-t pt-4">
+                <h4 className="font-semibold mb-3">Slots</h4>
+                <div className="grid gap-2 sm:grid-cols-2 xl:grid-cols-3">
+                  {daySlots.map(slot => (
+                    <div key={slot.slot_id} className="flex items-center justify-between rounded-lg border p-2 text-sm">
+                      <div>
+                        <p className="font-medium">{formatSlotTime(slot)}</p>
+                        <p className="text-xs text-muted-foreground flex items-center">
+                          <Users className="mr-1 h-3 w-3" />
+                          {slot.booked_count} / {slot.capacity}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleDeleteSlot(slot)}
+                        disabled={slot.booked_count > 0}
+                        title={slot.booked_count > 0 ? 'Slots with appointments cannot be removed' : 'Remove slot'}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Open an Office Day</CardTitle>
+            <CardDescription>
+              The office hours are split into slots that applicants can book, each up to its capacity.
+              Holidays and dates outside the registration period cannot be opened.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="sm:col-span-2">
+                <Label htmlFor="office-date">Date</Label>
+                <Input
+                  id="office-date"
+                  type="date"
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  value={officeDay.date}
+                  onChange={(e) => setOfficeDay(prev => ({ ...prev, date: e.target.value }))}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="office-start">Opens</Label>
+                <Input
+                  id="office-start"
+                  type="time"
+                  value={officeDay.startTime}
+                  onChange={(e) => setOfficeDay(prev => ({ ...prev, startTime: e.target.value }))}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="office-end">Closes</Label>
+                <Input
+                  id="office-end"
+                  type="time"
+                  value={officeDay.endTime}
+                  onChange={(e) => setOfficeDay(prev => ({ ...prev, endTime: e.target.value }))}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="office-slot-minutes">Slot Length (minutes)</Label>
+                <Input
+                  id="office-slot-minutes"
+                  type="number"
+                  min={5}
+                  step={5}
+                  value={officeDay.slotMinutes}
+                  onChange={(e) => setOfficeDay(prev => ({ ...prev, slotMinutes: Number(e.target.value) }))}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="office-capacity">Applicants per Slot</Label>
+                <Input
+                  id="office-capacity"
+                  type="number"
+                  min={1}
+                  value={officeDay.capacity}
+                  onChange={(e) => setOfficeDay(prev => ({ ...prev, capacity: Number(e.target.value) }))}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+            <Button
+              className="mt-4"
+              onClick={handleCreateOfficeDay}
+              disabled={!officeDay.date || officeDay.slotMinutes < 5 || officeDay.capacity < 1 || isCreating}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {isCreating ? 'Opening...' : 'Open Office Day'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-xl">
+              <CalendarOff className="mr-2 h-5 w-5" />
+              Office Holidays
+            </CardTitle>
+            <CardDescription>No appointments can be booked on these dates, even if slots were opened.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div>
+                <Label htmlFor="holiday-date">Date</Label>
+                <Input
+                  id="holiday-date"
+                  type="date"
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  value={newHoliday.holiday_date}
+                  onChange={(e) => setNewHoliday(prev => ({ ...prev, holiday_date: e.target.value }))}
+                  className="mt-2"
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <Label htmlFor="holiday-name">Name</Label>
+                <Input
+                  id="holiday-name"
+                  value={newHoliday.name}
+                  onChange={(e) => setNewHoliday(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Independence Day"
+                  className="mt-2"
+                />
+              </div>
+            </div>
+            <Button
+              className="mt-4"
+              onClick={handleAddHoliday}
+              disabled={!newHoliday.holiday_date || !newHoliday.name.trim() || isAddingHoliday}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {isAddingHoliday ? 'Adding...' : 'Add Holiday'}
+            </Button>
+
+            <div className="mt-6 space-y-2">
+              {holidays.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No upcoming holidays.</p>
+              ) : holidays.map(holiday => (
+                <div key={holiday.holiday_date} className="flex items-center justify-between rounded-lg border p-2 text-sm">
+                  <div>
+                    <p className="font-medium">{holiday.name}</p>
+                    <p className="text-xs text-muted-foreground">{format(toLocalDate(holiday.holiday_date), 'EEEE, PPP')}</p>
+                  </div>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRemoveHoliday(holiday)} title="Remove holiday">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { ArrowLeft, CalendarCheck, Pencil, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MILESTONE_TYPE_LABELS, createElectionEvent, deleteElectionEvent, getElectionEvents, getElections, updateElectionEvent
+} from '@/services/electionService';
+import type { Election, ElectionEvent } from '@/types';
+
+const emptyEvent = {
+  title: '',
+  milestone_type: 'registration' as ElectionEvent['milestone_type'],
+  election_id: null as number | null,
+  start_date: '',
+  end_date: '',
+  scope: 'Nationwide',
+  description: '',
+};
+
+// Select value for events not tied to an election
+const NO_ELECTION = 'none';
+
+// Parses a DATE column as a local date (new Date('yyyy-MM-dd') would be UTC midnight)
+const toLocalDate = (date: string) => new Date(`${date}T00:00:00`);
+
+export default function ElectionCalendarManagementPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [events, setEvents] = useState<ElectionEvent[]>([]);
+  const [elections, setElections] = useState<Election[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [form, setForm] = useState(emptyEvent);
+  const [editingEventId, setEditingEventId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [eventToDelete, setEventToDelete] = useState<ElectionEvent | null>(null);
+
+  const loadEvents = async () => {
+    setIsLoading(true);
+    const [eventData, electionData] = await Promise.all([getElectionEvents(), getElections()]);
+    setEvents(eventData);
+    setElections(electionData);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadEvents();
+  }, []);
+
+  const isFormValid = !!form.title.trim() && !!form.scope.trim() && !!form.start_date && !!form.end_date
+    && form.end_date >= form.start_date;
+
+  const resetForm = () => {
+    setForm(emptyEvent);
+    setEditingEventId(null);
+  };
+
+  const startEdit = (event: ElectionEvent) => {
+    setEditingEventId(event.event_id);
+    setForm({
+      title: event.title,
+      milestone_type: event.milestone_type,
+      election_id: event.election_id,
+      start_date: event.start_date,
+      end_date: event.end_date,
+      scope: event.scope,
+      description: event.description ?? '',
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSave = async () => {
+    if (!isFormValid) return;
+
+    const event = {
+      ...form,
+      title: form.title.trim(),
+      scope: form.scope.trim(),
+      description: form.description.trim() || null,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingEventId !== null) {
+        await updateElectionEvent(editingEventId, event);
+        toast({ title: 'Event Updated', description: `${event.title} has been updated.` });
+      } else {
+        await createElectionEvent(event);
+        toast({ title: 'Event Added', description: `${event.title} is now on the election calendar.` });
+      }
+      resetForm();
+      await loadEvents();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save the event.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!eventToDelete) return;
+
+    if (await deleteElectionEvent(eventToDelete.event_id)) {
+      toast({ title: 'Event Deleted', description: `${eventToDelete.title} was removed from the calendar.` });
+      if (editingEventId === eventToDelete.event_id) resetForm();
+      await loadEvents();
+    } else {
+      toast({ title: 'Error', description: 'Failed to delete the event.', variant: 'destructive' });
+    }
+    setEventToDelete(null);
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 bg-white p-6 rounded-xl shadow-sm">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-primary/10 rounded-xl">
+            <CalendarCheck className="h-7 w-7 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Election Calendar</h2>
+            <p className="text-muted-foreground">
+              Milestones shown on the public calendar and in the subscribable .ics feed
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/dashboard')}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+          </Button>
+          <Button variant="outline" onClick={loadEvents} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">{editingEventId !== null ? 'Edit Event' : 'Add Event'}</CardTitle>
+          <CardDescription>Single-day events, such as the last day of registration, use the same start and end date</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="md:col-span-2">
+              <Label htmlFor="event-title">Title</Label>
+              <Input
+                id="event-title"
+                value={form.title}
+                onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="e.g., Last Day of Voter Registration"
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="event-milestone">Milestone</Label>
+              <Select
+                value={form.milestone_type}
+                onValueChange={(value) => setForm(prev => ({ ...prev, milestone_type: value as ElectionEvent['milestone_type'] }))}
+              >
+                <SelectTrigger id="event-milestone" className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(MILESTONE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="event-election">Election</Label>
+              <Select
+                value={form.election_id === null ? NO_ELECTION : String(form.election_id)}
+                onValueChange={(value) => setForm(prev => ({ ...prev, election_id: value === NO_ELECTION ? null : Number(value) }))}
+              >
+                <SelectTrigger id="event-election" className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ELECTION}>None (general announcement)</SelectItem>
+                  {elections.map(election => (
+                    <SelectItem key={election.election_id} value={String(election.election_id)}>{election.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="event-start">Start Date</Label>
+              <Input
+                id="event-start"
+                type="date"
+                value={form.start_date}
+                onChange={(e) => setForm(prev => ({
+                  ...prev,
+                  start_date: e.target.value,
+                  end_date: prev.end_date && prev.end_date >= e.target.value ? prev.end_date : e.target.value,
+                }))}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="event-end">End Date</Label>
+              <Input
+                id="event-end"
+                type="date"
+                min={form.start_date || undefined}
+                value={form.end_date}
+                onChange={(e) => setForm(prev => ({ ...prev, end_date: e.target.value }))}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="event-scope">Scope</Label>
+              <Input
+                id="event-scope"
+                value={form.scope}
+                onChange={(e) => setForm(prev => ({ ...prev, scope: e.target.value }))}
+                placeholder="e.g., Nationwide, or Cebu Province"
+                className="mt-2"
+              />
+            </div>
+            <div className="md:col-span-3">
+              <Label htmlFor="event-description">Description (optional)</Label>
+              <Textarea
+                id="event-description"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Details voters should know, such as office hours or requirements"
+                className="mt-2"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={!isFormValid || isSaving}>
+              {editingEventId !== null ? <Save className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+              {isSaving ? 'Saving...' : editingEventId !== null ? 'Save Changes' : 'Add Event'}
+            </Button>
+            {editingEventId !== null && (
+              <Button variant="ghost" onClick={resetForm}>Cancel</Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader className="border-b">
+          <CardTitle className="text-xl">Events</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead>Milestone</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Election</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    {isLoading ? 'Loading events...' : 'No events are on the election calendar yet.'}
+                  </TableCell>
+                </TableRow>
+              ) : events.map(event => (
+                <TableRow key={event.event_id}>
+                  <TableCell className="font-medium">{event.title}</TableCell>
+                  <TableCell>
+                    <Badge variant={event.milestone_type === 'registration_deadline' ? 'destructive' : 'secondary'}>
+                      {MILESTONE_TYPE_LABELS[event.milestone_type]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {format(toLocalDate(event.start_date), 'PPP')}
+                    {event.end_date !== event.start_date && ` – ${format(toLocalDate(event.end_date), 'PPP')}`}
+                  </TableCell>
+                  <TableCell>{event.election_name ?? '—'}</TableCell>
+                  <TableCell>{event.scope}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => startEdit(event)} title="Edit event">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setEventToDelete(event)} title="Delete event">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!eventToDelete} onOpenChange={(open) => !open && setEventToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Event</AlertDialogTitle>
+            <AlertDialogDescription>
+              {eventToDelete?.title} will be removed from the public calendar and from subscribed calendars on their next refresh.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete Event
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
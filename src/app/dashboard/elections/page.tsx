@@ -0,0 +1,234 @@
+'use client';
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { ArrowLeft, CalendarDays, Plus, RefreshCw, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { createElection, getElections, importElectionParticipation, parseParticipationCsv } from '@/services/electionService';
+import type { Election } from '@/types';
+
+export default function ElectionsPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [elections, setElections] = useState<Election[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [newElection, setNewElection] = useState<{ name: string; election_date: string; election_type: Election['election_type'] }>({
+    name: '',
+    election_date: '',
+    election_type: 'Regular',
+  });
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Election whose participation file is being imported
+  const [importElectionId, setImportElectionId] = useState<number | null>(null);
+
+  const loadElections = async () => {
+    setIsLoading(true);
+    setElections(await getElections());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadElections();
+  }, []);
+
+  const handleCreate = async () => {
+    if (!newElection.name.trim() || !newElection.election_date) return;
+
+    setIsCreating(true);
+    try {
+      await createElection({ ...newElection, name: newElection.name.trim() });
+      toast({ title: 'Election Added', description: `${newElection.name.trim()} has been added.` });
+      setNewElection({ name: '', election_date: '', election_type: 'Regular' });
+      await loadElections();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add election.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const startImport = (electionId: number) => {
+    setImportElectionId(electionId);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || importElectionId === null) return;
+
+    try {
+      const rows = parseParticipationCsv(await file.text());
+      const result = await importElectionParticipation(importElectionId, rows);
+      toast({
+        title: 'Participation Imported',
+        description: `${result.imported} voter${result.imported === 1 ? '' : 's'} imported.` +
+          (result.unmatched.length > 0
+            ? ` ${result.unmatched.length} voter ID${result.unmatched.length === 1 ? '' : 's'} not found: ${result.unmatched.slice(0, 5).join(', ')}${result.unmatched.length > 5 ? ', ...' : ''}`
+            : '') +
+          (result.outside_jurisdiction.length > 0
+            ? ` ${result.outside_jurisdiction.length} voter${result.outside_jurisdiction.length === 1 ? '' : 's'} outside your jurisdiction skipped: ${result.outside_jurisdiction.slice(0, 5).join(', ')}${result.outside_jurisdiction.length > 5 ? ', ...' : ''}`
+            : ''),
+      });
+      await loadElections();
+    } catch (error) {
+      toast({
+        title: 'Import Failed',
+        description: error instanceof Error ? error.message : 'Failed to import participation.',
+        variant: 'destructive',
+      });
+    } finally {
+      setImportElectionId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 bg-white p-6 rounded-xl shadow-sm">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-primary/10 rounded-xl">
+            <CalendarDays className="h-7 w-7 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Elections</h2>
+            <p className="text-muted-foreground">
+              Elections and voter participation from the precinct book of voters
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/dashboard')}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+          </Button>
+          <Button variant="outline" onClick={loadElections} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Add Election</CardTitle>
+          <CardDescription>Only regular elections count toward the two-election deactivation rule</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-4 items-end">
+            <div className="md:col-span-2">
+              <Label htmlFor="election-name">Name</Label>
+              <Input
+                id="election-name"
+                value={newElection.name}
+                onChange={(e) => setNewElection(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., 2025 National and Local Elections"
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="election-date">Date</Label>
+              <Input
+                id="election-date"
+                type="date"
+                value={newElection.election_date}
+                onChange={(e) => setNewElection(prev => ({ ...prev, election_date: e.target.value }))}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="election-type">Type</Label>
+              <Select
+                value={newElection.election_type}
+                onValueChange={(value) => setNewElection(prev => ({ ...prev, election_type: value as Election['election_type'] }))}
+              >
+                <SelectTrigger id="election-type" className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Regular">Regular</SelectItem>
+                  <SelectItem value="Special">Special</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button
+            className="mt-4"
+            onClick={handleCreate}
+            disabled={!newElection.name.trim() || !newElection.election_date || isCreating}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {isCreating ? 'Adding...' : 'Add Election'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader className="border-b">
+          <CardTitle className="text-xl">Elections</CardTitle>
+          <CardDescription className="mt-1">
+            Import a CSV with <code>voter_id</code> and <code>voted</code> (Y/N) columns for each election
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileSelected} />
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Participation Records</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {elections.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    {isLoading ? 'Loading elections...' : 'No elections have been added yet.'}
+                  </TableCell>
+                </TableRow>
+              ) : elections.map(election => (
+                <TableRow key={election.election_id}>
+                  <TableCell className="font-medium">{election.name}</TableCell>
+                  <TableCell>{format(new Date(election.election_date), 'PPP')}</TableCell>
+                  <TableCell>
+                    <Badge variant={election.election_type === 'Regular' ? 'default' : 'secondary'}>
+                      {election.election_type}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{election.participation_count ?? 0}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => startImport(election.election_id)}
+                      disabled={importElectionId !== null}
+                    >
+                      <Upload className="mr-2 h-4 w-4" />
+                      {importElectionId === election.election_id ? 'Importing...' : 'Import CSV'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
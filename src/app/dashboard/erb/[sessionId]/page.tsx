@@ -0,0 +1,536 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft, Gavel, MapPin, Printer, Trash2, UserPlus, Users, Vote, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useOfficerPermissions } from '@/hooks/useOfficerPermissions';
+import { getCurrentOfficerId } from '@/services/applicationService';
+import {
+  addBoardMember, assignApplicationToHearing, castErbBallot, formatBoardMemberName, formatHearingSchedule,
+  getBoardMemberOfficers, getHearingSession, getSessionBoard, getSessionDocket,
+  getUnscheduledVerifiedApplications, removeApplicationFromHearing, removeBoardMember
+} from '@/services/erbService';
+import type { Application, ErbBallot, ErbBoardMember, ErbDocketEntry, ErbHearingSession, Officer } from '@/types';
+
+const applicationTypeLabels: Record<Application['applicationType'], string> = {
+  register: 'Registration',
+  transfer: 'Transfer',
+  reactivation: 'Reactivation',
+  transfer_with_reactivation: 'Transfer with Reactivation',
+  correction_of_entry: 'Correction of Entry',
+  reinstatement: 'Reinstatement',
+};
+
+const decisionBadgeClass: Record<NonNullable<ErbDocketEntry['decision']>, string> = {
+  approved: 'bg-green-100 text-green-800 hover:bg-green-100',
+  disapproved: 'bg-red-100 text-red-800 hover:bg-red-100',
+  deferred: 'bg-amber-100 text-amber-800 hover:bg-amber-100',
+};
+
+const voteLabels: Record<ErbBallot['vote'], string> = {
+  approve: 'Approve',
+  disapprove: 'Disapprove',
+};
+
+// Votes a side needs to decide an application: a majority of the whole board (see cast_erb_ballot)
+const getMajority = (boardSize: number) => Math.floor(boardSize / 2) + 1;
+
+export default function ErbDocketPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can, deniedReason } = useOfficerPermissions();
+  const sessionId = Number(params.sessionId);
+
+  const [session, setSession] = useState<ErbHearingSession | null>(null);
+  const [docket, setDocket] = useState<ErbDocketEntry[]>([]);
+  const [unscheduled, setUnscheduled] = useState<{ id: string; applicationType: string; applicantName: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [applicationToAssign, setApplicationToAssign] = useState('');
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  const [board, setBoard] = useState<ErbBoardMember[]>([]);
+  const [boardOfficers, setBoardOfficers] = useState<Pick<Officer, 'officer_id' | 'first_name' | 'last_name'>[]>([]);
+  const [currentOfficerId, setCurrentOfficerId] = useState<number | null>(null);
+  const [officerToSeat, setOfficerToSeat] = useState('');
+  const [isUpdatingBoard, setIsUpdatingBoard] = useState(false);
+
+  const [ballotEntry, setBallotEntry] = useState<ErbDocketEntry | null>(null);
+  const [vote, setVote] = useState<ErbBallot['vote'] | ''>('');
+  const [voteNotes, setVoteNotes] = useState('');
+  const [isCastingBallot, setIsCastingBallot] = useState(false);
+
+  const loadDocket = async () => {
+    setIsLoading(true);
+    const [sessionData, docketData, unscheduledData, boardData, boardOfficerData, officerId] = await Promise.all([
+      getHearingSession(sessionId),
+      getSessionDocket(sessionId),
+      getUnscheduledVerifiedApplications(),
+      getSessionBoard(sessionId),
+      getBoardMemberOfficers(),
+      getCurrentOfficerId(),
+    ]);
+    setSession(sessionData);
+    setDocket(docketData);
+    setUnscheduled(unscheduledData);
+    setBoard(boardData);
+    setBoardOfficers(boardOfficerData);
+    setCurrentOfficerId(officerId);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (!Number.isNaN(sessionId)) {
+      loadDocket();
+    }
+  }, [sessionId]);
+
+  const handleAssign = async () => {
+    if (!applicationToAssign) return;
+
+    setIsAssigning(true);
+    try {
+      const docketNumber = await assignApplicationToHearing(applicationToAssign, sessionId);
+      toast({
+        title: 'Application Assigned',
+        description: `${applicationToAssign} is docket no. ${docketNumber} for this hearing.`,
+      });
+      setApplicationToAssign('');
+      await loadDocket();
+    } catch (error) {
+      toast({
+        title: 'Assignment Failed',
+        description: error instanceof Error ? error.message : 'Failed to assign application.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handleRemove = async (entry: ErbDocketEntry) => {
+    if (!entry.application) return;
+    if (await removeApplicationFromHearing(entry.application.id)) {
+      toast({ title: 'Removed from Docket', description: `${entry.application.id} was removed from this hearing.` });
+      await loadDocket();
+    } else {
+      toast({ title: 'Error', description: 'Failed to remove application from the docket.', variant: 'destructive' });
+    }
+  };
+
+  const handleSeatMember = async () => {
+    if (!officerToSeat) return;
+
+    setIsUpdatingBoard(true);
+    try {
+      await addBoardMember(sessionId, Number(officerToSeat));
+      setOfficerToSeat('');
+      await loadDocket();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add the board member.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdatingBoard(false);
+    }
+  };
+
+  const handleUnseatMember = async (member: ErbBoardMember) => {
+    setIsUpdatingBoard(true);
+    try {
+      await removeBoardMember(sessionId, member.officer_id);
+      await loadDocket();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to remove the board member.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdatingBoard(false);
+    }
+  };
+
+  const openBallotDialog = (entry: ErbDocketEntry) => {
+    const ownBallot = entry.ballots.find(ballot => ballot.officer_id === currentOfficerId);
+    setBallotEntry(entry);
+    setVote(ownBallot?.vote ?? '');
+    setVoteNotes(ownBallot?.notes ?? '');
+  };
+
+  const handleCastBallot = async () => {
+    if (!ballotEntry || !vote) return;
+
+    setIsCastingBallot(true);
+    try {
+      const { decision, approval_blocked_reason } = await castErbBallot(ballotEntry.application_number, vote, voteNotes);
+      const applicationId = ballotEntry.application?.id;
+      if (approval_blocked_reason) {
+        toast({
+          title: 'Approval Blocked',
+          description: `The board approved ${applicationId}, but the approval could not be applied: ${approval_blocked_reason} It stays verified until an Election Officer approves it.`,
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: decision ? `Application ${decision.charAt(0).toUpperCase()}${decision.slice(1)}` : 'Ballot Recorded',
+          description: decision === 'deferred'
+            ? `The board was split on ${applicationId}; it can be assigned to a later hearing.`
+            : decision
+              ? `The board's majority vote was applied to ${applicationId}.`
+              : `The board decides once ${getMajority(board.length)} of its ${board.length} members agree.`,
+        });
+      }
+      setBallotEntry(null);
+      await loadDocket();
+    } catch (error) {
+      toast({
+        title: 'Ballot Not Recorded',
+        description: error instanceof Error ? error.message : 'Failed to record the ballot.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCastingBallot(false);
+    }
+  };
+
+  if (isLoading && !session) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <svg className="animate-spin h-8 w-8 text-primary" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+        </svg>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="p-8 text-center">
+        <p className="text-muted-foreground mb-4">Hearing session not found.</p>
+        <Button variant="outline" onClick={() => router.push('/dashboard/erb')}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back to ERB Hearings
+        </Button>
+      </div>
+    );
+  }
+
+  const isFull = docket.length >= session.capacity;
+  const isOnBoard = board.some(member => member.officer_id === currentOfficerId);
+  const unseatedOfficers = boardOfficers.filter(officer => !board.some(member => member.officer_id === officer.officer_id));
+  const hasBallots = docket.some(entry => entry.ballots.length > 0);
+  const memberName = (officerId: number) => {
+    const member = board.find(m => m.officer_id === officerId);
+    return member ? formatBoardMemberName(member) : 'Former member';
+  };
+
+  // Why the signed-in officer cannot vote in this hearing, or null when they can
+  const getBallotBlocker = () => {
+    if (!can('record_hearing_decision')) return deniedReason('record_hearing_decision');
+    if (!isOnBoard) return 'You are not on this hearing\'s board.';
+    return null;
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 bg-white p-6 rounded-xl shadow-sm print-hide">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-primary/10 rounded-xl">
+            <Gavel className="h-7 w-7 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Hearing Docket</h2>
+            <p className="text-muted-foreground">{formatHearingSchedule(session)}</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/dashboard/erb')}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to ERB Hearings
+          </Button>
+          <Button variant="outline" onClick={() => window.print()} disabled={docket.length === 0}>
+            <Printer className="mr-2 h-4 w-4" />
+            {hasBallots ? 'Print Minutes' : 'Print Docket'}
+          </Button>
+        </div>
+      </div>
+
+      <Card className="print-hide">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center">
+            <Users className="mr-2 h-5 w-5" />
+            Hearing Board
+          </CardTitle>
+          <CardDescription>
+            {board.length === 0
+              ? 'Seat the Board Members who will vote on this docket.'
+              : `An application is decided once ${getMajority(board.length)} of the ${board.length} members vote the same way; an even split defers it.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {board.map(member => (
+              <Badge key={member.officer_id} variant="secondary" className="text-sm py-1">
+                {formatBoardMemberName(member)}
+                {can('schedule_hearing') && (
+                  <button
+                    type="button"
+                    className="ml-2 hover:text-destructive"
+                    onClick={() => handleUnseatMember(member)}
+                    disabled={isUpdatingBoard}
+                    title="Remove from board"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </Badge>
+            ))}
+          </div>
+          {can('schedule_hearing') && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Select value={officerToSeat} onValueChange={setOfficerToSeat}>
+                <SelectTrigger className="w-full sm:w-[420px]">
+                  <SelectValue placeholder={unseatedOfficers.length === 0 ? 'No other Board Members' : 'Select a Board Member'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {unseatedOfficers.map(officer => (
+                    <SelectItem key={officer.officer_id} value={String(officer.officer_id)}>
+                      {formatBoardMemberName(officer)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleSeatMember} disabled={!officerToSeat || isUpdatingBoard}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                Seat Member
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="print-hide">
+        <CardHeader>
+          <CardTitle className="text-xl">Assign Verified Application</CardTitle>
+          <CardDescription>
+            {!can('schedule_hearing')
+              ? deniedReason('schedule_hearing')
+              : isFull
+                ? `This session is full (${session.capacity} applications).`
+                : `${session.capacity - docket.length} of ${session.capacity} slots remaining.`}
+          </CardDescription>
+        </CardHeader>
+        {can('schedule_hearing') && (
+          <CardContent className="flex flex-col sm:flex-row gap-2">
+            <Select value={applicationToAssign} onValueChange={setApplicationToAssign} disabled={isFull}>
+              <SelectTrigger className="w-full sm:w-[420px]">
+                <SelectValue placeholder={unscheduled.length === 0 ? 'No unscheduled verified applications' : 'Select an application'} />
+              </SelectTrigger>
+              <SelectContent>
+                {unscheduled.map(app => (
+                  <SelectItem key={app.id} value={app.id}>
+                    {app.id} — {app.applicantName} ({applicationTypeLabels[app.applicationType as Application['applicationType']] ?? app.applicationType})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAssign} disabled={!applicationToAssign || isFull || isAssigning}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              {isAssigning ? 'Assigning...' : 'Assign'}
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardContent className="p-6" id="printable-docket-area">
+          <div className="text-center mb-6">
+            <p className="text-xs uppercase tracking-wide">Republic of the Philippines</p>
+            <p className="text-xs font-semibold uppercase tracking-wide">Commission on Elections</p>
+            <h3 className="text-xl font-bold mt-2">
+              Election Registration Board — {hasBallots ? 'Minutes and Resolutions' : 'Hearing Docket'}
+            </h3>
+            <p className="text-sm mt-1">{formatHearingSchedule(session)}</p>
+            <p className="text-sm flex items-center justify-center">
+              <MapPin className="mr-1 h-4 w-4 print-hide" />
+              {session.venue}
+            </p>
+            {session.notes && <p className="text-sm text-muted-foreground mt-1">{session.notes}</p>}
+            {board.length > 0 && (
+              <p className="text-sm mt-2">
+                <span className="font-semibold">Board: </span>
+                {board.map(formatBoardMemberName).join('; ')}
+              </p>
+            )}
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">No.</TableHead>
+                <TableHead>Application</TableHead>
+                <TableHead>Applicant</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Votes</TableHead>
+                <TableHead>Decision</TableHead>
+                <TableHead className="text-right print-hide">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {docket.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                    No applications on this docket yet.
+                  </TableCell>
+                </TableRow>
+              ) : docket.map(entry => (
+                <TableRow key={entry.application_number}>
+                  <TableCell className="font-medium">{entry.docket_number}</TableCell>
+                  <TableCell>
+                    {entry.application ? (
+                      <Link href={`/dashboard/applications/${entry.application.id}`} className="text-primary hover:underline">
+                        {entry.application.id}
+                      </Link>
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell>{entry.application?.applicantName ?? '—'}</TableCell>
+                  <TableCell>{entry.application ? applicationTypeLabels[entry.application.applicationType] : '—'}</TableCell>
+                  <TableCell>
+                    {entry.ballots.length === 0 ? (
+                      <span className="text-sm text-muted-foreground">No votes yet</span>
+                    ) : (
+                      <ul className="space-y-1">
+                        {entry.ballots.map(ballot => (
+                          <li key={ballot.officer_id} className="text-sm">
+                            <span className="font-medium">{memberName(ballot.officer_id)}:</span> {voteLabels[ballot.vote]}
+                            {ballot.notes && <span className="block text-xs text-muted-foreground">{ballot.notes}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {!entry.decision && board.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1 print-hide">
+                        {entry.ballots.length} of {board.length} voted
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {entry.decision ? (
+                      <div>
+                        <Badge className={decisionBadgeClass[entry.decision]}>
+                          <span className="capitalize">{entry.decision}</span>
+                        </Badge>
+                        {entry.decision_notes && <p className="text-xs text-muted-foreground mt-1">{entry.decision_notes}</p>}
+                        {entry.approval_blocked_reason && (
+                          <p className="text-xs text-red-600 mt-1">Approval blocked: {entry.approval_blocked_reason}</p>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Pending</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right print-hide">
+                    <div className="flex justify-end gap-2">
+                      {entry.decision ? null : getBallotBlocker() ? (
+                        <span className="text-xs text-muted-foreground self-center">{getBallotBlocker()}</span>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={() => openBallotDialog(entry)}>
+                          <Vote className="mr-2 h-4 w-4" />
+                          {entry.ballots.some(ballot => ballot.officer_id === currentOfficerId) ? 'Change Vote' : 'Cast Vote'}
+                        </Button>
+                      )}
+                      {can('schedule_hearing') && (
+                        <Button variant="ghost" size="sm" onClick={() => handleRemove(entry)} title="Remove from docket">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {hasBallots && board.length > 0 && (
+            <div className="mt-10">
+              <p className="text-sm">
+                Certified correct by the members of the Election Registration Board:
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-8 mt-10">
+                {board.map(member => (
+                  <div key={member.officer_id} className="text-center">
+                    <div className="border-t border-black pt-1 text-sm font-medium">{formatBoardMemberName(member)}</div>
+                    <div className="text-xs">Board Member</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={ballotEntry !== null} onOpenChange={(open) => !open && setBallotEntry(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Your Vote — {ballotEntry?.application?.id}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Vote on the application of {ballotEntry?.application?.applicantName}. The board&apos;s decision is applied
+              to the application as soon as a majority agrees.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-4 my-4">
+            <div>
+              <Label htmlFor="ballot-vote">Vote</Label>
+              <Select value={vote} onValueChange={(value) => setVote(value as ErbBallot['vote'])}>
+                <SelectTrigger id="ballot-vote" className="mt-2">
+                  <SelectValue placeholder="Select your vote" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="approve">Approve</SelectItem>
+                  <SelectItem value="disapprove">Disapprove</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="ballot-notes">Note {vote === 'disapprove' ? '(grounds for disapproval)' : '(optional)'}</Label>
+              <Textarea
+                id="ballot-notes"
+                value={voteNotes}
+                onChange={(e) => setVoteNotes(e.target.value)}
+                placeholder="e.g., residency requirement not met"
+                className="mt-2"
+              />
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isCastingBallot}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleCastBallot();
+              }}
+              disabled={!vote || (vote === 'disapprove' && !voteNotes.trim()) || isCastingBallot}
+            >
+              {isCastingBallot ? 'Saving...' : 'Cast Vote'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
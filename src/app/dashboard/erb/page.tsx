@@ -0,0 +1,248 @@
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { format, isSameDay } from 'date-fns';
+import { ArrowLeft, CalendarDays, Gavel, MapPin, Plus, RefreshCw, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useOfficerPermissions } from '@/hooks/useOfficerPermissions';
+import { createHearingSession, formatHearingSchedule, getHearingSessions } from '@/services/erbService';
+import type { ErbHearingSession } from '@/types';
+
+const emptySession = { hearing_date: '', start_time: '09:00', venue: '', capacity: 50, notes: '' };
+
+// Parses a DATE column as a local date (new Date('yyyy-MM-dd') would be UTC midnight)
+const toLocalDate = (date: string) => new Date(`${date}T00:00:00`);
+
+export default function ErbHearingsPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can, deniedReason } = useOfficerPermissions();
+
+  const [sessions, setSessions] = useState<ErbHearingSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+
+  const [newSession, setNewSession] = useState(emptySession);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadSessions = async () => {
+    setIsLoading(true);
+    setSessions(await getHearingSessions());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const sessionDates = useMemo(() => sessions.map(s => toLocalDate(s.hearing_date)), [sessions]);
+
+  // Sessions on the selected day, or all upcoming sessions when no day is selected
+  const visibleSessions = useMemo(() => {
+    if (selectedDate) {
+      return sessions.filter(s => isSameDay(toLocalDate(s.hearing_date), selectedDate));
+    }
+    const today = format(new Date(), 'yyyy-MM-dd');
+    return sessions.filter(s => s.hearing_date >= today);
+  }, [sessions, selectedDate]);
+
+  const handleCreate = async () => {
+    if (!newSession.hearing_date || !newSession.venue.trim() || newSession.capacity < 1) return;
+
+    setIsCreating(true);
+    try {
+      await createHearingSession({
+        hearing_date: newSession.hearing_date,
+        start_time: newSession.start_time,
+        venue: newSession.venue.trim(),
+        capacity: newSession.capacity,
+        notes: newSession.notes.trim() || undefined,
+      });
+      toast({
+        title: 'Hearing Scheduled',
+        description: `ERB hearing set for ${format(toLocalDate(newSession.hearing_date), 'PPP')}.`,
+      });
+      setNewSession(emptySession);
+      await loadSessions();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to schedule hearing.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 bg-white p-6 rounded-xl shadow-sm">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-primary/10 rounded-xl">
+            <Gavel className="h-7 w-7 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">ERB Hearings</h2>
+            <p className="text-muted-foreground">
+              Election Registration Board hearing sessions and dockets
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/dashboard')}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+          </Button>
+          <Button variant="outline" onClick={loadSessions} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-xl">
+              <CalendarDays className="mr-2 h-5 w-5" />
+              Calendar
+            </CardTitle>
+            <CardDescription>Highlighted days have hearing sessions. Select a day to filter.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col items-center">
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              onSelect={setSelectedDate}
+              modifiers={{ hearing: sessionDates }}
+              modifiersClassNames={{ hearing: 'bg-primary/15 font-semibold text-primary rounded-md' }}
+            />
+            {selectedDate && (
+              <Button variant="ghost" size="sm" onClick={() => setSelectedDate(undefined)}>
+                Show all upcoming sessions
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-xl">
+              {selectedDate ? `Sessions on ${format(selectedDate, 'PPP')}` : 'Upcoming Sessions'}
+            </CardTitle>
+            <CardDescription>Open a session to assign verified applications, seat its board, print its docket and vote on decisions</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {visibleSessions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {isLoading ? 'Loading sessions...' : 'No hearing sessions.'}
+              </p>
+            ) : visibleSessions.map(session => (
+              <Link
+                key={session.session_id}
+                href={`/dashboard/erb/${session.session_id}`}
+                className="block rounded-lg border p-4 hover:bg-slate-50 transition-colors"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="font-medium">{formatHearingSchedule(session)}</p>
+                  <Badge variant={(session.assigned_count ?? 0) >= session.capacity ? 'destructive' : 'secondary'}>
+                    <Users className="mr-1 h-3 w-3" />
+                    {session.assigned_count ?? 0} / {session.capacity}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground flex items-center mt-1">
+                  <MapPin className="mr-1 h-4 w-4" />
+                  {session.venue}
+                </p>
+              </Link>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Schedule a Hearing</CardTitle>
+          <CardDescription>
+            {can('schedule_hearing')
+              ? 'Verified applications can then be assigned to the session up to its capacity'
+              : deniedReason('schedule_hearing')}
+          </CardDescription>
+        </CardHeader>
+        {can('schedule_hearing') && (
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-4">
+              <div>
+                <Label htmlFor="hearing-date">Date</Label>
+                <Input
+                  id="hearing-date"
+                  type="date"
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  value={newSession.hearing_date}
+                  onChange={(e) => setNewSession(prev => ({ ...prev, hearing_date: e.target.value }))}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="hearing-time">Start Time</Label>
+                <Input
+                  id="hearing-time"
+                  type="time"
+                  value={newSession.start_time}
+                  onChange={(e) => setNewSession(prev => ({ ...prev, start_time: e.target.value }))}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="hearing-venue">Venue</Label>
+                <Input
+                  id="hearing-venue"
+                  value={newSession.venue}
+                  onChange={(e) => setNewSession(prev => ({ ...prev, venue: e.target.value }))}
+                  placeholder="e.g., Office of the Election Officer"
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="hearing-capacity">Capacity</Label>
+                <Input
+                  id="hearing-capacity"
+                  type="number"
+                  min={1}
+                  value={newSession.capacity}
+                  onChange={(e) => setNewSession(prev => ({ ...prev, capacity: Number(e.target.value) }))}
+                  className="mt-2"
+                />
+              </div>
+              <div className="md:col-span-4">
+                <Label htmlFor="hearing-notes">Notes (optional)</Label>
+                <Textarea
+                  id="hearing-notes"
+                  value={newSession.notes}
+                  onChange={(e) => setNewSession(prev => ({ ...prev, notes: e.target.value }))}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+            <Button
+              className="mt-4"
+              onClick={handleCreate}
+              disabled={!newSession.hearing_date || !newSession.venue.trim() || newSession.capacity < 1 || isCreating}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {isCreating ? 'Scheduling...' : 'Schedule Hearing'}
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -12,8 +12,8 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
 
   useEffect(() => {
     if (!isLoading) {
-      // If not loading, and either not authenticated or user is not an officer
-      if (!isAuthenticated || user?.role !== 'officer') {
+      // If not loading, and either not authenticated or user is not an officer or administrator
+      if (!isAuthenticated || (user?.role !== 'officer' && user?.role !== 'admin')) {
         router.push('/'); // Redirect to login
       }
     }
@@ -27,7 +27,7 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
   }
 
   // Also check user role here before rendering
-  if (!isAuthenticated || user?.role !== 'officer') {
+  if (!isAuthenticated || (user?.role !== 'officer' && user?.role !== 'admin')) {
     // This helps prevent flash of content before redirect effect runs
     return null; 
   }
@@ -149,9 +149,13 @@ export default function DashboardPage() {
           ),          application_registration (
             registration_type,
             adult_registration_consent,
-            government_id_front_url,
-            government_id_back_url,
-            id_selfie_url
+            government_id_front_path,
+            government_id_back_path,
+            id_selfie_path,
+            id_quality_score,
+            id_type_code,
+            id_number,
+            accepted_id_type ( name )
           ),
           application_transfer (
             previous_precinct_number,
@@ -251,9 +255,13 @@ export default function DashboardPage() {
             registration: registration ? {
               registrationType: registration.registration_type || 'Regular',
               adultRegistrationConsent: registration.adult_registration_consent,
-              governmentIdFrontUrl: registration.government_id_front_url || '',
-              governmentIdBackUrl: registration.government_id_back_url || '',
-              idSelfieUrl: registration.id_selfie_url || ''
+              governmentIdFrontPath: registration.government_id_front_path || '',
+              governmentIdBackPath: registration.government_id_back_path || '',
+              idSelfiePath: registration.id_selfie_path || '',
+              idQualityScore: registration.id_quality_score,
+              idTypeCode: registration.id_type_code,
+              idTypeName: (Array.isArray(registration.accepted_id_type) ? registration.accepted_id_type[0] : registration.accepted_id_type)?.name,
+              idNumber: registration.id_number
             } : undefined,
             
             transfer: transfer ? {
@@ -281,21 +289,21 @@ export default function DashboardPage() {
             } : undefined,
             
             documents: [
-              ...(registration?.government_id_front_url ? [{
+              ...(registration?.government_id_front_path ? [{
                 name: 'Government ID (Front)',
-                url: registration.government_id_front_url,
+                path: registration.government_id_front_path,
                 type: 'government_id_front' as const,
                 uploadDate: app.application_date
               }] : []),
-              ...(registration?.government_id_back_url ? [{
+              ...(registration?.government_id_back_path ? [{
                 name: 'Government ID (Back)',
-                url: registration.government_id_back_url,
+                path: registration.government_id_back_path,
                 type: 'government_id_back' as const,
                 uploadDate: app.application_date
               }] : []),
-              ...(registration?.id_selfie_url ? [{
+              ...(registration?.id_selfie_path ? [{
                 name: 'ID Selfie',
-                url: registration.id_selfie_url,
+                path: registration.id_selfie_path,
                 type: 'id_selfie' as const,
                 uploadDate: app.application_date
               }] : [])
@@ -0,0 +1,303 @@
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Edit, MapPinned, Plus, RefreshCw, Save, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { createPrecinct, getPrecincts, hasPrecinctCapacity, updatePrecinct } from '@/services/precinctService';
+import type { Precinct } from '@/types';
+
+const emptyPrecinct = {
+  precinct_number: '',
+  barangay: '',
+  city_municipality: '',
+  province: '',
+  locality_code: '',
+  polling_place: '',
+  capacity: 200,
+  clustered_precinct: '',
+};
+
+export default function PrecinctsPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [precincts, setPrecincts] = useState<Precinct[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+
+  const [form, setForm] = useState(emptyPrecinct);
+  // Precinct number being edited; null when adding a new precinct
+  const [editingNumber, setEditingNumber] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPrecincts = async () => {
+    setIsLoading(true);
+    setPrecincts(await getPrecincts());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadPrecincts();
+  }, []);
+
+  const filteredPrecincts = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return precincts;
+    return precincts.filter(p =>
+      [p.precinct_number, p.barangay, p.city_municipality, p.polling_place, p.clustered_precinct ?? '']
+        .some(value => value.toLowerCase().includes(term))
+    );
+  }, [precincts, search]);
+
+  const isFormValid =
+    !!form.precinct_number.trim() &&
+    !!form.barangay.trim() &&
+    !!form.city_municipality.trim() &&
+    !!form.province.trim() &&
+    /^\d{6}$/.test(form.locality_code.trim()) &&
+    !!form.polling_place.trim() &&
+    form.capacity > 0;
+
+  const startEdit = (precinct: Precinct) => {
+    setEditingNumber(precinct.precinct_number);
+    setForm({
+      precinct_number: precinct.precinct_number,
+      barangay: precinct.barangay,
+      city_municipality: precinct.city_municipality,
+      province: precinct.province,
+      locality_code: precinct.locality_code,
+      polling_place: precinct.polling_place,
+      capacity: precinct.capacity,
+      clustered_precinct: precinct.clustered_precinct ?? '',
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingNumber(null);
+    setForm(emptyPrecinct);
+  };
+
+  const handleSave = async () => {
+    if (!isFormValid) return;
+
+    const details = {
+      barangay: form.barangay.trim(),
+      city_municipality: form.city_municipality.trim(),
+      province: form.province.trim(),
+      locality_code: form.locality_code.trim(),
+      polling_place: form.polling_place.trim(),
+      capacity: form.capacity,
+      clustered_precinct: form.clustered_precinct.trim() || null,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingNumber) {
+        await updatePrecinct(editingNumber, details);
+        toast({ title: 'Precinct Updated', description: `Precinct ${editingNumber} has been updated.` });
+      } else {
+        await createPrecinct({ precinct_number: form.precinct_number.trim(), ...details });
+        toast({ title: 'Precinct Added', description: `Precinct ${form.precinct_number.trim()} has been added.` });
+      }
+      cancelEdit();
+      await loadPrecincts();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save precinct.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setField = (field: keyof typeof emptyPrecinct) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm(prev => ({ ...prev, [field]: field === 'capacity' ? Number(e.target.value) : e.target.value }));
+
+  return (
+    <div className="space-y-6 p-4 md:p-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 bg-white p-6 rounded-xl shadow-sm">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-primary/10 rounded-xl">
+            <MapPinned className="h-7 w-7 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Precincts</h2>
+            <p className="text-muted-foreground">
+              Precinct master data used when approving registrations and transfers
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/dashboard')}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+          </Button>
+          <Button variant="outline" onClick={loadPrecincts} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">{editingNumber ? `Edit Precinct ${editingNumber}` : 'Add Precinct'}</CardTitle>
+          <CardDescription>Capacity is the maximum number of active voters that can be assigned to the precinct</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-4">
+            <div>
+              <Label htmlFor="precinct-number">Precinct Number</Label>
+              <Input
+                id="precinct-number"
+                value={form.precinct_number}
+                onChange={setField('precinct_number')}
+                placeholder="e.g., 0001A"
+                maxLength={10}
+                disabled={!!editingNumber}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="precinct-barangay">Barangay</Label>
+              <Input id="precinct-barangay" value={form.barangay} onChange={setField('barangay')} className="mt-2" />
+            </div>
+            <div>
+              <Label htmlFor="precinct-city">City/Municipality</Label>
+              <Input id="precinct-city" value={form.city_municipality} onChange={setField('city_municipality')} className="mt-2" />
+            </div>
+            <div>
+              <Label htmlFor="precinct-province">Province</Label>
+              <Input id="precinct-province" value={form.province} onChange={setField('province')} className="mt-2" />
+            </div>
+            <div>
+              <Label htmlFor="precinct-locality-code">Locality Code</Label>
+              <Input
+                id="precinct-locality-code"
+                value={form.locality_code}
+                onChange={setField('locality_code')}
+                placeholder="e.g., 137404"
+                maxLength={6}
+                inputMode="numeric"
+                className="mt-2"
+              />
+              <p className="text-xs text-muted-foreground mt-1">First six digits of the city/municipality PSGC code; prefixes new voter IDs</p>
+            </div>
+            <div>
+              <Label htmlFor="precinct-polling-place">Polling Place</Label>
+              <Input
+                id="precinct-polling-place"
+                value={form.polling_place}
+                onChange={setField('polling_place')}
+                placeholder="e.g., San Jose Elementary School, Room 3"
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="precinct-capacity">Capacity</Label>
+              <Input
+                id="precinct-capacity"
+                type="number"
+                min={1}
+                value={form.capacity}
+                onChange={setField('capacity')}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="precinct-cluster">Clustered Precinct (optional)</Label>
+              <Input
+                id="precinct-cluster"
+                value={form.clustered_precinct}
+                onChange={setField('clustered_precinct')}
+                maxLength={10}
+                className="mt-2"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2 mt-4">
+            <Button onClick={handleSave} disabled={!isFormValid || isSaving}>
+              {editingNumber ? <Save className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+              {isSaving ? 'Saving...' : editingNumber ? 'Save Changes' : 'Add Precinct'}
+            </Button>
+            {editingNumber && (
+              <Button variant="outline" onClick={cancelEdit} disabled={isSaving}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader className="border-b">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="text-xl">Precincts</CardTitle>
+              <CardDescription className="mt-1">{precincts.length} precinct{precincts.length === 1 ? '' : 's'}</CardDescription>
+            </div>
+            <div className="relative w-full md:w-72">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search precincts..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Precinct</TableHead>
+                <TableHead>Barangay</TableHead>
+                <TableHead>City/Municipality</TableHead>
+                <TableHead>Polling Place</TableHead>
+                <TableHead>Cluster</TableHead>
+                <TableHead>Voters</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredPrecincts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                    {isLoading ? 'Loading precincts...' : 'No precincts found.'}
+                  </TableCell>
+                </TableRow>
+              ) : filteredPrecincts.map(precinct => (
+                <TableRow key={precinct.precinct_number}>
+                  <TableCell className="font-medium">{precinct.precinct_number}</TableCell>
+                  <TableCell>{precinct.barangay}</TableCell>
+                  <TableCell>{precinct.city_municipality}, {precinct.province}</TableCell>
+                  <TableCell>{precinct.polling_place}</TableCell>
+                  <TableCell>{precinct.clustered_precinct || '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant={hasPrecinctCapacity(precinct) ? 'secondary' : 'destructive'}>
+                      {precinct.registered_voters ?? 0} / {precinct.capacity}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" onClick={() => startEdit(precinct)}>
+                      <Edit className="mr-2 h-4 w-4" />
+                      Edit
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { ArrowLeft, CalendarRange, MapPin, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  APPLICATION_TYPES, APPLICATION_TYPE_LABELS, createRegistrationPeriod, createRegistrationPeriodOverride,
+  deleteRegistrationPeriod, deleteRegistrationPeriodOverride, getRegistrationPeriods
+} from '@/services/registrationPeriodService';
+import type { Application, RegistrationPeriod } from '@/types';
+
+const emptyPeriod = { name: '', start_date: '', end_date: '', allowed_application_types: APPLICATION_TYPES };
+const emptyOverride = { city_municipality: '', province: '', start_date: '', end_date: '', allowed_application_types: [] as Application['applicationType'][], reason: '' };
+
+// Parses a DATE column as a local date (new Date('yyyy-MM-dd') would be UTC midnight)
+const toLocalDate = (date: string) => new Date(`${date}T00:00:00`);
+
+const formatRange = (start: string, end: string) =>
+  `${format(toLocalDate(start), 'MMM d, yyyy')} – ${format(toLocalDate(end), 'MMM d, yyyy')}`;
+
+const getPeriodState = (period: Pick<RegistrationPeriod, 'start_date' | 'end_date'>) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  if (period.end_date < today) return { label: 'Ended', variant: 'secondary' as const };
+  if (period.start_date > today) return { label: 'Upcoming', variant: 'outline' as const };
+  return { label: 'Open', variant: 'default' as const };
+};
+
+interface ApplicationTypeCheckboxesProps {
+  idPrefix: string;
+  value: Application['applicationType'][];
+  onChange: (value: Application['applicationType'][]) => void;
+}
+
+function ApplicationTypeCheckboxes({ idPrefix, value, onChange }: ApplicationTypeCheckboxesProps) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+      {APPLICATION_TYPES.map(type => (
+        <div key={type} className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-${type}`}
+            checked={value.includes(type)}
+            onCheckedChange={(checked) => onChange(
+              checked === true ? APPLICATION_TYPES.filter(t => t === type || value.includes(t)) : value.filter(t => t !== type)
+            )}
+          />
+          <Label htmlFor={`${idPrefix}-${type}`} className="text-sm font-normal">{APPLICATION_TYPE_LABELS[type]}</Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function RegistrationPeriodsPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [periods, setPeriods] = useState<RegistrationPeriod[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [newPeriod, setNewPeriod] = useState(emptyPeriod);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const [overridePeriodId, setOverridePeriodId] = useState<number | null>(null);
+  const [newOverride, setNewOverride] = useState(emptyOverride);
+  const [isSavingOverride, setIsSavingOverride] = useState(false);
+
+  const [periodToDelete, setPeriodToDelete] = useState<RegistrationPeriod | null>(null);
+
+  const loadPeriods = async () => {
+    setIsLoading(true);
+    setPeriods(await getRegistrationPeriods());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadPeriods();
+  }, []);
+
+  const isPeriodValid = !!newPeriod.name.trim() && !!newPeriod.start_date && !!newPeriod.end_date
+    && newPeriod.end_date >= newPeriod.start_date;
+
+  const handleCreatePeriod = async () => {
+    if (!isPeriodValid) return;
+
+    setIsCreating(true);
+    try {
+      await createRegistrationPeriod({ ...newPeriod, name: newPeriod.name.trim() });
+      toast({ title: 'Registration Period Added', description: `${newPeriod.name.trim()}: ${formatRange(newPeriod.start_date, newPeriod.end_date)}.` });
+      setNewPeriod(emptyPeriod);
+      await loadPeriods();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add the registration period.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDeletePeriod = async () => {
+    if (!periodToDelete) return;
+
+    if (await deleteRegistrationPeriod(periodToDelete.period_id)) {
+      toast({ title: 'Registration Period Deleted', description: `${periodToDelete.name} was deleted.` });
+      await loadPeriods();
+    } else {
+      toast({ title: 'Error', description: 'Failed to delete the registration period.', variant: 'destructive' });
+    }
+    setPeriodToDelete(null);
+  };
+
+  const openOverrideForm = (period: RegistrationPeriod) => {
+    setOverridePeriodId(period.period_id);
+    setNewOverride({
+      ...emptyOverride,
+      start_date: period.start_date,
+      end_date: period.end_date,
+      allowed_application_types: period.allowed_application_types,
+    });
+  };
+
+  const isOverrideValid = !!newOverride.city_municipality.trim() && !!newOverride.province.trim()
+    && !!newOverride.start_date && !!newOverride.end_date && newOverride.end_date >= newOverride.start_date;
+
+  const handleCreateOverride = async () => {
+    if (overridePeriodId === null || !isOverrideValid) return;
+
+    setIsSavingOverride(true);
+    try {
+      await createRegistrationPeriodOverride({
+        ...newOverride,
+        period_id: overridePeriodId,
+        city_municipality: newOverride.city_municipality.trim(),
+        province: newOverride.province.trim(),
+        reason: newOverride.reason.trim() || null,
+      });
+      toast({ title: 'Override Added', description: `${newOverride.city_municipality.trim()}, ${newOverride.province.trim()} now follows its own dates.` });
+      setOverridePeriodId(null);
+      setNewOverride(emptyOverride);
+      await loadPeriods();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add the override.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingOverride(false);
+    }
+  };
+
+  const handleDeleteOverride = async (overrideId: number) => {
+    if (await deleteRegistrationPeriodOverride(overrideId)) {
+      toast({ title: 'Override Removed', description: 'The municipality follows the period again.' });
+      await loadPeriods();
+    } else {
+      toast({ title: 'Error', description: 'Failed to remove the override.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 bg-white p-6 rounded-xl shadow-sm">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-primary/10 rounded-xl">
+            <CalendarRange className="h-7 w-7 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Registration Periods</h2>
+            <p className="text-muted-foreground">
+              When applications are accepted, which types, and municipality exceptions
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/dashboard')}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+          </Button>
+          <Button variant="outline" onClick={loadPeriods} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Periods</CardTitle>
+          <CardDescription>
+            Outside every period, no application is accepted. While no period is configured, every application type is accepted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {periods.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {isLoading ? 'Loading registration periods...' : 'No registration periods configured.'}
+            </p>
+          ) : periods.map(period => {
+            const state = getPeriodState(period);
+            return (
+              <div key={period.period_id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold">{period.name}</p>
+                      <Badge variant={state.variant}>{state.label}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{formatRange(period.start_date, period.end_date)}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openOverrideForm(period)}>
+                      <MapPin className="mr-2 h-4 w-4" />
+                      Add Municipality Override
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setPeriodToDelete(period)} title="Delete period">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-1">
+                  {APPLICATION_TYPES.map(type => (
+                    <Badge
+                      key={type}
+                      variant={period.allowed_application_types.includes(type) ? 'secondary' : 'outline'}
+                      className={period.allowed_application_types.includes(type) ? undefined : 'line-through text-muted-foreground'}
+                    >
+                      {APPLICATION_TYPE_LABELS[type]}
+                    </Badge>
+                  ))}
+                </div>
+
+                {period.overrides.length > 0 && (
+                  <div className="border-t pt-3 space-y-2">
+                    <p className="text-sm font-medium">Municipality Overrides</p>
+                    {period.overrides.map(override => (
+                      <div key={override.override_id} className="flex items-start justify-between gap-2 rounded bg-muted/40 p-2 text-sm">
+                        <div>
+                          <p className="font-medium">{override.city_municipality}, {override.province}</p>
+                          <p className="text-muted-foreground">
+                            {formatRange(override.start_date, override.end_date)} ·{' '}
+                            {override.allowed_application_types.length === 0
+                              ? 'No application types'
+                              : override.allowed_application_types.map(type => APPLICATION_TYPE_LABELS[type]).join(', ')}
+                          </p>
+                          {override.reason && <p className="text-xs text-muted-foreground">{override.reason}</p>}
+                        </div>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDeleteOverride(override.override_id)} title="Remove override">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {overridePeriodId === period.period_id && (
+                  <div className="border-t pt-3 space-y-4">
+                    <p className="text-sm font-medium">New Municipality Override</p>
+                    <div className="grid gap-4 md:grid-cols-4">
+                      <div>
+                        <Label htmlFor="override-city">City/Municipality</Label>
+                        <Input
+                          id="override-city"
+                          value={newOverride.city_municipality}
+                          onChange={(e) => setNewOverride(prev => ({ ...prev, city_municipality: e.target.value }))}
+                          className="mt-2"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="override-province">Province</Label>
+                        <Input
+                          id="override-province"
+                          value={newOverride.province}
+                          onChange={(e) => setNewOverride(prev => ({ ...prev, province: e.target.value }))}
+                          className="mt-2"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="override-start">Start Date</Label>
+                        <Input
+                          id="override-start"
+                          type="date"
+                          value={newOverride.start_date}
+                          onChange={(e) => setNewOverride(prev => ({ ...prev, start_date: e.target.value }))}
+                          className="mt-2"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="override-end">End Date</Label>
+                        <Input
+                          id="override-end"
+                          type="date"
+                          min={newOverride.start_date || undefined}
+                          value={newOverride.end_date}
+                          onChange={(e) => setNewOverride(prev => ({ ...prev, end_date: e.target.value }))}
+                          className="mt-2"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <Label className="mb-2 block">Accepted Application Types</Label>
+                      <ApplicationTypeCheckboxes
+                        idPrefix={`override-${period.period_id}`}
+                        value={newOverride.allowed_application_types}
+                        onChange={(types) => setNewOverride(prev => ({ ...prev, allowed_application_types: types }))}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="override-reason">Reason shown to applicants (optional)</Label>
+                      <Input
+                        id="override-reason"
+                        value={newOverride.reason}
+                        onChange={(e) => setNewOverride(prev => ({ ...prev, reason: e.target.value }))}
+                        placeholder="e.g., Registration is suspended for the plebiscite on March 15."
+                        className="mt-2"
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button onClick={handleCreateOverride} disabled={!isOverrideValid || isSavingOverride}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        {isSavingOverride ? 'Saving...' : 'Add Override'}
+                      </Button>
+                      <Button variant="ghost" onClick={() => setOverridePeriodId(null)}>Cancel</Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Add a Registration Period</CardTitle>
+          <CardDescription>Applications of the checked types are accepted from the start date through the end date</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div>
+              <Label htmlFor="period-name">Name</Label>
+              <Input
+                id="period-name"
+                value={newPeriod.name}
+                onChange={(e) => setNewPeriod(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., 2028 National Elections Registration"
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="period-start">Start Date</Label>
+              <Input
+                id="period-start"
+                type="date"
+                value={newPeriod.start_date}
+                onChange={(e) => setNewPeriod(prev => ({ ...prev, start_date: e.target.value }))}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="period-end">End Date</Label>
+              <Input
+                id="period-end"
+                type="date"
+                min={newPeriod.start_date || undefined}
+                value={newPeriod.end_date}
+                onChange={(e) => setNewPeriod(prev => ({ ...prev, end_date: e.target.value }))}
+                className="mt-2"
+              />
+            </div>
+          </div>
+          <div>
+            <Label className="mb-2 block">Accepted Application Types</Label>
+            <ApplicationTypeCheckboxes
+              idPrefix="period"
+              value={newPeriod.allowed_application_types}
+              onChange={(types) => setNewPeriod(prev => ({ ...prev, allowed_application_types: types }))}
+            />
+          </div>
+          <Button onClick={handleCreatePeriod} disabled={!isPeriodValid || isCreating}>
+            <Plus className="mr-2 h-4 w-4" />
+            {isCreating ? 'Adding...' : 'Add Period'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!periodToDelete} onOpenChange={(open) => !open && setPeriodToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Registration Period</AlertDialogTitle>
+            <AlertDialogDescription>
+              {periodToDelete?.name} and its municipality overrides will be deleted. Applications already filed are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeletePeriod} className="bg-red-600 hover:bg-red-700">
+              Delete Period
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
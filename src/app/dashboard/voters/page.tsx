@@ -0,0 +1,473 @@
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { ArrowLeft, RefreshCw, RotateCcw, Search, UserX, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useOfficerPermissions } from '@/hooks/useOfficerPermissions';
+import { DEACTIVATION_REASONS, deactivateVoters, getDeactivationRecords, getVoters, reissueVoterId } from '@/services/voterService';
+import { getTwoMissDeactivationCandidates } from '@/services/electionService';
+import type { DeactivationCandidate, DeactivationReason, DeactivationRecord, VoterSummary } from '@/types';
+
+type VoterName = Pick<VoterSummary, 'applicant_id' | 'first_name' | 'last_name' | 'middle_name'>;
+
+const TWO_MISS_REASON: DeactivationReason = 'Failed to vote in two (2) successive preceding regular elections;';
+
+const formatVoterName = (voter: VoterName) =>
+  `${voter.last_name}, ${voter.first_name}${voter.middle_name ? ` ${voter.middle_name}` : ''}`;
+
+export default function VotersPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can, deniedReason } = useOfficerPermissions();
+
+  const [activeVoters, setActiveVoters] = useState<VoterSummary[]>([]);
+  const [deactivationRecords, setDeactivationRecords] = useState<DeactivationRecord[]>([]);
+  const [candidates, setCandidates] = useState<DeactivationCandidate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  // Voters targeted by the open deactivation dialog (one voter or the current selection)
+  const [deactivationTargets, setDeactivationTargets] = useState<VoterName[]>([]);
+  const [deactivationReason, setDeactivationReason] = useState<DeactivationReason | ''>('');
+  const [deactivationDate, setDeactivationDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [isDeactivating, setIsDeactivating] = useState(false);
+
+  const [reissuingId, setReissuingId] = useState<number | null>(null);
+
+  const [reasonFilter, setReasonFilter] = useState<string>('all');
+  const [resolutionFilter, setResolutionFilter] = useState<string>('all');
+
+  const loadVoters = async () => {
+    setIsLoading(true);
+    const [voters, records, twoMissCandidates] = await Promise.all([
+      getVoters('Active'),
+      getDeactivationRecords({
+        reason: reasonFilter === 'all' ? undefined : reasonFilter as DeactivationReason,
+        status: resolutionFilter === 'all' ? undefined : resolutionFilter as DeactivationRecord['status'],
+      }),
+      getTwoMissDeactivationCandidates(),
+    ]);
+    setActiveVoters(voters);
+    setDeactivationRecords(records);
+    setCandidates(twoMissCandidates);
+    setSelectedIds(ids => ids.filter(id => voters.some(v => v.applicant_id === id)));
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadVoters();
+  }, [reasonFilter, resolutionFilter]);
+
+  const filteredVoters = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return activeVoters;
+    return activeVoters.filter(voter =>
+      formatVoterName(voter).toLowerCase().includes(term) ||
+      voter.voter_id?.toLowerCase().includes(term) ||
+      voter.precinct_number?.toLowerCase().includes(term)
+    );
+  }, [activeVoters, searchTerm]);
+
+  const allFilteredSelected = filteredVoters.length > 0 && filteredVoters.every(v => selectedIds.includes(v.applicant_id));
+
+  const toggleSelectAll = (checked: boolean) => {
+    const filteredIds = filteredVoters.map(v => v.applicant_id);
+    setSelectedIds(ids => checked
+      ? Array.from(new Set([...ids, ...filteredIds]))
+      : ids.filter(id => !filteredIds.includes(id)));
+  };
+
+  const toggleSelected = (applicantId: number, checked: boolean) => {
+    setSelectedIds(ids => checked ? [...ids, applicantId] : ids.filter(id => id !== applicantId));
+  };
+
+  const openDeactivationDialog = (targets: VoterName[], reason: DeactivationReason | '' = '') => {
+    setDeactivationTargets(targets);
+    setDeactivationReason(reason);
+    setDeactivationDate(format(new Date(), 'yyyy-MM-dd'));
+  };
+
+  const handleDeactivate = async () => {
+    if (!deactivationReason || !deactivationDate) return;
+
+    setIsDeactivating(true);
+    try {
+      const count = await deactivateVoters(
+        deactivationTargets.map(v => v.applicant_id),
+        deactivationReason,
+        deactivationDate
+      );
+      const skipped = deactivationTargets.length - count;
+      toast({
+        title: 'Voters Deactivated',
+        description: `${count} voter${count === 1 ? '' : 's'} deactivated and notified.` +
+          (skipped > 0 ? ` ${skipped} skipped because they were no longer active.` : ''),
+      });
+      setDeactivationTargets([]);
+      setSelectedIds([]);
+      await loadVoters();
+    } catch (error) {
+      toast({
+        title: 'Deactivation Failed',
+        description: error instanceof Error ? error.message : 'Failed to deactivate voters.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDeactivating(false);
+    }
+  };
+
+  const handleReissueVoterId = async (voter: VoterSummary) => {
+    setReissuingId(voter.applicant_id);
+    try {
+      const voterId = await reissueVoterId(voter.applicant_id);
+      toast({
+        title: 'Voter ID Reissued',
+        description: `${formatVoterName(voter)} now has voter ID ${voterId} and has been notified.`,
+      });
+      await loadVoters();
+    } catch (error) {
+      toast({
+        title: 'Reissue Failed',
+        description: error instanceof Error ? error.message : 'Failed to reissue voter ID.',
+        variant: 'destructive',
+      });
+    } finally {
+      setReissuingId(null);
+    }
+  };
+
+  const selectedVoters = activeVoters.filter(v => selectedIds.includes(v.applicant_id));
+  const flaggedCount = activeVoters.filter(v => v.voter_id_flagged).length;
+
+  return (
+    <div className="space-y-6 p-4 md:p-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 bg-white p-6 rounded-xl shadow-sm">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-primary/10 rounded-xl">
+            <Users className="h-7 w-7 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-3xl font-bold tracking-tight">Voters</h2>
+            <p className="text-muted-foreground">
+              Deactivate voters and review deactivation records
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/dashboard')}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+          </Button>
+          <Button variant="outline" onClick={loadVoters} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Tabs defaultValue="active">
+        <TabsList>
+          <TabsTrigger value="active">Active Voters ({activeVoters.length})</TabsTrigger>
+          <TabsTrigger value="candidates">Deactivation Candidates ({candidates.length})</TabsTrigger>
+          <TabsTrigger value="deactivated">Deactivation Records ({deactivationRecords.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="active">
+          <Card className="shadow-lg">
+            <CardHeader className="border-b">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="text-xl">Active Voters</CardTitle>
+                  <CardDescription className="mt-1">
+                    Select one or more voters to deactivate
+                    {flaggedCount > 0 && (
+                      <span className="block text-red-600">
+                        {flaggedCount} voter{flaggedCount === 1 ? ' has' : 's have'} a duplicate voter ID.{' '}
+                        {can('assign_vin') ? 'Reissue a VIN to resolve.' : deniedReason('assign_vin')}
+                      </span>
+                    )}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <div className="relative">
+                    <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="Search name, voter ID, precinct..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-8 w-full sm:w-[260px]"
+                    />
+                  </div>
+                  <Button
+                    variant="destructive"
+                    disabled={selectedVoters.length === 0}
+                    onClick={() => openDeactivationDialog(selectedVoters)}
+                  >
+                    <UserX className="mr-2 h-4 w-4" />
+                    Deactivate Selected ({selectedVoters.length})
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allFilteredSelected}
+                        onCheckedChange={(checked) => toggleSelectAll(checked === true)}
+                        aria-label="Select all"
+                      />
+                    </TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Voter ID</TableHead>
+                    <TableHead>Precinct</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredVoters.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                        {isLoading ? 'Loading voters...' : 'No active voters found.'}
+                      </TableCell>
+                    </TableRow>
+                  ) : filteredVoters.map(voter => (
+                    <TableRow key={voter.applicant_id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(voter.applicant_id)}
+                          onCheckedChange={(checked) => toggleSelected(voter.applicant_id, checked === true)}
+                          aria-label={`Select ${formatVoterName(voter)}`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{formatVoterName(voter)}</TableCell>
+                      <TableCell>
+                        {voter.voter_id ?? '—'}
+                        {voter.voter_id_flagged && <Badge variant="destructive" className="ml-2">Duplicate</Badge>}
+                      </TableCell>
+                      <TableCell>{voter.precinct_number ?? '—'}</TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {voter.voter_id_flagged && can('assign_vin') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleReissueVoterId(voter)}
+                            disabled={reissuingId !== null}
+                          >
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            {reissuingId === voter.applicant_id ? 'Reissuing...' : 'Reissue VIN'}
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => openDeactivationDialog([voter])}>
+                          Deactivate
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="candidates">
+          <Card className="shadow-lg">
+            <CardHeader className="border-b">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="text-xl">Failed to Vote in Two Successive Regular Elections</CardTitle>
+                  <CardDescription className="mt-1">
+                    Active voters recorded as not voting in the two most recent regular elections, for ERB review.
+                    Participation is imported on the Elections page.
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="destructive"
+                  disabled={candidates.length === 0}
+                  onClick={() => openDeactivationDialog(candidates, TWO_MISS_REASON)}
+                >
+                  <UserX className="mr-2 h-4 w-4" />
+                  Deactivate All ({candidates.length})
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Voter ID</TableHead>
+                    <TableHead>Precinct</TableHead>
+                    <TableHead>Missed Elections</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {candidates.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                        {isLoading ? 'Loading candidates...' : 'No voters meet the two-election rule.'}
+                      </TableCell>
+                    </TableRow>
+                  ) : candidates.map(candidate => (
+                    <TableRow key={candidate.applicant_id}>
+                      <TableCell className="font-medium">{formatVoterName(candidate)}</TableCell>
+                      <TableCell>{candidate.voter_id ?? '—'}</TableCell>
+                      <TableCell>{candidate.precinct_number ?? '—'}</TableCell>
+                      <TableCell className="text-sm">{candidate.missed_elections.join(', ')}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => openDeactivationDialog([candidate], TWO_MISS_REASON)}>
+                          Deactivate
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="deactivated">
+          <Card className="shadow-lg">
+            <CardHeader className="border-b">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="text-xl">Deactivation Records</CardTitle>
+                  <CardDescription className="mt-1">Records are resolved when a reactivation is approved</CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Select value={reasonFilter} onValueChange={setReasonFilter}>
+                    <SelectTrigger className="w-full sm:w-[260px]">
+                      <SelectValue placeholder="Filter by Reason" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Reasons</SelectItem>
+                      {DEACTIVATION_REASONS.map(reason => (
+                        <SelectItem key={reason} value={reason}>{reason}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={resolutionFilter} onValueChange={setResolutionFilter}>
+                    <SelectTrigger className="w-full sm:w-[160px]">
+                      <SelectValue placeholder="Filter by Status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Statuses</SelectItem>
+                      <SelectItem value="Unresolved">Unresolved</SelectItem>
+                      <SelectItem value="Resolved">Resolved</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Voter ID</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deactivationRecords.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                        {isLoading ? 'Loading records...' : 'No deactivation records found.'}
+                      </TableCell>
+                    </TableRow>
+                  ) : deactivationRecords.map(record => (
+                    <TableRow key={record.deactivation_id}>
+                      <TableCell className="font-medium">{record.voter ? formatVoterName(record.voter) : '—'}</TableCell>
+                      <TableCell>{record.voter?.voter_id ?? '—'}</TableCell>
+                      <TableCell className="max-w-[320px] text-sm">{record.reason}</TableCell>
+                      <TableCell>{format(new Date(record.deactivation_date), 'PPP')}</TableCell>
+                      <TableCell>
+                        <Badge variant={record.status === 'Unresolved' ? 'destructive' : 'secondary'}>
+                          {record.status}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <AlertDialog open={deactivationTargets.length > 0} onOpenChange={(open) => !open && setDeactivationTargets([])}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Deactivate {deactivationTargets.length === 1 ? formatVoterName(deactivationTargets[0]) : `${deactivationTargets.length} Voters`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Deactivated voters are removed from the active list and notified. They can vote again once a reactivation is approved.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-4 my-4">
+            <div>
+              <Label htmlFor="deactivation-reason">Legal Ground</Label>
+              <Select value={deactivationReason} onValueChange={(value) => setDeactivationReason(value as DeactivationReason)}>
+                <SelectTrigger id="deactivation-reason" className="mt-2">
+                  <SelectValue placeholder="Select the ground for deactivation" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEACTIVATION_REASONS.map(reason => (
+                    <SelectItem key={reason} value={reason}>{reason}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="deactivation-date">Date of Deactivation</Label>
+              <Input
+                id="deactivation-date"
+                type="date"
+                value={deactivationDate}
+                max={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setDeactivationDate(e.target.value)}
+                className="mt-2"
+              />
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeactivating}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDeactivate();
+              }}
+              disabled={!deactivationReason || !deactivationDate || isDeactivating}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isDeactivating ? 'Deactivating...' : 'Deactivate'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
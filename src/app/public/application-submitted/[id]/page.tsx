@@ -4,9 +4,11 @@ import { useParams, useRouter } from 'next/navigation';
 import type { Application } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { CheckCircle, Home } from 'lucide-react';
+import { CalendarDays, CheckCircle, Home } from 'lucide-react';
 import { format } from 'date-fns';
 import { AcknowledgementReceipt } from '@/components/public/AcknowledgementReceipt';
+import { BiometricsAppointmentCard } from '@/components/public/BiometricsAppointmentCard';
+import { formatHearingSchedule, getApplicationHearing } from '@/services/erbService';
 import { supabase } from '@/lib/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 
@@ -144,6 +146,7 @@ export default function ApplicationSubmittedPage() {
           },
           documents: [],
           addressInfo: {},
+          erbHearing: (await getApplicationHearing(id)) ?? undefined,
         };
 
         console.log('Final combined application data:', combinedData);
@@ -241,6 +244,20 @@ export default function ApplicationSubmittedPage() {
               <p><strong>Application Type:</strong> {applicationTypeLabels[application.applicationType || '']}</p>
             </div>
           </div>
+
+          {application.erbHearing && (
+            <div className="border rounded-lg p-4 bg-blue-50 border-blue-200 text-sm">
+              <h3 className="font-semibold mb-2 flex items-center gap-2">
+                <CalendarDays className="h-4 w-4 text-blue-700" />
+                ERB Hearing
+              </h3>
+              <p><strong>Schedule:</strong> {formatHearingSchedule(application.erbHearing.session)}</p>
+              <p><strong>Venue:</strong> {application.erbHearing.session.venue}</p>
+              <p><strong>Docket No.:</strong> {application.erbHearing.docket_number}</p>
+            </div>
+          )}
+
+          <BiometricsAppointmentCard applicationId={application.id} applicationStatus={application.status} />
           
           <AcknowledgementReceipt application={application} />
 
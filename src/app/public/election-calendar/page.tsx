@@ -1,42 +1,229 @@
-import { Calendar, ArrowLeft } from 'lucide-react';
-import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
+'use client';
+import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
+import {
+  addMonths, eachDayOfInterval, endOfMonth, endOfWeek, format, isSameMonth, isToday, startOfMonth, startOfWeek
+} from 'date-fns';
+import { ArrowLeft, Calendar, ChevronLeft, ChevronRight, Download, Rss } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MILESTONE_TYPE_LABELS, getElectionEvents } from '@/services/electionService';
+import { buildElectionCalendar } from '@/lib/icalendar';
+import type { ElectionEvent } from '@/types';
+
+const milestoneColors: Record<ElectionEvent['milestone_type'], string> = {
+  registration: 'bg-blue-100 text-blue-800 border-blue-200',
+  registration_deadline: 'bg-red-100 text-red-800 border-red-200',
+  filing_of_candidacy: 'bg-purple-100 text-purple-800 border-purple-200',
+  campaign_period: 'bg-amber-100 text-amber-800 border-amber-200',
+  election_day: 'bg-green-100 text-green-800 border-green-200',
+  canvassing: 'bg-teal-100 text-teal-800 border-teal-200',
+  other: 'bg-gray-100 text-gray-800 border-gray-200',
+};
+
+// Events shown in one month-view cell before collapsing into "+N more"
+const MAX_EVENTS_PER_DAY = 3;
+
+// Parses a DATE column as a local date (new Date('yyyy-MM-dd') would be UTC midnight)
+const toLocalDate = (date: string) => new Date(`${date}T00:00:00`);
+
+const formatEventDates = (event: ElectionEvent) =>
+  event.start_date === event.end_date
+    ? format(toLocalDate(event.start_date), 'EEEE, MMMM d, yyyy')
+    : `${format(toLocalDate(event.start_date), 'MMMM d')} – ${format(toLocalDate(event.end_date), 'MMMM d, yyyy')}`;
+
+function EventDetails({ event }: { event: ElectionEvent }) {
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="font-medium">{event.title}</h3>
+        <Badge variant="outline" className={milestoneColors[event.milestone_type]}>
+          {MILESTONE_TYPE_LABELS[event.milestone_type]}
+        </Badge>
+      </div>
+      <p className="text-muted-foreground">{formatEventDates(event)}</p>
+      <p className="text-xs text-muted-foreground mt-1">
+        {event.election_name ? `${event.election_name} · ` : ''}{event.scope}
+      </p>
+      {event.description && <p className="text-sm mt-2 whitespace-pre-line">{event.description}</p>}
+    </div>
+  );
+}
 
 export default function ElectionCalendarPage() {
+  const [events, setEvents] = useState<ElectionEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [showPast, setShowPast] = useState(false);
+  const [feedUrl, setFeedUrl] = useState('');
+
+  useEffect(() => {
+    getElectionEvents().then(data => {
+      setEvents(data);
+      setIsLoading(false);
+    });
+    setFeedUrl(`webcal://${window.location.host}/api/election-calendar`);
+  }, []);
+
+  const calendarDays = useMemo(() => eachDayOfInterval({
+    start: startOfWeek(month),
+    end: endOfWeek(endOfMonth(month)),
+  }), [month]);
+
+  const eventsOn = (day: Date) => {
+    const date = format(day, 'yyyy-MM-dd');
+    return events.filter(event => event.start_date <= date && event.end_date >= date);
+  };
+
+  const monthStart = format(month, 'yyyy-MM-dd');
+  const monthEnd = format(endOfMonth(month), 'yyyy-MM-dd');
+  const monthEvents = events.filter(event => event.start_date <= monthEnd && event.end_date >= monthStart);
+
+  // List view, grouped by the month each event starts in
+  const listGroups = useMemo(() => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const groups = new Map<string, ElectionEvent[]>();
+    events
+      .filter(event => showPast || event.end_date >= today)
+      .forEach(event => {
+        const key = format(toLocalDate(event.start_date), 'MMMM yyyy');
+        groups.set(key, [...(groups.get(key) ?? []), event]);
+      });
+    return Array.from(groups.entries());
+  }, [events, showPast]);
+
+  const handleDownload = () => {
+    const blob = new Blob([buildElectionCalendar(events)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'election-calendar.ics';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="container mx-auto py-8">
       <Card>
-        <CardHeader className="flex flex-row items-center justify-between">
-          <CardTitle className="flex items-center text-2xl">
-            <Calendar className="mr-2 h-6 w-6" />
-            Election Calendar
-        </CardTitle>
-          <Button variant="outline" className="bg-white hover:bg-yellow-400" asChild>
-            <Link href="/public/home">
-              <ArrowLeft className="mr-2 h-4 w-4" />
-              Back to Home
-            </Link>
-          </Button>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center text-2xl">
+              <Calendar className="mr-2 h-6 w-6" />
+              Election Calendar
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Registration periods, deadlines and election dates. Subscribe to get changes in your calendar app.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={handleDownload} disabled={events.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Download .ics
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={feedUrl || '/api/election-calendar'}>
+                <Rss className="mr-2 h-4 w-4" />
+                Subscribe
+              </a>
+            </Button>
+            <Button variant="outline" className="bg-white hover:bg-yellow-400" asChild>
+              <Link href="/public/home">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Home
+              </Link>
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
-          <div className="space-y-6">
-            <h2 className="text-xl font-semibold">Upcoming Elections</h2>
-            <div className="space-y-4">
-              <div className="border rounded-lg p-4">
-                <h3 className="font-medium">Barangay Elections</h3>
-                <p className="text-muted-foreground">December 1, 2025</p>
-                <p className="text-sm mt-2">Registration deadline: July 1 to 11, 2025</p>
-              </div>
-              <div className="border rounded-lg p-4">
-                <h3 className="font-medium">National Elections</h3>
-                <p className="text-muted-foreground">May 12, 2025</p>
-                <p className="text-sm mt-2">Registration deadline: September 30, 2024</p>
-              </div>
-            </div>
-          </div>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading election calendar...</p>
+          ) : (
+            <Tabs defaultValue="month">
+              <TabsList>
+                <TabsTrigger value="month">Month</TabsTrigger>
+                <TabsTrigger value="list">List</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="month" className="space-y-6">
+                <div className="flex items-center justify-between">
+                  <Button variant="outline" size="icon" onClick={() => setMonth(prev => addMonths(prev, -1))} title="Previous month">
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <h2 className="text-xl font-semibold">{format(month, 'MMMM yyyy')}</h2>
+                  <Button variant="outline" size="icon" onClick={() => setMonth(prev => addMonths(prev, 1))} title="Next month">
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-7 border-l border-t text-sm">
+                  {calendarDays.slice(0, 7).map(day => (
+                    <div key={day.toISOString()} className="border-b border-r bg-muted/40 p-2 text-center font-medium">
+                      {format(day, 'EEE')}
+                    </div>
+                  ))}
+                  {calendarDays.map(day => {
+                    const dayEvents = eventsOn(day);
+                    return (
+                      <div
+                        key={day.toISOString()}
+                        className={`min-h-24 border-b border-r p-1 ${isSameMonth(day, month) ? '' : 'bg-muted/20 text-muted-foreground'}`}
+                      >
+                        <div className={`mb-1 text-right text-xs ${isToday(day) ? 'font-bold text-primary' : ''}`}>
+                          {format(day, 'd')}
+                        </div>
+                        <div className="space-y-1">
+                          {dayEvents.slice(0, MAX_EVENTS_PER_DAY).map(event => (
+                            <div
+                              key={event.event_id}
+                              title={`${event.title} (${formatEventDates(event)})`}
+                              className={`truncate rounded border px-1 text-xs ${milestoneColors[event.milestone_type]}`}
+                            >
+                              {event.title}
+                            </div>
+                          ))}
+                          {dayEvents.length > MAX_EVENTS_PER_DAY && (
+                            <div className="text-xs text-muted-foreground">+{dayEvents.length - MAX_EVENTS_PER_DAY} more</div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold">This Month</h3>
+                  {monthEvents.length === 0 ? (
+                    <p className="text-muted-foreground">No election events in {format(month, 'MMMM yyyy')}.</p>
+                  ) : (
+                    monthEvents.map(event => <EventDetails key={event.event_id} event={event} />)
+                  )}
+                </div>
+              </TabsContent>
+
+              <TabsContent value="list" className="space-y-6">
+                <div className="flex items-center gap-2">
+                  <Switch id="show-past" checked={showPast} onCheckedChange={setShowPast} />
+                  <Label htmlFor="show-past">Show past events</Label>
+                </div>
+                {listGroups.length === 0 ? (
+                  <p className="text-muted-foreground">No upcoming election events.</p>
+                ) : (
+                  listGroups.map(([group, groupEvents]) => (
+                    <div key={group} className="space-y-4">
+                      <h2 className="text-xl font-semibold">{group}</h2>
+                      {groupEvents.map(event => <EventDetails key={event.event_id} event={event} />)}
+                    </div>
+                  ))
+                )}
+              </TabsContent>
+            </Tabs>
+          )}
         </CardContent>
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -8,6 +8,8 @@ import { FilePlus2, FileSearch, Calendar, Info, MapPin, ClipboardList, ShieldChe
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase/client';
+import { VoterNotifications } from '@/components/public/VoterNotifications';
+import { RegistrationPeriodBanner } from '@/components/public/RegistrationPeriodBanner';
 
 export default function PublicHomePage() {
   const { user } = useAuth();
@@ -47,7 +49,15 @@ export default function PublicHomePage() {
             Here you can submit a new voter registration application, track existing applications, 
             and access important voting information.
           </p>        </CardContent>
-      </Card>      {/* Pending Registration Notice */}
+      </Card>
+
+      {/* Days remaining before registration is suspended */}
+      {user && <RegistrationPeriodBanner />}
+
+      {/* Notices from the election office (e.g. deactivation) */}
+      {user && <VoterNotifications />}
+
+      {/* Pending Registration Notice */}
       {user?.registrationStatus && ['pending', 'verified'].includes(user.registrationStatus) && (
         <Card className="shadow-md border-t-4 border-yellow-500 bg-yellow-50">
           <CardHeader>
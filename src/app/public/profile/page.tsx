@@ -9,10 +9,12 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { User, Lock, Save, ArrowLeft, Eye, EyeOff } from 'lucide-react';
+import { User, Lock, Save, ArrowLeft, Eye, EyeOff, MapPin } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import VoterIdCard from "@/components/profile/VoterIDCard";
 import { AcknowledgementReceipt } from "@/components/public/AcknowledgementReceipt";
+import { getCurrentResidence, formatResidence } from '@/services/applicationService';
+import type { ApplicantResidence } from '@/types';
 
 const profileSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters long"),
@@ -52,6 +54,7 @@ export default function PublicProfilePage() {
   const [showOld, setShowOld] = useState<boolean>(false);
   const [showNew, setShowNew] = useState<boolean>(false);
   const [showConfirm, setShowConfirm] = useState<boolean>(false);
+  const [residence, setResidence] = useState<ApplicantResidence | null>(null);
 
   useEffect(() => {
   if (user) {
@@ -62,6 +65,12 @@ export default function PublicProfilePage() {
   }
 }, [user, profileForm]);
 
+  useEffect(() => {
+    if (user?.voterId) {
+      getCurrentResidence().then(setResidence);
+    }
+  }, [user?.voterId]);
+
   useEffect(() => {
     if (!authLoading && !user) {
       router.push('/auth');
@@ -187,11 +196,25 @@ export default function PublicProfilePage() {
               {user.voterId}
             </p>
           </div>
+          <div className="col-span-2">
+            <span className="text-gray-500 flex items-center"><MapPin className="mr-1 h-4 w-4" /> Registered Address:</span>
+            <p className="font-medium">
+              {residence ? formatResidence(residence) : 'Not on record'}
+            </p>
+            {residence && (
+              <p className="text-xs text-muted-foreground">
+                Since {new Date(residence.effective_from).toLocaleDateString()}
+              </p>
+            )}
+          </div>
         </div>
       </CardContent>
     </Card>
 
-    <VoterIdCard />
+    <VoterIdCard
+      precinct={user.precinct}
+      address={residence ? formatResidence(residence) : undefined}
+    />
   </>
 )}
 
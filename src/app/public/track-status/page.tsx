@@ -101,9 +101,9 @@ export default function TrackStatusPage() {
             ),            application_registration (
               registration_type,
               adult_registration_consent,
-              government_id_front_url,
-              government_id_back_url,
-              id_selfie_url
+              government_id_front_path,
+              government_id_back_path,
+              id_selfie_path
             ),
             application_transfer (
               previous_precinct_number,
@@ -124,6 +124,19 @@ export default function TrackStatusPage() {
             ),
             application_reinstatement (
               reinstatement_type
+            ),
+            erb_hearing_docket!fk_docket_application (
+              docket_number,
+              decision,
+              session:session_id (
+                session_id,
+                hearing_date,
+                start_time,
+                venue,
+                capacity,
+                notes,
+                created_at
+              )
             )
           `)
           .eq('applicant_id', applicantData[0].applicant_id)
@@ -144,6 +157,8 @@ export default function TrackStatusPage() {
             const reactivation = Array.isArray(app.application_reactivation) ? app.application_reactivation[0] : app.application_reactivation;
             const correction = Array.isArray(app.application_correction) ? app.application_correction[0] : app.application_correction;
             const reinstatement = Array.isArray(app.application_reinstatement) ? app.application_reinstatement[0] : app.application_reinstatement;
+            const docket = Array.isArray(app.erb_hearing_docket) ? app.erb_hearing_docket[0] : app.erb_hearing_docket;
+            const hearingSession = docket ? (Array.isArray(docket.session) ? docket.session[0] : docket.session) : null;
             
             console.log('Special sector data for application:', app.application_number, specialSector);
             
@@ -158,6 +173,11 @@ export default function TrackStatusPage() {
               status: app.status,
               reasonForDisapproval: app.reason_for_disapproval,
               erbHearingDate: app.erb_hearing_date,
+              erbHearing: docket && hearingSession ? {
+                docket_number: docket.docket_number,
+                decision: docket.decision,
+                session: hearingSession
+              } : undefined,
               remarks: app.remarks || undefined,
 
               // Personal information from applicant table
@@ -212,9 +232,9 @@ export default function TrackStatusPage() {
               registration: registration ? {
                 registrationType: registration.registration_type || 'Regular',
                 adultRegistrationConsent: registration.adult_registration_consent,
-                governmentIdFrontUrl: registration.government_id_front_url || '',
-                governmentIdBackUrl: registration.government_id_back_url || '',
-                idSelfieUrl: registration.id_selfie_url || ''
+                governmentIdFrontPath: registration.government_id_front_path || '',
+                governmentIdBackPath: registration.government_id_back_path || '',
+                idSelfiePath: registration.id_selfie_path || ''
               } : undefined,
 
               // Transfer details
@@ -247,21 +267,21 @@ export default function TrackStatusPage() {
 
               // Documents array
               documents: [
-                ...(registration?.government_id_front_url ? [{
+                ...(registration?.government_id_front_path ? [{
                   name: 'Government ID (Front)',
-                  url: registration.government_id_front_url,
+                  path: registration.government_id_front_path,
                   type: 'government_id_front' as const,
                   uploadDate: app.application_date
                 }] : []),
-                ...(registration?.government_id_back_url ? [{
+                ...(registration?.government_id_back_path ? [{
                   name: 'Government ID (Back)',
-                  url: registration.government_id_back_url,
+                  path: registration.government_id_back_path,
                   type: 'government_id_back' as const,
                   uploadDate: app.application_date
                 }] : []),
-                ...(registration?.id_selfie_url ? [{
+                ...(registration?.id_selfie_path ? [{
                   name: 'ID Selfie',
-                  url: registration.id_selfie_url,
+                  path: registration.id_selfie_path,
                   type: 'id_selfie' as const,
                   uploadDate: app.application_date
                 }] : [])
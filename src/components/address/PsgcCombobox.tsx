@@ -0,0 +1,89 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { normalizePlaceName, type PsgcArea } from "@/lib/psgc";
+
+interface PsgcComboboxProps {
+  options: PsgcArea[];
+  value: string; // place name currently on the record
+  code?: string; // PSGC code of the value; empty when it was typed in
+  onSelect: (area: PsgcArea | null, name: string) => void; // area is null for a typed-in name
+  placeholder: string;
+  disabled?: boolean;
+  allowCustom?: boolean; // offer the search text when the place is not in the list
+}
+
+// Options rendered at once; typing narrows the list further
+const MAX_VISIBLE_OPTIONS = 100;
+
+export function PsgcCombobox({ options, value, code, onSelect, placeholder, disabled, allowCustom = true }: PsgcComboboxProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const filtered = useMemo(() => {
+    const key = normalizePlaceName(search);
+    return key ? options.filter(area => normalizePlaceName(area.name).includes(key)) : options;
+  }, [options, search]);
+
+  const select = (area: PsgcArea | null, name: string) => {
+    onSelect(area, name);
+    setOpen(false);
+    setSearch('');
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          className={cn("w-full justify-between font-normal", !value && "text-muted-foreground")}
+        >
+          <span className="truncate">{value || placeholder}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-2" align="start">
+        <Input
+          placeholder="Search..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="mb-2"
+          autoFocus
+        />
+        <ScrollArea className="h-60">
+          {filtered.slice(0, MAX_VISIBLE_OPTIONS).map(area => (
+            <button
+              key={area.code}
+              type="button"
+              onClick={() => select(area, area.name)}
+              className="flex w-full items-center rounded px-2 py-1.5 text-left text-sm hover:bg-accent"
+            >
+              <Check className={cn("mr-2 h-4 w-4", code === area.code ? "opacity-100" : "opacity-0")} />
+              {area.name}
+            </button>
+          ))}
+          {filtered.length > MAX_VISIBLE_OPTIONS && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">Keep typing to narrow {filtered.length} places.</p>
+          )}
+          {filtered.length === 0 && !allowCustom && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">No matching place.</p>
+          )}
+        </ScrollArea>
+        {allowCustom && search.trim() && (
+          <Button type="button" variant="ghost" size="sm" className="mt-2 w-full justify-start" onClick={() => select(null, search.trim())}>
+            Use &ldquo;{search.trim()}&rdquo; (not in the list)
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
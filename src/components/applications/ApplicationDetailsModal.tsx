@@ -4,8 +4,14 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { CheckCircle2, Clock, XCircle, FileText, CalendarDays, User, AlertCircle, Download, ExternalLink } from "lucide-react";
 import { format } from "date-fns";
-import type { Application } from "@/types";
+import type { Application, ApplicationStatusHistoryEntry, DocumentInfo } from "@/types";
 import { useRouter } from "next/navigation";  // Add this import at the top
+import { useEffect, useState } from "react";
+import { ApplicationStatusTimeline } from "./ApplicationStatusTimeline";
+import { BiometricsAppointmentCard } from "@/components/public/BiometricsAppointmentCard";
+import { getApplicationStatusHistory } from "@/services/applicationService";
+import { formatHearingSchedule } from "@/services/erbService";
+import { DOCUMENT_BUCKETS, getSignedDocumentUrls, getSignedFileUrl } from "@/services/storageService";
 
 interface ApplicationDetailsModalProps {
   application: Application | null;
@@ -29,6 +35,26 @@ const getStatusInfo = (status: string) => {
 };
 
 export function ApplicationDetailsModal({ application, isOpen, onClose }: ApplicationDetailsModalProps) {
+  const [statusHistory, setStatusHistory] = useState<ApplicationStatusHistoryEntry[]>([]);
+
+  useEffect(() => {
+    if (!isOpen || !application?.id) return;
+    getApplicationStatusHistory(application.id).then(setStatusHistory);
+  }, [isOpen, application?.id]);
+
+  const [documentUrls, setDocumentUrls] = useState<Partial<Record<DocumentInfo['type'], string>>>({});
+
+  useEffect(() => {
+    if (!isOpen || !Array.isArray(application?.documents)) return;
+    getSignedDocumentUrls(application.documents).then(setDocumentUrls);
+  }, [isOpen, application?.id]);
+
+  // Open a document with a freshly signed URL; the preview's URL may have expired
+  const openDocument = async (doc: DocumentInfo) => {
+    const url = await getSignedFileUrl(DOCUMENT_BUCKETS[doc.type], doc.path);
+    if (url) window.open(url, '_blank');
+  };
+
   if (!application) return null;
   
   const router = useRouter();  // Add this hook
@@ -39,35 +65,6 @@ export function ApplicationDetailsModal({ application, isOpen, onClose }: Applic
 
   const { icon: StatusIcon, color, text } = getStatusInfo(application.status);
   
-  // Mock timeline data - in a real app, this would come from the application object
-  const timeline = [
-    { 
-      date: application.submissionDate, 
-      status: 'Submitted', 
-      description: 'Application submitted successfully',
-      completed: true
-    },
-    { 
-      date: new Date(new Date(application.submissionDate).getTime() + 24 * 60 * 60 * 1000).toISOString(), 
-      status: 'Document Verification', 
-      description: 'Documents verified by COMELEC staff',
-      completed: application.status !== 'pending'
-    },
-    { 
-      date: new Date(new Date(application.submissionDate).getTime() + 3 * 24 * 60 * 60 * 1000).toISOString(), 
-      status: 'Background Check', 
-      description: 'Applicant information validated',
-      completed: ['approved', 'disapproved'].includes(application.status)
-    },
-    { 
-      date: new Date(new Date(application.submissionDate).getTime() + 5 * 24 * 60 * 60 * 1000).toISOString(), 
-      status: 'Final Decision', 
-      description: application.status === 'approved' ? 'Application approved' : 
-                   application.status === 'disapproved' ? 'Application disapproved' : 'Pending decision',
-      completed: ['approved', 'disapproved'].includes(application.status)
-    }
-  ];
-
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-[700px] max-h-[85vh] overflow-y-auto">
@@ -126,19 +123,30 @@ export function ApplicationDetailsModal({ application, isOpen, onClose }: Applic
               </div>
             )}
 
-            {/* ERB Hearing Date section - shown when assigned */}
-            {application.erbHearingDate && (
+            {/* Biometrics appointment - booked, rescheduled or cancelled by the applicant */}
+            <BiometricsAppointmentCard applicationId={application.id} applicationStatus={application.status} />
+
+            {/* ERB Hearing section - shown when assigned */}
+            {(application.erbHearing || application.erbHearingDate) && (
               <div className="border rounded-lg p-4 bg-blue-50 border-blue-200">
                 <h3 className="font-semibold mb-2 flex items-center gap-2">
                   <CalendarDays className="h-4 w-4 text-blue-700" />
-                  ERB Hearing Date
+                  ERB Hearing
                 </h3>
                 <p className="text-sm text-gray-700">
                   Your hearing has been scheduled for{" "}
                   <span className="font-medium">
-                    {format(new Date(application.erbHearingDate), "EEEE, MMMM d, yyyy")}
+                    {application.erbHearing
+                      ? formatHearingSchedule(application.erbHearing.session)
+                      : format(new Date(application.erbHearingDate!), "EEEE, MMMM d, yyyy")}
                   </span>
                 </p>
+                {application.erbHearing && (
+                  <p className="text-sm text-gray-700 mt-1">
+                    Venue: <span className="font-medium">{application.erbHearing.session.venue}</span>
+                    {" · "}Docket no. <span className="font-medium">{application.erbHearing.docket_number}</span>
+                  </p>
+                )}
                 <p className="text-xs text-gray-600 mt-1">
                   Please attend the Election Registration Board hearing at the scheduled date and time.
                 </p>
@@ -148,34 +156,7 @@ export function ApplicationDetailsModal({ application, isOpen, onClose }: Applic
             {/* Timeline */}
             <div>
               <h3 className="font-semibold mb-4">Application Progress Timeline</h3>
-              <div className="relative">
-                {/* Timeline connecting line */}
-                <div className="absolute left-[15px] top-1 h-full w-[2px] bg-gray-200"></div>
-                
-                {/* Timeline events */}
-                <div className="space-y-6">
-                  {timeline.map((event, index) => (
-                    <div key={index} className="flex gap-4 relative">
-                      <div className={`h-8 w-8 rounded-full ${event.completed ? 'bg-green-500' : 'bg-gray-200'} flex items-center justify-center flex-shrink-0`}>
-                        {event.completed ? (
-                          <CheckCircle2 className="h-5 w-5 text-white" />
-                        ) : (
-                          <Clock className="h-5 w-5 text-gray-500" />
-                        )}
-                      </div>
-                      <div className="pt-1">
-                        <h4 className="font-medium">{event.status}</h4>
-                        <p className="text-sm text-gray-500">{event.description}</p>
-                        <p className="text-xs text-gray-400 mt-1">
-                          {event.completed 
-                            ? format(new Date(event.date), "MMMM d, yyyy")
-                            : `Expected: ${format(new Date(event.date), "MMMM d, yyyy")}`}
-                        </p>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
+              <ApplicationStatusTimeline entries={statusHistory} />
             </div>
 
             {/* Next Steps */}
@@ -551,7 +532,7 @@ export function ApplicationDetailsModal({ application, isOpen, onClose }: Applic
                           <Button 
                             variant="outline" 
                             size="sm"
-                            onClick={() => window.open(doc.url, '_blank')}
+                            onClick={() => openDocument(doc)}
                           >
                             <Download className="h-4 w-4 mr-1" />
                             Download
@@ -559,7 +540,7 @@ export function ApplicationDetailsModal({ application, isOpen, onClose }: Applic
                           <Button 
                             variant="outline" 
                             size="sm"
-                            onClick={() => window.open(doc.url, '_blank')}
+                            onClick={() => openDocument(doc)}
                           >
                             <ExternalLink className="h-4 w-4 mr-1" />
                             View
@@ -571,7 +552,7 @@ export function ApplicationDetailsModal({ application, isOpen, onClose }: Applic
                       <div className="mt-3">
                         <div className="relative max-w-sm mx-auto border rounded-lg overflow-hidden bg-gray-50">
                           <img 
-                            src={doc.url} 
+                            src={documentUrls[doc.type]} 
                             alt={doc.name}
                             className="w-full h-48 object-contain bg-white"
                             onError={(e) => {
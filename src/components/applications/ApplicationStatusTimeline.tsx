@@ -0,0 +1,86 @@
+"use client";
+
+import { CheckCircle2, Clock, FileText, XCircle, AlertCircle, Send } from "lucide-react";
+import { format } from "date-fns";
+import { getFailedChecks } from "@/lib/documentChecklist";
+import type { ApplicationStatusHistoryEntry } from "@/types";
+
+interface ApplicationStatusTimelineProps {
+  entries: ApplicationStatusHistoryEntry[];
+  showOfficer?: boolean; // officer names are only shown on the dashboard
+  showDocumentChecklist?: boolean; // document review results are only shown on the dashboard
+}
+
+const getTransitionInfo = (entry: ApplicationStatusHistoryEntry) => {
+  if (entry.from_status === null) {
+    return { icon: Send, color: 'bg-gray-500', label: 'Submitted' };
+  }
+  switch (entry.to_status) {
+    case 'pending':
+      return { icon: Clock, color: 'bg-yellow-500', label: 'Returned to Pending' };
+    case 'verified':
+      return { icon: FileText, color: 'bg-blue-500', label: 'Verified' };
+    case 'approved':
+      return { icon: CheckCircle2, color: 'bg-green-500', label: 'Approved' };
+    case 'disapproved':
+      return { icon: XCircle, color: 'bg-red-500', label: 'Disapproved' };
+    default:
+      return { icon: AlertCircle, color: 'bg-gray-400', label: entry.to_status };
+  }
+};
+
+export function ApplicationStatusTimeline({ entries, showOfficer = false, showDocumentChecklist = false }: ApplicationStatusTimelineProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes have been recorded yet.</p>;
+  }
+
+  return (
+    <div className="relative">
+      {/* Timeline connecting line */}
+      <div className="absolute left-[15px] top-1 h-full w-[2px] bg-gray-200"></div>
+
+      <div className="space-y-6">
+        {entries.map((entry) => {
+          const { icon: Icon, color, label } = getTransitionInfo(entry);
+          const officerName = [entry.officer?.first_name, entry.officer?.last_name].filter(Boolean).join(' ');
+          const failedChecks = entry.document_checklist ? getFailedChecks(entry.document_checklist) : [];
+
+          return (
+            <div key={entry.history_id} className="flex gap-4 relative">
+              <div className={`h-8 w-8 rounded-full ${color} flex items-center justify-center flex-shrink-0`}>
+                <Icon className="h-5 w-5 text-white" />
+              </div>
+              <div className="pt-1">
+                <h4 className="font-medium">
+                  {label}
+                  {entry.from_status && (
+                    <span className="ml-2 text-xs font-normal text-gray-500 capitalize">
+                      ({entry.from_status} → {entry.to_status})
+                    </span>
+                  )}
+                </h4>
+                {entry.reason && <p className="text-sm text-gray-600 whitespace-pre-wrap">{entry.reason}</p>}
+                {showDocumentChecklist && entry.document_checklist && (
+                  failedChecks.length === 0 ? (
+                    <p className="text-sm text-green-700">Document review: all checks passed</p>
+                  ) : (
+                    <div className="text-sm text-red-700">
+                      Document review: {failedChecks.length} check{failedChecks.length === 1 ? '' : 's'} not passed
+                      <ul className="list-disc pl-5 text-xs">
+                        {failedChecks.map(check => <li key={check}>{check}</li>)}
+                      </ul>
+                    </div>
+                  )
+                )}
+                <p className="text-xs text-gray-400 mt-1">
+                  {format(new Date(entry.changed_at), "MMMM d, yyyy 'at' h:mm a")}
+                  {showOfficer && officerName && ` · ${officerName}${entry.officer?.position ? ` (${entry.officer.position})` : ''}`}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { format } from "date-fns";
+import { ExternalLink, FileText, RotateCcw, RotateCw, ZoomIn, ZoomOut } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { DOCUMENT_CHECKLIST_ITEMS, DOCUMENT_LABELS, isChecklistPassed } from "@/lib/documentChecklist";
+import { LOW_QUALITY_SCORE } from "@/lib/imageQuality";
+import { DOCUMENT_BUCKETS, getSignedDocumentUrls, getSignedFileUrl } from "@/services/storageService";
+import type { DocumentChecklist, DocumentChecklistItem, DocumentInfo, IdImageQuality } from "@/types";
+
+// Registration document fields on the application returned by getApplicationByPublicId
+const reviewDocuments: {
+  type: DocumentInfo['type'];
+  pathField: 'governmentIdFrontPath' | 'governmentIdBackPath' | 'idSelfiePath';
+  qualityField: 'governmentIdFrontQuality' | 'governmentIdBackQuality' | 'idSelfieQuality';
+}[] = [
+  { type: 'government_id_front', pathField: 'governmentIdFrontPath', qualityField: 'governmentIdFrontQuality' },
+  { type: 'government_id_back', pathField: 'governmentIdBackPath', qualityField: 'governmentIdBackQuality' },
+  { type: 'id_selfie', pathField: 'idSelfiePath', qualityField: 'idSelfieQuality' },
+];
+
+// Document types uploaded with an application, in review order
+export const getUploadedDocumentTypes = (application: Record<string, any>) =>
+  reviewDocuments.filter(doc => application[doc.pathField]).map(doc => doc.type);
+
+interface DocumentReviewWorkspaceProps {
+  application: Record<string, any>; // as returned by getApplicationByPublicId
+  checklist: DocumentChecklist;
+  onChecklistChange: (checklist: DocumentChecklist) => void;
+  readOnly?: boolean; // checks can only be ticked while the application awaits verification
+}
+
+export function DocumentReviewWorkspace({ application, checklist, onChecklistChange, readOnly = false }: DocumentReviewWorkspaceProps) {
+  const [documentUrls, setDocumentUrls] = useState<Partial<Record<DocumentInfo['type'], string>>>({});
+  const documents = reviewDocuments.filter(doc => application[doc.pathField]);
+
+  useEffect(() => {
+    getSignedDocumentUrls(documents.map(doc => ({ type: doc.type, path: application[doc.pathField] }))).then(setDocumentUrls);
+  }, [application.id]);
+
+  const toggleCheck = (type: DocumentInfo['type'], item: DocumentChecklistItem, checked: boolean) => {
+    onChecklistChange({ ...checklist, [type]: { ...checklist[type], [item]: checked } });
+  };
+
+  const passed = isChecklistPassed(checklist, documents.map(doc => doc.type));
+  const fullName = [application.firstName, application.middleName, application.lastName, application.suffix].filter(Boolean).join(' ');
+  const address = [
+    [application.houseNumber, application.street].filter(Boolean).join(' '),
+    application.barangay,
+    application.cityMunicipality,
+    application.province,
+  ].filter(Boolean).join(', ');
+
+  const applicantFields = [
+    { label: 'Full Name', value: fullName },
+    { label: 'Date of Birth', value: application.dateOfBirth ? format(new Date(`${application.dateOfBirth}T00:00:00`), 'PPP') : '' },
+    { label: 'Sex', value: application.sex === 'M' ? 'Male' : application.sex === 'F' ? 'Female' : '' },
+    { label: 'Place of Birth', value: [application.placeOfBirthMunicipality, application.placeOfBirthProvince].filter(Boolean).join(', ') },
+    { label: 'Address', value: address },
+    { label: 'ID Type', value: application.idTypeName || 'Not recorded' },
+    { label: 'ID Number', value: application.idNumber || 'Not recorded' },
+  ];
+
+  return (
+    <Card className="lg:col-span-3">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center"><FileText className="mr-2" />Document Review</CardTitle>
+            <CardDescription>
+              Compare each document with the applicant&apos;s details and tick every check before verifying.
+              The checklist is saved with the verification or disapproval.
+            </CardDescription>
+          </div>
+          {documents.length > 0 && (
+            <Badge variant={passed ? 'default' : 'outline'} className={passed ? 'bg-green-600 hover:bg-green-600' : undefined}>
+              {passed ? 'All checks passed' : 'Checks incomplete'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {documents.length === 0 ? (
+          <div className="text-muted-foreground">No ID or selfie images uploaded.</div>
+        ) : (
+          <div className="grid gap-6 xl:grid-cols-4">
+            <div className="rounded-lg border bg-muted/30 p-4 space-y-3 h-fit">
+              <h4 className="font-semibold">Applicant Details</h4>
+              {applicantFields.map(field => (
+                <div key={field.label}>
+                  <p className="text-xs text-muted-foreground">{field.label}</p>
+                  <p className="text-sm font-medium">{field.value || 'N/A'}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 xl:col-span-3">
+              {documents.map(doc => (
+                <DocumentPanel
+                  key={doc.type}
+                  type={doc.type}
+                  path={application[doc.pathField]}
+                  url={documentUrls[doc.type]}
+                  quality={application[doc.qualityField]}
+                  checks={checklist[doc.type] ?? {}}
+                  onCheckChange={(item, checked) => toggleCheck(doc.type, item, checked)}
+                  readOnly={readOnly}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface DocumentPanelProps {
+  type: DocumentInfo['type'];
+  path: string;
+  url?: string;
+  quality?: IdImageQuality | null;
+  checks: Partial<Record<DocumentChecklistItem, boolean>>;
+  onCheckChange: (item: DocumentChecklistItem, checked: boolean) => void;
+  readOnly: boolean;
+}
+
+function DocumentPanel({ type, path, url, quality, checks, onCheckChange, readOnly }: DocumentPanelProps) {
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+  const [contrast, setContrast] = useState(100);
+  const label = DOCUMENT_LABELS[type];
+
+  // Open the original with a freshly signed URL; the displayed one may have expired
+  const openFullSize = async () => {
+    const freshUrl = await getSignedFileUrl(DOCUMENT_BUCKETS[type], path);
+    if (freshUrl) window.open(freshUrl, '_blank');
+  };
+
+  const resetView = () => {
+    setZoom(1);
+    setRotation(0);
+    setContrast(100);
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold">{label}</h4>
+        <Button variant="ghost" size="sm" onClick={openFullSize} title="Open full size">
+          <ExternalLink className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="relative h-56 overflow-hidden rounded border bg-muted">
+        {url ? (
+          <Image
+            src={url}
+            alt={label}
+            fill
+            className="object-contain transition-transform"
+            style={{ transform: `scale(${zoom}) rotate(${rotation}deg)`, filter: `contrast(${contrast}%)` }}
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center text-xs text-muted-foreground">Image unavailable</div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setZoom(z => Math.max(1, z - 0.5))} disabled={zoom <= 1} title="Zoom out">
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setZoom(z => Math.min(4, z + 0.5))} disabled={zoom >= 4} title="Zoom in">
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setRotation(r => (r + 90) % 360)} title="Rotate">
+          <RotateCw className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={resetView} title="Reset view">
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <span className="ml-auto text-xs text-muted-foreground">{Math.round(zoom * 100)}%</span>
+      </div>
+      <div>
+        <Label className="text-xs text-muted-foreground">Contrast {contrast}%</Label>
+        <Slider value={[contrast]} min={50} max={250} step={10} onValueChange={([value]) => setContrast(value)} className="mt-2" />
+      </div>
+
+      <IdQualitySummary quality={quality} />
+
+      <div className="space-y-2 border-t pt-3">
+        {DOCUMENT_CHECKLIST_ITEMS[type].map(({ item, label: checkLabel }) => (
+          <div key={item} className="flex items-center gap-2">
+            <Checkbox
+              id={`${type}-${item}`}
+              checked={checks[item] === true}
+              onCheckedChange={(checked) => onCheckChange(item, checked === true)}
+              disabled={readOnly}
+            />
+            <Label htmlFor={`${type}-${item}`} className="text-sm font-normal">{checkLabel}</Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Quality scores measured when the applicant attached the photo; older applications have none
+function IdQualitySummary({ quality }: { quality?: IdImageQuality | null }) {
+  if (!quality) {
+    return <p className="text-xs text-muted-foreground">Quality not measured</p>;
+  }
+
+  return (
+    <div className="text-xs">
+      <Badge variant={quality.score < LOW_QUALITY_SCORE ? 'destructive' : 'secondary'}>
+        Quality {quality.score}/100
+      </Badge>
+      <p className="text-muted-foreground mt-1">
+        Sharpness {quality.blur_variance} · Glare {(quality.glare_ratio * 100).toFixed(1)}% · {quality.width}×{quality.height}
+      </p>
+      {quality.warnings.length > 0 && (
+        <ul className="list-disc pl-4 mt-1 text-amber-700">
+          {quality.warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
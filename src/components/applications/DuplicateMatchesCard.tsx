@@ -0,0 +1,261 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { CheckCircle2, Copy, RefreshCw, UserCheck, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { getDuplicateMatches, rerunDuplicateCheck, resolveDuplicateMatch } from "@/services/duplicateService";
+import type { DuplicateMatch } from "@/types";
+
+interface DuplicateMatchesCardProps {
+  applicationId: string;
+  // The applicant on this application, shown beside each match
+  applicant: {
+    name: string;
+    dateOfBirth?: string;
+    placeOfBirth: string;
+    fatherName: string;
+    motherMaidenName: string;
+  };
+  onUnresolvedChange: (count: number) => void; // matches that are not dismissed (approval is blocked while > 0)
+}
+
+const statusInfo: Record<DuplicateMatch['status'], { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  pending: { label: 'Needs Review', variant: 'outline' },
+  dismissed: { label: 'Dismissed', variant: 'secondary' },
+  confirmed: { label: 'Confirmed Duplicate', variant: 'destructive' },
+};
+
+const formatDate = (date?: string | null) => (date ? format(new Date(`${date}T00:00:00`), 'PPP') : 'N/A');
+
+export function DuplicateMatchesCard({ applicationId, applicant, onUnresolvedChange }: DuplicateMatchesCardProps) {
+  const { toast } = useToast();
+  const [matches, setMatches] = useState<DuplicateMatch[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const [resolution, setResolution] = useState<{ match: DuplicateMatch; status: 'dismissed' | 'confirmed' } | null>(null);
+  const [resolutionNotes, setResolutionNotes] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+
+  const loadMatches = async () => {
+    const data = await getDuplicateMatches(applicationId);
+    setMatches(data);
+    onUnresolvedChange(data.filter(m => m.status !== 'dismissed').length);
+  };
+
+  useEffect(() => {
+    loadMatches();
+  }, [applicationId]);
+
+  const handleRerun = async () => {
+    setIsRunning(true);
+    try {
+      const pending = await rerunDuplicateCheck(applicationId);
+      await loadMatches();
+      toast({
+        title: 'Duplicate Check Complete',
+        description: pending === 0 ? 'No possible duplicates need review.' : `${pending} possible duplicate${pending === 1 ? '' : 's'} need review.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to run the duplicate check.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!resolution) return;
+
+    setIsResolving(true);
+    const success = await resolveDuplicateMatch(resolution.match.match_id, resolution.status, resolutionNotes);
+    setIsResolving(false);
+
+    if (success) {
+      toast({
+        title: resolution.status === 'dismissed' ? 'Match Dismissed' : 'Duplicate Confirmed',
+        description: resolution.status === 'dismissed'
+          ? 'The applicants were marked as different people.'
+          : 'This application should be disapproved as a multiple registration.',
+      });
+      setResolution(null);
+      setResolutionNotes('');
+      await loadMatches();
+    } else {
+      toast({ title: 'Error', description: 'Failed to save the review.', variant: 'destructive' });
+    }
+  };
+
+  const unresolved = matches.filter(m => m.status !== 'dismissed').length;
+
+  return (
+    <Card className={`lg:col-span-3 ${unresolved > 0 ? 'border-red-300' : ''}`}>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center">
+              <Copy className="mr-2 h-5 w-5" />
+              Possible Duplicate Registrations
+            </CardTitle>
+            <CardDescription>
+              {matches.length === 0
+                ? 'No existing applicant closely matches this registration.'
+                : unresolved > 0
+                  ? 'This application cannot be approved until every match is dismissed.'
+                  : 'All matches have been dismissed.'}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleRerun} disabled={isRunning}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isRunning ? 'animate-spin' : ''}`} />
+            Re-run Check
+          </Button>
+        </div>
+      </CardHeader>
+      {matches.length > 0 && (
+        <CardContent className="space-y-4">
+          {matches.map(match => {
+            const other = match.matched_applicant;
+            const rows: { field: DuplicateMatch['matched_fields'][number]; label: string; current: string; existing: string }[] = [
+              {
+                field: 'name',
+                label: 'Name',
+                current: applicant.name,
+                existing: `${other.first_name} ${other.middle_name || ''} ${other.last_name}`.replace(/\s+/g, ' '),
+              },
+              { field: 'date_of_birth', label: 'Date of Birth', current: formatDate(applicant.dateOfBirth), existing: formatDate(other.date_of_birth) },
+              {
+                field: 'place_of_birth',
+                label: 'Place of Birth',
+                current: applicant.placeOfBirth,
+                existing: `${other.place_of_birth_municipality}, ${other.place_of_birth_province}`,
+              },
+              { field: 'father_name', label: "Father's Name", current: applicant.fatherName, existing: other.father_name },
+              { field: 'mother_maiden_name', label: "Mother's Maiden Name", current: applicant.motherMaidenName, existing: other.mother_maiden_name },
+            ];
+
+            return (
+              <div key={match.match_id} className="rounded-lg border p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={match.score >= 0.85 ? 'destructive' : 'secondary'}>
+                      {Math.round(match.score * 100)}% match
+                    </Badge>
+                    <Badge variant={statusInfo[match.status].variant}>{statusInfo[match.status].label}</Badge>
+                    <span className="text-sm text-muted-foreground">
+                      Applicant #{other.applicant_id} · {other.voting_status}
+                      {other.voter_id && ` · Voter ID ${other.voter_id}`}
+                    </span>
+                  </div>
+                  {match.status === 'pending' && (
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setResolution({ match, status: 'dismissed' })}>
+                        <CheckCircle2 className="mr-2 h-4 w-4" />
+                        Different Person
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => setResolution({ match, status: 'confirmed' })}>
+                        <UserCheck className="mr-2 h-4 w-4" />
+                        Same Person
+                      </Button>
+                    </div>
+                  )}
+                  {match.status === 'confirmed' && (
+                    <Button variant="outline" size="sm" onClick={() => setResolution({ match, status: 'dismissed' })}>
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Dismiss
+                    </Button>
+                  )}
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="py-1 font-medium w-1/4"></th>
+                      <th className="py-1 font-medium">This Application</th>
+                      <th className="py-1 font-medium">Existing Applicant</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(row => (
+                      <tr key={row.field} className={match.matched_fields.includes(row.field) ? 'bg-red-50' : ''}>
+                        <td className="py-1 pr-2 text-muted-foreground">{row.label}</td>
+                        <td className="py-1 pr-2">{row.current || 'N/A'}</td>
+                        <td className="py-1">{row.existing || 'N/A'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {other.applications.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-3">
+                    Their applications:{' '}
+                    {other.applications.map((app, index) => (
+                      <span key={app.public_facing_id}>
+                        {index > 0 && ', '}
+                        <Link href={`/dashboard/applications/${app.public_facing_id}`} className="text-primary hover:underline">
+                          {app.public_facing_id}
+                        </Link>{' '}
+                        ({app.application_type}, {app.status})
+                      </span>
+                    ))}
+                  </p>
+                )}
+                {match.resolution_notes && (
+                  <p className="text-xs text-muted-foreground mt-2">Review notes: {match.resolution_notes}</p>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      )}
+
+      <AlertDialog open={!!resolution} onOpenChange={(open) => !open && setResolution(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {resolution?.status === 'dismissed' ? 'Dismiss Possible Duplicate' : 'Confirm Duplicate Registration'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {resolution?.status === 'dismissed'
+                ? 'Confirm that this applicant and the existing applicant are different people.'
+                : 'Confirm that this applicant already has a record. The application stays blocked from approval and should be disapproved.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="my-4">
+            <Label htmlFor="duplicate-notes">Notes (optional)</Label>
+            <Textarea
+              id="duplicate-notes"
+              value={resolutionNotes}
+              onChange={(e) => setResolutionNotes(e.target.value)}
+              placeholder="e.g., Verified different mother's maiden name on birth certificate"
+              rows={3}
+              className="mt-2"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => setResolutionNotes('')}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleResolve}
+              disabled={isResolving}
+              className={resolution?.status === 'confirmed' ? 'bg-red-600 hover:bg-red-700' : undefined}
+            >
+              {isResolving ? 'Saving...' : resolution?.status === 'dismissed' ? 'Dismiss Match' : 'Confirm Duplicate'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
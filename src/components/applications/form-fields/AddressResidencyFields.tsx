@@ -5,6 +5,7 @@ import { Label } from '@/components/ui/label';
 import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { z } from 'zod';
 import { applicationFormSchema } from '@/schemas/applicationSchema';
+import { PsgcAddressFields } from './PsgcAddressFields';
 
 type ApplicationFormValues = z.infer<typeof applicationFormSchema>;
 
@@ -44,47 +45,12 @@ export const AddressResidencyFields: React.FC<AddressResidencyFieldsProps> = ({
       />
     </div>
     
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-      <FormField 
-        control={control} 
-        name="barangay" 
-        render={({ field }) => (
-          <FormItem>
-            <FormLabel>Barangay</FormLabel>
-            <FormControl>
-              <Input placeholder="Pembo" {...field} value={field.value ?? ''} />
-            </FormControl>
-            <FormMessage />
-          </FormItem>
-        )} 
-      />
-      <FormField 
-        control={control} 
-        name="cityMunicipality" 
-        render={({ field }) => (
-          <FormItem>
-            <FormLabel>City / Municipality</FormLabel>
-            <FormControl>
-              <Input placeholder="Makati City" {...field} value={field.value ?? ''} />
-            </FormControl>
-            <FormMessage />
-          </FormItem>
-        )} 
-      />
-      <FormField 
-        control={control} 
-        name="province" 
-        render={({ field }) => (
-          <FormItem>
-            <FormLabel>Province</FormLabel>
-            <FormControl>
-              <Input placeholder="Metro Manila" {...field} value={field.value ?? ''} />
-            </FormControl>
-            <FormMessage />
-          </FormItem>
-        )} 
-      />
-    </div>
+    <PsgcAddressFields
+      control={control}
+      province={{ name: 'province', code: 'provinceCode', label: 'Province', placeholder: 'Select province' }}
+      city={{ name: 'cityMunicipality', code: 'cityMunicipalityCode', label: 'City / Municipality', placeholder: 'Select city/municipality' }}
+      barangay={{ name: 'barangay', code: 'barangayCode', label: 'Barangay', placeholder: 'Select barangay' }}
+    />
     
     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
       <FormField 
@@ -1,5 +1,5 @@
-import React from 'react';
-import { Control, UseFormReturn } from 'react-hook-form';
+import React, { useEffect, useState } from 'react';
+import { Control, UseFormReturn, useWatch } from 'react-hook-form';
 import { cn } from "@/lib/utils";
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
@@ -7,10 +7,21 @@ import { z } from 'zod';
 import { applicationFormSchema } from '@/schemas/applicationSchema';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePendingApplications } from '@/hooks/usePendingApplications';
+import { getRegistrationStatus } from '@/services/registrationPeriodService';
+import type { Application } from '@/types';
 import { AlertCircle } from 'lucide-react';
 
 type ApplicationFormValues = z.infer<typeof applicationFormSchema>;
 
+const applicationTypeOptions: { value: Application['applicationType']; label: string }[] = [
+  { value: 'register', label: 'Application for Registration' },
+  { value: 'transfer', label: 'Application for Transfer of Registration Record' },
+  { value: 'reactivation', label: 'Application for Reactivation of Registration Record' },
+  { value: 'transfer_with_reactivation', label: 'Application for Transfer with Reactivation' },
+  { value: 'correction_of_entry', label: 'Application for Change of Name/Correction of Entries' },
+  { value: 'reinstatement', label: 'Application for Inclusion/Reinstatement' },
+];
+
 interface ApplicationTypeFieldsProps {
   control: Control<ApplicationFormValues>;
   form: UseFormReturn<ApplicationFormValues>;
@@ -24,6 +35,23 @@ export const ApplicationTypeFields: React.FC<ApplicationTypeFieldsProps> = ({
 }) => {
   const { user } = useAuth();
   const { pendingApplications, hasPendingApplications, isLoading } = usePendingApplications();
+  const [closedTypes, setClosedTypes] = useState<Map<string, string>>(new Map());
+
+  // Registration periods can differ per municipality, so re-check once the declared address is filled in
+  const [cityMunicipality, province] = useWatch({ control, name: ['cityMunicipality', 'province'] });
+
+  useEffect(() => {
+    const timeout = setTimeout(async () => {
+      const hasAddress = !!cityMunicipality?.trim() && !!province?.trim();
+      const statuses = await getRegistrationStatus(hasAddress ? cityMunicipality : undefined, hasAddress ? province : undefined);
+      setClosedTypes(new Map(
+        statuses
+          .filter(status => !status.is_open)
+          .map(status => [status.application_type, status.reason || 'Not accepted at this time.'])
+      ));
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [cityMunicipality, province]);
 
   // Show loading state while checking for pending applications
   if (isLoading) {
@@ -106,133 +134,43 @@ export const ApplicationTypeFields: React.FC<ApplicationTypeFieldsProps> = ({
                 value={field.value ?? ''} 
                 className="flex flex-col space-y-2"
               >
-                {/* Registration - Disable if user already has approved registration */}
-                <FormItem className="space-y-1">
-                  <div className="flex items-center space-x-3">
-                    <FormControl>
-                      <RadioGroupItem 
-                        value="register" 
-                        disabled={isRegistered}
-                      />
-                    </FormControl>
-                    <FormLabel className={cn(
-                      "font-normal",
-                      isRegistered && "text-muted-foreground"
-                    )}>
-                      Application for Registration
-                    </FormLabel>
-                    {isRegistered && (
-                      <span className="text-xs text-muted-foreground ml-2">(You are already registered)</span>
-                    )}
-                  </div>
-                </FormItem>
-
-                {/* Transfer */}
-                <FormItem className="space-y-1">
-                  <div className="flex items-center space-x-3">
-                    <FormControl>
-                      <RadioGroupItem 
-                        value="transfer" 
-                        disabled={!isRegistered}
-                      />
-                    </FormControl>
-                    <FormLabel className={cn(
-                      "font-normal", 
-                      !isRegistered && "text-muted-foreground"
-                    )}>
-                      Application for Transfer of Registration Record
-                    </FormLabel>
-                    {!isRegistered && (
-                      <span className="text-xs text-muted-foreground ml-2">(Requires registration)</span>
-                    )}
-                  </div>
-                </FormItem>
-
-                {/* Reactivation */}
-                <FormItem className="space-y-2">
-                  <div className="flex items-center space-x-3">
-                    <FormControl>
-                      <RadioGroupItem 
-                        value="reactivation" 
-                        disabled={!isRegistered}
-                      />
-                    </FormControl>
-                    <FormLabel className={cn(
-                      "font-normal", 
-                      !isRegistered && "text-muted-foreground"
-                    )}>
-                      Application for Reactivation of Registration Record
-                    </FormLabel>
-                    {!isRegistered && (
-                      <span className="text-xs text-muted-foreground ml-2">(Requires registration)</span>
-                    )}
-                  </div>
-                </FormItem>
-
-                {/* Transfer with Reactivation */}
-                <FormItem className="space-y-2">
-                  <div className="flex items-center space-x-3">
-                    <FormControl>
-                      <RadioGroupItem 
-                        value="transfer_with_reactivation" 
-                        disabled={!isRegistered}
-                      />
-                    </FormControl>
-                    <FormLabel className={cn(
-                      "font-normal", 
-                      !isRegistered && "text-muted-foreground"
-                    )}>
-                      Application for Transfer with Reactivation
-                    </FormLabel>
-                    {!isRegistered && (
-                      <span className="text-xs text-muted-foreground ml-2">(Requires registration)</span>
-                    )}
-                  </div>
-                </FormItem>
+                {applicationTypeOptions.map(option => {
+                  // Registration is only for applicants without an approved registration; every other type requires one
+                  const registrationNote = option.value === 'register'
+                    ? (isRegistered ? 'You are already registered' : null)
+                    : (!isRegistered ? 'Requires registration' : null);
+                  const closedReason = closedTypes.get(option.value);
+                  const note = registrationNote ?? closedReason;
 
-                {/* Change of Name/Correction of Entries */}
-                <FormItem className="space-y-2">
-                  <div className="flex items-center space-x-3">
-                    <FormControl>
-                      <RadioGroupItem 
-                        value="correction_of_entry" 
-                        disabled={!isRegistered}
-                      />
-                    </FormControl>
-                    <FormLabel className={cn(
-                      "font-normal", 
-                      !isRegistered && "text-muted-foreground"
-                    )}>
-                      Application for Change of Name/Correction of Entries
-                    </FormLabel>
-                    {!isRegistered && (
-                      <span className="text-xs text-muted-foreground ml-2">(Requires registration)</span>
-                    )}
-                  </div>
-                </FormItem>
-
-                {/* Inclusion/Reinstatement */}
-                <FormItem className="space-y-2">
-                  <div className="flex items-center space-x-3">
-                    <FormControl>
-                      <RadioGroupItem 
-                        value="reinstatement" 
-                        disabled={!isRegistered}
-                      />
-                    </FormControl>
-                    <FormLabel className={cn(
-                      "font-normal", 
-                      !isRegistered && "text-muted-foreground"
-                    )}>
-                      Application for Inclusion/Reinstatement
-                    </FormLabel>
-                    {!isRegistered && (
-                      <span className="text-xs text-muted-foreground ml-2">(Requires registration)</span>
-                    )}
-                  </div>
-                </FormItem>
+                  return (
+                    <FormItem key={option.value} className="space-y-1">
+                      <div className="flex items-center space-x-3">
+                        <FormControl>
+                          <RadioGroupItem 
+                            value={option.value} 
+                            disabled={!!note}
+                          />
+                        </FormControl>
+                        <FormLabel className={cn(
+                          "font-normal",
+                          note && "text-muted-foreground"
+                        )}>
+                          {option.label}
+                        </FormLabel>
+                        {note && (
+                          <span className="text-xs text-muted-foreground ml-2">({note})</span>
+                        )}
+                      </div>
+                    </FormItem>
+                  );
+                })}
               </RadioGroup>
             </FormControl>
+            {field.value && closedTypes.has(field.value) && (
+              <p className="text-sm text-destructive">
+                This application type is not being accepted: {closedTypes.get(field.value)} Please choose another type.
+              </p>
+            )}
             <FormMessage />
           </FormItem>
         )}
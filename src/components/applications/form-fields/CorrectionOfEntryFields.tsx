@@ -1,8 +1,8 @@
 'use client';
-import { Control } from 'react-hook-form';
+import { Control, useWatch } from 'react-hook-form';
 import { z } from 'zod';
 import { applicationFormSchema } from '@/schemas/applicationSchema';
-import { FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
+import { FormField, FormItem, FormLabel, FormControl, FormDescription, FormMessage } from '@/components/ui/form';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
@@ -13,7 +13,16 @@ interface CorrectionOfEntryFieldsProps {
   control: Control<ApplicationFormValues>;
 }
 
+// Formats the approval step expects when writing the corrected value back to the voter record
+const requestedValueFormats: Record<string, string> = {
+  'Name': 'Enter as "Last Name, First Name, Middle Name".',
+  'Place of Birth': 'Enter as "City/Municipality, Province".',
+  'Date of Birth': 'Enter as YYYY-MM-DD.',
+};
+
 export function CorrectionOfEntryFields({ control }: CorrectionOfEntryFieldsProps) {
+  const targetField = useWatch({ control, name: 'targetField' });
+
   return (
     <div className="space-y-4">
       <Card>
@@ -74,6 +83,9 @@ export function CorrectionOfEntryFields({ control }: CorrectionOfEntryFieldsProp
                   <FormControl>
                     <Input {...field} value={field.value ?? ''} />
                   </FormControl>
+                  {targetField && requestedValueFormats[targetField] && (
+                    <FormDescription>{requestedValueFormats[targetField]}</FormDescription>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
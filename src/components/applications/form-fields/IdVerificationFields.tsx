@@ -1,10 +1,16 @@
 'use client';
-import { Control } from 'react-hook-form';
+import { useEffect, useState } from 'react';
+import { Control, useFormContext, useWatch } from 'react-hook-form';
 import { z } from 'zod';
 import { applicationFormSchema } from '@/schemas/applicationSchema';
 import { FormField, FormItem, FormLabel, FormControl, FormDescription, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { formatFileSize, MAX_ID_IMAGE_BYTES, processIdImage, type ProcessedImage } from '@/lib/imagePipeline';
+import { assessIdImageQuality } from '@/lib/imageQuality';
+import { getAcceptedIdTypes } from '@/services/idTypeService';
+import type { AcceptedIdType, IdImageQuality } from '@/types';
 
 type ApplicationFormValues = z.infer<typeof applicationFormSchema>;
 
@@ -12,24 +18,101 @@ interface IdVerificationFieldsProps {
   control: Control<ApplicationFormValues>;
 }
 
+type IdImageField = 'governmentIdFrontUrl' | 'governmentIdBackUrl' | 'idSelfieUrl';
+
+const idImageFields: {
+  name: IdImageField;
+  qualityName: 'governmentIdFrontQuality' | 'governmentIdBackQuality' | 'idSelfieQuality';
+  kind: 'id_card' | 'selfie';
+  label: string;
+  description: string;
+}[] = [
+  {
+    name: 'governmentIdFrontUrl',
+    qualityName: 'governmentIdFrontQuality',
+    kind: 'id_card',
+    label: 'ID Front Photo',
+    description: 'Upload a clear photo of the front of your valid ID',
+  },
+  {
+    name: 'governmentIdBackUrl',
+    qualityName: 'governmentIdBackQuality',
+    kind: 'id_card',
+    label: 'ID Back Photo',
+    description: 'Upload a clear photo of the back of your valid ID',
+  },
+  {
+    name: 'idSelfieUrl',
+    qualityName: 'idSelfieQuality',
+    kind: 'selfie',
+    label: 'Selfie with ID',
+    description: 'Upload a selfie of yourself holding your ID (make sure both your face and ID are clearly visible)',
+  },
+];
+
 export function IdVerificationFields({ control }: IdVerificationFieldsProps) {
   const { toast } = useToast();
+  const { setValue } = useFormContext<ApplicationFormValues>();
+  // Result of the image pipeline per field, shown so applicants see what will be uploaded
+  const [processed, setProcessed] = useState<Partial<Record<IdImageField, Omit<ProcessedImage, 'file'>>>>({});
+  const [processingField, setProcessingField] = useState<IdImageField | null>(null);
+
+  const [qualities, setQualities] = useState<Partial<Record<IdImageField, IdImageQuality>>>({});
+
+  const [idTypes, setIdTypes] = useState<AcceptedIdType[]>([]);
+  const idType = useWatch({ control, name: 'idType' });
 
-  const handleFileChange = (onChange: (file: File) => void, fieldName: string) => (
+  useEffect(() => {
+    getAcceptedIdTypes().then(setIdTypes);
+  }, []);
+
+  // Only ask for the back side when the selected ID has one worth capturing
+  const visibleImageFields = idImageFields.filter(field => field.name !== 'governmentIdBackUrl' || idType?.requires_back !== false);
+
+  const handleIdTypeChange = (onChange: (value?: AcceptedIdType) => void) => (code: string) => {
+    const selected = idTypes.find(type => type.id_type_code === code);
+    onChange(selected);
+    if (selected && !selected.requires_back) {
+      setValue('governmentIdBackUrl', undefined);
+      setValue('governmentIdBackQuality', undefined);
+      setProcessed(prev => ({ ...prev, governmentIdBackUrl: undefined }));
+      setQualities(prev => ({ ...prev, governmentIdBackUrl: undefined }));
+    }
+  };
+
+  const handleFileChange = (onChange: (file?: File) => void, imageField: typeof idImageFields[number]) => async (
     e: React.ChangeEvent<HTMLInputElement>
   ) => {
     const file = e.target.files?.[0];
-    if (file) {
-      if (file.size > 5 * 1024 * 1024) {
-        toast({
-          title: "File too large",
-          description: "Please select a file smaller than 5MB",
-          variant: "destructive",
-        });
-        e.target.value = '';
-        return;
-      }
-      onChange(file);
+    if (!file) return;
+
+    const fieldName = imageField.name;
+    setProcessingField(fieldName);
+    try {
+      const { file: processedFile, ...info } = await processIdImage(file);
+      onChange(processedFile);
+      setProcessed(prev => ({ ...prev, [fieldName]: info }));
+
+      // Quality checks only warn; the scores are saved with the application for officers
+      const quality = await assessIdImageQuality(processedFile, imageField.kind).catch(error => {
+        console.error('Error assessing ID image quality:', error);
+        return undefined;
+      });
+      setValue(imageField.qualityName, quality);
+      setQualities(prev => ({ ...prev, [fieldName]: quality }));
+    } catch (error) {
+      toast({
+        title: "Photo could not be used",
+        description: error instanceof Error ? error.message : "Please select a different photo",
+        variant: "destructive",
+      });
+      e.target.value = '';
+      onChange(undefined);
+      setValue(imageField.qualityName, undefined);
+      setProcessed(prev => ({ ...prev, [fieldName]: undefined }));
+      setQualities(prev => ({ ...prev, [fieldName]: undefined }));
+    } finally {
+      setProcessingField(null);
     }
   };
 
@@ -37,74 +120,105 @@ export function IdVerificationFields({ control }: IdVerificationFieldsProps) {
     <div className="space-y-6">
       <p className="text-sm text-muted-foreground">
         Please provide clear photos of your valid government-issued ID and a selfie of yourself holding the ID.
-        Each file should not exceed 5MB.
+        Photos are rotated, resized and stripped of location data on your device before upload; each must end up
+        under {formatFileSize(MAX_ID_IMAGE_BYTES)}.
       </p>
 
-      <FormField
-        control={control}
-        name="governmentIdFrontUrl"
-        render={({ field: { onChange, value, ...field } }) => (
-          <FormItem>
-            <FormLabel>ID Front Photo</FormLabel>
-            <FormControl>
-              <Input
-                type="file"
-                accept="image/*"
-                onChange={handleFileChange(onChange, 'governmentIdFrontUrl')}
-                {...field}
-              />
-            </FormControl>
-            <FormDescription>
-              Upload a clear photo of the front of your valid ID
-            </FormDescription>
-            <FormMessage />
-          </FormItem>
-        )}
-      />
-
-      <FormField
-        control={control}
-        name="governmentIdBackUrl"
-        render={({ field: { onChange, value, ...field } }) => (
-          <FormItem>
-            <FormLabel>ID Back Photo</FormLabel>
-            <FormControl>
-              <Input
-                type="file"
-                accept="image/*"
-                onChange={handleFileChange(onChange, 'governmentIdBackUrl')}
-                {...field}
-              />
-            </FormControl>
-            <FormDescription>
-              Upload a clear photo of the back of your valid ID
-            </FormDescription>
-            <FormMessage />
-          </FormItem>
-        )}
-      />
-
-      <FormField
-        control={control}
-        name="idSelfieUrl"
-        render={({ field: { onChange, value, ...field } }) => (
-          <FormItem>
-            <FormLabel>Selfie with ID</FormLabel>
-            <FormControl>
-              <Input
-                type="file"
-                accept="image/*"
-                onChange={handleFileChange(onChange, 'idSelfieUrl')}
-                {...field}
-              />
-            </FormControl>
-            <FormDescription>
-              Upload a selfie of yourself holding your ID (make sure both your face and ID are clearly visible)
-            </FormDescription>
-            <FormMessage />
-          </FormItem>
-        )}
-      />
+      <div className="grid gap-4 md:grid-cols-2">
+        <FormField
+          control={control}
+          name="idType"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>ID Type</FormLabel>
+              <Select onValueChange={handleIdTypeChange(field.onChange)} value={field.value?.id_type_code}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder={idTypes.length === 0 ? 'Loading accepted IDs...' : 'Select the ID you are presenting'} />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {idTypes.map(type => (
+                    <SelectItem key={type.id_type_code} value={type.id_type_code}>{type.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="idNumber"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>ID Number</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder={idType?.id_number_hint ? `e.g., ${idType.id_number_hint}` : 'Number printed on your ID'}
+                  {...field}
+                  value={field.value ?? ''}
+                />
+              </FormControl>
+              {idType?.id_number_hint && (
+                <FormDescription>Format: {idType.id_number_hint}</FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      {visibleImageFields.map(imageField => {
+        const { name, label, description } = imageField;
+        const quality = qualities[name];
+        return (
+          <FormField
+            key={name}
+            control={control}
+            name={name}
+            render={({ field: { onChange, value, ...field } }) => (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="file"
+                    accept="image/*"
+                    onChange={handleFileChange(onChange, imageField)}
+                    disabled={processingField !== null}
+                    {...field}
+                  />
+                </FormControl>
+                <FormDescription>{description}</FormDescription>
+                {processingField === name ? (
+                  <p className="text-xs text-muted-foreground">Processing photo...</p>
+                ) : value && processed[name] && (
+                  <p className="text-xs text-muted-foreground">
+                    Ready to upload: {formatFileSize(value.size)} ({processed[name]!.width}×{processed[name]!.height}),
+                    reduced from {formatFileSize(processed[name]!.originalSize)}
+                  </p>
+                )}
+                {processingField !== name && value && quality && (
+                  quality.warnings.length > 0 ? (
+                    <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
+                      <p className="font-medium mb-1">
+                        Photo quality {quality.score}/100. Officers may reject unclear photos; consider retaking it:
+                      </p>
+                      <ul className="list-disc pl-4 space-y-0.5">
+                        {quality.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                      </ul>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-green-700">Photo quality {quality.score}/100. Looks clear.</p>
+                  )
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        );
+      })}
     </div>
   );
 }
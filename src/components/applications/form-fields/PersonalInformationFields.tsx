@@ -12,6 +12,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { z } from 'zod';
 import { applicationFormSchema } from '@/schemas/applicationSchema';
+import { PsgcAddressFields } from './PsgcAddressFields';
 
 type ApplicationFormValues = z.infer<typeof applicationFormSchema>;
 
@@ -161,34 +162,12 @@ export const PersonalInformationFields: React.FC<PersonalInformationFieldsProps>
           )}
         />
       </div>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <FormField
-          control={control}
-          name="placeOfBirthMunicipality"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Place of Birth (City/Municipality)</FormLabel>
-              <FormControl>
-                <Input placeholder="Manila" {...field} value={field.value ?? ''} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-        <FormField
-          control={control}
-          name="placeOfBirthProvince"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Place of Birth (Province)</FormLabel>
-              <FormControl>
-                <Input placeholder="Metro Manila" {...field} value={field.value ?? ''} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-      </div>
+      <PsgcAddressFields
+        control={control}
+        province={{ name: 'placeOfBirthProvince', code: 'placeOfBirthProvinceCode', label: 'Place of Birth (Province)', placeholder: 'Select province' }}
+        city={{ name: 'placeOfBirthMunicipality', code: 'placeOfBirthMunicipalityCode', label: 'Place of Birth (City/Municipality)', placeholder: 'Select city/municipality' }}
+        className="grid grid-cols-1 md:grid-cols-2 gap-4"
+      />
       <FormField
         control={control}
         name="contactNumber"
@@ -0,0 +1,127 @@
+'use client';
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { Control, useFormContext, useWatch } from 'react-hook-form';
+import { z } from 'zod';
+import { applicationFormSchema } from '@/schemas/applicationSchema';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { PsgcCombobox } from '@/components/address/PsgcCombobox';
+import { getPsgcChildren, loadPsgcAreas, type PsgcArea } from '@/lib/psgc';
+
+type ApplicationFormValues = z.infer<typeof applicationFormSchema>;
+
+type AddressFieldName =
+  | 'province' | 'provinceCode' | 'cityMunicipality' | 'cityMunicipalityCode' | 'barangay' | 'barangayCode'
+  | 'previousProvince' | 'previousProvinceCode' | 'previousCityMunicipality' | 'previousCityMunicipalityCode'
+  | 'previousBarangay' | 'previousBarangayCode'
+  | 'placeOfBirthProvince' | 'placeOfBirthProvinceCode' | 'placeOfBirthMunicipality' | 'placeOfBirthMunicipalityCode';
+
+interface PsgcLevelFields {
+  name: AddressFieldName; // place name, shown on the record
+  code: AddressFieldName; // PSGC code stored alongside the name
+  label: ReactNode;
+  placeholder: string;
+}
+
+interface PsgcAddressFieldsProps {
+  control: Control<ApplicationFormValues>;
+  province?: PsgcLevelFields;
+  city?: PsgcLevelFields;
+  barangay?: PsgcLevelFields;
+  parentCityCode?: string; // lists this city's barangays when the city itself is not asked
+  className?: string;
+}
+
+/**
+ * Cascading province → city/municipality → barangay pickers over the bundled PSGC data.
+ * Picking a place stores its name and PSGC code; changing a level clears the levels below it.
+ * Places missing from the data can still be typed in, leaving the code empty for the
+ * address normalizer to resolve later.
+ */
+export function PsgcAddressFields({ control, province, city, barangay, parentCityCode, className }: PsgcAddressFieldsProps) {
+  const { setValue } = useFormContext<ApplicationFormValues>();
+  const [areas, setAreas] = useState<PsgcArea[]>([]);
+
+  useEffect(() => {
+    loadPsgcAreas()
+      .then(setAreas)
+      .catch(error => console.error('Error loading PSGC data:', error));
+  }, []);
+
+  const provinceCode = useWatch({ control, name: province?.code ?? 'provinceCode' });
+  const cityCode = useWatch({ control, name: city?.code ?? 'cityMunicipalityCode' });
+  const barangayCode = useWatch({ control, name: barangay?.code ?? 'barangayCode' });
+
+  const provinceOptions = province ? getPsgcChildren(areas, 'province', null) : [];
+  const cityParent = province ? provinceCode : undefined;
+  const cityOptions = city && typeof cityParent === 'string' && cityParent ? getPsgcChildren(areas, 'city', cityParent) : [];
+  const barangayParent = city ? cityCode : parentCityCode;
+  const barangayOptions = barangay && typeof barangayParent === 'string' && barangayParent
+    ? getPsgcChildren(areas, 'barangay', barangayParent)
+    : [];
+
+  const setField = (name: AddressFieldName, value: string) =>
+    setValue(name, value, { shouldDirty: true, shouldValidate: true });
+
+  const clearLevels = (...levels: (PsgcLevelFields | undefined)[]) => {
+    levels.forEach(level => {
+      if (!level) return;
+      setField(level.name, '');
+      setField(level.code, '');
+    });
+  };
+
+  const renderLevel = (
+    level: PsgcLevelFields,
+    options: PsgcArea[],
+    code: unknown,
+    below: (PsgcLevelFields | undefined)[]
+  ) => (
+    <FormField
+      control={control}
+      name={level.name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{level.label}</FormLabel>
+          {options.length > 0 ? (
+            <FormControl>
+              <PsgcCombobox
+                options={options}
+                value={typeof field.value === 'string' ? field.value : ''}
+                code={typeof code === 'string' ? code : ''}
+                placeholder={level.placeholder}
+                onSelect={(area, name) => {
+                  if (name !== field.value) clearLevels(...below);
+                  setField(level.name, name);
+                  setField(level.code, area?.code ?? '');
+                }}
+              />
+            </FormControl>
+          ) : (
+            <FormControl>
+              <Input
+                placeholder={level.placeholder}
+                value={typeof field.value === 'string' ? field.value : ''}
+                onChange={(e) => {
+                  field.onChange(e.target.value);
+                  setField(level.code, '');
+                }}
+                onBlur={field.onBlur}
+              />
+            </FormControl>
+          )}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className={className ?? 'grid grid-cols-1 md:grid-cols-3 gap-4'}>
+      {province && renderLevel(province, provinceOptions, provinceCode, [city, barangay])}
+      {city && renderLevel(city, cityOptions, cityCode, [barangay])}
+      {barangay && renderLevel(barangay, barangayOptions, barangayCode, [])}
+    </div>
+  );
+}
@@ -14,7 +14,8 @@ export function ThumbprintsSignaturesFields({ control }: ThumbprintsSignaturesFi
     <div className="space-y-6">
       <div className="bg-muted/50 p-4 rounded-lg mb-4">
         <p className="text-sm text-muted-foreground">
-          Note: Your thumbprints and specimen signatures will be captured in person at the COMELEC office. 
+          Note: Your thumbprints, specimen signature and photo will be captured in person by an election officer
+          at the COMELEC office. Your registration cannot be approved until they are captured.
           The boxes below are for illustration purposes only.
         </p>
       </div>
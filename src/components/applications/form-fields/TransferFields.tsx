@@ -6,6 +6,7 @@ import { FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/comp
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
+import { PsgcAddressFields } from './PsgcAddressFields';
 import { useEffect } from 'react';
 
 type ApplicationFormValues = z.infer<typeof applicationFormSchema>;
@@ -24,6 +25,9 @@ export function TransferFields({ control }: TransferFieldsProps) {
   const isWithinCity = transferType === 'Within the same City/Municipality/District.';
   const isFromAnotherCity = transferType === 'From another City/Municipality/District.';
   const isFromForeign = transferType === 'From foreign post to local CEO other than original place of registration.';
+  const declaredCityCode = useWatch({ control, name: 'cityMunicipalityCode' });
+
+  const previousBarangayLabel = <>Previous Barangay<span className="text-red-500 ml-1">*</span></>;
 
   // Clear irrelevant fields and errors when transfer type changes
   useEffect(() => {
@@ -39,6 +43,9 @@ export function TransferFields({ control }: TransferFieldsProps) {
       setValue('previousBarangay', undefined);
       setValue('previousCityMunicipality', undefined);
       setValue('previousProvince', undefined);
+      setValue('previousBarangayCode', undefined);
+      setValue('previousCityMunicipalityCode', undefined);
+      setValue('previousProvinceCode', undefined);
       console.log('Cleared domestic fields for foreign transfer');
     } else {
       // Clear foreign fields for domestic transfers
@@ -50,6 +57,8 @@ export function TransferFields({ control }: TransferFieldsProps) {
         // Clear inter-city fields for within city transfers
         setValue('previousCityMunicipality', undefined);
         setValue('previousProvince', undefined);
+        setValue('previousCityMunicipalityCode', undefined);
+        setValue('previousProvinceCode', undefined);
         console.log('Cleared inter-city fields for within city transfer');
       }
     }
@@ -130,68 +139,32 @@ export function TransferFields({ control }: TransferFieldsProps) {
                     </FormItem>
                   )}
                 />
-                
-                <FormField
-                  control={control}
-                  name="previousBarangay"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>
-                        Previous Barangay
-                        {(isWithinCity || isFromAnotherCity) && <span className="text-red-500 ml-1">*</span>}
-                      </FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="e.g., Poblacion" 
-                          {...field} 
-                          value={field.value ?? ''} 
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+
+                {/* Within the same city, the previous barangay is one of the declared city's barangays */}
+                {isWithinCity && (
+                  <PsgcAddressFields
+                    control={control}
+                    barangay={{ name: 'previousBarangay', code: 'previousBarangayCode', label: previousBarangayLabel, placeholder: 'Select barangay' }}
+                    parentCityCode={declaredCityCode}
+                    className="contents"
+                  />
+                )}
               </div>
             )}
 
             {/* Additional domestic fields - only show for inter-city transfers */}
             {isFromAnotherCity && (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField
-                  control={control}
-                  name="previousCityMunicipality"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>
-                        Previous City/Municipality
-                        <span className="text-red-500 ml-1">*</span>
-                      </FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="e.g., Manila City" 
-                          {...field} 
-                          value={field.value ?? ''} 
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={control}
-                  name="previousProvince"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Previous Province</FormLabel>
-                      <FormControl>
-                        <Input placeholder="e.g., Metro Manila" {...field} value={field.value ?? ''} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
+              <PsgcAddressFields
+                control={control}
+                province={{ name: 'previousProvince', code: 'previousProvinceCode', label: 'Previous Province', placeholder: 'Select province' }}
+                city={{
+                  name: 'previousCityMunicipality',
+                  code: 'previousCityMunicipalityCode',
+                  label: <>Previous City/Municipality<span className="text-red-500 ml-1">*</span></>,
+                  placeholder: 'Select city/municipality',
+                }}
+                barangay={{ name: 'previousBarangay', code: 'previousBarangayCode', label: previousBarangayLabel, placeholder: 'Select barangay' }}
+              />
             )}
 
             {/* Foreign transfer fields - only show for foreign transfers */}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Fingerprint, Save } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { SignaturePad } from "@/components/biometrics/SignaturePad";
+import { WebcamCapture } from "@/components/biometrics/WebcamCapture";
+import { MAX_ID_IMAGE_BYTES, formatFileSize } from "@/lib/imagePipeline";
+import { getApplicationBiometrics, saveBiometricCapture } from "@/services/biometricsService";
+import { BIOMETRICS_BUCKET, getSignedFileUrl } from "@/services/storageService";
+import type { ApplicantBiometrics, BiometricCapture } from "@/types";
+
+interface BiometricsCaptureCardProps {
+  applicationId: string;
+  readOnly?: boolean; // captures can only be changed while the application is still open
+  onCompleteChange: (complete: boolean) => void; // approval is blocked until all four captures exist
+}
+
+const captures: { capture: BiometricCapture; label: string }[] = [
+  { capture: 'left_thumbprint', label: 'Left Thumbprint' },
+  { capture: 'right_thumbprint', label: 'Right Thumbprint' },
+  { capture: 'signature_specimen', label: 'Specimen Signature' },
+  { capture: 'photo', label: 'Photo' },
+];
+
+// Formats produced by the fingerprint scanner software
+const THUMBPRINT_TYPES = ['image/png', 'image/jpeg', 'image/bmp'];
+
+export function BiometricsCaptureCard({ applicationId, readOnly = false, onCompleteChange }: BiometricsCaptureCardProps) {
+  const { toast } = useToast();
+  const [applicantId, setApplicantId] = useState<number | null>(null);
+  const [biometrics, setBiometrics] = useState<ApplicantBiometrics | null>(null);
+  const [captureUrls, setCaptureUrls] = useState<Partial<Record<BiometricCapture, string>>>({});
+  const [pending, setPending] = useState<Partial<Record<BiometricCapture, Blob>>>({});
+  const [savingCapture, setSavingCapture] = useState<BiometricCapture | null>(null);
+  // Bumped after a save to remount that capture's controls with a blank state
+  const [captureKeys, setCaptureKeys] = useState<Partial<Record<BiometricCapture, number>>>({});
+
+  const loadBiometrics = async () => {
+    const result = await getApplicationBiometrics(applicationId);
+    setApplicantId(result?.applicantId ?? null);
+    setBiometrics(result?.biometrics ?? null);
+    onCompleteChange(result?.biometrics?.is_complete ?? false);
+
+    const urls = await Promise.all(captures.map(({ capture }) => {
+      const path = result?.biometrics?.[`${capture}_path`];
+      return path ? getSignedFileUrl(BIOMETRICS_BUCKET, path) : null;
+    }));
+    setCaptureUrls(captures.reduce<Partial<Record<BiometricCapture, string>>>((acc, { capture }, index) => {
+      const url = urls[index];
+      if (url) acc[capture] = url;
+      return acc;
+    }, {}));
+  };
+
+  useEffect(() => {
+    loadBiometrics();
+  }, [applicationId]);
+
+  const setPendingCapture = (capture: BiometricCapture, image: Blob | null) => {
+    setPending(prev => {
+      const next = { ...prev };
+      if (image) next[capture] = image;
+      else delete next[capture];
+      return next;
+    });
+  };
+
+  const handleThumbprintChange = (capture: BiometricCapture, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] ?? null;
+    if (file && !THUMBPRINT_TYPES.includes(file.type)) {
+      toast({ title: 'Unsupported File', description: 'Export the thumbprint from the scanner as PNG, JPEG or BMP.', variant: 'destructive' });
+      e.target.value = '';
+      return;
+    }
+    if (file && file.size > MAX_ID_IMAGE_BYTES) {
+      toast({ title: 'File Too Large', description: `Thumbprint images must be smaller than ${formatFileSize(MAX_ID_IMAGE_BYTES)}.`, variant: 'destructive' });
+      e.target.value = '';
+      return;
+    }
+    setPendingCapture(capture, file);
+  };
+
+  const handleSave = async (capture: BiometricCapture, label: string) => {
+    const image = pending[capture];
+    if (!image || applicantId === null) return;
+
+    setSavingCapture(capture);
+    try {
+      await saveBiometricCapture(applicantId, capture, image, biometrics?.[`${capture}_path`]);
+      setPendingCapture(capture, null);
+      setCaptureKeys(prev => ({ ...prev, [capture]: (prev[capture] ?? 0) + 1 }));
+      await loadBiometrics();
+      toast({ title: 'Biometrics Saved', description: `${label} was saved.` });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : `Failed to save the ${label.toLowerCase()}.`,
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingCapture(null);
+    }
+  };
+
+  const complete = biometrics?.is_complete ?? false;
+
+  return (
+    <Card className={`lg:col-span-3 ${complete ? '' : 'border-amber-300'}`}>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center">
+              <Fingerprint className="mr-2 h-5 w-5" />
+              Biometrics
+            </CardTitle>
+            <CardDescription>
+              Captured in person when the applicant visits the office. This registration cannot be approved until both
+              thumbprints, the specimen signature and the photo are saved.
+              {biometrics && ` Last captured ${format(new Date(biometrics.captured_at), 'PPP p')}.`}
+            </CardDescription>
+          </div>
+          <Badge variant={complete ? 'default' : 'outline'} className={complete ? 'bg-green-600 hover:bg-green-600' : undefined}>
+            {complete ? 'Complete' : 'Incomplete'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {applicantId === null ? (
+          <div className="text-muted-foreground">Biometrics could not be loaded for this application.</div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+            {captures.map(({ capture, label }) => (
+              <div key={capture} className="rounded-lg border p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold">{label}</h4>
+                  <Badge variant={biometrics?.[`${capture}_path`] ? 'secondary' : 'outline'}>
+                    {biometrics?.[`${capture}_path`] ? 'Captured' : 'Missing'}
+                  </Badge>
+                </div>
+
+                <div className="h-40 overflow-hidden rounded border bg-muted">
+                  {captureUrls[capture] ? (
+                    <img src={captureUrls[capture]} alt={label} className="h-full w-full object-contain bg-white" />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-xs text-muted-foreground">Not captured</div>
+                  )}
+                </div>
+
+                {!readOnly && (
+                  <div key={captureKeys[capture] ?? 0} className="space-y-2 border-t pt-3">
+                    {capture === 'signature_specimen' ? (
+                      <SignaturePad onChange={image => setPendingCapture(capture, image)} disabled={savingCapture !== null} />
+                    ) : capture === 'photo' ? (
+                      <WebcamCapture onCapture={image => setPendingCapture(capture, image)} disabled={savingCapture !== null} />
+                    ) : (
+                      <Input
+                        type="file"
+                        accept={THUMBPRINT_TYPES.join(',')}
+                        onChange={e => handleThumbprintChange(capture, e)}
+                        disabled={savingCapture !== null}
+                      />
+                    )}
+                    <Button
+                      size="sm"
+                      className="w-full"
+                      onClick={() => handleSave(capture, label)}
+                      disabled={!pending[capture] || savingCapture !== null}
+                    >
+                      <Save className="mr-2 h-4 w-4" />
+                      {savingCapture === capture ? 'Saving...' : biometrics?.[`${capture}_path`] ? `Replace ${label}` : `Save ${label}`}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Eraser } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface SignaturePadProps {
+  onChange: (signature: Blob | null) => void; // PNG of the strokes so far; null once cleared
+  disabled?: boolean;
+}
+
+// Canvas size in pixels; the element is scaled to its container with CSS
+const PAD_WIDTH = 600;
+const PAD_HEIGHT = 200;
+
+export function SignaturePad({ onChange, disabled = false }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  const fillBackground = () => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, PAD_WIDTH, PAD_HEIGHT);
+  };
+
+  useEffect(fillBackground, []);
+
+  // Pointer position in canvas pixels
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * PAD_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * PAD_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (disabled || !context) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+
+    const { x, y } = toCanvasPoint(e);
+    context.strokeStyle = '#111827';
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!drawingRef.current || !context) return;
+    const { x, y } = toCanvasPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    e.currentTarget.toBlob(blob => onChange(blob), 'image/png');
+  };
+
+  const handleClear = () => {
+    fillBackground();
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={PAD_WIDTH}
+        height={PAD_HEIGHT}
+        className={`w-full rounded border bg-white touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <Button type="button" variant="outline" size="sm" onClick={handleClear} disabled={disabled}>
+        <Eraser className="mr-2 h-4 w-4" />
+        Clear
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Camera, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface WebcamCaptureProps {
+  onCapture: (photo: Blob | null) => void; // JPEG snapshot; null when the officer retakes
+  disabled?: boolean;
+}
+
+export function WebcamCapture({ onCapture, disabled = false }: WebcamCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [snapshotUrl, setSnapshotUrl] = useState<string | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  const startCamera = async () => {
+    setCameraError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { width: { ideal: 1280 }, height: { ideal: 960 }, facingMode: 'user' },
+        audio: false,
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+    } catch (error) {
+      console.error('Error starting webcam:', error);
+      setCameraError('The camera could not be started. Allow camera access in the browser and check that a webcam is connected.');
+    }
+  };
+
+  useEffect(() => {
+    startCamera();
+    return stopCamera;
+  }, []);
+
+  // Revoke the previous preview when a new one replaces it
+  useEffect(() => () => {
+    if (snapshotUrl) URL.revokeObjectURL(snapshotUrl);
+  }, [snapshotUrl]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      setSnapshotUrl(URL.createObjectURL(blob));
+      onCapture(blob);
+      stopCamera();
+    }, 'image/jpeg', 0.9);
+  };
+
+  const handleRetake = () => {
+    setSnapshotUrl(null);
+    onCapture(null);
+    startCamera();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative aspect-[4/3] overflow-hidden rounded border bg-muted">
+        {/* The video stays mounted so a retake can reattach the stream */}
+        <video ref={videoRef} muted playsInline className={`h-full w-full object-cover ${snapshotUrl ? 'hidden' : ''}`} />
+        {snapshotUrl && <img src={snapshotUrl} alt="Captured photo" className="h-full w-full object-cover" />}
+        {cameraError && !snapshotUrl && (
+          <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-xs text-muted-foreground">
+            {cameraError}
+          </div>
+        )}
+      </div>
+      {snapshotUrl ? (
+        <Button type="button" variant="outline" size="sm" onClick={handleRetake} disabled={disabled}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Retake
+        </Button>
+      ) : (
+        <Button type="button" variant="outline" size="sm" onClick={handleCapture} disabled={disabled || !!cameraError}>
+          <Camera className="mr-2 h-4 w-4" />
+          Take Photo
+        </Button>
+      )}
+    </div>
+  );
+}
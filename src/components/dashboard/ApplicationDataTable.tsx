@@ -12,6 +12,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { cn } from '@/lib/utils';
+import { LOW_QUALITY_SCORE } from '@/lib/imageQuality';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
 import { DateRange } from 'react-day-picker';
@@ -23,7 +24,7 @@ interface ApplicationDataTableProps {
   showFilters?: boolean;
 }
 
-type SortKey = 'applicantName' | 'submissionDate' | 'status';
+type SortKey = 'applicantName' | 'submissionDate' | 'status' | 'idQuality';
 type SortDirection = 'asc' | 'desc';
 
 export function ApplicationDataTable({ 
@@ -38,6 +39,7 @@ export function ApplicationDataTable({
   
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [idTypeFilter, setIdTypeFilter] = useState<string>('all');
   const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
   const [searchTerm, setSearchTerm] = useState<string>('');
 
@@ -71,6 +73,17 @@ export function ApplicationDataTable({
     }
   };
 
+  // ID types presented in the loaded registrations, for the ID type filter
+  const idTypeOptions = useMemo(() => {
+    const options = new Map<string, string>();
+    applications.forEach(app => {
+      if (app.registration?.idTypeCode) {
+        options.set(app.registration.idTypeCode, app.registration.idTypeName || app.registration.idTypeCode);
+      }
+    });
+    return Array.from(options, ([code, name]) => ({ code, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [applications]);
+
   const handleSort = (key: SortKey) => {
     if (sortKey === key) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
@@ -100,6 +113,10 @@ export function ApplicationDataTable({
     if (typeFilter !== 'all') {
       filtered = filtered.filter(app => app.applicationType === typeFilter);
     }
+    // ID type filter
+    if (idTypeFilter !== 'all') {
+      filtered = filtered.filter(app => app.registration?.idTypeCode === idTypeFilter);
+    }
     // Date range filter
     if (dateRange?.from) {
       const fromDate = startOfDay(dateRange.from);
@@ -130,13 +147,17 @@ export function ApplicationDataTable({
       } else if (sortKey === 'status') {
         valA = a.status.toLowerCase();
         valB = b.status.toLowerCase();
+      } else if (sortKey === 'idQuality') {
+        // Applications without scores (not registrations, or submitted before scoring) sort as lowest
+        valA = a.registration?.idQualityScore ?? -1;
+        valB = b.registration?.idQualityScore ?? -1;
       }
 
       if (valA < valB) return sortDirection === 'asc' ? -1 : 1;
       if (valA > valB) return sortDirection === 'asc' ? 1 : -1;
       return 0;
     });
-  }, [applications, statusFilter, typeFilter, dateRange, sortKey, sortDirection, searchTerm]);
+  }, [applications, statusFilter, typeFilter, idTypeFilter, dateRange, sortKey, sortDirection, searchTerm]);
 
   const SortableHeader = ({ children, sortFieldKey }: { children: React.ReactNode; sortFieldKey: SortKey }) => (
     <TableHead onClick={() => handleSort(sortFieldKey)} className="cursor-pointer hover:bg-muted/50">
@@ -155,7 +176,7 @@ export function ApplicationDataTable({
 
     const headers = [
       "ID", "Applicant Name", "Application Type", "Submission Date", "Status", 
-      "Voter ID", "Precinct", "Approval Date", "Remarks"
+      "Voter ID", "Precinct", "Approval Date", "ID Type", "ID Number", "ID Quality", "Remarks"
     ];
     const rows = filteredAndSortedApplications.map(app => [
       app.id,
@@ -166,6 +187,9 @@ export function ApplicationDataTable({
       app.voterId || 'N/A',
       app.precinct || 'N/A',
       app.approvalDate ? format(new Date(app.approvalDate), 'yyyy-MM-dd HH:mm') : 'N/A',
+      app.registration?.idTypeName || 'N/A',
+      app.registration?.idNumber || 'N/A',
+      app.registration?.idQualityScore ?? 'N/A',
       app.remarks || ''
     ]);
 
@@ -225,6 +249,18 @@ export function ApplicationDataTable({
                 </SelectContent>
               </Select>
 
+              <Select value={idTypeFilter} onValueChange={setIdTypeFilter}>
+                <SelectTrigger className="w-full sm:w-[180px]">
+                  <SelectValue placeholder="Filter by ID Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All ID Types</SelectItem>
+                  {idTypeOptions.map(option => (
+                    <SelectItem key={option.code} value={option.code}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
               <Popover>
                 <PopoverTrigger asChild>
                   <Button
@@ -258,7 +294,7 @@ export function ApplicationDataTable({
                   />
                 </PopoverContent>
               </Popover>
-              <Button variant="outline" onClick={() => { setSearchTerm(''); setStatusFilter('all'); setTypeFilter('all'); setDateRange(undefined); }} className="w-full sm:w-auto">
+              <Button variant="outline" onClick={() => { setSearchTerm(''); setStatusFilter('all'); setTypeFilter('all'); setIdTypeFilter('all'); setDateRange(undefined); }} className="w-full sm:w-auto">
                 Clear Filters
               </Button>
               <Button variant="outline" onClick={exportToCSV} className="w-full sm:w-auto ml-auto">
@@ -277,13 +313,14 @@ export function ApplicationDataTable({
               <TableHead>Application Type</TableHead>
               <SortableHeader sortFieldKey="submissionDate">Submission Date</SortableHeader>
               <SortableHeader sortFieldKey="status">Status</SortableHeader>
+              <SortableHeader sortFieldKey="idQuality">ID Quality</SortableHeader>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {filteredAndSortedApplications.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="h-24 text-center">
+                <TableCell colSpan={6} className="h-24 text-center">
                   No applications match your filters.
                 </TableCell>
               </TableRow>
@@ -294,7 +331,12 @@ export function ApplicationDataTable({
                     {app.personalInfo.firstName} {app.personalInfo.lastName}
                     <div className="text-xs text-muted-foreground">ID: {app.id}</div>
                   </TableCell>
-                  <TableCell className="capitalize">{app.applicationType}</TableCell>
+                  <TableCell>
+                    <span className="capitalize">{app.applicationType}</span>
+                    {app.registration?.idTypeName && (
+                      <div className="text-xs text-muted-foreground">{app.registration.idTypeName}</div>
+                    )}
+                  </TableCell>
                   <TableCell>{format(new Date(app.submissionDate), 'MMM dd, yyyy')}</TableCell>
                   <TableCell>
                     <Badge 
@@ -304,6 +346,15 @@ export function ApplicationDataTable({
                       {app.status}
                     </Badge>
                   </TableCell>
+                  <TableCell>
+                    {app.registration?.idQualityScore != null ? (
+                      <Badge variant={app.registration.idQualityScore < LOW_QUALITY_SCORE ? 'destructive' : 'secondary'}>
+                        {app.registration.idQualityScore}/100
+                      </Badge>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
                   <TableCell className="text-right">
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
@@ -1,5 +1,5 @@
 'use client';
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import type { ReactNode } from 'react';
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
@@ -19,8 +19,10 @@ import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/contexts/AuthContext';
-import { LayoutDashboard, Files, LogOut, UserCircle } from 'lucide-react'; // Removed Settings
+import { LayoutDashboard, Files, LogOut, UserCircle, Users, CalendarDays, CalendarCheck, CalendarClock, CalendarRange, Gavel, Landmark, MapPinCheck, MapPinned, UserCog } from 'lucide-react'; // Removed Settings
 import Image from 'next/image';
+import { formatJurisdiction, getMyJurisdictions } from '@/services/officerService';
+import type { OfficerJurisdiction } from '@/types';
 
 interface NavItem {
   href: string;
@@ -32,6 +34,19 @@ interface NavItem {
 const navItems: NavItem[] = [
   { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard, tooltip: 'Dashboard' },
   { href: '/dashboard/applications', label: 'All Applications', icon: Files, tooltip: 'All Applications' },
+  { href: '/dashboard/erb', label: 'ERB Hearings', icon: Gavel, tooltip: 'ERB Hearings' },
+  { href: '/dashboard/appointments', label: 'Appointments', icon: CalendarClock, tooltip: 'Biometrics Appointments' },
+  { href: '/dashboard/registration-periods', label: 'Registration Periods', icon: CalendarRange, tooltip: 'Registration Periods' },
+  { href: '/dashboard/voters', label: 'Voters', icon: Users, tooltip: 'Voters' },
+  { href: '/dashboard/elections', label: 'Elections', icon: CalendarDays, tooltip: 'Elections' },
+  { href: '/dashboard/election-calendar', label: 'Election Calendar', icon: CalendarCheck, tooltip: 'Election Calendar' },
+  { href: '/dashboard/precincts', label: 'Precincts', icon: MapPinned, tooltip: 'Precincts' },
+  { href: '/dashboard/address-normalizer', label: 'Address Normalizer', icon: MapPinCheck, tooltip: 'Address Normalizer' },
+];
+
+// Administrators manage officer accounts only
+const adminNavItems: NavItem[] = [
+  { href: '/dashboard/admin/officers', label: 'Officers', icon: UserCog, tooltip: 'Officer Administration' },
 ];
 
 export function AppShell({ children }: { children: ReactNode }) {
@@ -39,11 +54,20 @@ export function AppShell({ children }: { children: ReactNode }) {
   const pathname = usePathname(); // Ensure pathname is defined
   const logoSrc = "/vrams_logo.png"; 
   const router = useRouter();
+  const [jurisdictions, setJurisdictions] = useState<OfficerJurisdiction[]>([]);
+  const items = user?.role === 'admin' ? adminNavItems : navItems;
 
-
+  useEffect(() => {
+    if (user?.role !== 'officer') {
+      setJurisdictions([]);
+      return;
+    }
+    getMyJurisdictions().then(setJurisdictions);
+  }, [user?.id, user?.role]);
 
   const getAvatarFallback = () => {
     if (user?.role === 'officer') return "EO";
+    if (user?.role === 'admin') return "AD";
     if (user?.username) return user?.username?.substring(0, 2).toUpperCase() || 'U';
     return <UserCircle size={20} />;
   };
@@ -52,7 +76,7 @@ export function AppShell({ children }: { children: ReactNode }) {
     <SidebarProvider defaultOpen>
       <Sidebar side="left" variant="sidebar" collapsible="icon" className="z-40"> {/* Ensure sidebar is on top */}
         <SidebarHeader className="p-4">
-          <Link href="/dashboard" className="flex items-center gap-2 group-data-[collapsible=icon]:justify-center">
+          <Link href={items[0].href} className="flex items-center gap-2 group-data-[collapsible=icon]:justify-center">
             <Image
               src={logoSrc}
               alt="VRAMS official seal"
@@ -65,7 +89,7 @@ export function AppShell({ children }: { children: ReactNode }) {
         </SidebarHeader>
         <SidebarContent>
           <SidebarMenu>
-            {navItems.map((item) => (
+            {items.map((item) => (
               <SidebarMenuItem key={item.href}>
                 <Link href={item.href}>
                   <SidebarMenuButton
@@ -82,7 +106,23 @@ export function AppShell({ children }: { children: ReactNode }) {
           </SidebarMenu>
         </SidebarContent>
         <SidebarFooter className="p-2">
-           {/* Placeholder for potential footer items */}
+          {user?.role === 'officer' && (
+            <div className="flex items-start gap-2 rounded-md p-2 text-xs text-sidebar-foreground group-data-[collapsible=icon]:justify-center">
+              <Landmark className="h-4 w-4 shrink-0" />
+              <div className="min-w-0 group-data-[collapsible=icon]:hidden">
+                <p className="font-medium">Jurisdiction</p>
+                {jurisdictions.length > 0 ? (
+                  jurisdictions.map(jurisdiction => (
+                    <p key={jurisdiction.jurisdiction_id} className="truncate text-sidebar-foreground/70" title={formatJurisdiction(jurisdiction)}>
+                      {formatJurisdiction(jurisdiction)}
+                    </p>
+                  ))
+                ) : (
+                  <p className="text-sidebar-foreground/70">None assigned; no applications are visible.</p>
+                )}
+              </div>
+            </div>
+          )}
         </SidebarFooter>
       </Sidebar>
       <SidebarInset>
@@ -90,7 +130,7 @@ export function AppShell({ children }: { children: ReactNode }) {
           <div className="flex items-center gap-2">
              <SidebarTrigger />
              <h1 className="text-lg font-semibold hidden sm:block">
-              {navItems.find(item => pathname.startsWith(item.href))?.label || 'eRehistroPh Portal'}
+              {items.find(item => pathname.startsWith(item.href))?.label || 'eRehistroPh Portal'}
             </h1>
           </div>
           <DropdownMenu>
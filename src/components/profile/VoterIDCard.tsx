@@ -1,7 +1,12 @@
 import React from "react";
 import Image from "next/image";
 
-export default function VoterIdCard() {
+interface VoterIdCardProps {
+  address?: string; // current residence of record
+  precinct?: string;
+}
+
+export default function VoterIdCard({ address, precinct }: VoterIdCardProps = {}) {
   return (
     <div
       className="mx-auto rounded-xl shadow-lg p-5 relative"
@@ -60,10 +65,10 @@ export default function VoterIdCard() {
               <span className="font-bold inline-block w-20">Citizenship</span>: Filipino
             </div>
             <div>
-              <span className="font-bold inline-block w-20">Address</span>: 118 A. Bonifacio St. Libid, Binangonan, Rizal
+              <span className="font-bold inline-block w-20">Address</span>: {address ?? "118 A. Bonifacio St. Libid, Binangonan, Rizal"}
             </div>
             <div>
-              <span className="font-bold inline-block w-20">Precinct No.</span>: 1234A
+              <span className="font-bold inline-block w-20">Precinct No.</span>: {precinct ?? "1234A"}
             </div>
           </div>
         </div>
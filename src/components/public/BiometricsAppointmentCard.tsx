@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { addDays, format } from "date-fns";
+import { CalendarClock, CalendarX, Fingerprint } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  APPOINTMENT_BOOKING_DAYS, bookBiometricsAppointment, cancelBiometricsAppointment, formatAppointmentSchedule,
+  formatSlotTime, getApplicationAppointment, getBiometricsSlots
+} from "@/services/appointmentService";
+import type { Application, BiometricsAppointment, BiometricsSlot } from "@/types";
+
+interface BiometricsAppointmentCardProps {
+  applicationId: string;
+  applicationStatus: Application['status'];
+}
+
+// Parses a DATE column as a local date (new Date('yyyy-MM-dd') would be UTC midnight)
+const toLocalDate = (date: string) => new Date(`${date}T00:00:00`);
+
+export function BiometricsAppointmentCard({ applicationId, applicationStatus }: BiometricsAppointmentCardProps) {
+  const { toast } = useToast();
+  const [appointment, setAppointment] = useState<BiometricsAppointment | null>(null);
+  const [slots, setSlots] = useState<BiometricsSlot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPicking, setIsPicking] = useState(false);
+  const [selectedDate, setSelectedDate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+
+  // Appointments can only be booked or changed while the application is being processed
+  const canBook = applicationStatus === 'pending' || applicationStatus === 'verified';
+
+  const loadAppointment = async () => {
+    setIsLoading(true);
+    const today = new Date();
+    const [current, available] = await Promise.all([
+      getApplicationAppointment(applicationId),
+      canBook
+        ? getBiometricsSlots(
+            format(today, 'yyyy-MM-dd'),
+            format(addDays(today, APPOINTMENT_BOOKING_DAYS), 'yyyy-MM-dd'),
+            applicationId
+          )
+        : Promise.resolve([]),
+    ]);
+    setAppointment(current);
+    setSlots(available);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadAppointment();
+  }, [applicationId, applicationStatus]);
+
+  // Office days in the booking window; days that are closed keep their reason so applicants know why
+  const officeDays = useMemo(() => {
+    const days = new Map<string, { slots: BiometricsSlot[]; closureReason: string | null }>();
+    slots.forEach(slot => {
+      const day = days.get(slot.slot_date) ?? { slots: [], closureReason: slot.closure_reason };
+      day.slots.push(slot);
+      days.set(slot.slot_date, day);
+    });
+    return Array.from(days.entries());
+  }, [slots]);
+
+  const daySlots = officeDays.find(([date]) => date === selectedDate)?.[1].slots ?? [];
+
+  const handleBook = async (slot: BiometricsSlot) => {
+    setIsSaving(true);
+    try {
+      await bookBiometricsAppointment(applicationId, slot.slot_id);
+      toast({
+        title: appointment?.status === 'booked' ? 'Appointment Rescheduled' : 'Appointment Booked',
+        description: `Please come to the Office of the Election Officer on ${formatAppointmentSchedule(slot)}.`,
+      });
+      setIsPicking(false);
+      setSelectedDate('');
+      await loadAppointment();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to book the appointment.',
+        variant: 'destructive',
+      });
+      await loadAppointment();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsSaving(true);
+    try {
+      await cancelBiometricsAppointment(applicationId);
+      toast({ title: 'Appointment Cancelled', description: 'You can book a new appointment at any time.' });
+      setShowCancelDialog(false);
+      await loadAppointment();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to cancel the appointment.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading || (!canBook && !appointment)) return null;
+
+  const isBooked = appointment?.status === 'booked';
+
+  return (
+    <div className="border rounded-lg p-4 bg-amber-50 border-amber-200 text-sm space-y-3">
+      <div>
+        <h3 className="font-semibold mb-1 flex items-center gap-2">
+          <Fingerprint className="h-4 w-4 text-amber-700" />
+          Biometrics Appointment
+        </h3>
+        <p className="text-gray-700">
+          Your thumbprints, signature and photo are captured in person at the Office of the Election Officer.
+        </p>
+      </div>
+
+      {appointment && appointment.status !== 'cancelled' && (
+        <div>
+          {isBooked ? (
+            <p><strong>Schedule:</strong> {formatAppointmentSchedule(appointment.slot)}</p>
+          ) : (
+            <p className="text-gray-700">
+              {appointment.status === 'attended'
+                ? `You attended your appointment on ${formatAppointmentSchedule(appointment.slot)}.`
+                : `You missed your appointment on ${formatAppointmentSchedule(appointment.slot)}. Please book a new one.`}
+            </p>
+          )}
+        </div>
+      )}
+
+      {canBook && appointment?.status !== 'attended' && (
+        isPicking || !isBooked ? (
+          <div className="space-y-3 print-hide">
+            {officeDays.length === 0 ? (
+              <p className="text-gray-700">
+                No appointment slots are open in the next {APPOINTMENT_BOOKING_DAYS} days. Please check again later.
+              </p>
+            ) : (
+              <>
+                <Select value={selectedDate} onValueChange={setSelectedDate}>
+                  <SelectTrigger className="bg-white">
+                    <SelectValue placeholder="Choose a date" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {officeDays.map(([date, day]) => (
+                      <SelectItem key={date} value={date} disabled={!!day.closureReason}>
+                        {format(toLocalDate(date), 'EEEE, MMMM d, yyyy')}
+                        {day.closureReason && ` (${day.closureReason})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedDate && (
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {daySlots.map(slot => {
+                      const remaining = slot.capacity - slot.booked_count;
+                      const hasStarted = new Date(`${slot.slot_date}T${slot.start_time}`) <= new Date();
+                      const isCurrent = isBooked && appointment?.slot_id === slot.slot_id;
+                      return (
+                        <Button
+                          key={slot.slot_id}
+                          variant="outline"
+                          className="h-auto flex-col bg-white py-2"
+                          onClick={() => handleBook(slot)}
+                          disabled={isSaving || isCurrent || hasStarted || remaining <= 0}
+                        >
+                          <span>{formatSlotTime(slot)}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {isCurrent ? 'Your appointment' : hasStarted ? 'Started' : remaining <= 0 ? 'Full' : `${remaining} left`}
+                          </span>
+                        </Button>
+                      );
+                    })}
+                  </div>
+                )}
+              </>
+            )}
+            {isPicking && (
+              <Button variant="ghost" size="sm" onClick={() => setIsPicking(false)}>
+                Keep current appointment
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-2 print-hide">
+            <Button variant="outline" size="sm" className="bg-white" onClick={() => setIsPicking(true)}>
+              <CalendarClock className="mr-2 h-4 w-4" />
+              Reschedule
+            </Button>
+            <Button variant="outline" size="sm" className="bg-white" onClick={() => setShowCancelDialog(true)}>
+              <CalendarX className="mr-2 h-4 w-4" />
+              Cancel Appointment
+            </Button>
+          </div>
+        )
+      )}
+
+      <AlertDialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel Appointment</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your slot will be released for other applicants. You still need to appear in person before your
+              application can be approved, so please book a new appointment.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Appointment</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel} disabled={isSaving} className="bg-red-600 hover:bg-red-700">
+              {isSaving ? 'Cancelling...' : 'Cancel Appointment'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
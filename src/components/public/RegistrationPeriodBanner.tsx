@@ -0,0 +1,70 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { CalendarClock, CalendarX } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { APPLICATION_TYPE_LABELS, getRegistrationStatus } from '@/services/registrationPeriodService';
+import type { RegistrationStatus } from '@/types';
+
+// Parses a DATE column as a local date (new Date('yyyy-MM-dd') would be UTC midnight)
+const toLocalDate = (date: string) => new Date(`${date}T00:00:00`);
+
+// Days left in the current registration period for the signed-in applicant's municipality;
+// renders nothing while no registration period is configured
+export function RegistrationPeriodBanner() {
+  const [statuses, setStatuses] = useState<RegistrationStatus[]>([]);
+
+  useEffect(() => {
+    getRegistrationStatus().then(setStatuses);
+  }, []);
+
+  const open = statuses.filter(status => status.is_open);
+  const closed = statuses.filter(status => !status.is_open);
+  if (statuses.length === 0 || (closed.length === 0 && open.every(status => !status.closes_on))) return null;
+
+  if (open.length === 0) {
+    const reopensOn = closed.map(status => status.opens_on).filter((date): date is string => !!date).sort()[0];
+    return (
+      <Alert className="border-red-300 bg-red-50 text-red-900">
+        <CalendarX className="h-5 w-5 !text-red-600" />
+        <AlertTitle className="font-semibold">Registration is suspended</AlertTitle>
+        <AlertDescription>
+          {reopensOn
+            ? `Applications will be accepted again from ${format(toLocalDate(reopensOn), 'MMMM d, yyyy')}.`
+            : 'Applications are not being accepted at this time. Please check back for the next registration period.'}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  // The latest closing date among the open types; types closing earlier are listed in their own reason
+  const current = open.reduce((latest, status) => ((status.closes_on ?? '') > (latest.closes_on ?? '') ? status : latest));
+  const daysRemaining = current.closes_on ? differenceInCalendarDays(toLocalDate(current.closes_on), new Date()) : null;
+  const isClosingSoon = daysRemaining !== null && daysRemaining <= 7;
+
+  return (
+    <Alert className={isClosingSoon ? 'border-amber-300 bg-amber-50 text-amber-900' : 'border-blue-200 bg-blue-50 text-blue-900'}>
+      <CalendarClock className={`h-5 w-5 ${isClosingSoon ? '!text-amber-600' : '!text-blue-600'}`} />
+      <AlertTitle className="font-semibold">
+        {daysRemaining === null
+          ? 'Registration is open'
+          : daysRemaining === 0
+            ? 'Today is the last day of registration'
+            : `${daysRemaining} day${daysRemaining === 1 ? '' : 's'} of registration remaining`}
+      </AlertTitle>
+      <AlertDescription className="space-y-1">
+        {current.closes_on && (
+          <p>
+            {current.period_name ? `${current.period_name} ends` : 'Registration ends'} on{' '}
+            {format(toLocalDate(current.closes_on), 'EEEE, MMMM d, yyyy')}.
+          </p>
+        )}
+        {closed.length > 0 && (
+          <p>
+            Not accepted at this time: {closed.map(status => APPLICATION_TYPE_LABELS[status.application_type]).join(', ')}.
+          </p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
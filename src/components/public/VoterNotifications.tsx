@@ -0,0 +1,61 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { getMyNotifications, markNotificationRead } from '@/services/voterService';
+import type { VoterNotification } from '@/types';
+
+// Unread notices for the signed-in voter (e.g. deactivation); renders nothing when there are none
+export function VoterNotifications() {
+  const [notifications, setNotifications] = useState<VoterNotification[]>([]);
+
+  useEffect(() => {
+    getMyNotifications().then(setNotifications);
+  }, []);
+
+  const unread = notifications.filter(n => !n.read_at);
+  if (unread.length === 0) return null;
+
+  const dismiss = async (notificationId: number) => {
+    if (await markNotificationRead(notificationId)) {
+      setNotifications(list => list.map(n =>
+        n.notification_id === notificationId ? { ...n, read_at: new Date().toISOString() } : n
+      ));
+    }
+  };
+
+  return (
+    <Card className="shadow-md border-t-4 border-red-500 bg-red-50">
+      <CardHeader>
+        <CardTitle className="flex items-center text-xl text-red-800">
+          <Bell className="mr-2 h-6 w-6 text-red-600" />
+          Notices
+        </CardTitle>
+        <CardDescription className="text-red-700">
+          Important updates about your voter registration.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {unread.map(notification => (
+          <div key={notification.notification_id} className="flex items-start justify-between gap-4">
+            <div>
+              <p className="font-medium text-red-900">{notification.title}</p>
+              <p className="text-sm text-red-800">{notification.message}</p>
+              <p className="text-xs text-red-600 mt-1">{format(new Date(notification.created_at), 'PPP')}</p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-red-300 text-red-800 hover:bg-red-100"
+              onClick={() => dismiss(notification.notification_id)}
+            >
+              Dismiss
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,7 +9,7 @@ import type { User, Session } from '@supabase/supabase-js';
 
 // ---- TYPE DEFINITIONS ---- //
 
-type UserRole = 'officer' | 'public';
+type UserRole = 'officer' | 'public' | 'admin';
 
 export interface AuthenticatedUser {
   id: string; // Supabase auth user ID
@@ -501,7 +501,9 @@ const login = useCallback(async (email: string, passwordAttempt: string): Promis
     const userData = await handleSession(data.session);
     toast({ title: 'Login Successful', description: 'You have been logged in.' });
     
-    const redirectTo = userData?.role === 'officer' ? '/dashboard' : '/public/home';
+    const redirectTo = userData?.role === 'officer'
+      ? '/dashboard'
+      : userData?.role === 'admin' ? '/dashboard/admin/officers' : '/public/home';
     router.push(redirectTo);
   }
   setIsLoading(false);
@@ -622,6 +624,15 @@ useEffect(() => {
     if (user.role === 'officer' && pathname.startsWith('/public/')) {
       router.push('/dashboard');
     }
+    // Administrators only manage officer accounts
+    else if (user.role === 'admin' && (pathname.startsWith('/public/') ||
+             (pathname.startsWith('/dashboard') && !pathname.startsWith('/dashboard/admin')))) {
+      router.push('/dashboard/admin/officers');
+    }
+    // Officers cannot reach the administration console
+    else if (user.role === 'officer' && pathname.startsWith('/dashboard/admin')) {
+      router.push('/dashboard');
+    }
     // If public user is trying to access officer pages
     else if (user.role === 'public' && pathname.startsWith('/dashboard')) {
       router.push('/public/home');
@@ -43,6 +43,8 @@ const initialDefaultValues: ApplicationFormValues = {
   dateOfBirth: '',
   placeOfBirthMunicipality: '',
   placeOfBirthProvince: '',
+  placeOfBirthMunicipalityCode: '',
+  placeOfBirthProvinceCode: '',
   fatherFirstName: '',
   fatherLastName: '',
   motherFirstName: '',
@@ -55,6 +57,8 @@ const initialDefaultValues: ApplicationFormValues = {
   assistorName: '',
   voteOnGroundFloor: false,
   adultRegistrationConsent: false,
+  idType: undefined,
+  idNumber: '',
   governmentIdFrontUrl: undefined,
   governmentIdBackUrl: undefined,
   idSelfieUrl: undefined,
@@ -62,6 +66,9 @@ const initialDefaultValues: ApplicationFormValues = {
   previousBarangay: '',
   previousCityMunicipality: '',
   previousProvince: '',
+  previousBarangayCode: '',
+  previousCityMunicipalityCode: '',
+  previousProvinceCode: '',
   previousForeignPost: '',
   previousCountry: '',
   transferType: undefined,
@@ -75,6 +82,9 @@ const initialDefaultValues: ApplicationFormValues = {
   barangay: '',
   cityMunicipality: '',
   province: '',
+  barangayCode: '',
+  cityMunicipalityCode: '',
+  provinceCode: '',
   yearsOfResidenceMunicipality: 0,
   monthsOfResidenceMunicipality: 0,
   yearsOfResidenceAddress: 0,
@@ -97,6 +107,9 @@ const normalizeFormData = (data: ApplicationFormValues): ApplicationFormValues =
     previousBarangay: normalizeString(data.previousBarangay),
     previousCityMunicipality: normalizeString(data.previousCityMunicipality),
     previousProvince: normalizeString(data.previousProvince),
+    previousBarangayCode: normalizeString(data.previousBarangayCode),
+    previousCityMunicipalityCode: normalizeString(data.previousCityMunicipalityCode),
+    previousProvinceCode: normalizeString(data.previousProvinceCode),
     previousForeignPost: normalizeString(data.previousForeignPost),
     previousCountry: normalizeString(data.previousCountry),
   };
@@ -115,6 +128,9 @@ const normalizeFormData = (data: ApplicationFormValues): ApplicationFormValues =
         previousBarangay: undefined,
         previousCityMunicipality: undefined,
         previousProvince: undefined,
+        previousBarangayCode: undefined,
+        previousCityMunicipalityCode: undefined,
+        previousProvinceCode: undefined,
       };
     } else {
       // For domestic transfers, clear foreign fields
@@ -130,6 +146,8 @@ const normalizeFormData = (data: ApplicationFormValues): ApplicationFormValues =
           ...normalizedTransferFields,
           previousCityMunicipality: undefined,
           previousProvince: undefined,
+          previousCityMunicipalityCode: undefined,
+          previousProvinceCode: undefined,
         };
       }
     }
@@ -0,0 +1,43 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getMyOfficerPosition, getPermissionDeniedReason, getPermissionMatrix } from '@/services/officerService';
+import type { Officer, OfficerPermission, OfficerPositionPermission } from '@/types';
+
+// Permissions of the signed-in officer, for hiding actions their position cannot take and explaining why
+export function useOfficerPermissions() {
+  const { user } = useAuth();
+  const [position, setPosition] = useState<Officer['position'] | null>(null);
+  const [matrix, setMatrix] = useState<OfficerPositionPermission[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (user?.role !== 'officer') {
+      setPosition(null);
+      setMatrix([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    Promise.all([getMyOfficerPosition(), getPermissionMatrix()])
+      .then(([officerPosition, permissionMatrix]) => {
+        setPosition(officerPosition);
+        setMatrix(permissionMatrix);
+      })
+      .finally(() => setIsLoading(false));
+  }, [user?.id, user?.role]);
+
+  const can = useCallback(
+    (permission: OfficerPermission) => matrix.some(row => row.position === position && row.permission === permission),
+    [matrix, position]
+  );
+
+  const deniedReason = useCallback(
+    (permission: OfficerPermission) => getPermissionDeniedReason(matrix, permission),
+    [matrix]
+  );
+
+  return { position, can, deniedReason, isLoading };
+}
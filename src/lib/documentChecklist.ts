@@ -0,0 +1,40 @@
+/**
+ * Per-document checks officers tick in the document review workspace. The
+ * result is saved with the verify or disapprove action in
+ * application_status_history.document_checklist.
+ */
+import type { DocumentChecklist, DocumentChecklistItem, DocumentInfo } from '@/types';
+
+export const DOCUMENT_LABELS: Record<DocumentInfo['type'], string> = {
+  government_id_front: 'Front ID',
+  government_id_back: 'Back ID',
+  id_selfie: 'Selfie with ID',
+};
+
+export const DOCUMENT_CHECKLIST_ITEMS: Record<DocumentInfo['type'], { item: DocumentChecklistItem; label: string }[]> = {
+  government_id_front: [
+    { item: 'name_matches', label: 'Name matches the application' },
+    { item: 'photo_matches', label: 'ID photo matches the selfie' },
+    { item: 'not_expired', label: 'ID is not expired' },
+  ],
+  government_id_back: [
+    { item: 'details_legible', label: 'Details are legible and untampered' },
+    { item: 'not_expired', label: 'Validity date, if shown, has not passed' },
+  ],
+  id_selfie: [
+    { item: 'photo_matches', label: 'Face matches the ID photo' },
+    { item: 'same_id_as_presented', label: 'ID held is the same ID uploaded' },
+  ],
+};
+
+// Whether every check of the given documents is ticked
+export const isChecklistPassed = (checklist: DocumentChecklist, documentTypes: DocumentInfo['type'][]) =>
+  documentTypes.every(type => DOCUMENT_CHECKLIST_ITEMS[type].every(({ item }) => checklist[type]?.[item] === true));
+
+// Labels of the checks left unticked, e.g. "Front ID: ID is not expired"
+export const getFailedChecks = (checklist: DocumentChecklist) =>
+  (Object.keys(checklist) as DocumentInfo['type'][]).flatMap(type =>
+    DOCUMENT_CHECKLIST_ITEMS[type]
+      .filter(({ item }) => checklist[type]?.[item] !== true)
+      .map(({ label }) => `${DOCUMENT_LABELS[type]}: ${label}`)
+  );
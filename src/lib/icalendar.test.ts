@@ -0,0 +1,68 @@
+import { buildElectionCalendar, escapeText, foldLine } from '@/lib/icalendar';
+import type { ElectionEvent } from '@/types';
+
+const octets = (value: string) => new TextEncoder().encode(value).length;
+
+describe('escapeText', () => {
+  it('escapes backslashes, semicolons, commas and newlines (RFC 5545 3.3.11)', () => {
+    expect(escapeText('a\\b;c,d\ne\r\nf')).toBe('a\\\\b\\;c\\,d\\ne\\nf');
+  });
+
+  it('leaves colons and quotes alone', () => {
+    expect(escapeText('Time: "9:00"')).toBe('Time: "9:00"');
+  });
+});
+
+describe('foldLine', () => {
+  it('keeps lines of up to 75 octets on one line', () => {
+    const line = 'X'.repeat(75);
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it('folds longer lines with CRLF and a space, each physical line at most 75 octets', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`;
+    const folded = foldLine(line);
+    const physical = folded.split('\r\n');
+
+    expect(physical.length).toBeGreaterThan(1);
+    physical.slice(1).forEach(part => expect(part.startsWith(' ')).toBe(true));
+    physical.forEach(part => expect(octets(part)).toBeLessThanOrEqual(75));
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+
+  it('never splits a multi-byte character', () => {
+    const line = `SUMMARY:${'Pagpaparehistro ng botante ñ '.repeat(6)}`;
+    const physical = foldLine(line).split('\r\n');
+
+    physical.forEach(part => {
+      expect(octets(part)).toBeLessThanOrEqual(75);
+      expect(part).not.toContain('�');
+    });
+    expect(physical.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+});
+
+describe('buildElectionCalendar', () => {
+  const event: ElectionEvent = {
+    event_id: 7,
+    election_id: 1,
+    election_name: '2025 National and Local Elections',
+    title: 'Voter registration, last day',
+    milestone_type: 'registration_deadline',
+    start_date: '2024-09-30',
+    end_date: '2024-09-30',
+    description: null,
+    scope: 'Nationwide',
+    updated_at: '2024-08-01T02:03:04.567Z',
+  };
+
+  it('writes CRLF-terminated all-day events with an exclusive DTEND', () => {
+    const calendar = buildElectionCalendar([event]);
+
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar).toContain('\r\nDTSTART;VALUE=DATE:20240930\r\n');
+    expect(calendar).toContain('\r\nDTEND;VALUE=DATE:20241001\r\n');
+    expect(calendar).toContain('\r\nDTSTAMP:20240801T020304Z\r\n');
+    expect(calendar).toContain('\r\nSUMMARY:Voter registration\\, last day\r\n');
+  });
+});
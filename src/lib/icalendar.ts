@@ -0,0 +1,83 @@
+/**
+ * iCalendar (RFC 5545) export of the election calendar, used both for the .ics
+ * download on the public calendar and the subscription feed at /api/election-calendar.
+ *
+ * Events are all-day: DTEND is the day after end_date because it is exclusive.
+ */
+import { addDays, format } from 'date-fns';
+import type { ElectionEvent } from '@/types';
+
+export const ELECTION_CALENDAR_NAME = 'COMELEC Election Calendar';
+
+// Calendar apps re-fetch subscribed feeds at roughly this interval
+const REFRESH_INTERVAL = 'PT12H';
+
+// Escapes TEXT values: backslash, semicolon, comma and newlines
+export const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Folds a content line at 75 octets, continuing with CRLF and a space
+export const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    if (currentBytes + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (date: string) => date.replace(/-/g, '');
+
+const toIcsTimestamp = (value: string) => new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const buildEvent = (event: ElectionEvent): string[] => {
+  const details = [
+    event.election_name && `Election: ${event.election_name}`,
+    `Scope: ${event.scope}`,
+    event.description,
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:election-event-${event.event_id}@vrams`,
+    `DTSTAMP:${toIcsTimestamp(event.updated_at)}`,
+    `LAST-MODIFIED:${toIcsTimestamp(event.updated_at)}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(event.start_date)}`,
+    `DTEND;VALUE=DATE:${format(addDays(new Date(`${event.end_date}T00:00:00`), 1), 'yyyyMMdd')}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(details)}`,
+    `LOCATION:${escapeText(event.scope)}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+};
+
+// Builds a VCALENDAR document from calendar events
+export const buildElectionCalendar = (events: ElectionEvent[]): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//COMELEC//VRAMS Election Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(ELECTION_CALENDAR_NAME)}`,
+    'X-WR-TIMEZONE:Asia/Manila',
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...events.flatMap(buildEvent),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
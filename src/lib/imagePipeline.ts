@@ -0,0 +1,157 @@
+/**
+ * Client-side pipeline for ID photos, run before upload.
+ *
+ * Photos are redrawn on a canvas, which fixes their rotation from the EXIF
+ * orientation tag, drops every piece of metadata (including GPS location) and
+ * downsizes them to a resolution officers can still read. The result is
+ * re-encoded as JPEG so it fits within the upload limit.
+ */
+
+// Upload limit for processed ID images (also enforced by uploadFile)
+export const MAX_ID_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Largest photo accepted before processing; bigger files are likely not photos
+export const MAX_SOURCE_IMAGE_BYTES = 25 * 1024 * 1024;
+
+// Longest side, in pixels, of a processed ID image
+export const ID_IMAGE_MAX_DIMENSION = 2000;
+
+// JPEG qualities tried in order until the image fits within MAX_ID_IMAGE_BYTES
+const JPEG_QUALITIES = [0.85, 0.7, 0.55, 0.4];
+
+export interface ProcessedImage {
+  file: File;
+  originalSize: number;
+  width: number;
+  height: number;
+}
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Reads the EXIF orientation tag (1-8) of a JPEG; 1 when missing or unreadable
+const readExifOrientation = async (file: File): Promise<number> => {
+  try {
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.getUint16(0) !== 0xffd8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      // APP1 segment starting with "Exif"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiff = offset + 10;
+        const littleEndian = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+        const entries = view.getUint16(ifd, littleEndian);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, littleEndian) === 0x0112) {
+            const orientation = view.getUint16(entry + 8, littleEndian);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+        return 1;
+      }
+      // Stop at the image data or anything that is not a marker
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Truncated or malformed EXIF; treat as upright
+  }
+  return 1;
+};
+
+// Newer browsers already rotate images by their EXIF orientation when decoding them
+const browserAppliesOrientation = () =>
+  typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+
+export const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('This image could not be read. Please use a JPEG or PNG photo.'));
+    };
+    image.src = url;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to process the image.'))),
+      'image/jpeg',
+      quality
+    )
+  );
+
+// Function to rotate, strip and downsize an ID photo; the returned file is what gets uploaded
+export const processIdImage = async (
+  file: File,
+  maxDimension: number = ID_IMAGE_MAX_DIMENSION
+): Promise<ProcessedImage> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Please select an image file.');
+  }
+  if (file.size > MAX_SOURCE_IMAGE_BYTES) {
+    throw new Error(`Please select a photo smaller than ${formatFileSize(MAX_SOURCE_IMAGE_BYTES)}.`);
+  }
+
+  const orientation = browserAppliesOrientation() ? 1 : await readExifOrientation(file);
+  const image = await loadImage(file);
+
+  // Size of the image as decoded, scaled down to fit maxDimension
+  const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+
+  // Orientations 5-8 are rotated a quarter turn, so the output swaps width and height
+  const swapsSides = orientation >= 5;
+  const canvas = document.createElement('canvas');
+  canvas.width = swapsSides ? height : width;
+  canvas.height = swapsSides ? width : height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Your browser cannot process images. Please try a different browser.');
+  }
+
+  // JPEG has no transparency; give transparent PNGs a white background
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  switch (orientation) {
+    case 2: context.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: context.transform(-1, 0, 0, -1, width, height); break;
+    case 4: context.transform(1, 0, 0, -1, 0, height); break;
+    case 5: context.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: context.transform(0, 1, -1, 0, height, 0); break;
+    case 7: context.transform(0, -1, -1, 0, height, width); break;
+    case 8: context.transform(0, -1, 1, 0, 0, width); break;
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, width, height);
+
+  let blob: Blob | null = null;
+  for (const quality of JPEG_QUALITIES) {
+    blob = await canvasToBlob(canvas, quality);
+    if (blob.size <= MAX_ID_IMAGE_BYTES) break;
+  }
+  if (!blob || blob.size > MAX_ID_IMAGE_BYTES) {
+    throw new Error(`This photo is still larger than ${formatFileSize(MAX_ID_IMAGE_BYTES)} after compression.`);
+  }
+
+  const name = `${file.name.replace(/\.[^.]*$/, '') || 'photo'}.jpg`;
+  return {
+    file: new File([blob], name, { type: 'image/jpeg', lastModified: Date.now() }),
+    originalSize: file.size,
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
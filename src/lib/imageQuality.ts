@@ -0,0 +1,112 @@
+/**
+ * In-browser quality heuristics for ID photos, run on the output of processIdImage.
+ *
+ * The photo is analysed at a fixed size so scores are comparable across cameras:
+ * - blur: variance of the Laplacian of the grayscale image (sharp edges give a high variance)
+ * - glare: share of near-white pixels, typical of flash or lamp reflections on laminated IDs
+ * - resolution: the short side must leave ID text readable
+ * - cropping: a photo of an ID card filling the frame has the ID-1 card's proportions
+ */
+import type { IdImageQuality } from '@/types';
+import { loadImage } from '@/lib/imagePipeline';
+
+// ID-1 card (85.60 mm x 53.98 mm), the size of most Philippine government IDs
+export const ID_CARD_ASPECT_RATIO = 85.6 / 53.98;
+
+// Scores below this are flagged for officers
+export const LOW_QUALITY_SCORE = 60;
+
+const ANALYSIS_MAX_DIMENSION = 512;
+const BLUR_VARIANCE_MIN = 100;
+const GLARE_LUMINANCE = 250;
+const GLARE_RATIO_MAX = 0.03;
+const MIN_SHORT_SIDE = 600;
+const ASPECT_TOLERANCE = 0.2; // relative difference from ID_CARD_ASPECT_RATIO
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// Grayscale luminance of the photo, downsized to ANALYSIS_MAX_DIMENSION on its long side
+const toGrayscale = (image: HTMLImageElement) => {
+  const scale = Math.min(1, ANALYSIS_MAX_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Your browser cannot process images. Please try a different browser.');
+  }
+  context.drawImage(image, 0, 0, width, height);
+
+  const { data } = context.getImageData(0, 0, width, height);
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { gray, width, height };
+};
+
+// Variance of the 4-neighbour Laplacian over the interior pixels
+const laplacianVariance = (gray: Float32Array, width: number, height: number) => {
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = 4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width];
+      sum += value;
+      sumOfSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+};
+
+// Function to score an ID photo; cards are also checked for ID-1 proportions, selfies are not
+export const assessIdImageQuality = async (file: File, kind: 'id_card' | 'selfie'): Promise<IdImageQuality> => {
+  const image = await loadImage(file);
+  const { gray, width: analysisWidth, height: analysisHeight } = toGrayscale(image);
+
+  const blurVariance = laplacianVariance(gray, analysisWidth, analysisHeight);
+  const glareRatio = gray.reduce((count, value) => (value >= GLARE_LUMINANCE ? count + 1 : count), 0) / gray.length;
+
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const aspectRatio = Math.max(width, height) / Math.min(width, height);
+  const aspectDeviation = Math.abs(aspectRatio - ID_CARD_ASPECT_RATIO) / ID_CARD_ASPECT_RATIO;
+
+  const warnings: string[] = [];
+  if (blurVariance < BLUR_VARIANCE_MIN) {
+    warnings.push('The photo looks blurry. Hold the camera steady and tap to focus on the ID.');
+  }
+  if (glareRatio > GLARE_RATIO_MAX) {
+    warnings.push('Part of the photo is washed out by glare. Avoid direct light or flash on the ID.');
+  }
+  if (Math.min(width, height) < MIN_SHORT_SIDE) {
+    warnings.push(`The photo resolution is low (${width}×${height}). Move closer or use a better camera.`);
+  }
+  if (kind === 'id_card' && aspectDeviation > ASPECT_TOLERANCE) {
+    warnings.push('The photo does not match the shape of an ID card. Make sure the whole ID fills the frame and is not cut off.');
+  }
+
+  // Each check contributes 0-1, weighted towards sharpness since blur is the most common rejection reason
+  const blurPart = Math.min(1, blurVariance / (2 * BLUR_VARIANCE_MIN));
+  const glarePart = Math.max(0, 1 - glareRatio / (2 * GLARE_RATIO_MAX));
+  const resolutionPart = Math.min(1, Math.min(width, height) / MIN_SHORT_SIDE);
+  const aspectPart = kind === 'id_card' ? Math.max(0, 1 - aspectDeviation / (2 * ASPECT_TOLERANCE)) : 1;
+
+  return {
+    score: Math.round(100 * (0.4 * blurPart + 0.25 * glarePart + 0.15 * resolutionPart + 0.2 * aspectPart)),
+    blur_variance: round(blurVariance, 1),
+    glare_ratio: round(glareRatio, 4),
+    width,
+    height,
+    aspect_ratio: round(aspectRatio, 3),
+    warnings,
+  };
+};
@@ -0,0 +1,107 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { getPsgcChildren, matchPsgcAddress, normalizePlaceName, psgcAreaMatches, type PsgcArea } from '@/lib/psgc';
+
+// The bundled dataset, as loadPsgcAreas would fetch it
+const areas: PsgcArea[] = JSON.parse(readFileSync(join(process.cwd(), 'public/psgc/psgc.json'), 'utf8')).areas;
+
+const byCode = (code: string) => areas.find(area => area.code === code)!;
+
+describe('normalizePlaceName', () => {
+  it('drops "City", "City of" and case, so the usual ways of writing a city compare equal', () => {
+    const key = normalizePlaceName('Antipolo');
+    expect(normalizePlaceName('Antipolo City')).toBe(key);
+    expect(normalizePlaceName('CITY OF ANTIPOLO')).toBe(key);
+  });
+
+  it('expands Sta., Sto., Gen. and Ma.', () => {
+    expect(normalizePlaceName('Sta. Maria')).toBe(normalizePlaceName('Santa Maria'));
+    expect(normalizePlaceName('Sto. Tomas')).toBe(normalizePlaceName('Santo Tomas'));
+    expect(normalizePlaceName('Gen. Trias')).toBe(normalizePlaceName('General Trias'));
+    expect(normalizePlaceName('Ma. Aurora')).toBe(normalizePlaceName('Maria Aurora'));
+    expect(normalizePlaceName('Sta. Ma.')).toBe(normalizePlaceName('Santa Maria'));
+  });
+
+  it('removes accents and punctuation', () => {
+    expect(normalizePlaceName('Las Piñas')).toBe(normalizePlaceName('LAS PINAS'));
+    expect(normalizePlaceName('Jala-Jala')).toBe(normalizePlaceName('Jala Jala'));
+  });
+
+  it('does not expand "ma" inside a word', () => {
+    expect(normalizePlaceName('Puma')).toBe('puma');
+    expect(normalizePlaceName('Mabini')).toBe('mabini');
+  });
+});
+
+describe('psgcAreaMatches', () => {
+  it('matches old names and ignores a "(Pob.)" suffix', () => {
+    expect(psgcAreaMatches(byCode('045808000'), 'Montalban')).toBe(true);
+    expect(psgcAreaMatches(byCode('045802003'), 'Dela Paz')).toBe(true);
+    expect(psgcAreaMatches(byCode('045802003'), 'Pob.')).toBe(false);
+  });
+});
+
+describe('matchPsgcAddress', () => {
+  it('resolves a full address written the way people write it', () => {
+    const result = matchPsgcAddress(areas, { province: 'Rizal', cityMunicipality: 'Antipolo City', barangay: 'Dela Paz' });
+    expect(result).toEqual({
+      status: 'matched',
+      match: { province: byCode('045800000'), city: byCode('045802000'), barangay: byCode('045802003') },
+    });
+  });
+
+  it('splits "CITY, PROVINCE" when no province is given', () => {
+    const result = matchPsgcAddress(areas, { cityMunicipality: 'ANTIPOLO CITY, RIZAL' });
+    expect(result.status).toBe('matched');
+    expect(result.status === 'matched' && result.match.city.code).toBe('045802000');
+  });
+
+  it('resolves abbreviated names within their province', () => {
+    const maria = matchPsgcAddress(areas, { province: 'Aurora', cityMunicipality: 'Ma. Aurora' });
+    expect(maria.status === 'matched' && maria.match.city.code).toBe('037707000');
+
+    const santaMaria = matchPsgcAddress(areas, { province: 'Bulacan', cityMunicipality: 'Sta. Maria' });
+    expect(santaMaria.status === 'matched' && santaMaria.match.city.code).toBe('031423000');
+  });
+
+  it('treats Metro Manila and its aliases as the province of NCR cities', () => {
+    const result = matchPsgcAddress(areas, { province: 'NCR', cityMunicipality: 'Quezon City' });
+    expect(result.status === 'matched' && result.match.city.code).toBe('137404000');
+  });
+
+  it('reports a city found in several provinces as ambiguous', () => {
+    const result = matchPsgcAddress(areas, { cityMunicipality: 'San Isidro' });
+    expect(result.status).toBe('ambiguous');
+    expect(result.status === 'ambiguous' && result.candidates.length).toBeGreaterThan(1);
+  });
+
+  it('explains what could not be matched', () => {
+    expect(matchPsgcAddress(areas, { province: 'Atlantis', cityMunicipality: 'Antipolo' })).toEqual({
+      status: 'unmatched',
+      reason: 'Province "Atlantis" is not in the PSGC data.',
+    });
+    expect(matchPsgcAddress(areas, { province: 'Rizal', cityMunicipality: 'Antipolo', barangay: 'Nowhere' }).status).toBe('unmatched');
+  });
+});
+
+describe('bundled PSGC dataset', () => {
+  it('has unique nine-digit codes', () => {
+    const codes = areas.map(area => area.code);
+    expect(new Set(codes).size).toBe(codes.length);
+    codes.forEach(code => expect(code).toMatch(/^\d{9}$/));
+  });
+
+  it('links every city to a province and every barangay to a city', () => {
+    const levels = new Map(areas.map(area => [area.code, area.level]));
+    areas.forEach(area => {
+      if (area.level === 'province') expect(area.parent).toBeNull();
+      if (area.level === 'city') expect(levels.get(area.parent!)).toBe('province');
+      if (area.level === 'barangay') expect(levels.get(area.parent!)).toBe('city');
+    });
+  });
+
+  it('covers the whole country, not an extract', () => {
+    expect(getPsgcChildren(areas, 'province', null).length).toBeGreaterThan(80);
+    expect(areas.filter(area => area.level === 'barangay').length).toBeGreaterThan(40000);
+  });
+});
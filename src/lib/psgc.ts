@@ -0,0 +1,166 @@
+/**
+ * Philippine Standard Geographic Code (PSGC) helpers for the address pickers and the
+ * address normalizer.
+ *
+ * The dataset is bundled as public/psgc/psgc.json and fetched once per session. It is a
+ * flat list of provinces, cities/municipalities and barangays using nine-digit codes
+ * (RRPPMMBBB), so the first six digits of a city code are the precinct locality_code.
+ * Metro Manila has no provinces; its region code stands in as the province.
+ *
+ * The file is generated from the PSA's PSGC Publication Datafile by `npm run build:psgc`
+ * (scripts/buildPsgcDataset.mjs); regenerate it when a new quarterly publication comes out.
+ */
+
+export type PsgcLevel = 'province' | 'city' | 'barangay';
+
+export interface PsgcArea {
+  code: string;
+  name: string;
+  level: PsgcLevel;
+  parent: string | null; // code of the province (for cities) or city (for barangays)
+  aliases?: string[]; // other names people write, e.g. NCR for Metro Manila
+}
+
+// Place names as written on a form, and the codes resolved for them
+export interface PsgcAddressInput {
+  province?: string | null;
+  cityMunicipality?: string | null;
+  barangay?: string | null;
+}
+
+export interface PsgcAddressMatch {
+  province: PsgcArea;
+  city: PsgcArea;
+  barangay: PsgcArea | null; // null when no barangay was given or the dataset has none for the city
+}
+
+export type PsgcMatchResult =
+  | { status: 'matched'; match: PsgcAddressMatch }
+  | { status: 'ambiguous'; candidates: PsgcAddressMatch[] }
+  | { status: 'unmatched'; reason: string };
+
+export const PSGC_DATASET_URL = '/psgc/psgc.json';
+
+let areasPromise: Promise<PsgcArea[]> | null = null;
+
+// Loads the bundled PSGC dataset; the request is shared by every picker on the page
+export const loadPsgcAreas = (): Promise<PsgcArea[]> => {
+  if (!areasPromise) {
+    areasPromise = fetch(PSGC_DATASET_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to load PSGC data (${response.status}).`);
+        return response.json();
+      })
+      .then((data: { areas: PsgcArea[] }) => data.areas)
+      .catch(error => {
+        // Allow a retry on the next call instead of caching the failure
+        areasPromise = null;
+        throw error;
+      });
+  }
+  return areasPromise;
+};
+
+/**
+ * Reduces a place name to a comparable key: accents and punctuation removed, common
+ * abbreviations (Sta., Sto., Gen., Ma.) expanded and "City of"/"City"/"Municipality of"
+ * dropped, so "Antipolo", "Antipolo City" and "CITY OF ANTIPOLO" compare equal.
+ */
+export const normalizePlaceName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\bsta\.?\s/g, 'santa ')
+    .replace(/\bsto\.?\s/g, 'santo ')
+    .replace(/\bgen\.?\s/g, 'general ')
+    .replace(/\bma\.\s*|\bma\s/g, 'maria ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\b(city of|municipality of|city|municipality)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Comparable keys for an area: its name without any parenthetical, the parenthetical itself
+// (e.g. Montalban for "Rodriguez (Montalban)", but not "Pob."), and its aliases
+const getAreaKeys = (area: PsgcArea): string[] => {
+  const keys = [normalizePlaceName(area.name.replace(/\(.*?\)/g, ''))];
+  const parenthetical = area.name.match(/\((.*?)\)/)?.[1];
+  if (parenthetical && !/^pob/i.test(parenthetical)) keys.push(normalizePlaceName(parenthetical));
+  area.aliases?.forEach(alias => keys.push(normalizePlaceName(alias)));
+  return keys;
+};
+
+// Whether an area's name matches a typed name
+export const psgcAreaMatches = (area: PsgcArea, name: string): boolean => {
+  const key = normalizePlaceName(name.replace(/\(.*?\)/g, ''));
+  return !!key && getAreaKeys(area).includes(key);
+};
+
+// Areas at a level under a parent, sorted by name; pass parent null for provinces
+export const getPsgcChildren = (areas: PsgcArea[], level: PsgcLevel, parent: string | null): PsgcArea[] =>
+  areas
+    .filter(area => area.level === level && (level === 'province' || area.parent === parent))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Resolves free-text province, city/municipality and barangay names to PSGC areas.
+ * A city written with its province ("ANTIPOLO CITY, RIZAL") is split when the province
+ * is blank. Without a province, a city name found in several provinces is ambiguous.
+ */
+export const matchPsgcAddress = (areas: PsgcArea[], input: PsgcAddressInput): PsgcMatchResult => {
+  let cityName = input.cityMunicipality?.trim() ?? '';
+  let provinceName = input.province?.trim() ?? '';
+  const barangayName = input.barangay?.trim() ?? '';
+
+  if (!provinceName && cityName.includes(',')) {
+    const [city, ...rest] = cityName.split(',');
+    cityName = city.trim();
+    provinceName = rest.join(',').trim();
+  }
+  if (!cityName) {
+    return { status: 'unmatched', reason: 'No city/municipality was given.' };
+  }
+
+  const provinces = areas.filter(area => area.level === 'province');
+  const matchedProvinces = provinceName ? provinces.filter(area => psgcAreaMatches(area, provinceName)) : [];
+  if (provinceName && matchedProvinces.length === 0) {
+    return { status: 'unmatched', reason: `Province "${provinceName}" is not in the PSGC data.` };
+  }
+
+  const provinceCodes = new Set((matchedProvinces.length > 0 ? matchedProvinces : provinces).map(area => area.code));
+  const cities = areas.filter(area =>
+    area.level === 'city' && area.parent !== null && provinceCodes.has(area.parent) && psgcAreaMatches(area, cityName)
+  );
+  if (cities.length === 0) {
+    return {
+      status: 'unmatched',
+      reason: `City/municipality "${cityName}" is not in the PSGC data${provinceName ? ` for ${provinceName}` : ''}.`,
+    };
+  }
+
+  const candidates: PsgcAddressMatch[] = [];
+  for (const city of cities) {
+    const province = provinces.find(area => area.code === city.parent)!;
+    const barangays = getPsgcChildren(areas, 'barangay', city.code);
+
+    if (!barangayName || barangays.length === 0) {
+      candidates.push({ province, city, barangay: null });
+      continue;
+    }
+    barangays
+      .filter(area => psgcAreaMatches(area, barangayName))
+      .forEach(barangay => candidates.push({ province, city, barangay }));
+  }
+
+  if (candidates.length === 1) {
+    return { status: 'matched', match: candidates[0] };
+  }
+  if (candidates.length === 0) {
+    return { status: 'unmatched', reason: `Barangay "${barangayName}" is not in the PSGC data for ${cityName}.` };
+  }
+  return { status: 'ambiguous', candidates };
+};
+
+// Human-readable form of a match, e.g. "Dela Paz (Pob.), City of Antipolo, Rizal"
+export const formatPsgcMatch = (match: PsgcAddressMatch): string =>
+  [match.barangay?.name, match.city.name, match.province.name].filter(Boolean).join(', ');
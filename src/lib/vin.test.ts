@@ -0,0 +1,31 @@
+import { getVinError, isValidVin, vinCheckDigit } from '@/lib/vin';
+
+// Vectors checked against vin_check_digit and is_valid_vin in supabase/businessSchema.sql
+describe('vinCheckDigit', () => {
+  it.each([
+    ['137404000123', 0],
+    ['137404000001', 8],
+    ['031405000042', 6],
+    ['000000000000', 0],
+    ['7992739871', 3], // the usual Luhn example
+  ])('returns the check digit of %s', (digits, expected) => {
+    expect(vinCheckDigit(digits)).toBe(expected);
+  });
+});
+
+describe('getVinError', () => {
+  it('accepts a VIN with a matching check digit', () => {
+    expect(getVinError('137404-000123-0')).toBeNull();
+    expect(getVinError(' 137404-000001-8 ')).toBeNull();
+  });
+
+  it('rejects a VIN in the wrong format', () => {
+    expect(getVinError('137404000123-0')).toMatch(/format/);
+    expect(getVinError('13740-4000123-0')).toMatch(/format/);
+  });
+
+  it('rejects a VIN whose check digit does not match', () => {
+    expect(getVinError('137404-000123-1')).toMatch(/check digit/);
+    expect(isValidVin('137404-000132-0')).toBe(false);
+  });
+});
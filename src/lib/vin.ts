@@ -0,0 +1,41 @@
+/**
+ * Voter Identification Number (VIN) helpers, mirroring vin_check_digit and
+ * is_valid_vin in businessSchema.sql.
+ *
+ * A VIN is RRPPMM-NNNNNN-C: the region, province and city/municipality part of the
+ * PSGC code of the voter's precinct, a six-digit sequence within that locality, and
+ * a Luhn check digit over the twelve digits before it.
+ */
+
+export const VIN_PATTERN = /^\d{6}-\d{6}-\d$/;
+
+export const VIN_FORMAT_HINT = 'RRPPMM-NNNNNN-C, e.g. 137404-000123-0';
+
+// Luhn check digit of a string of digits
+export const vinCheckDigit = (digits: string): number => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+// Returns why a voter ID is not a valid VIN, or null when it is
+export const getVinError = (vin: string): string | null => {
+  const value = vin.trim();
+  if (!VIN_PATTERN.test(value)) {
+    return `Voter ID must follow the format ${VIN_FORMAT_HINT}.`;
+  }
+  const digits = value.slice(0, 6) + value.slice(7, 13);
+  if (vinCheckDigit(digits) !== Number(value[14])) {
+    return 'Voter ID check digit does not match. Please check for typos.';
+  }
+  return null;
+};
+
+export const isValidVin = (vin: string) => getVinError(vin) === null;
@@ -1,4 +1,27 @@
 import { z } from "zod";
+import { getIdNumberError } from "@/services/idTypeService";
+
+// Quality scores recorded for each ID photo (see IdImageQuality in types)
+const idImageQualitySchema = z.object({
+  score: z.number(),
+  blur_variance: z.number(),
+  glare_ratio: z.number(),
+  width: z.number(),
+  height: z.number(),
+  aspect_ratio: z.number(),
+  warnings: z.array(z.string()),
+});
+
+// Accepted ID type picked by the applicant (see AcceptedIdType in types); kept whole so its rules can be checked here
+const acceptedIdTypeSchema = z.object({
+  id_type_code: z.string(),
+  name: z.string(),
+  requires_back: z.boolean(),
+  id_number_pattern: z.string().nullable(),
+  id_number_hint: z.string().nullable(),
+  is_active: z.boolean(),
+  sort_order: z.number(),
+});
 
 // This schema is designed to align with the supabase/businessSchema.sql
 // You will need to update your form components to use these field names and enum values.
@@ -38,6 +61,8 @@ export const applicationFormSchema = z.object({
   }), // Corresponds to date_of_birth
   placeOfBirthMunicipality: z.string().optional(),
   placeOfBirthProvince: z.string().optional(),
+  placeOfBirthMunicipalityCode: z.string().optional(), // PSGC code; empty when typed in
+  placeOfBirthProvinceCode: z.string().optional(),
   fatherFirstName: z.string().optional(),
   fatherLastName: z.string().optional(),
   motherFirstName: z.string().optional(),
@@ -65,15 +90,24 @@ export const applicationFormSchema = z.object({
   // --- application_registration table ---
   registrationType: z.enum(['Katipunan ng Kabataan', 'Regular']).optional(), // Corresponds to registrationIntention
   adultRegistrationConsent: z.boolean().optional(),
+  idType: acceptedIdTypeSchema.optional(), // Corresponds to id_type_code
+  idNumber: z.string().optional(),
   governmentIdFrontUrl: z.instanceof(File).optional().refine(file => !file || file.size <= 5 * 1024 * 1024, "File size must be less than 5MB"), // Corresponds to idFrontPhoto
   governmentIdBackUrl: z.instanceof(File).optional().refine(file => !file || file.size <= 5 * 1024 * 1024, "File size must be less than 5MB"), // Corresponds to idBackPhoto
   idSelfieUrl: z.instanceof(File).optional().refine(file => !file || file.size <= 5 * 1024 * 1024, "File size must be less than 5MB"), // Corresponds to selfieWithId
+  // Quality scores of the photos above, set by IdVerificationFields
+  governmentIdFrontQuality: idImageQualitySchema.optional(),
+  governmentIdBackQuality: idImageQualitySchema.optional(),
+  idSelfieQuality: idImageQualitySchema.optional(),
 
   // --- application_transfer table ---
   previousPrecinctNumber: z.string().optional(),
   previousBarangay: z.string().optional(),
   previousCityMunicipality: z.string().optional(),
   previousProvince: z.string().optional(),
+  previousBarangayCode: z.string().optional(), // PSGC codes; empty when typed in
+  previousCityMunicipalityCode: z.string().optional(),
+  previousProvinceCode: z.string().optional(),
   previousForeignPost: z.string().optional(),
   previousCountry: z.string().optional(),
   transferType: z.enum([
@@ -115,6 +149,9 @@ export const applicationFormSchema = z.object({
   barangay: z.string().optional(),
   cityMunicipality: z.string().optional(),
   province: z.string().optional(),
+  barangayCode: z.string().optional(), // PSGC codes; empty when typed in
+  cityMunicipalityCode: z.string().optional(),
+  provinceCode: z.string().optional(),
   yearsOfResidenceAddress: z.number().min(0).optional(), // For address-level residency
   monthsOfResidenceAddress: z.number().min(0).optional(), // For address-level residency
   yearsOfResidenceMunicipality: z.number().min(0).optional(), // Corresponds to residencyYearsCityMun
@@ -169,7 +206,13 @@ export const applicationFormSchema = z.object({
       ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Registration type is required.", path: ["registrationType"] });
     }
     if (!data.governmentIdFrontUrl) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "ID Front Photo is required for registration", path: ["governmentIdFrontUrl"] });
-    if (!data.governmentIdBackUrl) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "ID Back Photo is required for registration", path: ["governmentIdBackUrl"] });
+    if (!data.idType) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Please select the ID you are presenting", path: ["idType"] });
+    } else {
+      const idNumberError = getIdNumberError(data.idType, data.idNumber || '');
+      if (idNumberError) ctx.addIssue({ code: z.ZodIssueCode.custom, message: idNumberError, path: ["idNumber"] });
+    }
+    if (!data.governmentIdBackUrl && data.idType?.requires_back !== false) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "ID Back Photo is required for this ID type", path: ["governmentIdBackUrl"] });
     if (!data.idSelfieUrl) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Selfie with ID is required for registration", path: ["idSelfieUrl"] });
   }
   
@@ -214,6 +257,9 @@ export const applicationFormSchema = z.object({
         data.previousBarangay = undefined;
         data.previousCityMunicipality = undefined;
         data.previousProvince = undefined;
+        data.previousBarangayCode = undefined;
+        data.previousCityMunicipalityCode = undefined;
+        data.previousProvinceCode = undefined;
       } else {
         // For domestic transfers, clear foreign fields
         data.previousForeignPost = undefined;
@@ -223,6 +269,8 @@ export const applicationFormSchema = z.object({
           // For within city transfers, clear inter-city fields
           data.previousCityMunicipality = undefined;
           data.previousProvince = undefined;
+          data.previousCityMunicipalityCode = undefined;
+          data.previousProvinceCode = undefined;
         }
       }
 
@@ -0,0 +1,31 @@
+import { supabase } from '@/lib/supabase/client';
+import type { PsgcCodeAssignment, UnnormalizedAddress } from '@/types';
+
+// Function to get typed-in addresses and places of birth that have no PSGC codes yet
+export const getUnnormalizedAddresses = async (): Promise<UnnormalizedAddress[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_unnormalized_addresses');
+
+    if (error) {
+      console.error('Error fetching unnormalized addresses:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getUnnormalizedAddresses:', error);
+    return [];
+  }
+};
+
+// Stores confirmed PSGC codes through the apply_psgc_codes RPC; returns the number of rows updated
+export const applyPsgcCodes = async (rows: PsgcCodeAssignment[]): Promise<number> => {
+  const { data, error } = await supabase.rpc('apply_psgc_codes', { p_rows: rows });
+
+  if (error) {
+    console.error('Error applying PSGC codes:', error);
+    throw new Error(error.message);
+  }
+
+  return data as number;
+};
@@ -0,0 +1,183 @@
+import { supabase } from '@/lib/supabase/client';
+import type { Officer, OfficerAccount, OfficerInvitation, OfficerJurisdiction, OfficerRecentAction } from '@/types';
+
+const JURISDICTION_SELECT = 'jurisdiction_id, officer_id, province, province_code, city_municipality, city_municipality_code, district, district_barangays';
+
+// Function to get every officer account with its email and jurisdictions, suspended accounts included
+export const getOfficerAccounts = async (): Promise<OfficerAccount[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('officer')
+      .select(`
+        officer_id, first_name, last_name, position, auth_id, suspended_at,
+        app_user:auth_id (email),
+        officer_jurisdiction (${JURISDICTION_SELECT})
+      `)
+      .order('last_name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching officer accounts:', error);
+      return [];
+    }
+
+    return (data || []).map(({ app_user, officer_jurisdiction, ...officer }: any) => {
+      const account = Array.isArray(app_user) ? app_user[0] : app_user;
+      return {
+        ...officer,
+        email: account?.email ?? null,
+        jurisdictions: officer_jurisdiction || [],
+      };
+    });
+  } catch (error) {
+    console.error('Error in getOfficerAccounts:', error);
+    return [];
+  }
+};
+
+// Function to get the invitations still waiting for the invited person to sign up
+export const getPendingInvitations = async (): Promise<OfficerInvitation[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('officer_invitation')
+      .select('*')
+      .is('accepted_at', null)
+      .order('invited_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching officer invitations:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getPendingInvitations:', error);
+    return [];
+  }
+};
+
+// Invites an officer through the invite_officer RPC. Returns 'activated' when an account with the email
+// already existed and is now an officer, or 'invited' when the invitation waits for the person to sign up.
+export const inviteOfficer = async (
+  invitation: Pick<OfficerInvitation, 'email' | 'first_name' | 'last_name' | 'position' | 'province' | 'province_code' | 'city_municipality' | 'city_municipality_code'>
+): Promise<'activated' | 'invited'> => {
+  const { data, error } = await supabase.rpc('invite_officer', {
+    p_email: invitation.email,
+    p_first_name: invitation.first_name,
+    p_last_name: invitation.last_name,
+    p_position: invitation.position,
+    p_province: invitation.province,
+    p_province_code: invitation.province_code,
+    p_city_municipality: invitation.city_municipality,
+    p_city_municipality_code: invitation.city_municipality_code,
+  });
+
+  if (error) {
+    console.error('Error inviting officer:', error);
+    throw new Error(error.message);
+  }
+
+  return data as 'activated' | 'invited';
+};
+
+// Function to withdraw a pending invitation
+export const revokeOfficerInvitation = async (invitationId: number): Promise<void> => {
+  const { error } = await supabase
+    .from('officer_invitation')
+    .delete()
+    .eq('invitation_id', invitationId);
+
+  if (error) {
+    console.error('Error revoking officer invitation:', error);
+    throw new Error(error.message);
+  }
+};
+
+// Function to change an officer's position, which decides their permissions (see officer_position_permission)
+export const updateOfficerPosition = async (officerId: number, position: Officer['position']): Promise<void> => {
+  const { error } = await supabase
+    .from('officer')
+    .update({ position })
+    .eq('officer_id', officerId);
+
+  if (error) {
+    console.error('Error updating officer position:', error);
+    throw new Error(error.message);
+  }
+};
+
+// Function to delete an application with everything recorded for it; only administrators may delete records
+export const deleteApplication = async (applicationId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('application')
+    .delete()
+    .eq('public_facing_id', applicationId)
+    .select('application_number');
+
+  if (error) {
+    console.error('Error deleting application:', error);
+    throw new Error(error.message);
+  }
+  if (!data || data.length === 0) {
+    throw new Error(`Application ${applicationId} was not found.`);
+  }
+};
+
+// Suspends or reactivates an officer account through the set_officer_suspended RPC
+export const setOfficerSuspended = async (officerId: number, suspended: boolean): Promise<void> => {
+  const { error } = await supabase.rpc('set_officer_suspended', {
+    p_officer_id: officerId,
+    p_suspended: suspended,
+  });
+
+  if (error) {
+    console.error('Error updating officer suspension:', error);
+    throw new Error(error.message);
+  }
+};
+
+// Function to add a jurisdiction to an officer
+export const addOfficerJurisdiction = async (
+  jurisdiction: Pick<OfficerJurisdiction, 'officer_id' | 'province' | 'province_code' | 'city_municipality' | 'city_municipality_code'>
+): Promise<void> => {
+  const { error } = await supabase
+    .from('officer_jurisdiction')
+    .insert(jurisdiction);
+
+  if (error) {
+    console.error('Error adding officer jurisdiction:', error);
+    throw new Error(error.message);
+  }
+};
+
+// Function to remove one of an officer's jurisdictions
+export const removeOfficerJurisdiction = async (jurisdictionId: number): Promise<void> => {
+  const { error } = await supabase
+    .from('officer_jurisdiction')
+    .delete()
+    .eq('jurisdiction_id', jurisdictionId);
+
+  if (error) {
+    console.error('Error removing officer jurisdiction:', error);
+    throw new Error(error.message);
+  }
+};
+
+// Function to get an officer's latest status changes, newest first
+export const getOfficerRecentActions = async (officerId: number, limit = 20): Promise<OfficerRecentAction[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_officer_recent_actions', {
+      p_officer_id: officerId,
+      p_limit: limit,
+    });
+
+    if (error) {
+      console.error('Error fetching officer actions:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getOfficerRecentActions:', error);
+    return [];
+  }
+};
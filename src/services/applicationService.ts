@@ -1,5 +1,8 @@
 import { supabase } from '@/lib/supabase/client';
+import { MAX_ID_IMAGE_BYTES } from '@/lib/imagePipeline';
 import { ApplicationFormValues } from '@/schemas/applicationSchema';
+import { assertOfficerPermission, getOfficerDirectory, PermissionDeniedError } from '@/services/officerService';
+import type { ApplicantResidence, Application, ApplicationOutcomeAudit, ApplicationStatusHistoryEntry, ApplicationStatusTransition, DocumentChecklist, IdImageQuality } from '@/types';
 
 // We will need to export this from AuthContext.tsx
 interface AuthenticatedUser {
@@ -8,18 +11,18 @@ interface AuthenticatedUser {
   voterId?: string;
   precinct?: string;
   username: string;
-  role: 'officer' | 'public';
+  role: 'officer' | 'public' | 'admin';
 }
 
-// Helper function for securely uploading a file and getting its public URL
+// Helper function for securely uploading a file; returns its storage path (view it through a signed URL)
 const uploadFile = async (file: File, bucket: string, path: string): Promise<string> => {
   // Validate file before upload
   if (!file || !(file instanceof File)) {
     throw new Error(`Invalid file provided for upload to ${bucket}`);
   }
 
-  // Check file size (5MB limit)
-  const maxSize = 5 * 1024 * 1024; // 5MB in bytes
+  // Check file size (5MB limit; ID photos are compressed by processIdImage before they get here)
+  const maxSize = MAX_ID_IMAGE_BYTES;
   if (file.size > maxSize) {
     throw new Error(`File size (${(file.size / 1024 / 1024).toFixed(2)}MB) exceeds the 5MB limit for ${bucket}`);
   }
@@ -68,14 +71,7 @@ const uploadFile = async (file: File, bucket: string, path: string): Promise<str
       throw new Error(`Upload succeeded but no file path returned from ${bucket}`);
     }
 
-    // Get public URL
-    const { data: urlData } = supabase.storage.from(bucket).getPublicUrl(path);
-    
-    if (!urlData?.publicUrl) {
-      throw new Error(`Failed to generate public URL for uploaded file in ${bucket}`);
-    }
-
-    return urlData.publicUrl;
+    return data.path;
   } catch (uploadError) {
     console.error(`Exception during file upload to ${bucket}:`, {
       error: uploadError,
@@ -99,453 +95,274 @@ const uploadFile = async (file: File, bucket: string, path: string): Promise<str
 };
 
 
-export const submitApplication = async (data: ApplicationFormValues, user: AuthenticatedUser): Promise<string> => {
-  // Enhanced debugging
-  console.log('=== SUBMIT APPLICATION DEBUG START ===');
-  console.log('Input data keys:', Object.keys(data));
-  console.log('Application type:', data.applicationType);
-  console.log('User info:', { id: user.id, email: user.email, role: user.role });
-  
-  // Check for required fields based on application type
-  if (data.applicationType === 'register') {
-    console.log('Registration data validation:');
-    console.log('- firstName:', data.firstName);
-    console.log('- lastName:', data.lastName);
-    console.log('- dateOfBirth:', data.dateOfBirth);
-    console.log('- registrationType:', data.registrationType);
-    console.log('- citizenshipType:', data.citizenshipType);
-    console.log('- sex:', data.sex);
-    console.log('- civilStatus:', data.civilStatus);
+// Payload accepted by the submit_application RPC (see supabase/businessSchema.sql).
+// Keys mirror the column names of the tables each group is written to.
+export interface SubmitApplicationPayload {
+  application_type: NonNullable<ApplicationFormValues['applicationType']>;
+  applicant: {
+    first_name?: string;
+    last_name?: string;
+    middle_name?: string;
+    suffix?: string;
+    citizenship_type?: string;
+    date_of_naturalization?: string;
+    certificate_number?: string;
+    profession_occupation?: string;
+    contact_number?: string;
+    email_address?: string;
+    civil_status?: string;
+    spouse_name?: string | null;
+    sex?: string;
+    date_of_birth?: string;
+    place_of_birth_municipality?: string;
+    place_of_birth_province?: string;
+    place_of_birth_municipality_code?: string | null;
+    place_of_birth_province_code?: string | null;
+    father_name: string;
+    mother_maiden_name: string;
+  } | null;
+  special_sector: {
+    is_illiterate: boolean;
+    is_senior_citizen: boolean;
+    tribe?: string;
+    type_of_disability?: string;
+    assistance_needed?: string;
+    assistor_name?: string;
+    vote_on_ground_floor: boolean;
+  } | null;
+  registration: {
+    registration_type?: string;
+    adult_registration_consent?: boolean;
+    government_id_front_path?: string;
+    government_id_back_path?: string;
+    id_selfie_path?: string;
+    id_type_code?: string;
+    id_number?: string;
+    government_id_front_quality?: IdImageQuality | null;
+    government_id_back_quality?: IdImageQuality | null;
+    id_selfie_quality?: IdImageQuality | null;
+  } | null;
+  transfer: {
+    previous_precinct_number: string | null;
+    previous_barangay: string | null;
+    previous_city_municipality: string | null;
+    previous_province: string | null;
+    previous_barangay_code: string | null;
+    previous_city_municipality_code: string | null;
+    previous_province_code: string | null;
+    previous_foreign_post: string | null;
+    previous_country: string | null;
+    transfer_type?: string;
+  } | null;
+  reactivation: { reason_for_deactivation?: string } | null;
+  correction: { target_field?: string; current_value?: string; requested_value?: string } | null;
+  reinstatement: { reinstatement_type?: string } | null;
+  declared_address: {
+    house_number_street: string;
+    barangay?: string;
+    city_municipality?: string;
+    province?: string;
+    barangay_code?: string | null;
+    city_municipality_code?: string | null;
+    province_code?: string | null;
+    years_in_country?: number;
+    years_of_residence_municipality?: number;
+    months_of_residence_municipality?: number;
+    years_of_residence_address?: number;
+    months_of_residence_address?: number;
+  } | null;
+}
+
+interface UploadedRegistrationFiles {
+  idFrontPhotoPath?: string;
+  idBackPhotoPath?: string;
+  selfieWithIdPath?: string;
+}
+
+// Maps the form values onto the grouped payload expected by the submit_application RPC
+export const buildSubmitApplicationPayload = (
+  data: ApplicationFormValues,
+  uploads: UploadedRegistrationFiles = {}
+): SubmitApplicationPayload => {
+  if (!data.applicationType) {
+    throw new Error('Application type is required.');
   }
-  
-  let idFrontPhotoUrl: string | undefined;
-  let idBackPhotoUrl: string | undefined;
-  let selfieWithIdUrl: string | undefined;
 
-  let applicant_id: number;
+  const type = data.applicationType;
+  const isRegister = type === 'register';
+  const isTransfer = type === 'transfer' || type === 'transfer_with_reactivation';
+  const isReactivation = type === 'reactivation' || type === 'transfer_with_reactivation';
+  const hasSpecialSector = data.isIlliterate || data.isSeniorCitizen || data.isIndigenousPerson ||
+    data.isPwd || data.voteOnGroundFloor || !!data.assistanceNeeded || !!data.assistorName;
 
-  try {
-    console.log('Starting application submission for user:', { 
-      userId: user.id, 
-      userRole: user.role, 
-      applicationType: data.applicationType 
+  return {
+    application_type: type,
+    applicant: isRegister ? {
+      first_name: data.firstName,
+      last_name: data.lastName,
+      middle_name: data.middleName,
+      suffix: data.suffix,
+      citizenship_type: data.citizenshipType,
+      date_of_naturalization: data.dateOfNaturalization,
+      certificate_number: data.certificateNumber,
+      profession_occupation: data.professionOccupation,
+      contact_number: data.contactNumber,
+      email_address: data.emailAddress,
+      civil_status: data.civilStatus,
+      spouse_name: data.civilStatus === 'Married' ? (data.spouseName || '') : null,
+      sex: data.sex,
+      date_of_birth: data.dateOfBirth,
+      place_of_birth_municipality: data.placeOfBirthMunicipality,
+      place_of_birth_province: data.placeOfBirthProvince,
+      place_of_birth_municipality_code: data.placeOfBirthMunicipalityCode || null,
+      place_of_birth_province_code: data.placeOfBirthProvinceCode || null,
+      father_name: `${data.fatherFirstName} ${data.fatherLastName}`.trim(),
+      mother_maiden_name: `${data.motherFirstName} ${data.motherMaidenLastName}`.trim(),
+    } : null,
+    special_sector: isRegister && hasSpecialSector ? {
+      is_illiterate: data.isIlliterate,
+      is_senior_citizen: data.isSeniorCitizen,
+      tribe: data.tribe,
+      type_of_disability: data.typeOfDisability,
+      assistance_needed: data.assistanceNeeded,
+      assistor_name: data.assistorName,
+      vote_on_ground_floor: data.voteOnGroundFloor,
+    } : null,
+    registration: isRegister ? {
+      registration_type: data.registrationType,
+      adult_registration_consent: data.adultRegistrationConsent,
+      government_id_front_path: uploads.idFrontPhotoPath,
+      government_id_back_path: uploads.idBackPhotoPath,
+      id_selfie_path: uploads.selfieWithIdPath,
+      id_type_code: data.idType?.id_type_code,
+      id_number: data.idNumber?.trim().toUpperCase(),
+      government_id_front_quality: data.governmentIdFrontQuality ?? null,
+      government_id_back_quality: data.governmentIdBackQuality ?? null,
+      id_selfie_quality: data.idSelfieQuality ?? null,
+    } : null,
+    transfer: isTransfer ? {
+      previous_precinct_number: data.previousPrecinctNumber || null,
+      previous_barangay: data.previousBarangay || null,
+      previous_city_municipality: data.previousCityMunicipality || null,
+      previous_province: data.previousProvince || null,
+      previous_barangay_code: data.previousBarangayCode || null,
+      previous_city_municipality_code: data.previousCityMunicipalityCode || null,
+      previous_province_code: data.previousProvinceCode || null,
+      previous_foreign_post: data.previousForeignPost || null,
+      previous_country: data.previousCountry || null,
+      transfer_type: data.transferType,
+    } : null,
+    reactivation: isReactivation ? {
+      reason_for_deactivation: data.reasonForDeactivation,
+    } : null,
+    correction: type === 'correction_of_entry' ? {
+      target_field: data.targetField,
+      current_value: data.currentValue,
+      requested_value: data.requestedValue,
+    } : null,
+    reinstatement: type === 'reinstatement' ? {
+      reinstatement_type: data.reinstatementType,
+    } : null,
+    declared_address: isRegister || isTransfer ? {
+      house_number_street: `${data.houseNumber} ${data.street}`,
+      barangay: data.barangay,
+      city_municipality: data.cityMunicipality,
+      province: data.province,
+      barangay_code: data.barangayCode || null,
+      city_municipality_code: data.cityMunicipalityCode || null,
+      province_code: data.provinceCode || null,
+      years_in_country: data.yearsInCountry,
+      years_of_residence_municipality: data.yearsOfResidenceMunicipality,
+      months_of_residence_municipality: data.monthsOfResidenceMunicipality,
+      years_of_residence_address: data.yearsOfResidenceAddress,
+      months_of_residence_address: data.monthsOfResidenceAddress,
+    } : null,
+  };
+};
+
+// Typed wrapper around the submit_application RPC. All rows are written in one
+// transaction, so a failure here never leaves a partial application behind.
+export const submitApplicationRpc = async (payload: SubmitApplicationPayload): Promise<string> => {
+  const { data, error } = await supabase.rpc('submit_application', { payload });
+
+  if (error) {
+    console.error('Error calling submit_application:', {
+      error,
+      errorMessage: error.message,
+      errorCode: error.code,
+      errorDetails: error.details,
+      errorHint: error.hint,
+      applicationType: payload.application_type
     });
+    throw new Error(error.message || 'Failed to create application record.');
+  }
 
-    // Verify user exists in app_user table (for RLS policy)
-    const { data: userRecord, error: userCheckError } = await supabase
-      .from('app_user')
-      .select('role')
-      .eq('auth_id', user.id)
-      .single();
+  if (typeof data !== 'string' || !data) {
+    throw new Error('Failed to create application record.');
+  }
+
+  return data;
+};
 
-    if (userCheckError || !userRecord) {
-      console.error('User not found in app_user table:', userCheckError);
-      throw new Error('User profile not found. Please refresh the page and try again.');
+// Best-effort removal of uploads whose application was never written
+const removeUploadedFiles = async (uploaded: { bucket: string; path: string }[]) => {
+  for (const { bucket, path } of uploaded) {
+    const { error } = await supabase.storage.from(bucket).remove([path]);
+    if (error) {
+      console.warn(`Failed to remove orphaned upload ${path} from ${bucket}:`, error);
     }
+  }
+};
 
-    console.log('User record verified:', userRecord);
-    
-    // Step 1: Handle File Uploads if it's a registration application
+export const submitApplication = async (data: ApplicationFormValues, user: AuthenticatedUser): Promise<string> => {
+  console.log('Starting application submission for user:', {
+    userId: user.id,
+    userRole: user.role,
+    applicationType: data.applicationType
+  });
+
+  const uploads: UploadedRegistrationFiles = {};
+  const uploadedObjects: { bucket: string; path: string }[] = [];
+
+  try {
+    // Step 1: Handle File Uploads if it's a registration application.
+    // Files go under a folder named after the uploader's auth ID, which the storage policies use for ownership.
     if (data.applicationType === 'register') {
       if (data.governmentIdFrontUrl) {
-        const timestamp = Date.now();
-        const path = `public/${user.id}-${timestamp}-front-${data.governmentIdFrontUrl.name}`;
+        const path = `${user.id}/${Date.now()}-front-${data.governmentIdFrontUrl.name}`;
         try {
-          idFrontPhotoUrl = await uploadFile(data.governmentIdFrontUrl, 'government-ids', path);
+          uploads.idFrontPhotoPath = await uploadFile(data.governmentIdFrontUrl, 'government-ids', path);
+          uploadedObjects.push({ bucket: 'government-ids', path });
         } catch (e) {
           console.error('Error uploading governmentIdFrontUrl:', e);
           throw new Error(`Failed to upload ID front photo: ${e instanceof Error ? e.message : 'Unknown error'}`);
         }
       }
       if (data.governmentIdBackUrl) {
-        const timestamp = Date.now();
-        const path = `public/${user.id}-${timestamp}-back-${data.governmentIdBackUrl.name}`;
+        const path = `${user.id}/${Date.now()}-back-${data.governmentIdBackUrl.name}`;
         try {
-          idBackPhotoUrl = await uploadFile(data.governmentIdBackUrl, 'government-ids', path);
+          uploads.idBackPhotoPath = await uploadFile(data.governmentIdBackUrl, 'government-ids', path);
+          uploadedObjects.push({ bucket: 'government-ids', path });
         } catch (e) {
           console.error('Error uploading governmentIdBackUrl:', e);
           throw new Error(`Failed to upload ID back photo: ${e instanceof Error ? e.message : 'Unknown error'}`);
         }
       }
       if (data.idSelfieUrl) {
-        const timestamp = Date.now();
-        const path = `public/${user.id}-${timestamp}-selfie-${data.idSelfieUrl.name}`;
+        const path = `${user.id}/${Date.now()}-selfie-${data.idSelfieUrl.name}`;
         try {
-          selfieWithIdUrl = await uploadFile(data.idSelfieUrl, 'id-selfies', path);
+          uploads.selfieWithIdPath = await uploadFile(data.idSelfieUrl, 'id-selfies', path);
+          uploadedObjects.push({ bucket: 'id-selfies', path });
         } catch (e) {
           console.error('Error uploading idSelfieUrl:', e);
           throw new Error(`Failed to upload selfie photo: ${e instanceof Error ? e.message : 'Unknown error'}`);
         }
       }
     }
-  // Step 2: Insert or fetch applicant
-  if (data.applicationType === 'register') {
-    // Check for existing applicant (use maybeSingle to handle no records)
-    const { data: existingApplicant, error: checkError } = await supabase
-      .from('applicant')
-      .select('applicant_id')
-      .eq('auth_id', user.id)
-      .maybeSingle();
-
-    if (checkError) {
-      console.error('Error checking for existing applicant:', checkError);
-      throw new Error('Failed to verify existing applications. Please try again.');
-    }
-
-    if (existingApplicant) {
-      console.log('Found existing applicant:', existingApplicant);
-      
-      // Check if they have any existing registration applications
-      const { data: existingApplications, error: appCheckError } = await supabase
-        .from('application')
-        .select('status, application_type')
-        .eq('applicant_id', existingApplicant.applicant_id)
-        .eq('application_type', 'register');
-
-      if (appCheckError) {
-        console.error('Error checking existing applications:', appCheckError);
-        throw new Error('Failed to verify existing applications. Please try again.');
-      }
-
-      // If they have pending or verified registration, block submission
-      const pendingOrVerified = existingApplications?.find(app => 
-        app.status === 'pending' || app.status === 'verified'
-      );
-      
-      if (pendingOrVerified) {
-        throw new Error(`You already have a ${pendingOrVerified.status} registration application. Please wait for it to be processed.`);
-      }
-
-      // If they only have disapproved applications, allow re-registration using updated applicant info
-      const hasOnlyDisapproved = existingApplications?.length > 0 && 
-        existingApplications.every(app => app.status === 'disapproved');
-      
-      if (hasOnlyDisapproved) {
-        console.log('Allowing re-registration for user with disapproved application - updating applicant info');
-        // Use UPSERT to update existing applicant with new information
-        const { data: applicantData, error: applicantError } = await supabase
-          .from('applicant')
-          .upsert({
-            applicant_id: existingApplicant.applicant_id, // Include the ID for upsert
-            auth_id: user.id,
-            first_name: data.firstName,
-            last_name: data.lastName,
-            middle_name: data.middleName,
-            suffix: data.suffix,
-            citizenship_type: data.citizenshipType,
-            date_of_naturalization: data.dateOfNaturalization,
-            certificate_number: data.certificateNumber,
-            profession_occupation: data.professionOccupation,
-            contact_number: data.contactNumber,
-            email_address: data.emailAddress,
-            civil_status: data.civilStatus,
-            spouse_name: data.civilStatus === 'Married' ? (data.spouseName || '') : null,
-            sex: data.sex,
-            date_of_birth: data.dateOfBirth,
-            place_of_birth_municipality: data.placeOfBirthMunicipality,
-            place_of_birth_province: data.placeOfBirthProvince,
-            father_name: `${data.fatherFirstName} ${data.fatherLastName}`.trim(),
-            mother_maiden_name: `${data.motherFirstName} ${data.motherMaidenLastName}`.trim(),
-          }, {
-            onConflict: 'auth_id' // Handle conflict on auth_id
-          })
-          .select('applicant_id')
-          .single();
 
-        if (applicantError) {
-          console.error('Error upserting applicant for re-registration:', {
-            error: applicantError,
-            errorMessage: applicantError.message,
-            errorCode: applicantError.code,
-            applicationType: data.applicationType,
-            userId: user.id
-          });
-          throw new Error(`Failed to update applicant record: ${applicantError.message || 'Unknown error'}`);
-        }
-        applicant_id = applicantData.applicant_id;
-      } else if (existingApplications?.some(app => app.status === 'approved')) {
-        throw new Error(`You already have an approved registration. Please use transfer, correction, or other application types.`);
-      } else {
-        // This case shouldn't happen, but fallback to using existing applicant
-        applicant_id = existingApplicant.applicant_id;
-      }
-    } else {
-      // No existing applicant, create new one with INSERT
-      const { data: applicantData, error: applicantError } = await supabase
-      .from('applicant')
-      .insert({
-        auth_id: user.id,
-        first_name: data.firstName,
-        last_name: data.lastName,
-        middle_name: data.middleName,
-        suffix: data.suffix,
-        citizenship_type: data.citizenshipType,
-        date_of_naturalization: data.dateOfNaturalization,
-        certificate_number: data.certificateNumber,
-        profession_occupation: data.professionOccupation,
-        contact_number: data.contactNumber,
-        email_address: data.emailAddress,
-        civil_status: data.civilStatus,
-        spouse_name: data.civilStatus === 'Married' ? (data.spouseName || '') : null,
-        sex: data.sex,
-        date_of_birth: data.dateOfBirth,
-        place_of_birth_municipality: data.placeOfBirthMunicipality,
-        place_of_birth_province: data.placeOfBirthProvince,
-        father_name: `${data.fatherFirstName} ${data.fatherLastName}`.trim(),
-        mother_maiden_name: `${data.motherFirstName} ${data.motherMaidenLastName}`.trim(),
-      })
-      .select('applicant_id')
-      .single();
-
-    if (applicantError) {
-      console.error('Error inserting new applicant:', {
-        error: applicantError,
-        errorMessage: applicantError.message,
-        errorCode: applicantError.code,
-        errorDetails: applicantError.details,
-        errorHint: applicantError.hint,
-        applicationType: data.applicationType,
-        userId: user.id
-      });
-      throw new Error(`Failed to create applicant record: ${applicantError.message || 'Unknown error'}`);
-    }
-    applicant_id = applicantData.applicant_id;
-    }
-  } else {
-    // Fetch existing applicant for this user
-    const { data: applicantData, error: fetchError } = await supabase
-      .from('applicant')
-      .select('applicant_id')
-      .eq('auth_id', user.id)
-      .maybeSingle();
-    if (fetchError || !applicantData) {
-      console.error('Error fetching applicant for non-registration application:', fetchError, user.id);
-      throw new Error('No applicant record found for this user. Please register first.');
-    }
-    applicant_id = applicantData.applicant_id;
-  }
-
-  // Step 3: Insert/Update special sector info if provided (only for registration)
-  if (data.applicationType === 'register' && 
-      (data.isIlliterate || data.isSeniorCitizen || data.isIndigenousPerson || 
-       data.isPwd || data.voteOnGroundFloor || data.assistanceNeeded || data.assistorName)) {
-    const { error: specialSectorError } = await supabase
-      .from('applicant_special_sector')
-      .upsert({
-        applicant_id: applicant_id,
-        is_illiterate: data.isIlliterate,
-        is_senior_citizen: data.isSeniorCitizen,
-        tribe: data.tribe,
-        type_of_disability: data.typeOfDisability,
-        assistance_needed: data.assistanceNeeded,
-        assistor_name: data.assistorName,
-        vote_on_ground_floor: data.voteOnGroundFloor,
-      }, {
-        onConflict: 'applicant_id' // Handle conflict on primary key
-      });
-    if (specialSectorError) {
-      console.error('Error inserting special sector info:', {
-        error: specialSectorError,
-        errorMessage: specialSectorError.message,
-        errorCode: specialSectorError.code,
-        applicationType: data.applicationType,
-        userId: user.id
-      });
-      throw new Error('Failed to save special sector information.');
-    }
-  }
-
-  // Step 4: Create the main application record to get the application_number
-  console.log('Inserting application with data:', {
-    applicant_id: applicant_id,
-    application_type: data.applicationType,
-    status: 'pending',
-    application_date: new Date().toISOString() // Full timestamp
-  });
-  
-  const { data: appData, error: appError } = await supabase
-    .from('application')
-    .insert({
-      applicant_id: applicant_id,
-      application_type: data.applicationType,
-      status: 'pending',
-      application_date: new Date().toISOString() // Full timestamp with timezone
-    })
-    .select('application_number, public_facing_id')
-    .single();
-
-  console.log('Application insertion result:', { appData, appError });
-
-  if (appError) {
-    console.error('Error inserting application:', {
-      error: appError,
-      errorMessage: appError.message,
-      errorCode: appError.code,
-      errorDetails: appError.details,
-      errorHint: appError.hint,
-      applicationType: data.applicationType,
-      userId: user.id
-    });
-    throw new Error('Failed to create application record.');
-  }
-  const application_number = appData.application_number;
-  const public_facing_id = appData.public_facing_id;
-
-  // Step 5: Insert data into application-specific tables based on type
-  try {
-    switch (data.applicationType) {
-      case 'register':
-        {
-          const { error: regError } = await supabase.from('application_registration').insert({
-            application_number: application_number,
-            registration_type: data.registrationType,
-            adult_registration_consent: data.adultRegistrationConsent,
-            government_id_front_url: idFrontPhotoUrl,
-            government_id_back_url: idBackPhotoUrl,
-            id_selfie_url: selfieWithIdUrl,
-          });
-          if (regError) {
-            console.error('Error inserting application_registration:', {
-              error: regError,
-              errorMessage: regError.message,
-              errorCode: regError.code,
-              applicationType: data.applicationType,
-              userId: user.id
-            });
-            throw new Error('Failed to save registration details.');
-          }
-        }
-        break;
-      case 'transfer_with_reactivation':
-        {
-          const { error: transferError } = await supabase.from('application_transfer').insert({
-            application_number: application_number,
-            previous_precinct_number: data.previousPrecinctNumber || null,
-            previous_barangay: data.previousBarangay || null,
-            previous_city_municipality: data.previousCityMunicipality || null,
-            previous_province: data.previousProvince || null,
-            previous_foreign_post: data.previousForeignPost || null,
-            previous_country: data.previousCountry || null,
-            transfer_type: data.transferType,
-          });
-          if (transferError) {
-            console.error('Error inserting application_transfer:', {
-              error: transferError,
-              errorMessage: transferError.message,
-              errorCode: transferError.code,
-              applicationType: data.applicationType,
-              userId: user.id
-            });
-            throw new Error('Failed to save transfer details.');
-          }
-          const { error: reactError } = await supabase.from('application_reactivation').insert({
-            application_number: application_number,
-            reason_for_deactivation: data.reasonForDeactivation,
-          });
-          if (reactError) {
-            console.error('Error inserting application_reactivation:', reactError, data);
-            throw new Error('Failed to save reactivation details.');
-          }
-        }
-        break;
-      case 'transfer':
-        {
-          const { error: transferError } = await supabase.from('application_transfer').insert({
-            application_number: application_number,
-            previous_precinct_number: data.previousPrecinctNumber || null,
-            previous_barangay: data.previousBarangay || null,
-            previous_city_municipality: data.previousCityMunicipality || null,
-            previous_province: data.previousProvince || null,
-            previous_foreign_post: data.previousForeignPost || null,
-            previous_country: data.previousCountry || null,
-            transfer_type: data.transferType,
-          });
-          if (transferError) {
-            console.error('Error inserting application_transfer:', transferError, data);
-            throw new Error('Failed to save transfer details.');
-          }
-        }
-        break;
-      case 'reactivation':
-        {
-          const { error: reactError } = await supabase.from('application_reactivation').insert({
-            application_number: application_number,
-            reason_for_deactivation: data.reasonForDeactivation,
-          });
-          if (reactError) {
-            console.error('Error inserting application_reactivation:', reactError, data);
-            throw new Error('Failed to save reactivation details.');
-          }
-        }
-        break;
-      case 'correction_of_entry':
-        {
-          const { error: corrError } = await supabase.from('application_correction').insert({
-            application_number: application_number,
-            target_field: data.targetField,
-            current_value: data.currentValue,
-            requested_value: data.requestedValue,
-          });
-          if (corrError) {
-            console.error('Error inserting application_correction:', corrError, data);
-            throw new Error('Failed to save correction details.');
-          }
-        }
-        break;
-      case 'reinstatement':
-        {
-          const { error: reinError } = await supabase.from('application_reinstatement').insert({
-            application_number: application_number,
-            reinstatement_type: data.reinstatementType,
-          });
-          if (reinError) {
-            console.error('Error inserting application_reinstatement:', reinError, data);
-            throw new Error('Failed to save reinstatement details.');
-          }
-        }
-        break;
-    }
-  } catch (e) {
-    console.error('Error in application-specific table insert:', {
-      error: e instanceof Error ? {
-        message: e.message,
-        stack: e.stack,
-        name: e.name
-      } : e,
-      applicationType: data.applicationType,
-      userId: user.id
-    });
-    throw e;
-  }
-
-  // Step 6: Insert address details for application types that require it (only for registration, transfer, transfer_with_reactivation)
-  if (data.applicationType && ["register", "transfer", "transfer_with_reactivation"].includes(data.applicationType)) {
-    const { error: addressError } = await supabase.from('application_declared_address').insert({
-        application_number: application_number,
-        house_number_street: `${data.houseNumber} ${data.street}`,
-        barangay: data.barangay,
-        city_municipality: data.cityMunicipality,
-        province: data.province,
-        years_in_country: data.yearsInCountry,
-        years_of_residence_municipality: data.yearsOfResidenceMunicipality,
-        months_of_residence_municipality: data.monthsOfResidenceMunicipality,
-        years_of_residence_address: data.yearsOfResidenceAddress,
-        months_of_residence_address: data.monthsOfResidenceAddress,
-      });
-    if (addressError) {
-      console.error('Error inserting application_declared_address:', {
-        error: addressError,
-        errorMessage: addressError.message,
-        errorCode: addressError.code,
-        applicationType: data.applicationType,
-        userId: user.id
-      });
-      throw new Error('Failed to save address details.');
-    }
-  }
-
-  // Step 7: Return the public_facing_id for redirection
-  return public_facing_id;
+    // Step 2: Write every table in a single transaction and return the public_facing_id
+    const payload = buildSubmitApplicationPayload(data, uploads);
+    return await submitApplicationRpc(payload);
 
   } catch (error) {
     console.error('Application submission failed:', {
@@ -559,10 +376,7 @@ export const submitApplication = async (data: ApplicationFormValues, user: Authe
       timestamp: new Date().toISOString()
     });
 
-    // If it's already a custom error with a descriptive message, re-throw it
-    if (error instanceof Error && error.message.includes('Failed to')) {
-      throw error;
-    }
+    await removeUploadedFiles(uploadedObjects);
 
     // For database errors, provide more context
     if (error instanceof Error) {
@@ -572,16 +386,17 @@ export const submitApplication = async (data: ApplicationFormValues, user: Authe
       if (error.message.includes('foreign key')) {
         throw new Error('Invalid reference data. Please refresh the page and try again.');
       }
-      if (error.message.includes('not null')) {
+      if (error.message.includes('not-null') || error.message.includes('not null')) {
         throw new Error('Missing required information. Please check all required fields are filled.');
       }
       if (error.message.includes('check constraint')) {
         throw new Error('Invalid data provided. Please check your input values and try again.');
       }
+      throw error;
     }
 
     // Generic fallback error
-    throw new Error(`Application submission failed: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+    throw new Error('Application submission failed: Unknown error occurred');
   }
 };
 
@@ -613,7 +428,9 @@ export async function getApplicationByPublicId(publicId: string) {
         house_number_street, barangay, city_municipality, province, months_of_residence_address, years_of_residence_address, months_of_residence_municipality, years_of_residence_municipality, years_in_country
       ),
       registration:application_registration!fk_application_registration (
-        registration_type, adult_registration_consent, government_id_front_url, government_id_back_url, id_selfie_url
+        registration_type, adult_registration_consent, government_id_front_path, government_id_back_path, id_selfie_path,
+        government_id_front_quality, government_id_back_quality, id_selfie_quality, id_quality_score,
+        id_type_code, id_number, accepted_id_type ( name )
       ),
       transfer:application_transfer!fk_application_transfer (
         previous_precinct_number, previous_barangay, previous_city_municipality, previous_province, previous_foreign_post, previous_country, transfer_type
@@ -735,9 +552,16 @@ export async function getApplicationByPublicId(publicId: string) {
     // Registration
     registrationType: registration.registration_type,
     adultRegistrationConsent: registration.adult_registration_consent,
-    governmentIdFrontUrl: registration.government_id_front_url,
-    governmentIdBackUrl: registration.government_id_back_url,
-    idSelfieUrl: registration.id_selfie_url,
+    governmentIdFrontPath: registration.government_id_front_path,
+    governmentIdBackPath: registration.government_id_back_path,
+    idSelfiePath: registration.id_selfie_path,
+    governmentIdFrontQuality: registration.government_id_front_quality,
+    governmentIdBackQuality: registration.government_id_back_quality,
+    idSelfieQuality: registration.id_selfie_quality,
+    idQualityScore: registration.id_quality_score,
+    idTypeCode: registration.id_type_code,
+    idTypeName: (Array.isArray(registration.accepted_id_type) ? registration.accepted_id_type[0] : registration.accepted_id_type)?.name,
+    idNumber: registration.id_number,
     // Transfer
     previousPrecinctNumber: transfer.previous_precinct_number,
     previousBarangay: transfer.previous_barangay,
@@ -786,176 +610,276 @@ export const updateApplicationRemarks = async (applicationId: string, remarks: s
   }
 };
 
-export const updateApplicationStatus = async (
-  applicationId: string, 
-  status: 'pending' | 'verified' | 'approved' | 'disapproved',
-  reasonForDisapproval?: string
-): Promise<boolean> => {
+// SQLSTATE raised by the enforce_application_status_transition trigger
+const ILLEGAL_STATUS_TRANSITION_CODE = 'ST409';
+// SQLSTATE raised by change_application_status when a transition that requires a reason has none
+const STATUS_REASON_REQUIRED_CODE = 'ST422';
+
+// Thrown when a status change is not listed in application_status_transition
+export class IllegalStatusTransitionError extends Error {
+  constructor(
+    public readonly fromStatus: Application['status'],
+    public readonly toStatus: Application['status']
+  ) {
+    super(`An application cannot move from ${fromStatus} to ${toStatus}.`);
+    this.name = 'IllegalStatusTransitionError';
+  }
+}
+
+// Thrown when a transition marked requires_reason is attempted without a reason
+export class StatusReasonRequiredError extends Error {
+  constructor(
+    public readonly fromStatus: Application['status'],
+    public readonly toStatus: Application['status']
+  ) {
+    super(`A reason is required to move an application from ${fromStatus} to ${toStatus}.`);
+    this.name = 'StatusReasonRequiredError';
+  }
+}
+
+// Function to get the legal status transitions, optionally only those leaving a given status
+export const getStatusTransitions = async (fromStatus?: Application['status']): Promise<ApplicationStatusTransition[]> => {
   try {
-    // Get current officer ID for assignment tracking
-    const officerId = await getCurrentOfficerId();
-    if (!officerId && status !== 'pending') {
-      console.error('Officer ID not found - cannot track assignment');
-      return false;
+    let query = supabase
+      .from('application_status_transition')
+      .select('from_status, to_status, action, requires_reason');
+
+    if (fromStatus) {
+      query = query.eq('from_status', fromStatus);
     }
 
-    const updateData: any = { 
-      status,
-      processing_date: status !== 'pending' ? new Date().toISOString() : null
-    };
+    const { data, error } = await query;
 
-    // Only include reason_for_disapproval if status is disapproved
-    if (status === 'disapproved') {
-      if (!reasonForDisapproval?.trim()) {
-        throw new Error('Reason for disapproval is required when disapproving an application');
-      }
-      updateData.reason_for_disapproval = reasonForDisapproval.trim();
-    } else {
-      updateData.reason_for_disapproval = null;
+    if (error) {
+      console.error('Error fetching status transitions:', error);
+      return [];
     }
 
-    const { error } = await supabase
+    return (data || []) as ApplicationStatusTransition[];
+  } catch (error) {
+    console.error('Failed to get status transitions:', error);
+    return [];
+  }
+};
+
+// Helper function to look up a transition, throwing IllegalStatusTransitionError if it is not allowed
+const assertStatusTransition = async (
+  fromStatus: Application['status'],
+  toStatus: Application['status']
+): Promise<ApplicationStatusTransition> => {
+  const { data, error } = await supabase
+    .from('application_status_transition')
+    .select('from_status, to_status, action, requires_reason')
+    .eq('from_status', fromStatus)
+    .eq('to_status', toStatus)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check status transition: ${error.message}`);
+  }
+  if (!data) {
+    throw new IllegalStatusTransitionError(fromStatus, toStatus);
+  }
+
+  return data as ApplicationStatusTransition;
+};
+
+// Changes an application's status through the change_application_status RPC, which records the
+// status history entry and officer assignment in the same transaction. Approvals use approveApplicationWithVoterRecord.
+export const updateApplicationStatus = async (
+  applicationId: string, 
+  status: Application['status'],
+  reason?: string,
+  documentChecklist?: DocumentChecklist
+): Promise<boolean> => {
+  try {
+    // Capture the current status so the transition can be checked before it is sent
+    const { data: currentApplication, error: fetchError } = await supabase
       .from('application')
-      .update(updateData)
-      .eq('public_facing_id', applicationId);
+      .select('status')
+      .eq('public_facing_id', applicationId)
+      .single();
 
-    if (error) {
-      console.error('Error updating application status:', error);
+    if (fetchError || !currentApplication) {
+      console.error('Error fetching application:', fetchError);
       return false;
     }
 
-    // Create officer assignment for all status changes that involve officer action
-    if (officerId) {
-      // Map status to action
-      let action: 'set_pending' | 'verify' | 'approve' | 'disapprove';
-      switch (status) {
-        case 'pending':
-          action = 'set_pending';
-          break;
-        case 'verified':
-          action = 'verify';
-          break;
-        case 'approved':
-          action = 'approve';
-          break;
-        case 'disapproved':
-          action = 'disapprove';
-          break;
-        default:
-          action = 'set_pending';
+    const transition = await assertStatusTransition(currentApplication.status, status);
+    await assertOfficerPermission(transition.action);
+    if (transition.requires_reason && !reason?.trim()) {
+      throw new StatusReasonRequiredError(transition.from_status, transition.to_status);
+    }
+
+    const { error } = await supabase.rpc('change_application_status', {
+      p_public_facing_id: applicationId,
+      p_status: status,
+      p_reason: reason?.trim() || null,
+      p_document_checklist: documentChecklist ?? null
+    });
+
+    if (error) {
+      if (error.code === ILLEGAL_STATUS_TRANSITION_CODE) {
+        // The status changed underneath us since it was read
+        throw new IllegalStatusTransitionError(currentApplication.status, status);
       }
-      
-      const assignmentSuccess = await createOfficerAssignment(applicationId, officerId, action);
-      if (!assignmentSuccess) {
-        console.warn('Failed to create officer assignment, but status update succeeded');
+      if (error.code === STATUS_REASON_REQUIRED_CODE) {
+        throw new StatusReasonRequiredError(currentApplication.status, status);
       }
+      console.error('Error updating application status:', error);
+      return false;
     }
 
     return true;
   } catch (error) {
+    if (
+      error instanceof IllegalStatusTransitionError ||
+      error instanceof PermissionDeniedError ||
+      error instanceof StatusReasonRequiredError
+    ) {
+      throw error;
+    }
     console.error('Failed to update application status:', error);
     return false;
   }
 };
 
+// Approves an application through the approve_application RPC, which applies the type-specific
+// outcome (voter record, transfer, reactivation, correction) to the voter's master record
+// in the same transaction as the status change.
 export const approveApplicationWithVoterRecord = async (
   applicationId: string, 
-  voterData: { precinctNumber: string; voterId: string },
-  reasonForDisapproval?: string
+  voterData: { precinctNumber?: string; voterId?: string } = {}
 ): Promise<boolean> => {
   try {
-    // Get current officer ID for assignment tracking
-    const officerId = await getCurrentOfficerId();
-    if (!officerId) {
-      console.error('Officer ID not found - cannot track assignment');
-      return false;
+    await assertOfficerPermission('approve');
+
+    const { error } = await supabase.rpc('approve_application', {
+      p_public_facing_id: applicationId,
+      p_precinct_number: voterData.precinctNumber?.trim() || null,
+      p_voter_id: voterData.voterId?.trim() || null
+    });
+
+    if (error) {
+      if (error.code === ILLEGAL_STATUS_TRANSITION_CODE) {
+        const { data: current } = await supabase
+          .from('application')
+          .select('status')
+          .eq('public_facing_id', applicationId)
+          .single();
+        throw new IllegalStatusTransitionError(current?.status ?? 'pending', 'approved');
+      }
+      console.error('Error approving application:', error);
+      throw new Error(error.message || 'Failed to approve application.');
     }
 
-    // First, get the application to find the applicant_id
+    return true;
+  } catch (error) {
+    console.error('Failed to approve application with voter record:', error);
+    throw error;
+  }
+};
+
+// Function to get the before/after snapshots recorded when an application was approved
+export const getApplicationOutcomeAudit = async (applicationId: string): Promise<ApplicationOutcomeAudit[]> => {
+  try {
     const { data: applicationData, error: fetchError } = await supabase
       .from('application')
-      .select('applicant_id, application_number')
+      .select('application_number')
       .eq('public_facing_id', applicationId)
       .single();
 
     if (fetchError || !applicationData) {
-      console.error('Error fetching application:', fetchError);
-      return false;
+      console.error('Error fetching application number:', fetchError);
+      return [];
     }
 
-    // Start a transaction-like operation
-    // 1. Update application status to approved
-    const { error: statusError } = await supabase
-      .from('application')
-      .update({ 
-        status: 'approved',
-        processing_date: new Date().toISOString(),
-        reason_for_disapproval: null
-      })
-      .eq('public_facing_id', applicationId);
+    const { data, error } = await supabase
+      .from('application_outcome_audit')
+      .select('audit_id, application_number, applicant_id, application_type, before_snapshot, after_snapshot, notes, officer_id, applied_at')
+      .eq('application_number', applicationData.application_number)
+      .order('applied_at', { ascending: false });
 
-    if (statusError) {
-      console.error('Error updating application status:', statusError);
-      return false;
+    if (error) {
+      console.error('Error fetching outcome audit:', error);
+      return [];
     }
 
-    // 2. Create officer assignment with 'approve' action
-    const { error: assignmentError } = await supabase
-      .from('officer_assignment')
-      .upsert({
-        officer_id: officerId,
-        application_number: applicationData.application_number,
-        action: 'approve'
-      }, {
-        onConflict: 'officer_id,application_number'
-      });
+    return (data || []) as ApplicationOutcomeAudit[];
+  } catch (error) {
+    console.error('Failed to get outcome audit:', error);
+    return [];
+  }
+};
 
-    if (assignmentError) {
-      console.error('Error creating officer assignment:', assignmentError);
-      // Continue with voter record creation even if assignment fails
+// Function to get the residence history of the applicant behind an application, current residence first
+export const getApplicantResidences = async (applicationId: string): Promise<ApplicantResidence[]> => {
+  try {
+    const { data: application, error: appError } = await supabase
+      .from('application')
+      .select('applicant_id')
+      .eq('public_facing_id', applicationId)
+      .single();
+
+    if (appError || !application) {
+      console.error('Error fetching application for residences:', appError);
+      return [];
     }
 
-    // 3. Create voter record
-    const { error: voterError } = await supabase
-      .from('applicant_voter_record')
-      .upsert({
-        applicant_id: applicationData.applicant_id,
-        precinct_number: voterData.precinctNumber.trim(),
-        voter_id: voterData.voterId.trim()
-      });
+    const { data, error } = await supabase
+      .from('applicant_residence')
+      .select('*')
+      .eq('applicant_id', application.applicant_id)
+      .order('effective_from', { ascending: false })
+      .order('residence_id', { ascending: false });
 
-    if (voterError) {
-      console.error('Error creating voter record:', voterError);
-      
-      // Rollback: revert application status to verified
-      await supabase
-        .from('application')
-        .update({ status: 'verified', processing_date: null })
-        .eq('public_facing_id', applicationId);
-      
-      return false;
+    if (error) {
+      console.error('Error fetching applicant residences:', error);
+      return [];
     }
 
-    // 4. Update applicant voting status to Active
-    const { error: applicantError } = await supabase
-      .from('applicant')
-      .update({ voting_status: 'Active' })
-      .eq('applicant_id', applicationData.applicant_id);
+    return data || [];
+  } catch (error) {
+    console.error('Error in getApplicantResidences:', error);
+    return [];
+  }
+};
+
+// Function to get the current residence of record of the signed-in voter
+export const getCurrentResidence = async (): Promise<ApplicantResidence | null> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('applicant_residence')
+      .select('*, applicant!inner(auth_id)')
+      .eq('applicant.auth_id', user.id)
+      .is('effective_to', null)
+      .maybeSingle();
 
-    if (applicantError) {
-      console.error('Error updating applicant voting status:', applicantError);
-      // Note: We don't rollback here as the voter record is created successfully
+    if (error) {
+      console.error('Error fetching current residence:', error);
+      return null;
     }
+    if (!data) return null;
 
-    return true;
+    const { applicant: _applicant, ...residence } = data;
+    return residence as ApplicantResidence;
   } catch (error) {
-    console.error('Failed to approve application with voter record:', error);
-    return false;
+    console.error('Error in getCurrentResidence:', error);
+    return null;
   }
 };
 
+// Single-line form of a residence, as printed on the voter ID card
+export const formatResidence = (residence: Pick<ApplicantResidence, 'house_number_street' | 'barangay' | 'city_municipality' | 'province'>) =>
+  [residence.house_number_street, residence.barangay, residence.city_municipality, residence.province]
+    .filter(Boolean)
+    .join(', ');
+
 // Helper function to get officer ID from current user
-const getCurrentOfficerId = async (): Promise<number | null> => {
+export const getCurrentOfficerId = async (): Promise<number | null> => {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return null;
@@ -978,14 +902,9 @@ const getCurrentOfficerId = async (): Promise<number | null> => {
   }
 };
 
-// Helper function to create officer assignment with specific action
-const createOfficerAssignment = async (
-  applicationId: string, 
-  officerId: number, 
-  action: 'set_pending' | 'verify' | 'approve' | 'disapprove'
-): Promise<boolean> => {
+// Function to get the full status timeline of an application, oldest first
+export const getApplicationStatusHistory = async (applicationId: string): Promise<ApplicationStatusHistoryEntry[]> => {
   try {
-    // First get the application_number from public_facing_id
     const { data: applicationData, error: fetchError } = await supabase
       .from('application')
       .select('application_number')
@@ -994,29 +913,37 @@ const createOfficerAssignment = async (
 
     if (fetchError || !applicationData) {
       console.error('Error fetching application number:', fetchError);
-      return false;
+      return [];
     }
 
-    // Create or update officer assignment (upsert to handle multiple actions by same officer)
-    const { error: assignmentError } = await supabase
-      .from('officer_assignment')
-      .upsert({
-        officer_id: officerId,
-        application_number: applicationData.application_number,
-        action: action
-      }, {
-        onConflict: 'officer_id,application_number'
-      });
+    const { data: history, error } = await supabase
+      .from('application_status_history')
+      .select(`
+        history_id,
+        application_number,
+        from_status,
+        to_status,
+        officer_id,
+        reason,
+        document_checklist,
+        changed_at
+      `)
+      .eq('application_number', applicationData.application_number)
+      .order('changed_at', { ascending: true });
 
-    if (assignmentError) {
-      console.error('Error creating officer assignment:', assignmentError);
-      return false;
+    if (error) {
+      console.error('Error fetching status history:', error);
+      return [];
     }
 
-    return true;
+    const officers = new Map((await getOfficerDirectory()).map(officer => [officer.officer_id, officer]));
+    return (history || []).map(entry => ({
+      ...entry,
+      officer: entry.officer_id !== null ? officers.get(entry.officer_id) ?? null : null,
+    })) as ApplicationStatusHistoryEntry[];
   } catch (error) {
-    console.error('Failed to create officer assignment:', error);
-    return false;
+    console.error('Failed to get status history:', error);
+    return [];
   }
 };
 
@@ -1038,12 +965,7 @@ export const getOfficerAssignments = async (applicationId: string) => {
       .select(`
         assignment_id,
         action,
-        officer:officer_id (
-          officer_id,
-          first_name,
-          last_name,
-          position
-        )
+        officer_id
       `)
       .eq('application_number', applicationData.application_number);
 
@@ -1052,31 +974,13 @@ export const getOfficerAssignments = async (applicationId: string) => {
       return [];
     }
 
-    return assignments || [];
+    const officers = new Map((await getOfficerDirectory()).map(officer => [officer.officer_id, officer]));
+    return (assignments || []).map(({ officer_id, ...assignment }) => ({
+      ...assignment,
+      officer: officers.get(officer_id) ?? null,
+    }));
   } catch (error) {
     console.error('Failed to get officer assignments:', error);
     return [];
   }
 };
-
-// Function to update ERB hearing date
-export const updateErbHearingDate = async (applicationId: string, hearingDate: string | null): Promise<boolean> => {
-  try {
-    const { error } = await supabase
-      .from('application')
-      .update({ 
-        erb_hearing_date: hearingDate
-      })
-      .eq('public_facing_id', applicationId);
-
-    if (error) {
-      console.error('Error updating ERB hearing date:', error);
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Failed to update ERB hearing date:', error);
-    return false;
-  }
-};
@@ -0,0 +1,276 @@
+import { format } from 'date-fns';
+import { supabase } from '@/lib/supabase/client';
+import { getCurrentOfficerId } from '@/services/applicationService';
+import type { BiometricsAppointment, BiometricsSlot, OfficeHoliday } from '@/types';
+
+// How far ahead applicants can book an appointment
+export const APPOINTMENT_BOOKING_DAYS = 30;
+
+const APPOINTMENT_SELECT = `
+  application_number, slot_id, status, booked_at, marked_by, marked_at,
+  slot:slot_id (slot_id, slot_date, start_time, end_time)
+`;
+
+// Parses a DATE column as a local date (new Date('yyyy-MM-dd') would be UTC midnight)
+const toLocalDate = (date: string) => new Date(`${date}T00:00:00`);
+
+// Helper function to format a TIME column, e.g. "9:30 AM"
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes);
+  return format(date, 'h:mm a');
+};
+
+// Formats a slot's time range, e.g. "9:00 AM – 9:30 AM"
+export const formatSlotTime = (slot: Pick<BiometricsSlot, 'start_time' | 'end_time'>) =>
+  `${formatTime(slot.start_time)} – ${formatTime(slot.end_time)}`;
+
+// Formats a slot's date and time range, e.g. "Monday, March 3, 2025, 9:00 AM – 9:30 AM"
+export const formatAppointmentSchedule = (slot: Pick<BiometricsSlot, 'slot_date' | 'start_time' | 'end_time'>) =>
+  `${format(toLocalDate(slot.slot_date), 'EEEE, MMMM d, yyyy')}, ${formatSlotTime(slot)}`;
+
+// Function to get appointment slots between two dates (inclusive) with their booked counts.
+// With an application, closures follow the registration period of the application's municipality.
+export const getBiometricsSlots = async (
+  fromDate: string,
+  toDate: string,
+  applicationId?: string
+): Promise<BiometricsSlot[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_biometrics_slots', {
+      p_from: fromDate,
+      p_to: toDate,
+      p_public_facing_id: applicationId ?? null,
+    });
+
+    if (error) {
+      console.error('Error fetching appointment slots:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getBiometricsSlots:', error);
+    return [];
+  }
+};
+
+// Opens an office day through the create_biometrics_slots RPC, splitting the time range into slots.
+// Returns the number of slots created; throws when the date is closed (holiday or registration suspended).
+export const createBiometricsSlots = async (officeDay: {
+  date: string;
+  startTime: string;
+  endTime: string;
+  slotMinutes: number;
+  capacity: number;
+}): Promise<number> => {
+  const { data, error } = await supabase.rpc('create_biometrics_slots', {
+    p_date: officeDay.date,
+    p_start_time: officeDay.startTime,
+    p_end_time: officeDay.endTime,
+    p_slot_minutes: officeDay.slotMinutes,
+    p_capacity: officeDay.capacity,
+  });
+
+  if (error) {
+    console.error('Error creating appointment slots:', error);
+    throw new Error(error.message);
+  }
+
+  return data as number;
+};
+
+// Function to delete a slot; slots with appointments are kept by the database
+export const deleteBiometricsSlot = async (slotId: number): Promise<void> => {
+  const { error } = await supabase
+    .from('biometrics_slot')
+    .delete()
+    .eq('slot_id', slotId);
+
+  if (error) {
+    console.error('Error deleting appointment slot:', error);
+    // foreign_key_violation: appointments still reference the slot
+    throw new Error(error.code === '23503'
+      ? 'This slot has appointments. Ask the applicants to reschedule before removing it.'
+      : error.message);
+  }
+};
+
+// Function to get office holidays, optionally only those on or after a date
+export const getOfficeHolidays = async (fromDate?: string): Promise<OfficeHoliday[]> => {
+  try {
+    let query = supabase
+      .from('office_holiday')
+      .select('holiday_date, name')
+      .order('holiday_date', { ascending: true });
+
+    if (fromDate) {
+      query = query.gte('holiday_date', fromDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching office holidays:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getOfficeHolidays:', error);
+    return [];
+  }
+};
+
+// Function to close the office on a date
+export const addOfficeHoliday = async (holiday: OfficeHoliday): Promise<void> => {
+  const { error } = await supabase.from('office_holiday').insert(holiday);
+
+  if (error) {
+    console.error('Error adding office holiday:', error);
+    throw new Error(error.code === '23505' ? 'This date is already a holiday.' : error.message);
+  }
+};
+
+// Function to reopen the office on a date
+export const removeOfficeHoliday = async (holidayDate: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('office_holiday')
+      .delete()
+      .eq('holiday_date', holidayDate);
+
+    if (error) {
+      console.error('Error removing office holiday:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in removeOfficeHoliday:', error);
+    return false;
+  }
+};
+
+// Function to get an application's appointment (including cancelled and past ones), if any
+export const getApplicationAppointment = async (applicationId: string): Promise<BiometricsAppointment | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('biometrics_appointment')
+      .select(`${APPOINTMENT_SELECT}, application!inner (public_facing_id)`)
+      .eq('application.public_facing_id', applicationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching application appointment:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    const { application, slot, ...appointment } = data as any;
+    return { ...appointment, slot: Array.isArray(slot) ? slot[0] : slot };
+  } catch (error) {
+    console.error('Error in getApplicationAppointment:', error);
+    return null;
+  }
+};
+
+// Books an application into a slot, or moves its appointment there, through the book_biometrics_appointment RPC.
+// Throws when the slot is full or closed, or the application is no longer being processed.
+export const bookBiometricsAppointment = async (applicationId: string, slotId: number): Promise<void> => {
+  const { error } = await supabase.rpc('book_biometrics_appointment', {
+    p_public_facing_id: applicationId,
+    p_slot_id: slotId,
+  });
+
+  if (error) {
+    console.error('Error booking appointment:', error);
+    throw new Error(error.message);
+  }
+};
+
+// Function to cancel an application's booked appointment
+export const cancelBiometricsAppointment = async (applicationId: string): Promise<void> => {
+  const { error } = await supabase.rpc('cancel_biometrics_appointment', { p_public_facing_id: applicationId });
+
+  if (error) {
+    console.error('Error cancelling appointment:', error);
+    throw new Error(error.message);
+  }
+};
+
+// Function to get the appointments on a day in slot order, with applicant names; cancelled ones are left out
+export const getDailyAppointments = async (date: string): Promise<BiometricsAppointment[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('biometrics_appointment')
+      .select(`
+        application_number, slot_id, status, booked_at, marked_by, marked_at,
+        biometrics_slot!inner (slot_id, slot_date, start_time, end_time),
+        application:application_number (
+          public_facing_id, application_type, status,
+          applicant:applicant_id (first_name, last_name, middle_name)
+        )
+      `)
+      .eq('biometrics_slot.slot_date', date)
+      .neq('status', 'cancelled');
+
+    if (error) {
+      console.error('Error fetching daily appointments:', error);
+      return [];
+    }
+
+    return (data || [])
+      .map(({ biometrics_slot, application, ...appointment }: any) => {
+        const app = Array.isArray(application) ? application[0] : application;
+        const applicant = Array.isArray(app?.applicant) ? app.applicant[0] : app?.applicant;
+        return {
+          ...appointment,
+          slot: Array.isArray(biometrics_slot) ? biometrics_slot[0] : biometrics_slot,
+          application: app ? {
+            id: app.public_facing_id,
+            applicationType: app.application_type,
+            status: app.status,
+            applicantName: [applicant?.last_name, [applicant?.first_name, applicant?.middle_name].filter(Boolean).join(' ')]
+              .filter(Boolean)
+              .join(', '),
+          } : undefined,
+        };
+      })
+      .sort((a, b) => a.slot.start_time.localeCompare(b.slot.start_time) || (a.application?.applicantName ?? '').localeCompare(b.application?.applicantName ?? ''));
+  } catch (error) {
+    console.error('Error in getDailyAppointments:', error);
+    return [];
+  }
+};
+
+// Function to record whether the applicant came to their appointment
+export const markAppointmentAttendance = async (
+  applicationNumber: number,
+  status: 'attended' | 'missed'
+): Promise<boolean> => {
+  try {
+    const officerId = await getCurrentOfficerId();
+    if (!officerId) return false;
+
+    const { error } = await supabase
+      .from('biometrics_appointment')
+      .update({
+        status,
+        marked_by: officerId,
+        marked_at: new Date().toISOString(),
+      })
+      .eq('application_number', applicationNumber);
+
+    if (error) {
+      console.error('Error recording attendance:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in markAppointmentAttendance:', error);
+    return false;
+  }
+};
@@ -0,0 +1,90 @@
+import { supabase } from '@/lib/supabase/client';
+import { getCurrentOfficerId } from '@/services/applicationService';
+import { BIOMETRICS_BUCKET } from '@/services/storageService';
+import type { ApplicantBiometrics, BiometricCapture } from '@/types';
+
+// Function to get the applicant behind an application and their biometrics (null biometrics when nothing is captured yet)
+export const getApplicationBiometrics = async (
+  applicationId: string
+): Promise<{ applicantId: number; biometrics: ApplicantBiometrics | null } | null> => {
+  try {
+    const { data: application, error: appError } = await supabase
+      .from('application')
+      .select('applicant_id')
+      .eq('public_facing_id', applicationId)
+      .single();
+
+    if (appError || !application) {
+      console.error('Error fetching application for biometrics:', appError);
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('applicant_biometrics')
+      .select('*')
+      .eq('applicant_id', application.applicant_id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching applicant biometrics:', error);
+      return null;
+    }
+
+    return { applicantId: application.applicant_id, biometrics: data };
+  } catch (error) {
+    console.error('Error in getApplicationBiometrics:', error);
+    return null;
+  }
+};
+
+// Function to upload one capture to the biometrics bucket and link it to the applicant, replacing any earlier capture
+export const saveBiometricCapture = async (
+  applicantId: number,
+  capture: BiometricCapture,
+  image: Blob,
+  previousPath?: string | null
+): Promise<ApplicantBiometrics> => {
+  const officerId = await getCurrentOfficerId();
+  if (!officerId) {
+    throw new Error('Only officers can capture biometrics.');
+  }
+
+  const extension = image.type === 'image/png' ? 'png' : image.type === 'image/bmp' ? 'bmp' : 'jpg';
+  const path = `${applicantId}/${capture}-${Date.now()}.${extension}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(BIOMETRICS_BUCKET)
+    .upload(path, image, { contentType: image.type, upsert: false });
+
+  if (uploadError) {
+    console.error('Error uploading biometric capture:', uploadError);
+    throw new Error(uploadError.message);
+  }
+
+  const { data, error } = await supabase
+    .from('applicant_biometrics')
+    .upsert({
+      applicant_id: applicantId,
+      [`${capture}_path`]: path,
+      captured_by: officerId,
+      captured_at: new Date().toISOString(),
+    }, { onConflict: 'applicant_id' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving applicant biometrics:', error);
+    await supabase.storage.from(BIOMETRICS_BUCKET).remove([path]);
+    throw new Error(error.message);
+  }
+
+  // Best-effort removal of the capture this one replaced
+  if (previousPath) {
+    const { error: removeError } = await supabase.storage.from(BIOMETRICS_BUCKET).remove([previousPath]);
+    if (removeError) {
+      console.warn(`Failed to remove replaced biometric capture ${previousPath}:`, removeError);
+    }
+  }
+
+  return data;
+};
@@ -0,0 +1,94 @@
+import { supabase } from '@/lib/supabase/client';
+import { getCurrentOfficerId } from '@/services/applicationService';
+import type { DuplicateMatch } from '@/types';
+
+const MATCH_SELECT = `
+  match_id, application_number, score, matched_fields, detected_at, status, resolution_notes, resolved_at,
+  matched_applicant:matched_applicant_id (
+    applicant_id, first_name, middle_name, last_name, date_of_birth,
+    place_of_birth_municipality, place_of_birth_province, father_name, mother_maiden_name, voting_status,
+    applicant_voter_record (voter_id),
+    application (public_facing_id, application_type, status)
+  ),
+  application!inner (public_facing_id)
+`;
+
+// Function to get the possible duplicate registrations detected for an application, highest score first
+export const getDuplicateMatches = async (applicationId: string): Promise<DuplicateMatch[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('applicant_duplicate_match')
+      .select(MATCH_SELECT)
+      .eq('application.public_facing_id', applicationId)
+      .order('score', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching duplicate matches:', error);
+      return [];
+    }
+
+    return (data || []).map(({ application: _application, matched_applicant, ...match }: any) => {
+      const applicant = Array.isArray(matched_applicant) ? matched_applicant[0] : matched_applicant;
+      const voterRecord = Array.isArray(applicant?.applicant_voter_record)
+        ? applicant.applicant_voter_record[0]
+        : applicant?.applicant_voter_record;
+      const { applicant_voter_record: _voterRecord, application: applications, ...applicantFields } = applicant ?? {};
+      return {
+        ...match,
+        score: Number(match.score),
+        matched_applicant: {
+          ...applicantFields,
+          voter_id: voterRecord?.voter_id ?? null,
+          applications: applications ?? [],
+        },
+      };
+    });
+  } catch (error) {
+    console.error('Error in getDuplicateMatches:', error);
+    return [];
+  }
+};
+
+// Function to re-run duplicate detection for an application. Returns the number of pending matches.
+export const rerunDuplicateCheck = async (applicationId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('rerun_duplicate_check', { p_public_facing_id: applicationId });
+
+  if (error) {
+    console.error('Error running duplicate check:', error);
+    throw new Error(error.message);
+  }
+
+  return data as number;
+};
+
+// Function to record the officer's review of a possible duplicate: dismissed (different person) or confirmed (same person)
+export const resolveDuplicateMatch = async (
+  matchId: number,
+  status: Exclude<DuplicateMatch['status'], 'pending'>,
+  notes?: string
+): Promise<boolean> => {
+  try {
+    const officerId = await getCurrentOfficerId();
+    if (!officerId) return false;
+
+    const { error } = await supabase
+      .from('applicant_duplicate_match')
+      .update({
+        status,
+        resolution_notes: notes?.trim() || null,
+        resolved_by: officerId,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq('match_id', matchId);
+
+    if (error) {
+      console.error('Error resolving duplicate match:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in resolveDuplicateMatch:', error);
+    return false;
+  }
+};
@@ -0,0 +1,212 @@
+import { supabase } from '@/lib/supabase/client';
+import type {
+  DeactivationCandidate,
+  Election,
+  ElectionEvent,
+  ElectionParticipationImportResult,
+  ElectionParticipationRow,
+} from '@/types';
+
+// Function to get all elections with their imported participation counts, most recent first
+export const getElections = async (): Promise<Election[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('election')
+      .select('election_id, name, election_date, election_type, election_participation(count)')
+      .order('election_date', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching elections:', error);
+      return [];
+    }
+
+    return (data || []).map(({ election_participation, ...election }: any) => ({
+      ...election,
+      participation_count: election_participation?.[0]?.count ?? 0,
+    }));
+  } catch (error) {
+    console.error('Error in getElections:', error);
+    return [];
+  }
+};
+
+// Function to add an election
+export const createElection = async (election: Omit<Election, 'election_id' | 'participation_count'>): Promise<Election> => {
+  const { data, error } = await supabase
+    .from('election')
+    .insert(election)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating election:', error);
+    throw new Error(error.code === '23505'
+      ? 'An election of this type already exists on that date.'
+      : error.message);
+  }
+
+  return data;
+};
+
+const VOTED_VALUES = ['y', 'yes', 'true', '1', 'voted'];
+const NOT_VOTED_VALUES = ['n', 'no', 'false', '0', 'did not vote'];
+
+/**
+ * Parses a participation CSV exported from the precinct book of voters.
+ * Expects a header row with `voter_id` and `voted` columns (any order, case-insensitive);
+ * `voted` accepts Y/N, Yes/No, True/False or 1/0. Throws on a missing column or an unreadable row.
+ */
+export const parseParticipationCsv = (text: string): ElectionParticipationRow[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) {
+    throw new Error('The file is empty.');
+  }
+
+  const splitLine = (line: string) => line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+  const headers = splitLine(lines[0]).map(header => header.toLowerCase().replace(/\s+/g, '_'));
+  const voterIdIndex = headers.indexOf('voter_id');
+  const votedIndex = headers.indexOf('voted');
+
+  if (voterIdIndex === -1 || votedIndex === -1) {
+    throw new Error('The file must have "voter_id" and "voted" columns.');
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const cells = splitLine(line);
+    const voterId = cells[voterIdIndex];
+    const voted = (cells[votedIndex] || '').toLowerCase();
+
+    if (!voterId) {
+      throw new Error(`Row ${index + 2}: missing voter ID.`);
+    }
+    if (VOTED_VALUES.includes(voted)) return { voter_id: voterId, voted: true };
+    if (NOT_VOTED_VALUES.includes(voted)) return { voter_id: voterId, voted: false };
+
+    throw new Error(`Row ${index + 2}: unrecognized "voted" value "${cells[votedIndex] ?? ''}".`);
+  });
+};
+
+// Imports participation rows for an election through the import_election_participation RPC
+export const importElectionParticipation = async (
+  electionId: number,
+  rows: ElectionParticipationRow[]
+): Promise<ElectionParticipationImportResult> => {
+  const { data, error } = await supabase.rpc('import_election_participation', {
+    p_election_id: electionId,
+    p_rows: rows,
+  });
+
+  if (error) {
+    console.error('Error importing election participation:', error);
+    throw new Error(error.message);
+  }
+
+  return data as ElectionParticipationImportResult;
+};
+
+// Function to get Active voters who did not vote in the two most recent regular elections
+export const getTwoMissDeactivationCandidates = async (): Promise<DeactivationCandidate[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_two_miss_deactivation_candidates');
+
+    if (error) {
+      console.error('Error fetching deactivation candidates:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getTwoMissDeactivationCandidates:', error);
+    return [];
+  }
+};
+
+export const MILESTONE_TYPE_LABELS: Record<ElectionEvent['milestone_type'], string> = {
+  registration: 'Voter Registration',
+  registration_deadline: 'Registration Deadline',
+  filing_of_candidacy: 'Filing of Candidacy',
+  campaign_period: 'Campaign Period',
+  election_day: 'Election Day',
+  canvassing: 'Canvassing',
+  other: 'Other',
+};
+
+const ELECTION_EVENT_COLUMNS = `
+  event_id, election_id, title, milestone_type, start_date, end_date, description, scope, updated_at,
+  election(name)
+`;
+
+type ElectionEventInput = Omit<ElectionEvent, 'event_id' | 'election_name' | 'updated_at'>;
+
+// Function to get calendar events in date order; pass fromDate (yyyy-MM-dd) to skip events that ended before it
+export const getElectionEvents = async (fromDate?: string): Promise<ElectionEvent[]> => {
+  try {
+    let query = supabase
+      .from('election_event')
+      .select(ELECTION_EVENT_COLUMNS)
+      .order('start_date', { ascending: true })
+      .order('end_date', { ascending: true });
+
+    if (fromDate) {
+      query = query.gte('end_date', fromDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching election events:', error);
+      return [];
+    }
+
+    return (data || []).map(({ election, ...event }: any) => ({
+      ...event,
+      election_name: (Array.isArray(election) ? election[0] : election)?.name ?? null,
+    }));
+  } catch (error) {
+    console.error('Error in getElectionEvents:', error);
+    return [];
+  }
+};
+
+// Function to add an event to the election calendar
+export const createElectionEvent = async (event: ElectionEventInput): Promise<void> => {
+  const { error } = await supabase.from('election_event').insert(event);
+
+  if (error) {
+    console.error('Error creating election event:', error);
+    throw new Error(error.message);
+  }
+};
+
+// Function to update a calendar event; updated_at lets subscribed calendars pick up the change
+export const updateElectionEvent = async (eventId: number, event: ElectionEventInput): Promise<void> => {
+  const { error } = await supabase
+    .from('election_event')
+    .update({ ...event, updated_at: new Date().toISOString() })
+    .eq('event_id', eventId);
+
+  if (error) {
+    console.error('Error updating election event:', error);
+    throw new Error(error.message);
+  }
+};
+
+// Function to delete a calendar event
+export const deleteElectionEvent = async (eventId: number): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('election_event')
+      .delete()
+      .eq('event_id', eventId);
+
+    if (error) {
+      console.error('Error deleting election event:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteElectionEvent:', error);
+    return false;
+  }
+};
@@ -0,0 +1,364 @@
+import { format } from 'date-fns';
+import { supabase } from '@/lib/supabase/client';
+import { assertOfficerPermission, getOfficerDirectory } from '@/services/officerService';
+import type { ApplicationHearing, ErbBallotResult, ErbBoardMember, ErbDocketEntry, ErbHearingSession, Officer } from '@/types';
+
+const SESSION_SELECT = 'session_id, hearing_date, start_time, venue, capacity, notes, created_at';
+
+// Helper function to resolve an application's internal number from its public-facing ID
+const getApplicationNumber = async (applicationId: string): Promise<number | null> => {
+  const { data, error } = await supabase
+    .from('application')
+    .select('application_number')
+    .eq('public_facing_id', applicationId)
+    .single();
+
+  if (error || !data) {
+    console.error('Error fetching application number:', error);
+    return null;
+  }
+
+  return data.application_number;
+};
+
+// Function to get hearing sessions with their assigned counts, optionally only those on or after a date
+export const getHearingSessions = async (fromDate?: string): Promise<ErbHearingSession[]> => {
+  try {
+    let query = supabase
+      .from('erb_hearing_session')
+      .select(`${SESSION_SELECT}, erb_hearing_docket(count)`)
+      .order('hearing_date', { ascending: true })
+      .order('start_time', { ascending: true });
+
+    if (fromDate) {
+      query = query.gte('hearing_date', fromDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching hearing sessions:', error);
+      return [];
+    }
+
+    return (data || []).map(({ erb_hearing_docket, ...session }: any) => ({
+      ...session,
+      assigned_count: erb_hearing_docket?.[0]?.count ?? 0,
+    }));
+  } catch (error) {
+    console.error('Error in getHearingSessions:', error);
+    return [];
+  }
+};
+
+// Function to get a single hearing session
+export const getHearingSession = async (sessionId: number): Promise<ErbHearingSession | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('erb_hearing_session')
+      .select(SESSION_SELECT)
+      .eq('session_id', sessionId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching hearing session:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in getHearingSession:', error);
+    return null;
+  }
+};
+
+// Function to schedule a hearing session
+export const createHearingSession = async (
+  session: Pick<ErbHearingSession, 'hearing_date' | 'start_time' | 'venue' | 'capacity'> & { notes?: string }
+): Promise<ErbHearingSession> => {
+  await assertOfficerPermission('schedule_hearing');
+
+  const { data, error } = await supabase
+    .from('erb_hearing_session')
+    .insert(session)
+    .select(SESSION_SELECT)
+    .single();
+
+  if (error) {
+    console.error('Error creating hearing session:', error);
+    throw new Error(error.message);
+  }
+
+  return data;
+};
+
+// Function to get the Board Members seated on a session's board
+export const getSessionBoard = async (sessionId: number): Promise<ErbBoardMember[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('erb_hearing_board')
+      .select('session_id, officer_id')
+      .eq('session_id', sessionId);
+
+    if (error) {
+      console.error('Error fetching hearing board:', error);
+      return [];
+    }
+
+    const officers = new Map((await getOfficerDirectory()).map(officer => [officer.officer_id, officer]));
+    return (data || [])
+      .map(member => ({
+        ...member,
+        first_name: officers.get(member.officer_id)?.first_name ?? null,
+        last_name: officers.get(member.officer_id)?.last_name ?? null,
+      }))
+      .sort((a, b) => formatBoardMemberName(a).localeCompare(formatBoardMemberName(b)));
+  } catch (error) {
+    console.error('Error in getSessionBoard:', error);
+    return [];
+  }
+};
+
+// Function to get every officer who can be seated on a hearing board
+export const getBoardMemberOfficers = async (): Promise<Pick<Officer, 'officer_id' | 'first_name' | 'last_name'>[]> =>
+  (await getOfficerDirectory())
+    .filter(officer => officer.position === 'Board Member')
+    .map(({ officer_id, first_name, last_name }) => ({ officer_id, first_name, last_name }))
+    .sort((a, b) => (a.last_name ?? '').localeCompare(b.last_name ?? ''));
+
+// Function to seat a Board Member on a session's board
+export const addBoardMember = async (sessionId: number, officerId: number): Promise<void> => {
+  await assertOfficerPermission('schedule_hearing');
+
+  const { error } = await supabase
+    .from('erb_hearing_board')
+    .insert({ session_id: sessionId, officer_id: officerId });
+
+  if (error) {
+    console.error('Error adding board member:', error);
+    throw new Error(error.message);
+  }
+};
+
+// Function to take a Board Member off a session's board; members who have voted stay for the minutes
+export const removeBoardMember = async (sessionId: number, officerId: number): Promise<void> => {
+  await assertOfficerPermission('schedule_hearing');
+
+  const { error } = await supabase
+    .from('erb_hearing_board')
+    .delete()
+    .eq('session_id', sessionId)
+    .eq('officer_id', officerId);
+
+  if (error) {
+    console.error('Error removing board member:', error);
+    // fk_ballot_board keeps members who have cast ballots in the session
+    throw new Error(error.code === '23503'
+      ? 'This member has already voted in this hearing and must stay on the board.'
+      : error.message);
+  }
+};
+
+// Formats a board member's name as "Last Name, First Name"
+export const formatBoardMemberName = (member: Pick<ErbBoardMember, 'first_name' | 'last_name'>) =>
+  [member.last_name, member.first_name].filter(Boolean).join(', ') || 'Unnamed officer';
+
+// Function to get a session's docket in hearing order, with applicant names and the board's ballots
+export const getSessionDocket = async (sessionId: number): Promise<ErbDocketEntry[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('erb_hearing_docket')
+      .select(`
+        application_number, session_id, docket_number, decision, decision_notes, decided_by, decided_at, approval_blocked_reason,
+        erb_hearing_ballot (application_number, session_id, officer_id, vote, notes, cast_at),
+        application:application_number (
+          public_facing_id, application_type, status,
+          applicant:applicant_id (first_name, last_name, middle_name)
+        )
+      `)
+      .eq('session_id', sessionId)
+      .order('docket_number', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching session docket:', error);
+      return [];
+    }
+
+    return (data || []).map(({ application, erb_hearing_ballot, ...entry }: any) => {
+      const app = Array.isArray(application) ? application[0] : application;
+      const applicant = Array.isArray(app?.applicant) ? app.applicant[0] : app?.applicant;
+      return {
+        ...entry,
+        ballots: (erb_hearing_ballot || [])
+          .filter((ballot: any) => ballot.session_id === entry.session_id)
+          .sort((a: any, b: any) => a.cast_at.localeCompare(b.cast_at)),
+        application: app ? {
+          id: app.public_facing_id,
+          applicationType: app.application_type,
+          status: app.status,
+          applicantName: [applicant?.last_name, [applicant?.first_name, applicant?.middle_name].filter(Boolean).join(' ')]
+            .filter(Boolean)
+            .join(', '),
+        } : undefined,
+      };
+    });
+  } catch (error) {
+    console.error('Error in getSessionDocket:', error);
+    return [];
+  }
+};
+
+// Function to get verified applications that are not yet on any docket
+export const getUnscheduledVerifiedApplications = async (): Promise<{ id: string; applicationType: string; applicantName: string }[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('application')
+      .select(`
+        public_facing_id, application_type,
+        applicant:applicant_id (first_name, last_name),
+        erb_hearing_docket!fk_docket_application (session_id)
+      `)
+      .eq('status', 'verified')
+      .order('application_date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching unscheduled applications:', error);
+      return [];
+    }
+
+    return (data || [])
+      .filter((app: any) => !app.erb_hearing_docket || (Array.isArray(app.erb_hearing_docket) && app.erb_hearing_docket.length === 0))
+      .map((app: any) => {
+        const applicant = Array.isArray(app.applicant) ? app.applicant[0] : app.applicant;
+        return {
+          id: app.public_facing_id,
+          applicationType: app.application_type,
+          applicantName: `${applicant?.last_name ?? ''}, ${applicant?.first_name ?? ''}`,
+        };
+      });
+  } catch (error) {
+    console.error('Error in getUnscheduledVerifiedApplications:', error);
+    return [];
+  }
+};
+
+// Puts a verified application on a session's docket through the assign_application_to_hearing RPC.
+// Returns the docket number; throws when the session is full, already held, or the application is not verified.
+export const assignApplicationToHearing = async (applicationId: string, sessionId: number): Promise<number> => {
+  await assertOfficerPermission('schedule_hearing');
+
+  const { data, error } = await supabase.rpc('assign_application_to_hearing', {
+    p_public_facing_id: applicationId,
+    p_session_id: sessionId,
+  });
+
+  if (error) {
+    console.error('Error assigning application to hearing:', error);
+    throw new Error(error.message);
+  }
+
+  return data as number;
+};
+
+// Function to take an application off its session's docket
+export const removeApplicationFromHearing = async (applicationId: string): Promise<boolean> => {
+  try {
+    await assertOfficerPermission('schedule_hearing');
+
+    const applicationNumber = await getApplicationNumber(applicationId);
+    if (applicationNumber === null) return false;
+
+    const { error } = await supabase
+      .from('erb_hearing_docket')
+      .delete()
+      .eq('application_number', applicationNumber);
+
+    if (error) {
+      console.error('Error removing application from hearing:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in removeApplicationFromHearing:', error);
+    return false;
+  }
+};
+
+// Casts the signed-in Board Member's ballot on a docket entry through the cast_erb_ballot RPC.
+// Returns the board's decision once a majority agrees (the application's status is updated with it),
+// or null while the vote is still open. An approval that could not be applied comes back with the reason.
+export const castErbBallot = async (
+  applicationNumber: number,
+  vote: 'approve' | 'disapprove',
+  notes?: string
+): Promise<ErbBallotResult> => {
+  await assertOfficerPermission('record_hearing_decision');
+
+  const { data, error } = await supabase.rpc('cast_erb_ballot', {
+    p_application_number: applicationNumber,
+    p_vote: vote,
+    p_notes: notes?.trim() || null,
+  });
+
+  if (error) {
+    console.error('Error casting ERB ballot:', error);
+    throw new Error(error.message);
+  }
+
+  const decision = (data as ErbDocketEntry['decision']) ?? null;
+  if (decision !== 'approved') {
+    return { decision, approval_blocked_reason: null };
+  }
+
+  const { data: docket, error: docketError } = await supabase
+    .from('erb_hearing_docket')
+    .select('approval_blocked_reason')
+    .eq('application_number', applicationNumber)
+    .single();
+
+  if (docketError) {
+    console.error('Error fetching the docket entry after the ballot:', docketError);
+  }
+
+  return { decision, approval_blocked_reason: docket?.approval_blocked_reason ?? null };
+};
+
+// Function to get the hearing an application is scheduled for, if any
+export const getApplicationHearing = async (applicationId: string): Promise<ApplicationHearing | null> => {
+  try {
+    const applicationNumber = await getApplicationNumber(applicationId);
+    if (applicationNumber === null) return null;
+
+    const { data, error } = await supabase
+      .from('erb_hearing_docket')
+      .select(`docket_number, decision, approval_blocked_reason, session:session_id (${SESSION_SELECT})`)
+      .eq('application_number', applicationNumber)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching application hearing:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    const session = Array.isArray(data.session) ? data.session[0] : data.session;
+    return {
+      session: session as ErbHearingSession,
+      docket_number: data.docket_number,
+      decision: data.decision,
+      approval_blocked_reason: data.approval_blocked_reason,
+    };
+  } catch (error) {
+    console.error('Error in getApplicationHearing:', error);
+    return null;
+  }
+};
+
+// Formats a session's date and start time, e.g. "Monday, March 3, 2025 at 9:00 AM"
+export const formatHearingSchedule = (session: Pick<ErbHearingSession, 'hearing_date' | 'start_time'>) => {
+  const [hours, minutes] = session.start_time.split(':').map(Number);
+  const date = new Date(`${session.hearing_date}T00:00:00`);
+  date.setHours(hours, minutes);
+  return format(date, "EEEE, MMMM d, yyyy 'at' h:mm a");
+};
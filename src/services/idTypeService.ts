@@ -0,0 +1,35 @@
+import { supabase } from '@/lib/supabase/client';
+import type { AcceptedIdType } from '@/types';
+
+// Function to get the ID types applicants can present, in display order
+export const getAcceptedIdTypes = async (): Promise<AcceptedIdType[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('accepted_id_type')
+      .select('*')
+      .eq('is_active', true)
+      .order('sort_order');
+
+    if (error) {
+      console.error('Error fetching accepted ID types:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getAcceptedIdTypes:', error);
+    return [];
+  }
+};
+
+// Returns why an ID number does not fit its ID type's format, or null when it does
+export const getIdNumberError = (idType: AcceptedIdType, idNumber: string): string | null => {
+  const value = idNumber.trim().toUpperCase();
+  if (!value) {
+    return `Please enter your ${idType.name} number.`;
+  }
+  if (idType.id_number_pattern && !new RegExp(idType.id_number_pattern).test(value)) {
+    return `${idType.name} number must follow the format ${idType.id_number_hint}.`;
+  }
+  return null;
+};
@@ -0,0 +1,130 @@
+import { supabase } from '@/lib/supabase/client';
+import type { Officer, OfficerDirectoryEntry, OfficerJurisdiction, OfficerPermission, OfficerPositionPermission } from '@/types';
+
+// What each permission allows, phrased to complete "Only ... can ..."
+export const OFFICER_PERMISSION_LABELS: Record<OfficerPermission, string> = {
+  verify: 'verify applications',
+  set_pending: 'return applications to pending',
+  approve: 'approve applications',
+  disapprove: 'disapprove applications',
+  assign_vin: 'assign or reissue voter IDs',
+  schedule_hearing: 'schedule ERB hearings',
+  record_hearing_decision: 'vote on ERB decisions',
+  delete_application: 'delete records',
+};
+
+// Thrown by service functions when the signed-in officer's position does not grant a permission
+export class PermissionDeniedError extends Error {
+  constructor(public readonly permission: OfficerPermission, message: string) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+// Function to get the signed-in officer's position, or null when the user is not an officer
+export const getMyOfficerPosition = async (): Promise<Officer['position'] | null> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('officer')
+      .select('position')
+      .eq('auth_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching officer position:', error);
+      return null;
+    }
+
+    return data?.position ?? null;
+  } catch (error) {
+    console.error('Error in getMyOfficerPosition:', error);
+    return null;
+  }
+};
+
+// Function to get the permission matrix (which positions may take which actions)
+export const getPermissionMatrix = async (): Promise<OfficerPositionPermission[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('officer_position_permission')
+      .select('position, permission');
+
+    if (error) {
+      console.error('Error fetching officer permissions:', error);
+      return [];
+    }
+
+    return (data || []) as OfficerPositionPermission[];
+  } catch (error) {
+    console.error('Error in getPermissionMatrix:', error);
+    return [];
+  }
+};
+
+// Why a permission is missing, e.g. "Only Election Officers can approve applications."
+export const getPermissionDeniedReason = (matrix: OfficerPositionPermission[], permission: OfficerPermission) => {
+  const positions = matrix.filter(row => row.permission === permission).map(row => `${row.position}s`);
+  const holders = positions.length > 0 ? positions.join(' and ') : 'administrators';
+  return `Only ${holders} can ${OFFICER_PERMISSION_LABELS[permission]}.`;
+};
+
+// Throws PermissionDeniedError unless the signed-in officer's position grants the permission.
+// The database enforces the same matrix; this fails early with a readable message.
+export const assertOfficerPermission = async (permission: OfficerPermission): Promise<void> => {
+  const [position, matrix] = await Promise.all([getMyOfficerPosition(), getPermissionMatrix()]);
+  if (!matrix.some(row => row.position === position && row.permission === permission)) {
+    throw new PermissionDeniedError(permission, getPermissionDeniedReason(matrix, permission));
+  }
+};
+
+// Function to get the names and positions of every officer. Officers can only read their own officer row,
+// so the names shown for other officers come from the get_officer_directory RPC (empty for public users).
+export const getOfficerDirectory = async (): Promise<OfficerDirectoryEntry[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_officer_directory');
+
+    if (error) {
+      console.error('Error fetching officer directory:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getOfficerDirectory:', error);
+    return [];
+  }
+};
+
+// Function to get the jurisdictions of the signed-in officer
+export const getMyJurisdictions = async (): Promise<OfficerJurisdiction[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('officer_jurisdiction')
+      .select('*, officer!inner(auth_id)')
+      .eq('officer.auth_id', user.id)
+      .order('province')
+      .order('city_municipality', { nullsFirst: true });
+
+    if (error) {
+      console.error('Error fetching officer jurisdictions:', error);
+      return [];
+    }
+
+    return (data || []).map(({ officer: _officer, ...jurisdiction }) => jurisdiction as OfficerJurisdiction);
+  } catch (error) {
+    console.error('Error in getMyJurisdictions:', error);
+    return [];
+  }
+};
+
+// Single-line form of a jurisdiction, e.g. "District 1, Manila, Metro Manila"
+export const formatJurisdiction = (jurisdiction: Pick<OfficerJurisdiction, 'district' | 'city_municipality' | 'province'>) =>
+  [jurisdiction.district, jurisdiction.city_municipality, jurisdiction.province]
+    .filter(Boolean)
+    .join(', ');
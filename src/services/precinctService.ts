@@ -0,0 +1,93 @@
+import { supabase } from '@/lib/supabase/client';
+import type { Precinct } from '@/types';
+
+// Function to get all precincts with their number of active voters (officers only)
+export const getPrecincts = async (): Promise<Precinct[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_precincts');
+
+    if (error) {
+      console.error('Error fetching precincts:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getPrecincts:', error);
+    return [];
+  }
+};
+
+// Function to add a precinct
+export const createPrecinct = async (precinct: Omit<Precinct, 'registered_voters'>): Promise<Precinct> => {
+  const { data, error } = await supabase
+    .from('precinct')
+    .insert(precinct)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating precinct:', error);
+    throw new Error(error.code === '23505'
+      ? `Precinct ${precinct.precinct_number} already exists.`
+      : error.message);
+  }
+
+  return data;
+};
+
+// Function to update a precinct's details; the precinct number itself cannot change
+export const updatePrecinct = async (
+  precinctNumber: string,
+  updates: Partial<Omit<Precinct, 'precinct_number' | 'registered_voters'>>
+): Promise<void> => {
+  const { error } = await supabase
+    .from('precinct')
+    .update(updates)
+    .eq('precinct_number', precinctNumber);
+
+  if (error) {
+    console.error('Error updating precinct:', error);
+    throw new Error(error.message);
+  }
+};
+
+// Helper function to compare place names typed in different ways ("Brgy. San Jose" vs "san jose")
+const normalizePlaceName = (name: string | null | undefined) =>
+  (name || '')
+    .toLowerCase()
+    .replace(/^(brgy\.?|barangay)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Helper function to check whether a precinct can take one more voter
+export const hasPrecinctCapacity = (precinct: Precinct) =>
+  (precinct.registered_voters ?? 0) < precinct.capacity;
+
+// Function to get the precincts covering a declared barangay and city/municipality
+export const getPrecinctsForAddress = (
+  precincts: Precinct[],
+  address: { barangay?: string | null; cityMunicipality?: string | null }
+): Precinct[] => {
+  const barangay = normalizePlaceName(address.barangay);
+  const city = normalizePlaceName(address.cityMunicipality);
+  if (!barangay) return [];
+
+  return precincts.filter(p =>
+    normalizePlaceName(p.barangay) === barangay &&
+    (!city || normalizePlaceName(p.city_municipality) === city)
+  );
+};
+
+/**
+ * Suggests a precinct for a declared address: the first precinct (by number) in the
+ * same barangay and city/municipality that is still below capacity. Returns null
+ * when no precinct covers the barangay or all of them are full.
+ */
+export const suggestPrecinct = (
+  precincts: Precinct[],
+  address: { barangay?: string | null; cityMunicipality?: string | null }
+): Precinct | null =>
+  getPrecinctsForAddress(precincts, address)
+    .sort((a, b) => a.precinct_number.localeCompare(b.precinct_number))
+    .find(hasPrecinctCapacity) ?? null;
@@ -0,0 +1,140 @@
+import { supabase } from '@/lib/supabase/client';
+import type { Application, RegistrationPeriod, RegistrationPeriodOverride, RegistrationStatus } from '@/types';
+
+// Every application type, in the order they are listed on the application form
+export const APPLICATION_TYPES: Application['applicationType'][] = [
+  'register',
+  'transfer',
+  'reactivation',
+  'transfer_with_reactivation',
+  'correction_of_entry',
+  'reinstatement',
+];
+
+export const APPLICATION_TYPE_LABELS: Record<Application['applicationType'], string> = {
+  register: 'New Registration',
+  transfer: 'Transfer of Registration',
+  reactivation: 'Reactivation of Registration',
+  transfer_with_reactivation: 'Transfer with Reactivation',
+  correction_of_entry: 'Correction of Entries',
+  reinstatement: 'Inclusion/Reinstatement',
+};
+
+const PERIOD_SELECT = `
+  period_id, name, start_date, end_date, allowed_application_types, created_at,
+  overrides:registration_period_override (
+    override_id, period_id, city_municipality, province, start_date, end_date, allowed_application_types, reason
+  )
+`;
+
+// Function to get registration periods, latest first, with their municipality overrides
+export const getRegistrationPeriods = async (): Promise<RegistrationPeriod[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('registration_period')
+      .select(PERIOD_SELECT)
+      .order('start_date', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching registration periods:', error);
+      return [];
+    }
+
+    return (data || []).map((period: any) => ({
+      ...period,
+      overrides: [...(period.overrides || [])].sort((a: RegistrationPeriodOverride, b: RegistrationPeriodOverride) =>
+        `${a.province} ${a.city_municipality}`.localeCompare(`${b.province} ${b.city_municipality}`)
+      ),
+    }));
+  } catch (error) {
+    console.error('Error in getRegistrationPeriods:', error);
+    return [];
+  }
+};
+
+// Function to open a registration period
+export const createRegistrationPeriod = async (
+  period: Pick<RegistrationPeriod, 'name' | 'start_date' | 'end_date' | 'allowed_application_types'>
+): Promise<void> => {
+  const { error } = await supabase.from('registration_period').insert(period);
+
+  if (error) {
+    console.error('Error creating registration period:', error);
+    throw new Error(error.message);
+  }
+};
+
+// Function to delete a registration period and its overrides
+export const deleteRegistrationPeriod = async (periodId: number): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('registration_period')
+      .delete()
+      .eq('period_id', periodId);
+
+    if (error) {
+      console.error('Error deleting registration period:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteRegistrationPeriod:', error);
+    return false;
+  }
+};
+
+// Function to give one municipality different dates or application types during a period
+export const createRegistrationPeriodOverride = async (
+  override: Omit<RegistrationPeriodOverride, 'override_id'>
+): Promise<void> => {
+  const { error } = await supabase.from('registration_period_override').insert(override);
+
+  if (error) {
+    console.error('Error creating registration period override:', error);
+    throw new Error(error.code === '23505'
+      ? `${override.city_municipality}, ${override.province} already has an override for this period.`
+      : error.message);
+  }
+};
+
+// Function to remove a municipality override
+export const deleteRegistrationPeriodOverride = async (overrideId: number): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('registration_period_override')
+      .delete()
+      .eq('override_id', overrideId);
+
+    if (error) {
+      console.error('Error deleting registration period override:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteRegistrationPeriodOverride:', error);
+    return false;
+  }
+};
+
+// Function to get which application types can be filed today in a municipality.
+// Without a municipality the signed-in applicant's current residence is used; [] when the status cannot be read.
+export const getRegistrationStatus = async (cityMunicipality?: string, province?: string): Promise<RegistrationStatus[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_registration_status', {
+      p_city_municipality: cityMunicipality?.trim() || null,
+      p_province: province?.trim() || null,
+    });
+
+    if (error) {
+      console.error('Error fetching registration status:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getRegistrationStatus:', error);
+    return [];
+  }
+};
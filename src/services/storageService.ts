@@ -0,0 +1,62 @@
+import { supabase } from '@/lib/supabase/client';
+import type { DocumentInfo } from '@/types';
+
+// Signed URLs for ID images expire quickly; mint a new one each time an image is shown
+export const SIGNED_URL_TTL_SECONDS = 300;
+
+// Storage bucket holding each kind of registration document
+export const DOCUMENT_BUCKETS: Record<DocumentInfo['type'], string> = {
+  government_id_front: 'government-ids',
+  government_id_back: 'government-ids',
+  id_selfie: 'id-selfies',
+};
+
+// Private bucket for biometrics captured in person by officers
+export const BIOMETRICS_BUCKET = 'biometrics';
+
+// Helper function to turn a legacy public URL (stored before paths were persisted) into its storage path
+const toStoragePath = (bucket: string, pathOrUrl: string) => {
+  const marker = `/storage/v1/object/public/${bucket}/`;
+  const index = pathOrUrl.indexOf(marker);
+  return index === -1 ? pathOrUrl : decodeURIComponent(pathOrUrl.slice(index + marker.length));
+};
+
+// Function to mint a short-lived signed URL for a private storage object; null if it cannot be read
+export const getSignedFileUrl = async (
+  bucket: string,
+  path: string,
+  expiresIn: number = SIGNED_URL_TTL_SECONDS
+): Promise<string | null> => {
+  if (!path) return null;
+
+  try {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrl(toStoragePath(bucket, path), expiresIn);
+
+    if (error) {
+      console.error(`Error creating signed URL in ${bucket}:`, error);
+      return null;
+    }
+
+    return data.signedUrl;
+  } catch (error) {
+    console.error('Error in getSignedFileUrl:', error);
+    return null;
+  }
+};
+
+// Function to mint signed URLs for registration documents, keyed by document type
+export const getSignedDocumentUrls = async (
+  documents: Pick<DocumentInfo, 'type' | 'path'>[]
+): Promise<Partial<Record<DocumentInfo['type'], string>>> => {
+  const urls = await Promise.all(
+    documents.map(doc => getSignedFileUrl(DOCUMENT_BUCKETS[doc.type], doc.path))
+  );
+
+  return documents.reduce<Partial<Record<DocumentInfo['type'], string>>>((acc, doc, index) => {
+    const url = urls[index];
+    if (url) acc[doc.type] = url;
+    return acc;
+  }, {});
+};
@@ -0,0 +1,187 @@
+import { supabase } from '@/lib/supabase/client';
+import { assertOfficerPermission } from '@/services/officerService';
+import type { DeactivationReason, DeactivationRecord, VoterNotification, VoterSummary } from '@/types';
+
+// Statutory grounds for deactivation, in the order they appear on the reactivation form
+export const DEACTIVATION_REASONS: DeactivationReason[] = [
+  'Sentenced by final judgment to suffer imprisonment for not less than one (1) year',
+  'Convicted by final judgment of a crime involving disloyalty to the duly constituted government, etc;',
+  'Declared by competent authority to be insane or incompetent;',
+  'Failed to vote in two (2) successive preceding regular elections;',
+  'Loss of Filipino citizenship;',
+  'Exclusion by a court order; or',
+  'Failure to Validate',
+];
+
+const VOTER_SELECT = `
+  applicant_id, first_name, last_name, middle_name, voting_status,
+  applicant_voter_record (precinct_number, voter_id, voter_id_flagged)
+`;
+
+// Helper function to flatten an applicant row with its voter record into a VoterSummary
+const toVoterSummary = (row: any): VoterSummary => {
+  const voterRecord = Array.isArray(row.applicant_voter_record) ? row.applicant_voter_record[0] : row.applicant_voter_record;
+  return {
+    applicant_id: row.applicant_id,
+    first_name: row.first_name,
+    last_name: row.last_name,
+    middle_name: row.middle_name,
+    voting_status: row.voting_status,
+    precinct_number: voterRecord?.precinct_number ?? null,
+    voter_id: voterRecord?.voter_id ?? null,
+    voter_id_flagged: voterRecord?.voter_id_flagged ?? false,
+  };
+};
+
+// Function to get voters, optionally filtered by voting status
+export const getVoters = async (votingStatus?: VoterSummary['voting_status']): Promise<VoterSummary[]> => {
+  try {
+    let query = supabase
+      .from('applicant')
+      .select(VOTER_SELECT)
+      .order('last_name', { ascending: true });
+
+    if (votingStatus) {
+      query = query.eq('voting_status', votingStatus);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching voters:', error);
+      return [];
+    }
+
+    return (data || []).map(toVoterSummary);
+  } catch (error) {
+    console.error('Error in getVoters:', error);
+    return [];
+  }
+};
+
+/**
+ * Deactivates the given voters through the deactivate_voters RPC, which writes the deactivation
+ * record, sets voting_status and notifies each voter in one transaction.
+ * Voters that are not Active are skipped. Returns the number of voters deactivated.
+ */
+export const deactivateVoters = async (
+  applicantIds: number[],
+  reason: DeactivationReason,
+  deactivationDate: string
+): Promise<number> => {
+  const { data, error } = await supabase.rpc('deactivate_voters', {
+    p_applicant_ids: applicantIds,
+    p_reason: reason,
+    p_deactivation_date: deactivationDate,
+  });
+
+  if (error) {
+    console.error('Error deactivating voters:', error);
+    throw new Error(error.message);
+  }
+
+  return data as number;
+};
+
+// Function to replace a voter's ID with a newly generated VIN; the voter is notified. Returns the new VIN.
+export const reissueVoterId = async (applicantId: number): Promise<string> => {
+  await assertOfficerPermission('assign_vin');
+
+  const { data, error } = await supabase.rpc('reissue_voter_id', { p_applicant_id: applicantId });
+
+  if (error) {
+    console.error('Error reissuing voter ID:', error);
+    throw new Error(error.message);
+  }
+
+  return data as string;
+};
+
+// Function to get deactivation records with their voters, optionally filtered by reason and resolution status
+export const getDeactivationRecords = async (filters: {
+  reason?: DeactivationReason;
+  status?: DeactivationRecord['status'];
+} = {}): Promise<DeactivationRecord[]> => {
+  try {
+    let query = supabase
+      .from('applicant_deactivation_record')
+      .select(`
+        deactivation_id, applicant_id, reason, deactivation_date, status,
+        applicant:applicant_id (${VOTER_SELECT})
+      `)
+      .order('deactivation_date', { ascending: false });
+
+    if (filters.reason) {
+      query = query.eq('reason', filters.reason);
+    }
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching deactivation records:', error);
+      return [];
+    }
+
+    return (data || []).map((row: any) => {
+      const applicant = Array.isArray(row.applicant) ? row.applicant[0] : row.applicant;
+      return {
+        deactivation_id: row.deactivation_id,
+        applicant_id: row.applicant_id,
+        reason: row.reason,
+        deactivation_date: row.deactivation_date,
+        status: row.status,
+        voter: applicant ? toVoterSummary(applicant) : undefined,
+      };
+    });
+  } catch (error) {
+    console.error('Error in getDeactivationRecords:', error);
+    return [];
+  }
+};
+
+// Function to get the signed-in voter's notifications, newest first
+export const getMyNotifications = async (): Promise<VoterNotification[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('voter_notification')
+      .select('notification_id, applicant_id, title, message, created_at, read_at, applicant!inner(auth_id)')
+      .eq('applicant.auth_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return [];
+    }
+
+    return (data || []).map(({ applicant: _applicant, ...notification }) => notification as VoterNotification);
+  } catch (error) {
+    console.error('Error in getMyNotifications:', error);
+    return [];
+  }
+};
+
+// Function to mark a notification as read
+export const markNotificationRead = async (notificationId: number): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('voter_notification')
+      .update({ read_at: new Date().toISOString() })
+      .eq('notification_id', notificationId);
+
+    if (error) {
+      console.error('Error marking notification as read:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in markNotificationRead:', error);
+    return false;
+  }
+};
@@ -58,9 +58,27 @@ export interface SpecialSector {
 export interface ApplicationRegistration {
   registrationType: 'Katipunan ng Kabataan' | 'Regular'; // registration_type
   adultRegistrationConsent?: boolean; // adult_registration_consent
-  governmentIdFrontUrl: string; // government_id_front_url
-  governmentIdBackUrl: string; // government_id_back_url
-  idSelfieUrl: string; // id_selfie_url
+  governmentIdFrontPath: string; // government_id_front_path (storage path in government-ids)
+  governmentIdBackPath: string; // government_id_back_path (storage path in government-ids; empty when the ID type has no back side)
+  idSelfiePath: string; // id_selfie_path (storage path in id-selfies)
+  idTypeCode?: string | null; // id_type_code (see AcceptedIdType)
+  idTypeName?: string | null; // accepted_id_type.name
+  idNumber?: string | null; // id_number
+  governmentIdFrontQuality?: IdImageQuality | null; // government_id_front_quality
+  governmentIdBackQuality?: IdImageQuality | null; // government_id_back_quality
+  idSelfieQuality?: IdImageQuality | null; // id_selfie_quality
+  idQualityScore?: number | null; // id_quality_score (lowest of the three scores)
+}
+
+// Image quality measured in the applicant's browser when an ID photo is attached (see lib/imageQuality)
+export interface IdImageQuality {
+  score: number; // 0-100
+  blur_variance: number; // Laplacian variance; low means blurry
+  glare_ratio: number; // share of near-white pixels
+  width: number;
+  height: number;
+  aspect_ratio: number; // long side / short side
+  warnings: string[];
 }
 
 export interface ApplicationTransfer {
@@ -85,6 +103,8 @@ export interface ApplicationReactivation {
                         'Failure to Validate'; // reason_for_deactivation
 }
 
+export type DeactivationReason = ApplicationReactivation['reasonForDeactivation'];
+
 export interface ApplicationCorrection {
   targetField: 'Name' | 'Contact Number' | 'Email Address' | 'Spouse name' |
               'Date of Birth' | 'Place of Birth' | "Father's Name" |
@@ -101,7 +121,7 @@ export interface ApplicationReinstatement {
 
 export interface DocumentInfo {
   name: string;
-  url: string;
+  path: string; // storage path; view through a signed URL (see storageService)
   type: 'government_id_front' | 'government_id_back' | 'id_selfie';
   uploadDate?: string;
 }
@@ -113,6 +133,35 @@ export interface Officer {
   last_name: string;
   position: 'Election Officer' | 'Board Member';
   auth_id: string;
+  suspended_at: string | null; // set while the account is suspended (see set_officer_suspended)
+}
+
+// An officer's name and position as every officer may see them (see get_officer_directory)
+export type OfficerDirectoryEntry = Pick<Officer, 'officer_id' | 'first_name' | 'last_name' | 'position'>;
+
+// Actions gated by officer position (see officer_position_permission); status changes use the transition action names
+export type OfficerPermission =
+  | OfficerAssignment['action']
+  | 'assign_vin'
+  | 'schedule_hearing'
+  | 'record_hearing_decision'
+  | 'delete_application';
+
+export interface OfficerPositionPermission {
+  position: Officer['position'];
+  permission: OfficerPermission;
+}
+
+// Place an officer acts for; officers only see applications within their jurisdictions (see officer_covers_address)
+export interface OfficerJurisdiction {
+  jurisdiction_id: number;
+  officer_id: number;
+  province: string;
+  province_code: string | null;
+  city_municipality: string | null; // NULL covers the whole province
+  city_municipality_code: string | null;
+  district: string | null; // narrows the city to district_barangays
+  district_barangays: string[] | null;
 }
 
 export interface OfficerAssignment {
@@ -120,9 +169,379 @@ export interface OfficerAssignment {
   officer_id: number;
   application_number: number;
   action: 'set_pending' | 'verify' | 'approve' | 'disapprove';
+  assigned_at: string; // time of the officer's latest action on the application
   officer?: Officer;
 }
 
+// Officer administration types
+export interface OfficerAccount extends Officer {
+  email: string | null;
+  jurisdictions: OfficerJurisdiction[];
+}
+
+// An officer invited by email; granted once an account with the email exists (see invite_officer)
+export interface OfficerInvitation {
+  invitation_id: number;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  position: Officer['position'];
+  province: string;
+  province_code: string | null;
+  city_municipality: string | null;
+  city_municipality_code: string | null;
+  invited_at: string;
+  accepted_at: string | null;
+  officer_id: number | null;
+}
+
+// One status change made by an officer, from application_status_history
+export interface OfficerRecentAction {
+  history_id: number;
+  public_facing_id: string;
+  application_type: Application['applicationType'];
+  action: OfficerAssignment['action'];
+  changed_at: string;
+}
+
+// Status history types
+export interface ApplicationStatusTransition {
+  from_status: Application['status'];
+  to_status: Application['status'];
+  action: OfficerAssignment['action']; // action recorded in officer_assignment
+  requires_reason: boolean;
+}
+
+export interface ApplicationStatusHistoryEntry {
+  history_id: number;
+  application_number: number;
+  from_status: Application['status'] | null; // NULL for the initial submission
+  to_status: Application['status'];
+  officer_id: number | null;
+  reason: string | null;
+  document_checklist: DocumentChecklist | null; // checks ticked in the document review workspace when verifying or disapproving
+  changed_at: string;
+  officer?: Pick<Officer, 'first_name' | 'last_name' | 'position'> | null;
+}
+
+// Document review checklist, keyed by document type; true when the officer ticked the check (see lib/documentChecklist)
+export type DocumentChecklistItem = 'name_matches' | 'photo_matches' | 'not_expired' | 'details_legible' | 'same_id_as_presented';
+export type DocumentChecklist = Partial<Record<DocumentInfo['type'], Partial<Record<DocumentChecklistItem, boolean>>>>;
+
+// Residence address of record (applicant_residence); effective_to is NULL for the current residence
+export interface ApplicantResidence {
+  residence_id: number;
+  applicant_id: number;
+  application_number: number | null;
+  house_number_street: string;
+  barangay: string;
+  city_municipality: string;
+  province: string;
+  barangay_code: string | null; // PSGC codes; NULL until the typed-in names are normalized
+  city_municipality_code: string | null;
+  province_code: string | null;
+  effective_from: string;
+  effective_to: string | null;
+}
+
+// Free-text address without PSGC codes, from get_unnormalized_addresses
+export interface UnnormalizedAddress {
+  source: 'residence' | 'declared_address' | 'transfer' | 'place_of_birth';
+  record_id: number; // residence_id, application_number or applicant_id, depending on the source
+  context: string; // applicant name or application ID, to help the officer recognize the row
+  barangay: string | null;
+  city_municipality: string;
+  province: string | null;
+}
+
+// PSGC codes confirmed for an UnnormalizedAddress, passed to apply_psgc_codes
+export interface PsgcCodeAssignment {
+  source: UnnormalizedAddress['source'];
+  record_id: number;
+  province_code: string;
+  city_municipality_code: string;
+  barangay_code: string | null;
+}
+
+// Snapshot of an applicant's master record (see snapshot_applicant_record in businessSchema.sql)
+export interface ApplicantRecordSnapshot {
+  applicant: Record<string, unknown> | null;
+  voter_record: { applicant_id: number; precinct_number: string; voter_id: string } | null;
+  residence: ApplicantResidence | null;
+  deactivation_records: { deactivation_id: number; reason: string; deactivation_date: string; status: 'Unresolved' | 'Resolved' }[];
+}
+
+export interface ApplicationOutcomeAudit {
+  audit_id: number;
+  application_number: number;
+  applicant_id: number;
+  application_type: Application['applicationType'];
+  before_snapshot: ApplicantRecordSnapshot;
+  after_snapshot: ApplicantRecordSnapshot;
+  notes: string | null;
+  officer_id: number | null;
+  applied_at: string;
+}
+
+// Voter types (applicant with a voter record)
+export interface VoterSummary {
+  applicant_id: number;
+  first_name: string;
+  last_name: string;
+  middle_name: string | null;
+  voting_status: 'Unregistered' | 'Active' | 'Deactivated';
+  precinct_number: string | null;
+  voter_id: string | null;
+  voter_id_flagged: boolean; // voter ID shared with another voter; needs a reissued VIN
+}
+
+export interface DeactivationRecord {
+  deactivation_id: number;
+  applicant_id: number;
+  reason: DeactivationReason;
+  deactivation_date: string;
+  status: 'Unresolved' | 'Resolved';
+  voter?: VoterSummary;
+}
+
+// Duplicate detection types (see applicant_duplicate_match in businessSchema.sql)
+export interface DuplicateMatch {
+  match_id: number;
+  application_number: number;
+  score: number; // 0-1 weighted similarity
+  matched_fields: ('name' | 'date_of_birth' | 'place_of_birth' | 'father_name' | 'mother_maiden_name')[];
+  detected_at: string;
+  status: 'pending' | 'dismissed' | 'confirmed';
+  resolution_notes: string | null;
+  resolved_at: string | null;
+  matched_applicant: {
+    applicant_id: number;
+    first_name: string;
+    middle_name: string | null;
+    last_name: string;
+    date_of_birth: string;
+    place_of_birth_municipality: string;
+    place_of_birth_province: string;
+    father_name: string;
+    mother_maiden_name: string;
+    voting_status: VoterSummary['voting_status'];
+    voter_id: string | null;
+    applications: { public_facing_id: string; application_type: Application['applicationType']; status: Application['status'] }[];
+  };
+}
+
+// Precinct types
+export interface Precinct {
+  precinct_number: string;
+  barangay: string;
+  city_municipality: string;
+  province: string;
+  locality_code: string; // region, province and city/municipality digits of the PSGC code; prefixes VINs
+  polling_place: string;
+  capacity: number;
+  clustered_precinct: string | null;
+  registered_voters?: number; // active voters in the precinct (see get_precincts)
+}
+
+// Biometrics captured in person by an officer; each *_path is a storage path in the biometrics bucket
+export interface ApplicantBiometrics {
+  applicant_id: number;
+  left_thumbprint_path: string | null;
+  right_thumbprint_path: string | null;
+  signature_specimen_path: string | null;
+  photo_path: string | null;
+  is_complete: boolean; // all four captures present; required to approve a registration
+  captured_by: number | null;
+  captured_at: string;
+}
+
+export type BiometricCapture = 'left_thumbprint' | 'right_thumbprint' | 'signature_specimen' | 'photo';
+
+// IDs accepted as proof of identity for registration
+export interface AcceptedIdType {
+  id_type_code: string;
+  name: string;
+  requires_back: boolean; // whether a photo of the back side is required
+  id_number_pattern: string | null; // regular expression for the upper-cased ID number; null accepts any format
+  id_number_hint: string | null; // example of the expected format
+  is_active: boolean;
+  sort_order: number;
+}
+
+// ERB hearing types
+export interface ErbHearingSession {
+  session_id: number;
+  hearing_date: string;
+  start_time: string;
+  venue: string;
+  capacity: number;
+  notes: string | null;
+  created_at: string;
+  assigned_count?: number; // erb_hearing_docket rows in the session
+}
+
+export interface ErbDocketEntry {
+  application_number: number;
+  session_id: number;
+  docket_number: number;
+  decision: 'approved' | 'disapproved' | 'deferred' | null;
+  decision_notes: string | null;
+  decided_by: number | null;
+  decided_at: string | null;
+  approval_blocked_reason: string | null; // why the board's approval could not be applied; the application stays verified
+  ballots: ErbBallot[]; // cast in this session, in voting order
+  application?: {
+    id: string; // public_facing_id
+    applicationType: Application['applicationType'];
+    status: Application['status'];
+    applicantName: string;
+  };
+}
+
+// The outcome of a ballot: the board's decision once a majority agrees, and why an approval could not be applied
+export interface ErbBallotResult {
+  decision: ErbDocketEntry['decision'];
+  approval_blocked_reason: string | null;
+}
+
+// A Board Member seated on a session's board
+export interface ErbBoardMember {
+  session_id: number;
+  officer_id: number;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+export interface ErbBallot {
+  application_number: number;
+  session_id: number;
+  officer_id: number;
+  vote: 'approve' | 'disapprove';
+  notes: string | null;
+  cast_at: string;
+}
+
+// An application's hearing as shown to the voter and on the application page
+export interface ApplicationHearing {
+  session: ErbHearingSession;
+  docket_number: number;
+  decision: ErbDocketEntry['decision'];
+  approval_blocked_reason?: string | null;
+}
+
+// Registration period types
+export interface RegistrationPeriodOverride {
+  override_id: number;
+  period_id: number;
+  city_municipality: string;
+  province: string;
+  start_date: string;
+  end_date: string;
+  allowed_application_types: Application['applicationType'][];
+  reason: string | null; // shown to applicants when a type is closed by this override
+}
+
+export interface RegistrationPeriod {
+  period_id: number;
+  name: string;
+  start_date: string;
+  end_date: string;
+  allowed_application_types: Application['applicationType'][];
+  created_at: string;
+  overrides: RegistrationPeriodOverride[];
+}
+
+// Whether an application type can be filed today, from get_registration_status
+export interface RegistrationStatus {
+  application_type: Application['applicationType'];
+  is_open: boolean;
+  reason: string | null; // why the type is closed
+  period_name: string | null;
+  opens_on: string | null; // start of the next period accepting the type, when closed
+  closes_on: string | null; // end of the current period, when open
+}
+
+// Biometrics appointment types
+export interface BiometricsSlot {
+  slot_id: number;
+  slot_date: string;
+  start_time: string;
+  end_time: string;
+  capacity: number;
+  booked_count: number; // appointments in the slot that are not cancelled
+  closure_reason: string | null; // why the slot cannot be booked (past date, holiday, registration suspended)
+}
+
+export interface OfficeHoliday {
+  holiday_date: string;
+  name: string;
+}
+
+export interface BiometricsAppointment {
+  application_number: number;
+  slot_id: number;
+  status: 'booked' | 'cancelled' | 'attended' | 'missed';
+  booked_at: string;
+  marked_by: number | null;
+  marked_at: string | null;
+  slot: Pick<BiometricsSlot, 'slot_id' | 'slot_date' | 'start_time' | 'end_time'>;
+  application?: {
+    id: string; // public_facing_id
+    applicationType: Application['applicationType'];
+    status: Application['status'];
+    applicantName: string;
+  };
+}
+
+// Election types
+export interface Election {
+  election_id: number;
+  name: string;
+  election_date: string;
+  election_type: 'Regular' | 'Special';
+  participation_count?: number; // imported election_participation rows
+}
+
+export interface ElectionParticipationRow {
+  voter_id: string;
+  voted: boolean;
+}
+
+export interface ElectionParticipationImportResult {
+  imported: number;
+  unmatched: string[]; // voter IDs with no matching voter record
+  outside_jurisdiction: string[]; // voter IDs of voters outside the officer's jurisdictions, not imported
+}
+
+// Milestone on the public election calendar
+export interface ElectionEvent {
+  event_id: number;
+  election_id: number | null; // null for general announcements
+  election_name: string | null;
+  title: string;
+  milestone_type: 'registration' | 'registration_deadline' | 'filing_of_candidacy' | 'campaign_period' |
+                  'election_day' | 'canvassing' | 'other';
+  start_date: string;
+  end_date: string; // same as start_date for single-day events
+  description: string | null;
+  scope: string;
+  updated_at: string;
+}
+
+// Active voter who did not vote in the two most recent regular elections
+export interface DeactivationCandidate extends Pick<VoterSummary, 'applicant_id' | 'first_name' | 'last_name' | 'middle_name' | 'voter_id' | 'precinct_number'> {
+  missed_elections: string[];
+}
+
+export interface VoterNotification {
+  notification_id: number;
+  applicant_id: number;
+  title: string;
+  message: string;
+  created_at: string;
+  read_at: string | null;
+}
+
 // Main Application interface reflecting the database structure
 export interface Application {
   // From application table
@@ -135,6 +554,7 @@ export interface Application {
   status: 'pending' | 'verified' | 'approved' | 'disapproved'; // status
   reasonForDisapproval?: string; // reason_for_disapproval
   erbHearingDate?: string; // erb_hearing_date
+  erbHearing?: ApplicationHearing; // from erb_hearing_docket and erb_hearing_session
   remarks?: string; // remarks
 
   // Related data
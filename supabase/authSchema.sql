@@ -1,12 +1,13 @@
 DROP TRIGGER IF EXISTS sync_users ON auth.users;
 DROP FUNCTION IF EXISTS public.sync_users();
+DROP FUNCTION IF EXISTS public.protect_app_user_role() CASCADE;
 DROP TABLE IF EXISTS public.app_user;
 
 CREATE TABLE IF NOT EXISTS public.app_user (
     auth_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
     email VARCHAR(255) UNIQUE,
     username VARCHAR(50),
-    role TEXT NOT NULL DEFAULT 'public' CHECK (role IN ('public', 'officer')),
+    role TEXT NOT NULL DEFAULT 'public' CHECK (role IN ('public', 'officer', 'admin')),
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -36,4 +37,25 @@ $$;
 -- Create the trigger that fires the function
 CREATE TRIGGER sync_users
 AFTER INSERT OR UPDATE OR DELETE ON auth.users
-FOR EACH ROW EXECUTE FUNCTION public.sync_users();
\ No newline at end of file
+FOR EACH ROW EXECUTE FUNCTION public.sync_users();
+
+-- Roles are only granted by the officer administration functions in businessSchema.sql (SECURITY DEFINER),
+-- so signed-in users cannot make themselves officers or administrators by writing to app_user.
+CREATE OR REPLACE FUNCTION public.protect_app_user_role()
+RETURNS TRIGGER LANGUAGE plpgsql
+SET search_path = public AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') AND (
+        (TG_OP = 'INSERT' AND NEW.role <> 'public')
+        OR (TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role)
+    ) THEN
+        RAISE EXCEPTION 'Only administrators can change account roles.' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_app_user_role
+BEFORE INSERT OR UPDATE OF role ON public.app_user
+FOR EACH ROW EXECUTE FUNCTION public.protect_app_user_role();
@@ -0,0 +1,38 @@
+/*
+===============================================================================
+  Biometrics capture migration
+
+  Description:
+  Brings an existing applicant_biometrics table up to businessSchema.sql.
+  The URL columns become storage paths in the private biometrics bucket, a
+  photo is added, and captures may be saved one at a time (is_complete marks
+  rows with all four). The table was not written to before, so no data is
+  converted.
+
+  Run this once, then run storageRLSPolicy.sql and re-run the
+  CREATE OR REPLACE FUNCTION statement for approve_application from
+  businessSchema.sql.
+===============================================================================
+*/
+
+BEGIN;
+
+ALTER TABLE applicant_biometrics RENAME COLUMN left_thumbprint_url TO left_thumbprint_path;
+ALTER TABLE applicant_biometrics RENAME COLUMN right_thumbprint_url TO right_thumbprint_path;
+ALTER TABLE applicant_biometrics RENAME COLUMN signature_specimen_url TO signature_specimen_path;
+
+ALTER TABLE applicant_biometrics
+    ALTER COLUMN left_thumbprint_path DROP NOT NULL,
+    ALTER COLUMN right_thumbprint_path DROP NOT NULL,
+    ALTER COLUMN signature_specimen_path DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS photo_path TEXT,
+    ADD COLUMN IF NOT EXISTS captured_by INTEGER,
+    ADD COLUMN IF NOT EXISTS captured_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+ALTER TABLE applicant_biometrics
+    ADD COLUMN IF NOT EXISTS is_complete BOOLEAN GENERATED ALWAYS AS (
+        left_thumbprint_path IS NOT NULL AND right_thumbprint_path IS NOT NULL
+        AND signature_specimen_path IS NOT NULL AND photo_path IS NOT NULL
+    ) STORED;
+
+COMMIT;
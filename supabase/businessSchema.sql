@@ -1,4 +1,94 @@
+-- Drop functions
+DROP FUNCTION IF EXISTS public.submit_application(JSONB);
+DROP FUNCTION IF EXISTS public.enforce_application_status_transition() CASCADE;
+DROP FUNCTION IF EXISTS public.change_application_status(TEXT, TEXT, TEXT, JSONB);
+DROP FUNCTION IF EXISTS public.approve_application(TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.apply_application_approval(INTEGER, INTEGER, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.snapshot_applicant_record(INTEGER);
+DROP FUNCTION IF EXISTS public.deactivate_voters(INTEGER[], TEXT, DATE);
+DROP FUNCTION IF EXISTS public.import_election_participation(INTEGER, JSONB);
+DROP FUNCTION IF EXISTS public.get_two_miss_deactivation_candidates();
+DROP FUNCTION IF EXISTS public.assign_application_to_hearing(TEXT, INTEGER);
+DROP FUNCTION IF EXISTS public.sync_erb_hearing_date() CASCADE;
+DROP FUNCTION IF EXISTS public.cast_erb_ballot(INTEGER, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.get_registration_status(TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.get_registration_windows(TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.get_appointment_closure_reason(DATE);
+DROP FUNCTION IF EXISTS public.get_appointment_closure_reason(DATE, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.get_biometrics_slots(DATE, DATE);
+DROP FUNCTION IF EXISTS public.get_biometrics_slots(DATE, DATE, TEXT);
+DROP FUNCTION IF EXISTS public.get_application_municipality(INTEGER);
+DROP FUNCTION IF EXISTS public.create_biometrics_slots(DATE, TIME, TIME, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS public.book_biometrics_appointment(TEXT, INTEGER);
+DROP FUNCTION IF EXISTS public.cancel_biometrics_appointment(TEXT);
+DROP FUNCTION IF EXISTS public.get_precincts();
+DROP FUNCTION IF EXISTS public.vin_check_digit(TEXT);
+DROP FUNCTION IF EXISTS public.is_valid_vin(TEXT);
+DROP FUNCTION IF EXISTS public.generate_vin(TEXT);
+DROP FUNCTION IF EXISTS public.suggest_precinct(INTEGER);
+DROP FUNCTION IF EXISTS public.reissue_voter_id(INTEGER);
+DROP FUNCTION IF EXISTS public.protect_voter_record() CASCADE;
+DROP FUNCTION IF EXISTS public.get_unnormalized_addresses();
+DROP FUNCTION IF EXISTS public.apply_psgc_codes(JSONB);
+DROP FUNCTION IF EXISTS public.normalize_person_name(TEXT);
+DROP FUNCTION IF EXISTS public.detect_duplicate_applicants(INTEGER);
+DROP FUNCTION IF EXISTS public.normalize_applicant_name(TEXT, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS public.rerun_duplicate_check(TEXT);
+DROP FUNCTION IF EXISTS public.officer_covers_address(TEXT, TEXT, TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.officer_covers_residence(INTEGER);
+DROP FUNCTION IF EXISTS public.officer_can_access_application(INTEGER);
+DROP FUNCTION IF EXISTS public.officer_can_access_applicant(INTEGER);
+DROP FUNCTION IF EXISTS public.officer_has_permission(TEXT);
+DROP FUNCTION IF EXISTS public.is_admin();
+DROP FUNCTION IF EXISTS public.grant_officer_invitation(INTEGER, UUID);
+DROP FUNCTION IF EXISTS public.apply_officer_invitation() CASCADE;
+DROP FUNCTION IF EXISTS public.invite_officer(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.set_officer_suspended(INTEGER, BOOLEAN);
+DROP FUNCTION IF EXISTS public.get_officer_recent_actions(INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS public.get_officer_directory();
+
+-- Drop application history tables
+DROP TABLE IF EXISTS application_status_history CASCADE;
+DROP TABLE IF EXISTS application_status_transition CASCADE;
+DROP TABLE IF EXISTS application_outcome_audit CASCADE;
+
+-- Drop duplicate detection tables
+DROP TABLE IF EXISTS applicant_duplicate_match CASCADE;
+
+-- Drop residence tables
+DROP TABLE IF EXISTS applicant_residence CASCADE;
+
+-- Drop precinct tables
+DROP TABLE IF EXISTS vin_sequence CASCADE;
+DROP TABLE IF EXISTS precinct CASCADE;
+
+-- Drop notification tables
+DROP TABLE IF EXISTS voter_notification CASCADE;
+
+-- Drop biometrics appointment tables
+DROP TABLE IF EXISTS biometrics_appointment CASCADE;
+DROP TABLE IF EXISTS biometrics_slot CASCADE;
+DROP TABLE IF EXISTS office_holiday CASCADE;
+
+-- Drop registration period tables
+DROP TABLE IF EXISTS registration_period_override CASCADE;
+DROP TABLE IF EXISTS registration_period CASCADE;
+
+-- Drop ERB hearing tables
+DROP TABLE IF EXISTS erb_hearing_ballot CASCADE;
+DROP TABLE IF EXISTS erb_hearing_board CASCADE;
+DROP TABLE IF EXISTS erb_hearing_docket CASCADE;
+DROP TABLE IF EXISTS erb_hearing_session CASCADE;
+
+-- Drop election tables
+DROP TABLE IF EXISTS election_event CASCADE;
+DROP TABLE IF EXISTS election_participation CASCADE;
+DROP TABLE IF EXISTS election CASCADE;
+
 -- Drop officer-related tables
+DROP TABLE IF EXISTS officer_invitation CASCADE;
+DROP TABLE IF EXISTS officer_position_permission CASCADE;
+DROP TABLE IF EXISTS officer_jurisdiction CASCADE;
 DROP TABLE IF EXISTS officer_assignment CASCADE;
 DROP TABLE IF EXISTS officer CASCADE;
 
@@ -10,6 +100,7 @@ DROP TABLE IF EXISTS application_reactivation CASCADE;
 DROP TABLE IF EXISTS application_transfer CASCADE;
 DROP TABLE IF EXISTS application_registration CASCADE;
 DROP TABLE IF EXISTS application CASCADE;
+DROP TABLE IF EXISTS accepted_id_type CASCADE;
 
 -- Drop applicant-related tables
 DROP TABLE IF EXISTS applicant_special_sector CASCADE;
@@ -32,6 +123,9 @@ DROP TABLE IF EXISTS applicant CASCADE;
 ===============================================================================
 */
 
+-- Trigram similarity for fuzzy name matching in duplicate detection
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
 /*
   Tables related to the applicant entity:
 
@@ -73,6 +167,9 @@ CREATE TABLE IF NOT EXISTS applicant (
 
     place_of_birth_municipality VARCHAR(50) NOT NULL,
     place_of_birth_province VARCHAR(50) NOT NULL,
+    -- PSGC codes alongside the names; NULL when the place was typed in and not yet normalized
+    place_of_birth_municipality_code CHAR(9) CHECK (place_of_birth_municipality_code ~ '^[0-9]{9}$'),
+    place_of_birth_province_code CHAR(9) CHECK (place_of_birth_province_code ~ '^[0-9]{9}$'),
 
     father_name VARCHAR(100) NOT NULL,
     mother_maiden_name VARCHAR(100) NOT NULL,
@@ -81,11 +178,20 @@ CREATE TABLE IF NOT EXISTS applicant (
 );
 
 -- FK as PK enforces one-to-one relationship
+-- Captured in person by an officer; each column holds a storage path in the private biometrics bucket.
+-- Captures can be saved one at a time, so a row is only complete once all four are present.
 CREATE TABLE applicant_biometrics (
     applicant_id INTEGER PRIMARY KEY,
-    left_thumbprint_url TEXT NOT NULL,
-    right_thumbprint_url TEXT NOT NULL,
-    signature_specimen_url TEXT NOT NULL,
+    left_thumbprint_path TEXT,
+    right_thumbprint_path TEXT,
+    signature_specimen_path TEXT,
+    photo_path TEXT,
+    is_complete BOOLEAN GENERATED ALWAYS AS (
+        left_thumbprint_path IS NOT NULL AND right_thumbprint_path IS NOT NULL
+        AND signature_specimen_path IS NOT NULL AND photo_path IS NOT NULL
+    ) STORED,
+    captured_by INTEGER, -- officer_id of the officer who last saved a capture
+    captured_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (applicant_id) REFERENCES applicant(applicant_id) ON DELETE CASCADE
 );
 
@@ -94,6 +200,8 @@ CREATE TABLE IF NOT EXISTS applicant_voter_record (
     applicant_id INTEGER PRIMARY KEY,
     precinct_number VARCHAR(10) NOT NULL,
     voter_id VARCHAR(30) NOT NULL,
+    -- Set on voter IDs shared with another voter (see voterIdMigration.sql) until a new VIN is issued
+    voter_id_flagged BOOLEAN NOT NULL DEFAULT FALSE,
 
     CONSTRAINT fk_applicant_voter
         FOREIGN KEY (applicant_id)
@@ -101,6 +209,10 @@ CREATE TABLE IF NOT EXISTS applicant_voter_record (
         ON DELETE CASCADE
 );
 
+-- Voter IDs are unique; flagged duplicates are exempt until reissued
+CREATE UNIQUE INDEX IF NOT EXISTS idx_voter_record_voter_id
+    ON applicant_voter_record (voter_id) WHERE NOT voter_id_flagged;
+
 -- One applicant can have multiple deactivation records over time
 CREATE TABLE IF NOT EXISTS applicant_deactivation_record (
     deactivation_id SERIAL PRIMARY KEY,
@@ -143,6 +255,36 @@ CREATE TABLE IF NOT EXISTS applicant_special_sector (
         ON DELETE CASCADE
 );
 
+/*
+  Tables related to identification documents:
+
+  - accepted_id_type: IDs accepted as proof of identity for registration, with per-type capture rules
+*/
+CREATE TABLE IF NOT EXISTS accepted_id_type (
+    id_type_code VARCHAR(20) PRIMARY KEY,
+    name TEXT NOT NULL,
+    requires_back BOOLEAN NOT NULL DEFAULT TRUE, -- whether a photo of the back side is required
+    id_number_pattern TEXT, -- regular expression the upper-cased ID number must match; NULL accepts any format
+    id_number_hint TEXT, -- example of the expected format, shown to applicants
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    sort_order SMALLINT NOT NULL DEFAULT 0
+);
+
+INSERT INTO accepted_id_type (id_type_code, name, requires_back, id_number_pattern, id_number_hint, sort_order) VALUES
+    ('philsys', 'PhilSys ID (PhilID)', TRUE, '^[0-9]{4}-?[0-9]{4}-?[0-9]{4}-?[0-9]{4}$', '1234-5678-9012-3456', 1),
+    ('passport', 'Philippine Passport', FALSE, '^[A-Z]{1,2}[0-9]{7}[A-Z]?$', 'P1234567A', 2),
+    ('drivers_license', 'Driver''s License', TRUE, '^[A-Z][0-9]{2}-[0-9]{2}-[0-9]{6}$', 'N01-12-123456', 3),
+    ('umid', 'UMID', TRUE, '^[0-9]{4}-[0-9]{7}-[0-9]$', '0111-1234567-8', 4),
+    ('sss', 'SSS ID', TRUE, '^[0-9]{2}-[0-9]{7}-[0-9]$', '34-1234567-8', 5),
+    ('prc', 'PRC ID', TRUE, '^[0-9]{7}$', '0123456', 6),
+    ('postal', 'Postal ID', TRUE, '^[A-Z0-9]{12}$', 'ABC123456789', 7),
+    ('tin', 'TIN ID', TRUE, '^[0-9]{3}-[0-9]{3}-[0-9]{3}(-[0-9]{3,5})?$', '123-456-789-000', 8),
+    ('senior_citizen', 'Senior Citizen ID', TRUE, NULL, NULL, 9),
+    ('pwd', 'PWD ID', TRUE, NULL, NULL, 10),
+    ('ibp', 'IBP ID', TRUE, NULL, NULL, 11),
+    ('student', 'Student ID (current school year)', TRUE, NULL, NULL, 12)
+ON CONFLICT (id_type_code) DO NOTHING;
+
 /*
   Tables related to the application entity:
 
@@ -187,9 +329,21 @@ CREATE TABLE IF NOT EXISTS application_registration (
     application_number INTEGER PRIMARY KEY,
     registration_type TEXT NOT NULL CHECK (registration_type IN ('Katipunan ng Kabataan', 'Regular')) ,
     adult_registration_consent BOOLEAN,
-    government_id_front_url TEXT NOT NULL,
-    government_id_back_url TEXT NOT NULL,
-    id_selfie_url TEXT NOT NULL,
+    government_id_front_path TEXT NOT NULL,
+    government_id_back_path TEXT, -- NULL when the ID type does not require the back side
+    id_selfie_path TEXT NOT NULL,
+    id_type_code VARCHAR(20) REFERENCES accepted_id_type(id_type_code), -- NULL for registrations submitted before ID types were recorded
+    id_number VARCHAR(50),
+    -- Quality scores measured in the applicant's browser (score, blur_variance, glare_ratio, width, height, aspect_ratio, warnings)
+    government_id_front_quality JSONB,
+    government_id_back_quality JSONB,
+    id_selfie_quality JSONB,
+    -- Lowest of the three scores, so officers can sort applications by image quality
+    id_quality_score SMALLINT GENERATED ALWAYS AS (LEAST(
+        (government_id_front_quality ->> 'score')::SMALLINT,
+        (government_id_back_quality ->> 'score')::SMALLINT,
+        (id_selfie_quality ->> 'score')::SMALLINT
+    )) STORED,
 
     CONSTRAINT fk_application_registration
         FOREIGN KEY (application_number)
@@ -204,6 +358,9 @@ CREATE TABLE IF NOT EXISTS application_transfer (
     previous_barangay VARCHAR(50),
     previous_city_municipality VARCHAR(50),
     previous_province VARCHAR(50),
+    previous_barangay_code CHAR(9) CHECK (previous_barangay_code ~ '^[0-9]{9}$'),
+    previous_city_municipality_code CHAR(9) CHECK (previous_city_municipality_code ~ '^[0-9]{9}$'),
+    previous_province_code CHAR(9) CHECK (previous_province_code ~ '^[0-9]{9}$'),
     previous_foreign_post VARCHAR(50),
     previous_country VARCHAR(50),
 
@@ -288,6 +445,9 @@ CREATE TABLE IF NOT EXISTS application_declared_address (
     barangay VARCHAR(50) NOT NULL,
     city_municipality VARCHAR(50) NOT NULL,
     province VARCHAR(50) NOT NULL,
+    barangay_code CHAR(9) CHECK (barangay_code ~ '^[0-9]{9}$'),
+    city_municipality_code CHAR(9) CHECK (city_municipality_code ~ '^[0-9]{9}$'),
+    province_code CHAR(9) CHECK (province_code ~ '^[0-9]{9}$'),
     months_of_residence_address INTEGER NOT NULL,
     years_of_residence_address INTEGER NOT NULL,
     months_of_residence_municipality INTEGER NOT NULL,
@@ -300,11 +460,164 @@ CREATE TABLE IF NOT EXISTS application_declared_address (
         ON DELETE CASCADE
 );
 
+/*
+  Tables related to the voter's residence:
+
+  - applicant_residence: residence address of record, one row per period (ONE-TO-MANY)
+    The row with effective_to IS NULL is the voter's current registered address. Rows are written by
+    approve_application from the declared address of approved register/transfer applications.
+*/
+CREATE TABLE IF NOT EXISTS applicant_residence (
+    residence_id SERIAL PRIMARY KEY,
+    applicant_id INTEGER NOT NULL,
+    application_number INTEGER, -- approved application the address came from
+
+    house_number_street VARCHAR(100) NOT NULL,
+    barangay VARCHAR(50) NOT NULL,
+    city_municipality VARCHAR(50) NOT NULL,
+    province VARCHAR(50) NOT NULL,
+    barangay_code CHAR(9) CHECK (barangay_code ~ '^[0-9]{9}$'),
+    city_municipality_code CHAR(9) CHECK (city_municipality_code ~ '^[0-9]{9}$'),
+    province_code CHAR(9) CHECK (province_code ~ '^[0-9]{9}$'),
+
+    effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+    effective_to DATE,
+
+    CONSTRAINT fk_residence_applicant
+        FOREIGN KEY (applicant_id)
+        REFERENCES applicant(applicant_id)
+        ON DELETE CASCADE,
+    CONSTRAINT fk_residence_application
+        FOREIGN KEY (application_number)
+        REFERENCES application(application_number)
+        ON DELETE SET NULL,
+    CONSTRAINT chk_residence_period
+        CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+-- At most one current residence per applicant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_residence_current
+    ON applicant_residence (applicant_id) WHERE effective_to IS NULL;
+
+/*
+  Tables related to precincts:
+
+  - precinct: precinct master data. applicant_voter_record.precinct_number is validated against it on approval.
+    Established precincts sharing a polling place are grouped under the same clustered_precinct.
+    locality_code is the region, province and city/municipality part (first six digits) of the PSGC code.
+  - vin_sequence: last Voter Identification Number (VIN) sequence issued per locality
+*/
+CREATE TABLE IF NOT EXISTS precinct (
+    precinct_number VARCHAR(10) PRIMARY KEY,
+
+    barangay VARCHAR(50) NOT NULL,
+    city_municipality VARCHAR(50) NOT NULL,
+    province VARCHAR(50) NOT NULL,
+
+    locality_code CHAR(6) NOT NULL CHECK (locality_code ~ '^[0-9]{6}$'),
+
+    polling_place VARCHAR(150) NOT NULL,
+    capacity INTEGER NOT NULL CHECK (capacity > 0),
+    clustered_precinct VARCHAR(10)
+);
+
+CREATE INDEX IF NOT EXISTS idx_precinct_locality
+    ON precinct (city_municipality, barangay);
+
+CREATE TABLE IF NOT EXISTS vin_sequence (
+    locality_code CHAR(6) PRIMARY KEY,
+    last_sequence INTEGER NOT NULL DEFAULT 0
+);
+
+/*
+  Tables related to elections:
+
+  - election: elections held, used to track voter participation
+  - election_participation: whether a voter voted in an election, imported from the precinct book of voters (MANY-TO-MANY)
+    A missing row means participation is unknown, not that the voter failed to vote.
+  - election_event: milestones on the public election calendar, such as the last day of registration (ONE-TO-MANY)
+    Events without an election are general announcements.
+*/
+CREATE TABLE IF NOT EXISTS election (
+    election_id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    election_date DATE NOT NULL,
+    election_type TEXT NOT NULL CHECK (election_type IN ('Regular', 'Special')),
+
+    CONSTRAINT unique_election UNIQUE (election_date, election_type)
+);
+
+CREATE TABLE IF NOT EXISTS election_participation (
+    election_id INTEGER NOT NULL,
+    applicant_id INTEGER NOT NULL,
+    voted BOOLEAN NOT NULL,
+    imported_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (election_id, applicant_id),
+    CONSTRAINT fk_participation_election
+        FOREIGN KEY (election_id)
+        REFERENCES election(election_id)
+        ON DELETE CASCADE,
+    CONSTRAINT fk_participation_applicant
+        FOREIGN KEY (applicant_id)
+        REFERENCES applicant(applicant_id)
+        ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS election_event (
+    event_id SERIAL PRIMARY KEY,
+    election_id INTEGER,
+    title VARCHAR(150) NOT NULL,
+    milestone_type TEXT NOT NULL CHECK (milestone_type IN (
+        'registration', 'registration_deadline', 'filing_of_candidacy', 'campaign_period',
+        'election_day', 'canvassing', 'other'
+    )),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    description TEXT,
+    scope VARCHAR(100) NOT NULL DEFAULT 'Nationwide', -- e.g. Nationwide, or the province or city where the event applies
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT valid_event_dates CHECK (end_date >= start_date),
+    CONSTRAINT fk_event_election
+        FOREIGN KEY (election_id)
+        REFERENCES election(election_id)
+        ON DELETE CASCADE
+);
+
+/*
+  Tables related to voter notifications:
+
+  - voter_notification: notices shown to a voter on their home page (ONE-TO-MANY)
+*/
+CREATE TABLE IF NOT EXISTS voter_notification (
+    notification_id SERIAL PRIMARY KEY,
+    applicant_id INTEGER NOT NULL,
+
+    title VARCHAR(100) NOT NULL,
+    message TEXT NOT NULL,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    read_at TIMESTAMPTZ,
+
+    CONSTRAINT fk_notification_applicant
+        FOREIGN KEY (applicant_id)
+        REFERENCES applicant(applicant_id)
+        ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_applicant
+    ON voter_notification (applicant_id, created_at);
+
 /*
   Tables related to the officer entity:
 
   - officer: stores election officer and board member information
   - officer_assignment: maps officers to applications (MANY-TO-MANY - SURROGATE KEY FOR EFFICIENT QUERY)
+  - officer_jurisdiction: provinces, cities/municipalities or districts an officer is responsible for (ONE-TO-MANY)
+    Officers only see applications whose declared or previous address falls within one of their jurisdictions.
+  - officer_position_permission: actions each officer position may take (reference data, see officer_has_permission)
 */
 CREATE TABLE IF NOT EXISTS officer (
     officer_id SERIAL PRIMARY KEY,
@@ -313,7 +626,8 @@ CREATE TABLE IF NOT EXISTS officer (
     last_name VARCHAR(50), 
     
     auth_id UUID UNIQUE NOT NULL REFERENCES app_user(auth_id) ON DELETE CASCADE,
-    position TEXT NOT NULL CHECK (position IN ('Election Officer', 'Board Member'))
+    position TEXT NOT NULL CHECK (position IN ('Election Officer', 'Board Member')),
+    suspended_at TIMESTAMPTZ -- set by set_officer_suspended while the account is back on the 'public' role
 );
 
 -- Many-to-many relationship between officers and applications (JUNCTION table)
@@ -322,8 +636,2765 @@ CREATE TABLE officer_assignment (
     officer_id INTEGER NOT NULL,
     application_number INTEGER NOT NULL,
     action TEXT NOT NULL CHECK (action IN ('set_pending', 'verify', 'approve', 'disapprove')),
+    assigned_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP, -- time of the officer's latest action
 
     CONSTRAINT fk_officer FOREIGN KEY (officer_id) REFERENCES officer(officer_id) ON DELETE CASCADE,
     CONSTRAINT fk_application FOREIGN KEY (application_number) REFERENCES application(application_number) ON DELETE CASCADE,
     CONSTRAINT unique_officer_application UNIQUE (officer_id, application_number)
-);
\ No newline at end of file
+);
+
+-- A row without a city covers the whole province; a district narrows a city to the listed barangays
+CREATE TABLE IF NOT EXISTS officer_jurisdiction (
+    jurisdiction_id SERIAL PRIMARY KEY,
+    officer_id INTEGER NOT NULL REFERENCES officer(officer_id) ON DELETE CASCADE,
+
+    province VARCHAR(50) NOT NULL,
+    province_code CHAR(9) CHECK (province_code ~ '^[0-9]{9}$'),
+    city_municipality VARCHAR(50),
+    city_municipality_code CHAR(9) CHECK (city_municipality_code ~ '^[0-9]{9}$'),
+
+    district VARCHAR(50),
+    district_barangays VARCHAR(50)[],
+
+    CONSTRAINT city_code_requires_city CHECK (city_municipality_code IS NULL OR city_municipality IS NOT NULL),
+    CONSTRAINT district_requires_city CHECK (district IS NULL OR city_municipality IS NOT NULL),
+    CONSTRAINT district_lists_barangays CHECK (
+        (district IS NULL AND district_barangays IS NULL)
+        OR (district IS NOT NULL AND cardinality(district_barangays) > 0)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_officer_jurisdiction_officer
+    ON officer_jurisdiction (officer_id);
+
+-- Officers invited by an administrator. An invitation is granted when an account with its email exists or signs up.
+CREATE TABLE IF NOT EXISTS officer_invitation (
+    invitation_id SERIAL PRIMARY KEY,
+    email VARCHAR(255) NOT NULL,
+    first_name VARCHAR(50),
+    last_name VARCHAR(50),
+    position TEXT NOT NULL CHECK (position IN ('Election Officer', 'Board Member')),
+
+    -- The officer's first jurisdiction; more can be added from the administration console
+    province VARCHAR(50) NOT NULL,
+    province_code CHAR(9) CHECK (province_code ~ '^[0-9]{9}$'),
+    city_municipality VARCHAR(50),
+    city_municipality_code CHAR(9) CHECK (city_municipality_code ~ '^[0-9]{9}$'),
+
+    invited_by UUID REFERENCES app_user(auth_id) ON DELETE SET NULL,
+    invited_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    accepted_at TIMESTAMPTZ,
+    officer_id INTEGER REFERENCES officer(officer_id) ON DELETE SET NULL
+);
+
+-- One pending invitation per email address
+CREATE UNIQUE INDEX IF NOT EXISTS idx_officer_invitation_pending_email
+    ON officer_invitation (LOWER(email)) WHERE accepted_at IS NULL;
+
+-- Status change permissions share their names with application_status_transition.action.
+-- No position may delete records; deletion is reserved for administrators.
+CREATE TABLE IF NOT EXISTS officer_position_permission (
+    position TEXT NOT NULL CHECK (position IN ('Election Officer', 'Board Member')),
+    permission TEXT NOT NULL CHECK (permission IN (
+        'verify', 'set_pending', 'approve', 'disapprove',
+        'assign_vin', 'schedule_hearing', 'record_hearing_decision', 'delete_application'
+    )),
+
+    PRIMARY KEY (position, permission)
+);
+
+INSERT INTO officer_position_permission (position, permission) VALUES
+    ('Election Officer', 'verify'),
+    ('Election Officer', 'set_pending'),
+    ('Election Officer', 'approve'),
+    ('Election Officer', 'disapprove'),
+    ('Election Officer', 'assign_vin'),
+    ('Election Officer', 'schedule_hearing'),
+    ('Board Member', 'record_hearing_decision')
+ON CONFLICT (position, permission) DO NOTHING;
+
+/*
+  Tables related to Election Registration Board (ERB) hearings:
+
+  - erb_hearing_session: scheduled board hearings with venue and capacity
+  - erb_hearing_docket: verified applications heard in a session, with the board's decision (ONE-TO-ONE with application)
+    application.erb_hearing_date is kept in sync with the assigned session by the sync_erb_hearing_date trigger.
+  - erb_hearing_board: Board Members sitting in a session (MANY-TO-MANY between sessions and officers)
+  - erb_hearing_ballot: each board member's approve/disapprove vote on a docket entry, with a note.
+    The board's decision is reached by cast_erb_ballot once a majority of the board agrees.
+*/
+CREATE TABLE IF NOT EXISTS erb_hearing_session (
+    session_id SERIAL PRIMARY KEY,
+    hearing_date DATE NOT NULL,
+    start_time TIME NOT NULL DEFAULT '09:00',
+    venue VARCHAR(150) NOT NULL,
+    capacity INTEGER NOT NULL CHECK (capacity > 0),
+    notes TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_hearing_session_date
+    ON erb_hearing_session (hearing_date);
+
+-- FK as PK enforces one hearing per application
+CREATE TABLE IF NOT EXISTS erb_hearing_docket (
+    application_number INTEGER PRIMARY KEY,
+    session_id INTEGER NOT NULL,
+    docket_number INTEGER NOT NULL, -- order in which the application is heard in the session
+
+    decision TEXT CHECK (decision IN ('approved', 'disapproved', 'deferred')),
+    decision_notes TEXT,
+    decided_by INTEGER,
+    decided_at TIMESTAMPTZ,
+    approval_blocked_reason TEXT, -- why an approval by the board could not be applied; cleared once it is
+
+    CONSTRAINT fk_docket_application
+        FOREIGN KEY (application_number)
+        REFERENCES application(application_number)
+        ON DELETE CASCADE,
+    CONSTRAINT fk_docket_session
+        FOREIGN KEY (session_id)
+        REFERENCES erb_hearing_session(session_id)
+        ON DELETE CASCADE,
+    CONSTRAINT fk_docket_officer
+        FOREIGN KEY (decided_by)
+        REFERENCES officer(officer_id)
+        ON DELETE SET NULL,
+    CONSTRAINT unique_docket_number UNIQUE (session_id, docket_number)
+);
+
+CREATE TABLE IF NOT EXISTS erb_hearing_board (
+    session_id INTEGER NOT NULL,
+    officer_id INTEGER NOT NULL,
+
+    PRIMARY KEY (session_id, officer_id),
+    CONSTRAINT fk_board_session
+        FOREIGN KEY (session_id)
+        REFERENCES erb_hearing_session(session_id)
+        ON DELETE CASCADE,
+    CONSTRAINT fk_board_officer
+        FOREIGN KEY (officer_id)
+        REFERENCES officer(officer_id)
+        ON DELETE CASCADE
+);
+
+-- One ballot per board member and docket entry; a member may change their vote until the board decides
+CREATE TABLE IF NOT EXISTS erb_hearing_ballot (
+    application_number INTEGER NOT NULL,
+    session_id INTEGER NOT NULL,
+    officer_id INTEGER NOT NULL,
+
+    vote TEXT NOT NULL CHECK (vote IN ('approve', 'disapprove')),
+    notes TEXT,
+    cast_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (application_number, officer_id),
+    CONSTRAINT fk_ballot_docket
+        FOREIGN KEY (application_number)
+        REFERENCES erb_hearing_docket(application_number)
+        ON DELETE CASCADE,
+    -- Members who have voted cannot leave the board, so the minutes keep every ballot
+    CONSTRAINT fk_ballot_board
+        FOREIGN KEY (session_id, officer_id)
+        REFERENCES erb_hearing_board(session_id, officer_id),
+    CONSTRAINT disapproval_requires_notes CHECK (vote = 'approve' OR NULLIF(TRIM(notes), '') IS NOT NULL)
+);
+
+/*
+  Tables related to registration periods:
+
+  - registration_period: date ranges in which applications are accepted, and which application types are;
+    COMELEC suspends registration before elections. While no period is defined, registration is treated as open.
+  - registration_period_override: different dates or application types for one municipality during a period
+    (e.g. an extension, or an early suspension for a plebiscite). Replaces the period's dates and types there.
+*/
+CREATE TABLE IF NOT EXISTS registration_period (
+    period_id SERIAL PRIMARY KEY,
+    name VARCHAR(150) NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    allowed_application_types TEXT[] NOT NULL DEFAULT ARRAY['register', 'transfer', 'reactivation', 'transfer_with_reactivation', 'correction_of_entry', 'reinstatement'],
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT valid_registration_period CHECK (end_date >= start_date),
+    CONSTRAINT valid_period_application_types CHECK (
+        allowed_application_types <@ ARRAY['register', 'transfer', 'reactivation', 'transfer_with_reactivation', 'correction_of_entry', 'reinstatement']
+    )
+);
+
+CREATE TABLE IF NOT EXISTS registration_period_override (
+    override_id SERIAL PRIMARY KEY,
+    period_id INTEGER NOT NULL,
+    city_municipality VARCHAR(50) NOT NULL,
+    province VARCHAR(50) NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    allowed_application_types TEXT[] NOT NULL,
+    reason TEXT,
+
+    CONSTRAINT fk_override_period
+        FOREIGN KEY (period_id)
+        REFERENCES registration_period(period_id)
+        ON DELETE CASCADE,
+    CONSTRAINT valid_override_period CHECK (end_date >= start_date),
+    CONSTRAINT valid_override_application_types CHECK (
+        allowed_application_types <@ ARRAY['register', 'transfer', 'reactivation', 'transfer_with_reactivation', 'correction_of_entry', 'reinstatement']
+    ),
+    CONSTRAINT unique_period_municipality UNIQUE (period_id, city_municipality, province)
+);
+
+/*
+  Tables related to biometrics appointments:
+
+  - office_holiday: dates the Office of the Election Officer is closed
+  - biometrics_slot: time slots on office days in which applicants can have their biometrics captured, with capacity
+  - biometrics_appointment: the slot an application is booked into, with attendance (ONE-TO-ONE with application)
+    Rows are written by book_biometrics_appointment and cancel_biometrics_appointment; officers record attendance.
+*/
+CREATE TABLE IF NOT EXISTS office_holiday (
+    holiday_date DATE PRIMARY KEY,
+    name VARCHAR(150) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS biometrics_slot (
+    slot_id SERIAL PRIMARY KEY,
+    slot_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    capacity INTEGER NOT NULL CHECK (capacity > 0),
+    created_by INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT valid_slot_time CHECK (end_time > start_time),
+    CONSTRAINT unique_slot_start UNIQUE (slot_date, start_time),
+    CONSTRAINT fk_slot_officer
+        FOREIGN KEY (created_by)
+        REFERENCES officer(officer_id)
+        ON DELETE SET NULL
+);
+
+-- FK as PK enforces one appointment per application; rescheduling moves it to another slot
+CREATE TABLE IF NOT EXISTS biometrics_appointment (
+    application_number INTEGER PRIMARY KEY,
+    slot_id INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'booked' CHECK (status IN ('booked', 'cancelled', 'attended', 'missed')),
+    booked_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    marked_by INTEGER,
+    marked_at TIMESTAMPTZ,
+
+    CONSTRAINT fk_appointment_application
+        FOREIGN KEY (application_number)
+        REFERENCES application(application_number)
+        ON DELETE CASCADE,
+    -- Slots with appointments cannot be deleted; cancel the appointments first
+    CONSTRAINT fk_appointment_slot
+        FOREIGN KEY (slot_id)
+        REFERENCES biometrics_slot(slot_id)
+        ON DELETE RESTRICT,
+    CONSTRAINT fk_appointment_officer
+        FOREIGN KEY (marked_by)
+        REFERENCES officer(officer_id)
+        ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_biometrics_appointment_slot
+    ON biometrics_appointment (slot_id);
+
+/*
+  Tables related to application history:
+
+  - application_status_history: append-only log of every status transition of an application (ONE-TO-MANY)
+*/
+CREATE TABLE IF NOT EXISTS application_status_history (
+    history_id SERIAL PRIMARY KEY,
+    application_number INTEGER NOT NULL,
+
+    -- NULL from_status marks the initial submission
+    from_status TEXT CHECK (from_status IN ('pending', 'verified', 'approved', 'disapproved')),
+    to_status TEXT NOT NULL CHECK (to_status IN ('pending', 'verified', 'approved', 'disapproved')),
+
+    officer_id INTEGER,
+    reason TEXT,
+    -- Document review checklist saved with verify/disapprove actions, e.g. {"government_id_front": {"name_matches": true, ...}}
+    document_checklist JSONB,
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT fk_status_history_application
+        FOREIGN KEY (application_number)
+        REFERENCES application(application_number)
+        ON DELETE CASCADE,
+    CONSTRAINT fk_status_history_officer
+        FOREIGN KEY (officer_id)
+        REFERENCES officer(officer_id)
+        ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_status_history_application
+    ON application_status_history (application_number, changed_at);
+
+/*
+  Application status state machine:
+
+  - application_status_transition: reference table of the legal status transitions, also read by the dashboard
+  - enforce_application_status_transition: trigger rejecting any status change not listed above, and any
+    approval not made by apply_application_approval
+  - change_application_status: moves an application along a transition other than approval, recording
+    the status history entry and officer assignment in the same transaction (approvals go through approve_application)
+
+  Approved applications are final; changes to an approved record go through a new application
+  (e.g. correction_of_entry). Disapproved applications can only be reopened back to pending.
+*/
+CREATE TABLE IF NOT EXISTS application_status_transition (
+    from_status TEXT NOT NULL CHECK (from_status IN ('pending', 'verified', 'approved', 'disapproved')),
+    to_status TEXT NOT NULL CHECK (to_status IN ('pending', 'verified', 'approved', 'disapproved')),
+    action TEXT NOT NULL CHECK (action IN ('set_pending', 'verify', 'approve', 'disapprove')),
+    requires_reason BOOLEAN NOT NULL DEFAULT FALSE,
+
+    PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO application_status_transition (from_status, to_status, action, requires_reason) VALUES
+    ('pending', 'verified', 'verify', FALSE),
+    ('pending', 'disapproved', 'disapprove', TRUE),
+    ('verified', 'approved', 'approve', FALSE),
+    ('verified', 'disapproved', 'disapprove', TRUE),
+    ('verified', 'pending', 'set_pending', TRUE),     -- send back for re-verification
+    ('disapproved', 'pending', 'set_pending', TRUE)   -- reopen a disapproved application
+ON CONFLICT (from_status, to_status) DO NOTHING;
+
+-- Before/after snapshots of the voter's master record for every approval (ONE-TO-MANY)
+CREATE TABLE IF NOT EXISTS application_outcome_audit (
+    audit_id SERIAL PRIMARY KEY,
+    application_number INTEGER NOT NULL,
+    applicant_id INTEGER NOT NULL,
+    application_type TEXT NOT NULL,
+
+    before_snapshot JSONB NOT NULL,
+    after_snapshot JSONB NOT NULL,
+    notes TEXT,
+
+    officer_id INTEGER,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT fk_outcome_audit_application
+        FOREIGN KEY (application_number)
+        REFERENCES application(application_number)
+        ON DELETE CASCADE,
+    CONSTRAINT fk_outcome_audit_officer
+        FOREIGN KEY (officer_id)
+        REFERENCES officer(officer_id)
+        ON DELETE SET NULL
+);
+
+/*
+  Tables related to duplicate detection:
+
+  - applicant_duplicate_match: existing applicants that a new registration may duplicate, with a similarity
+    score (0-1) and the fields that matched. Approval is blocked until every match is dismissed.
+    status: pending (not yet reviewed), dismissed (different person), confirmed (same person)
+*/
+CREATE TABLE IF NOT EXISTS applicant_duplicate_match (
+    match_id SERIAL PRIMARY KEY,
+    application_number INTEGER NOT NULL,
+    matched_applicant_id INTEGER NOT NULL,
+
+    score NUMERIC(4, 3) NOT NULL CHECK (score BETWEEN 0 AND 1),
+    matched_fields TEXT[] NOT NULL DEFAULT '{}',
+    detected_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed', 'confirmed')),
+    resolution_notes TEXT,
+    resolved_by INTEGER,
+    resolved_at TIMESTAMPTZ,
+
+    CONSTRAINT unique_duplicate_match UNIQUE (application_number, matched_applicant_id),
+    CONSTRAINT fk_duplicate_application
+        FOREIGN KEY (application_number)
+        REFERENCES application(application_number)
+        ON DELETE CASCADE,
+    CONSTRAINT fk_duplicate_applicant
+        FOREIGN KEY (matched_applicant_id)
+        REFERENCES applicant(applicant_id)
+        ON DELETE CASCADE,
+    CONSTRAINT fk_duplicate_officer
+        FOREIGN KEY (resolved_by)
+        REFERENCES officer(officer_id)
+        ON DELETE SET NULL
+);
+
+/*
+  Functions related to the application entity:
+
+  - submit_application: writes an applicant's full application (applicant, special sector,
+    application, type-specific child rows and declared address) in a single transaction
+*/
+CREATE OR REPLACE FUNCTION public.submit_application(payload JSONB)
+RETURNS TEXT LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_auth_id UUID := auth.uid();
+    var_type TEXT := payload ->> 'application_type';
+    var_applicant JSONB := payload -> 'applicant';
+    var_special_sector JSONB := payload -> 'special_sector';
+    var_registration JSONB := payload -> 'registration';
+    var_transfer JSONB := payload -> 'transfer';
+    var_reactivation JSONB := payload -> 'reactivation';
+    var_correction JSONB := payload -> 'correction';
+    var_reinstatement JSONB := payload -> 'reinstatement';
+    var_address JSONB := payload -> 'declared_address';
+    var_applicant_id INTEGER;
+    var_application_number INTEGER;
+    var_public_facing_id TEXT;
+    var_existing_status TEXT;
+    var_id_type accepted_id_type%ROWTYPE;
+    var_id_number TEXT := UPPER(TRIM(var_registration ->> 'id_number'));
+    var_registration_status RECORD;
+BEGIN
+    IF var_auth_id IS NULL OR NOT EXISTS (SELECT 1 FROM app_user WHERE auth_id = var_auth_id) THEN
+        RAISE EXCEPTION 'User profile not found. Please refresh the page and try again.';
+    END IF;
+
+    SELECT applicant_id INTO var_applicant_id FROM applicant WHERE auth_id = var_auth_id;
+
+    -- The application type must be accepted today in the declared municipality, or else the current residence
+    IF var_type IN ('register', 'transfer', 'transfer_with_reactivation') THEN
+        SELECT * INTO var_registration_status
+        FROM get_registration_status(var_address ->> 'city_municipality', var_address ->> 'province') s
+        WHERE s.application_type = var_type;
+    ELSE
+        SELECT * INTO var_registration_status
+        FROM get_registration_status() s
+        WHERE s.application_type = var_type;
+    END IF;
+    IF FOUND AND NOT var_registration_status.is_open THEN
+        RAISE EXCEPTION '%', var_registration_status.reason;
+    END IF;
+
+    IF var_type = 'register' THEN
+        -- Re-registration is only allowed when every previous registration was disapproved
+        IF var_applicant_id IS NOT NULL THEN
+            SELECT status INTO var_existing_status
+            FROM application
+            WHERE applicant_id = var_applicant_id
+              AND application_type = 'register'
+              AND status IN ('pending', 'verified', 'approved')
+            ORDER BY CASE status WHEN 'approved' THEN 0 ELSE 1 END
+            LIMIT 1;
+
+            IF var_existing_status = 'approved' THEN
+                RAISE EXCEPTION 'You already have an approved registration. Please use transfer, correction, or other application types.';
+            ELSIF var_existing_status IS NOT NULL THEN
+                RAISE EXCEPTION 'You already have a % registration application. Please wait for it to be processed.', var_existing_status;
+            END IF;
+        END IF;
+
+        -- The presented ID must be an accepted type, with the number and photos its rules require
+        SELECT * INTO var_id_type
+        FROM accepted_id_type
+        WHERE id_type_code = var_registration ->> 'id_type_code' AND is_active;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Please select an accepted ID type.';
+        END IF;
+        IF COALESCE(var_id_number, '') = '' THEN
+            RAISE EXCEPTION 'Please enter your % number.', var_id_type.name;
+        END IF;
+        IF var_id_type.id_number_pattern IS NOT NULL AND var_id_number !~ var_id_type.id_number_pattern THEN
+            RAISE EXCEPTION '% number must follow the format %.', var_id_type.name, var_id_type.id_number_hint;
+        END IF;
+        IF var_id_type.requires_back AND COALESCE(var_registration ->> 'government_id_back_path', '') = '' THEN
+            RAISE EXCEPTION 'A photo of the back of your % is required.', var_id_type.name;
+        END IF;
+
+        INSERT INTO applicant (
+            auth_id, first_name, last_name, middle_name, suffix,
+            citizenship_type, date_of_naturalization, certificate_number,
+            profession_occupation, contact_number, email_address,
+            civil_status, spouse_name, sex, date_of_birth,
+            place_of_birth_municipality, place_of_birth_province,
+            place_of_birth_municipality_code, place_of_birth_province_code,
+            father_name, mother_maiden_name
+        ) VALUES (
+            var_auth_id,
+            var_applicant ->> 'first_name',
+            var_applicant ->> 'last_name',
+            var_applicant ->> 'middle_name',
+            var_applicant ->> 'suffix',
+            var_applicant ->> 'citizenship_type',
+            (var_applicant ->> 'date_of_naturalization')::DATE,
+            var_applicant ->> 'certificate_number',
+            var_applicant ->> 'profession_occupation',
+            var_applicant ->> 'contact_number',
+            var_applicant ->> 'email_address',
+            var_applicant ->> 'civil_status',
+            var_applicant ->> 'spouse_name',
+            var_applicant ->> 'sex',
+            (var_applicant ->> 'date_of_birth')::DATE,
+            var_applicant ->> 'place_of_birth_municipality',
+            var_applicant ->> 'place_of_birth_province',
+            NULLIF(var_applicant ->> 'place_of_birth_municipality_code', ''),
+            NULLIF(var_applicant ->> 'place_of_birth_province_code', ''),
+            var_applicant ->> 'father_name',
+            var_applicant ->> 'mother_maiden_name'
+        )
+        ON CONFLICT (auth_id) DO UPDATE SET
+            first_name = EXCLUDED.first_name,
+            last_name = EXCLUDED.last_name,
+            middle_name = EXCLUDED.middle_name,
+            suffix = EXCLUDED.suffix,
+            citizenship_type = EXCLUDED.citizenship_type,
+            date_of_naturalization = EXCLUDED.date_of_naturalization,
+            certificate_number = EXCLUDED.certificate_number,
+            profession_occupation = EXCLUDED.profession_occupation,
+            contact_number = EXCLUDED.contact_number,
+            email_address = EXCLUDED.email_address,
+            civil_status = EXCLUDED.civil_status,
+            spouse_name = EXCLUDED.spouse_name,
+            sex = EXCLUDED.sex,
+            date_of_birth = EXCLUDED.date_of_birth,
+            place_of_birth_municipality = EXCLUDED.place_of_birth_municipality,
+            place_of_birth_province = EXCLUDED.place_of_birth_province,
+            place_of_birth_municipality_code = EXCLUDED.place_of_birth_municipality_code,
+            place_of_birth_province_code = EXCLUDED.place_of_birth_province_code,
+            father_name = EXCLUDED.father_name,
+            mother_maiden_name = EXCLUDED.mother_maiden_name
+        RETURNING applicant_id INTO var_applicant_id;
+
+        IF jsonb_typeof(var_special_sector) = 'object' THEN
+            INSERT INTO applicant_special_sector (
+                applicant_id, is_illiterate, is_senior_citizen, tribe,
+                type_of_disability, assistance_needed, assistor_name, vote_on_ground_floor
+            ) VALUES (
+                var_applicant_id,
+                COALESCE((var_special_sector ->> 'is_illiterate')::BOOLEAN, FALSE),
+                COALESCE((var_special_sector ->> 'is_senior_citizen')::BOOLEAN, FALSE),
+                var_special_sector ->> 'tribe',
+                var_special_sector ->> 'type_of_disability',
+                var_special_sector ->> 'assistance_needed',
+                var_special_sector ->> 'assistor_name',
+                (var_special_sector ->> 'vote_on_ground_floor')::BOOLEAN
+            )
+            ON CONFLICT (applicant_id) DO UPDATE SET
+                is_illiterate = EXCLUDED.is_illiterate,
+                is_senior_citizen = EXCLUDED.is_senior_citizen,
+                tribe = EXCLUDED.tribe,
+                type_of_disability = EXCLUDED.type_of_disability,
+                assistance_needed = EXCLUDED.assistance_needed,
+                assistor_name = EXCLUDED.assistor_name,
+                vote_on_ground_floor = EXCLUDED.vote_on_ground_floor;
+        END IF;
+    ELSIF var_applicant_id IS NULL THEN
+        RAISE EXCEPTION 'No applicant record found for this user. Please register first.';
+    END IF;
+
+    INSERT INTO application (applicant_id, application_type, status)
+    VALUES (var_applicant_id, var_type, 'pending')
+    RETURNING application_number, public_facing_id INTO var_application_number, var_public_facing_id;
+
+    INSERT INTO application_status_history (application_number, from_status, to_status)
+    VALUES (var_application_number, NULL, 'pending');
+
+    IF var_type = 'register' THEN
+        INSERT INTO application_registration (
+            application_number, registration_type, adult_registration_consent,
+            government_id_front_path, government_id_back_path, id_selfie_path,
+            id_type_code, id_number,
+            government_id_front_quality, government_id_back_quality, id_selfie_quality
+        ) VALUES (
+            var_application_number,
+            var_registration ->> 'registration_type',
+            (var_registration ->> 'adult_registration_consent')::BOOLEAN,
+            var_registration ->> 'government_id_front_path',
+            var_registration ->> 'government_id_back_path',
+            var_registration ->> 'id_selfie_path',
+            var_id_type.id_type_code,
+            var_id_number,
+            NULLIF(var_registration -> 'government_id_front_quality', 'null'::JSONB),
+            NULLIF(var_registration -> 'government_id_back_quality', 'null'::JSONB),
+            NULLIF(var_registration -> 'id_selfie_quality', 'null'::JSONB)
+        );
+    END IF;
+
+    IF var_type IN ('transfer', 'transfer_with_reactivation') THEN
+        INSERT INTO application_transfer (
+            application_number, previous_precinct_number, previous_barangay,
+            previous_city_municipality, previous_province, previous_barangay_code,
+            previous_city_municipality_code, previous_province_code, previous_foreign_post,
+            previous_country, transfer_type
+        ) VALUES (
+            var_application_number,
+            var_transfer ->> 'previous_precinct_number',
+            var_transfer ->> 'previous_barangay',
+            var_transfer ->> 'previous_city_municipality',
+            var_transfer ->> 'previous_province',
+            NULLIF(var_transfer ->> 'previous_barangay_code', ''),
+            NULLIF(var_transfer ->> 'previous_city_municipality_code', ''),
+            NULLIF(var_transfer ->> 'previous_province_code', ''),
+            var_transfer ->> 'previous_foreign_post',
+            var_transfer ->> 'previous_country',
+            var_transfer ->> 'transfer_type'
+        );
+    END IF;
+
+    IF var_type IN ('reactivation', 'transfer_with_reactivation') THEN
+        INSERT INTO application_reactivation (application_number, reason_for_deactivation)
+        VALUES (var_application_number, var_reactivation ->> 'reason_for_deactivation');
+    END IF;
+
+    IF var_type = 'correction_of_entry' THEN
+        INSERT INTO application_correction (application_number, target_field, current_value, requested_value)
+        VALUES (
+            var_application_number,
+            var_correction ->> 'target_field',
+            var_correction ->> 'current_value',
+            var_correction ->> 'requested_value'
+        );
+    END IF;
+
+    IF var_type = 'reinstatement' THEN
+        INSERT INTO application_reinstatement (application_number, reinstatement_type)
+        VALUES (var_application_number, var_reinstatement ->> 'reinstatement_type');
+    END IF;
+
+    IF var_type IN ('register', 'transfer', 'transfer_with_reactivation') THEN
+        INSERT INTO application_declared_address (
+            application_number, house_number_street, barangay, city_municipality, province,
+            barangay_code, city_municipality_code, province_code,
+            months_of_residence_address, years_of_residence_address,
+            months_of_residence_municipality, years_of_residence_municipality, years_in_country
+        ) VALUES (
+            var_application_number,
+            var_address ->> 'house_number_street',
+            var_address ->> 'barangay',
+            var_address ->> 'city_municipality',
+            var_address ->> 'province',
+            NULLIF(var_address ->> 'barangay_code', ''),
+            NULLIF(var_address ->> 'city_municipality_code', ''),
+            NULLIF(var_address ->> 'province_code', ''),
+            (var_address ->> 'months_of_residence_address')::INTEGER,
+            (var_address ->> 'years_of_residence_address')::INTEGER,
+            (var_address ->> 'months_of_residence_municipality')::INTEGER,
+            (var_address ->> 'years_of_residence_municipality')::INTEGER,
+            (var_address ->> 'years_in_country')::INTEGER
+        );
+    END IF;
+
+    -- Score new registrations against existing applicants for possible multiple registration
+    IF var_type = 'register' THEN
+        PERFORM detect_duplicate_applicants(var_application_number);
+    END IF;
+
+    RETURN var_public_facing_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_application(JSONB) TO authenticated;
+
+
+-- Reject status changes that are not listed in application_status_transition.
+-- SQLSTATE ST409 is mapped to IllegalStatusTransitionError in src/services/applicationService.ts
+-- (and ST422, raised by change_application_status, to StatusReasonRequiredError)
+CREATE OR REPLACE FUNCTION public.enforce_application_status_transition()
+RETURNS TRIGGER LANGUAGE plpgsql
+SET search_path = public AS $$
+DECLARE
+    var_action TEXT;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status <> 'pending' THEN
+            RAISE EXCEPTION 'Illegal status transition from (new) to %', NEW.status
+                USING ERRCODE = 'ST409';
+        END IF;
+    ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+        SELECT action INTO var_action FROM application_status_transition
+        WHERE from_status = OLD.status AND to_status = NEW.status;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Illegal status transition from % to %', OLD.status, NEW.status
+                USING ERRCODE = 'ST409';
+        END IF;
+
+        -- Approvals must apply their outcome to the voter's master record, so only apply_application_approval
+        -- may set 'approved'; it raises this transaction-local flag around its status update
+        IF NEW.status = 'approved' AND current_setting('app.applying_approval', true) IS DISTINCT FROM 'on' THEN
+            RAISE EXCEPTION 'Applications can only be approved through approve_application.'
+                USING ERRCODE = '42501';
+        END IF;
+
+        -- The officer's position must allow the action behind the transition (see officer_position_permission),
+        -- unless the change carries out the ERB's decision; cast_erb_ballot raises the app.applying_erb_decision
+        -- flag around it
+        IF NOT officer_has_permission(var_action)
+            AND current_setting('app.applying_erb_decision', true) IS DISTINCT FROM 'on' THEN
+            RAISE EXCEPTION 'Your position does not allow the % action.', var_action
+                USING ERRCODE = '42501';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_application_status_transition
+BEFORE INSERT OR UPDATE OF status ON application
+FOR EACH ROW EXECUTE FUNCTION public.enforce_application_status_transition();
+
+CREATE OR REPLACE FUNCTION public.change_application_status(
+    p_public_facing_id TEXT,
+    p_status TEXT,
+    p_reason TEXT DEFAULT NULL,
+    p_document_checklist JSONB DEFAULT NULL
+)
+RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_officer_id INTEGER;
+    var_application application%ROWTYPE;
+    var_transition application_status_transition%ROWTYPE;
+    var_reason TEXT := NULLIF(TRIM(p_reason), '');
+BEGIN
+    SELECT o.officer_id INTO var_officer_id
+    FROM officer o
+    JOIN app_user u ON u.auth_id = o.auth_id
+    WHERE o.auth_id = auth.uid() AND u.role = 'officer';
+
+    IF var_officer_id IS NULL THEN
+        RAISE EXCEPTION 'Only officers can change the status of applications.' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO var_application FROM application WHERE public_facing_id = p_public_facing_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Application % not found.', p_public_facing_id;
+    END IF;
+    IF NOT officer_can_access_application(var_application.application_number) THEN
+        RAISE EXCEPTION 'Application % is outside your jurisdiction.', p_public_facing_id USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO var_transition FROM application_status_transition
+    WHERE from_status = var_application.status AND to_status = p_status;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Illegal status transition from % to %', var_application.status, p_status
+            USING ERRCODE = 'ST409';
+    END IF;
+    IF var_transition.requires_reason AND var_reason IS NULL THEN
+        RAISE EXCEPTION 'A reason is required to move an application from % to %', var_application.status, p_status
+            USING ERRCODE = 'ST422';
+    END IF;
+
+    -- The status trigger checks the officer's position for the transition's action
+    UPDATE application
+    SET status = p_status,
+        processing_date = CASE WHEN p_status <> 'pending' THEN CURRENT_TIMESTAMP END,
+        -- Only keep reason_for_disapproval while the application is disapproved
+        reason_for_disapproval = CASE WHEN p_status = 'disapproved' THEN var_reason END
+    WHERE application_number = var_application.application_number;
+
+    INSERT INTO officer_assignment (officer_id, application_number, action)
+    VALUES (var_officer_id, var_application.application_number, var_transition.action)
+    ON CONFLICT (officer_id, application_number) DO UPDATE SET action = EXCLUDED.action, assigned_at = CURRENT_TIMESTAMP;
+
+    INSERT INTO application_status_history (application_number, from_status, to_status, officer_id, reason, document_checklist)
+    VALUES (var_application.application_number, var_application.status, p_status, var_officer_id, var_reason, p_document_checklist);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.change_application_status(TEXT, TEXT, TEXT, JSONB) TO authenticated;
+
+
+/*
+  Functions related to approvals:
+
+  - snapshot_applicant_record: JSON snapshot of an applicant's master record (applicant, voter record, deactivations)
+  - apply_application_approval: approves an application and applies its outcome to the voter's master record
+    in a single transaction, keeping before/after snapshots in application_outcome_audit.
+    Applications with possible duplicate registrations that are not dismissed cannot be approved.
+    A precinct given on approval must exist in the precinct table and be below its capacity.
+    Registrations get a generated VIN unless the officer enters a valid, unused one.
+    Registrations cannot be approved until the applicant's biometrics are complete.
+    Not callable by clients; run by approve_application and by cast_erb_ballot for board approvals.
+    Clears the docket's approval_blocked_reason once a board approval that was blocked is applied.
+  - approve_application: checks the officer's jurisdiction and position, then runs apply_application_approval
+
+  Outcomes per application type:
+  - register: creates the voter record and activates the voter
+  - transfer: moves the voter record to the new precinct
+  - reactivation / reinstatement: resolves open deactivation records and activates the voter
+  - transfer_with_reactivation: both of the above
+  - correction_of_entry: writes requested_value into the targeted applicant column
+
+  Approved register, transfer and transfer_with_reactivation applications also replace the voter's
+  current applicant_residence with the application's declared address.
+*/
+CREATE OR REPLACE FUNCTION public.snapshot_applicant_record(p_applicant_id INTEGER)
+RETURNS JSONB LANGUAGE sql STABLE
+SET search_path = public AS $$
+    SELECT jsonb_build_object(
+        'applicant', (SELECT to_jsonb(a) FROM applicant a WHERE a.applicant_id = p_applicant_id),
+        'voter_record', (SELECT to_jsonb(v) FROM applicant_voter_record v WHERE v.applicant_id = p_applicant_id),
+        'residence', (
+            SELECT to_jsonb(r) FROM applicant_residence r
+            WHERE r.applicant_id = p_applicant_id AND r.effective_to IS NULL
+        ),
+        'deactivation_records', COALESCE((
+            SELECT jsonb_agg(to_jsonb(d) ORDER BY d.deactivation_id)
+            FROM applicant_deactivation_record d
+            WHERE d.applicant_id = p_applicant_id
+        ), '[]'::JSONB)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_application_approval(
+    p_application_number INTEGER,
+    p_officer_id INTEGER,
+    p_precinct_number TEXT DEFAULT NULL,
+    p_voter_id TEXT DEFAULT NULL
+)
+RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_application application%ROWTYPE;
+    var_correction application_correction%ROWTYPE;
+    var_before JSONB;
+    var_notes TEXT;
+    var_precinct TEXT := NULLIF(TRIM(p_precinct_number), '');
+    var_voter_id TEXT := NULLIF(TRIM(p_voter_id), '');
+    var_precinct_capacity INTEGER;
+BEGIN
+    SELECT * INTO var_application FROM application WHERE application_number = p_application_number FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Application % not found.', p_application_number;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM applicant_duplicate_match
+        WHERE application_number = var_application.application_number AND status <> 'dismissed'
+    ) THEN
+        RAISE EXCEPTION 'This application has possible duplicate registrations that have not been dismissed.';
+    END IF;
+
+    IF var_application.application_type = 'register' AND NOT EXISTS (
+        SELECT 1 FROM applicant_biometrics
+        WHERE applicant_id = var_application.applicant_id AND is_complete
+    ) THEN
+        RAISE EXCEPTION 'Biometrics (both thumbprints, signature and photo) must be captured before this registration can be approved.';
+    END IF;
+
+    var_before := snapshot_applicant_record(var_application.applicant_id);
+
+    -- A precinct given on approval must exist and have room for one more active voter.
+    -- The row lock serializes concurrent approvals into the same precinct.
+    IF var_precinct IS NOT NULL THEN
+        SELECT capacity INTO var_precinct_capacity FROM precinct WHERE precinct_number = var_precinct FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Precinct % does not exist.', var_precinct;
+        END IF;
+
+        IF (
+            SELECT COUNT(*) FROM applicant_voter_record v
+            JOIN applicant a ON a.applicant_id = v.applicant_id
+            WHERE v.precinct_number = var_precinct
+            AND a.voting_status = 'Active'
+            AND v.applicant_id <> var_application.applicant_id
+        ) >= var_precinct_capacity THEN
+            RAISE EXCEPTION 'Precinct % is at its capacity of % voters.', var_precinct, var_precinct_capacity;
+        END IF;
+    END IF;
+
+    -- The status trigger rejects approvals that are not allowed from the current status,
+    -- and any approval made without the app.applying_approval flag. The flag stays raised while the outcome is
+    -- applied, so protect_voter_record lets the voter record and voting status below be written.
+    PERFORM set_config('app.applying_approval', 'on', true);
+    UPDATE application
+    SET status = 'approved', processing_date = CURRENT_TIMESTAMP, reason_for_disapproval = NULL
+    WHERE application_number = var_application.application_number;
+
+    UPDATE erb_hearing_docket SET approval_blocked_reason = NULL
+    WHERE application_number = var_application.application_number AND approval_blocked_reason IS NOT NULL;
+
+    IF var_application.application_type = 'register' THEN
+        IF var_precinct IS NULL THEN
+            RAISE EXCEPTION 'The precinct number is required to approve a registration.';
+        END IF;
+
+        IF var_voter_id IS NULL THEN
+            var_voter_id := generate_vin(var_precinct);
+        ELSIF NOT is_valid_vin(var_voter_id) THEN
+            RAISE EXCEPTION 'Voter ID % is not a valid VIN (expected RRPPMM-NNNNNN-C with a valid check digit).', var_voter_id;
+        ELSIF EXISTS (
+            SELECT 1 FROM applicant_voter_record
+            WHERE voter_id = var_voter_id AND applicant_id <> var_application.applicant_id
+        ) THEN
+            RAISE EXCEPTION 'Voter ID % is already assigned to another voter.', var_voter_id USING ERRCODE = '23505';
+        END IF;
+
+        INSERT INTO applicant_voter_record (applicant_id, precinct_number, voter_id)
+        VALUES (var_application.applicant_id, var_precinct, var_voter_id)
+        ON CONFLICT (applicant_id) DO UPDATE SET
+            precinct_number = EXCLUDED.precinct_number,
+            voter_id = EXCLUDED.voter_id,
+            voter_id_flagged = FALSE;
+
+        UPDATE applicant SET voting_status = 'Active' WHERE applicant_id = var_application.applicant_id;
+
+        var_notes := format('Voter record created (Precinct %s, Voter ID %s)', var_precinct, var_voter_id);
+    END IF;
+
+    IF var_application.application_type IN ('transfer', 'transfer_with_reactivation') THEN
+        IF var_precinct IS NULL THEN
+            RAISE EXCEPTION 'The new precinct number is required to approve a transfer.';
+        END IF;
+
+        UPDATE applicant_voter_record
+        SET precinct_number = var_precinct
+        WHERE applicant_id = var_application.applicant_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'The applicant has no voter record to transfer.';
+        END IF;
+
+        var_notes := format('Voter record transferred to precinct %s', var_precinct);
+    END IF;
+
+    IF var_application.application_type IN ('reactivation', 'transfer_with_reactivation', 'reinstatement') THEN
+        IF NOT EXISTS (SELECT 1 FROM applicant_voter_record WHERE applicant_id = var_application.applicant_id) THEN
+            RAISE EXCEPTION 'The applicant has no voter record to reactivate.';
+        END IF;
+
+        -- Reinstatements may also move the voter to a different precinct
+        IF var_application.application_type = 'reinstatement' AND var_precinct IS NOT NULL THEN
+            UPDATE applicant_voter_record
+            SET precinct_number = var_precinct
+            WHERE applicant_id = var_application.applicant_id;
+        END IF;
+
+        UPDATE applicant_deactivation_record
+        SET status = 'Resolved'
+        WHERE applicant_id = var_application.applicant_id AND status = 'Unresolved';
+
+        UPDATE applicant SET voting_status = 'Active' WHERE applicant_id = var_application.applicant_id;
+    END IF;
+
+    -- The declared address becomes the residence of record, closing the previous one
+    IF var_application.application_type IN ('register', 'transfer', 'transfer_with_reactivation') THEN
+        UPDATE applicant_residence
+        SET effective_to = CURRENT_DATE
+        WHERE applicant_id = var_application.applicant_id AND effective_to IS NULL;
+
+        INSERT INTO applicant_residence (
+            applicant_id, application_number, house_number_street, barangay, city_municipality, province,
+            barangay_code, city_municipality_code, province_code
+        )
+        SELECT var_application.applicant_id, d.application_number, d.house_number_street, d.barangay, d.city_municipality, d.province,
+               d.barangay_code, d.city_municipality_code, d.province_code
+        FROM application_declared_address d
+        WHERE d.application_number = var_application.application_number;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Application % has no declared address.', var_application.public_facing_id;
+        END IF;
+    END IF;
+
+    IF var_application.application_type = 'correction_of_entry' THEN
+        SELECT * INTO var_correction FROM application_correction
+        WHERE application_number = var_application.application_number;
+
+        CASE var_correction.target_field
+            WHEN 'Name' THEN
+                -- Written as "Last Name, First Name, Middle Name" (middle name optional)
+                IF POSITION(',' IN var_correction.requested_value) = 0 THEN
+                    RAISE EXCEPTION 'Name corrections must be written as "Last Name, First Name, Middle Name".';
+                END IF;
+                UPDATE applicant SET
+                    last_name = TRIM(SPLIT_PART(var_correction.requested_value, ',', 1)),
+                    first_name = TRIM(SPLIT_PART(var_correction.requested_value, ',', 2)),
+                    middle_name = NULLIF(TRIM(SPLIT_PART(var_correction.requested_value, ',', 3)), '')
+                WHERE applicant_id = var_application.applicant_id;
+            WHEN 'Contact Number' THEN
+                UPDATE applicant SET contact_number = TRIM(var_correction.requested_value)
+                WHERE applicant_id = var_application.applicant_id;
+            WHEN 'Email Address' THEN
+                UPDATE applicant SET email_address = TRIM(var_correction.requested_value)
+                WHERE applicant_id = var_application.applicant_id;
+            WHEN 'Spouse name' THEN
+                UPDATE applicant SET spouse_name = TRIM(var_correction.requested_value)
+                WHERE applicant_id = var_application.applicant_id;
+            WHEN 'Date of Birth' THEN
+                UPDATE applicant SET date_of_birth = TRIM(var_correction.requested_value)::DATE
+                WHERE applicant_id = var_application.applicant_id;
+            WHEN 'Place of Birth' THEN
+                -- Written as "City/Municipality, Province"
+                IF POSITION(',' IN var_correction.requested_value) = 0 THEN
+                    RAISE EXCEPTION 'Place of birth corrections must be written as "City/Municipality, Province".';
+                END IF;
+                -- The corrected place is free text; its PSGC codes are resolved again by the address normalizer
+                UPDATE applicant SET
+                    place_of_birth_municipality = TRIM(SPLIT_PART(var_correction.requested_value, ',', 1)),
+                    place_of_birth_province = TRIM(SPLIT_PART(var_correction.requested_value, ',', 2)),
+                    place_of_birth_municipality_code = NULL,
+                    place_of_birth_province_code = NULL
+                WHERE applicant_id = var_application.applicant_id;
+            WHEN 'Father''s Name' THEN
+                UPDATE applicant SET father_name = TRIM(var_correction.requested_value)
+                WHERE applicant_id = var_application.applicant_id;
+            WHEN 'Mother''s Maiden Name' THEN
+                UPDATE applicant SET mother_maiden_name = TRIM(var_correction.requested_value)
+                WHERE applicant_id = var_application.applicant_id;
+            ELSE
+                var_notes := 'Correction of "Other" field must be applied to the record manually.';
+        END CASE;
+    END IF;
+
+    INSERT INTO officer_assignment (officer_id, application_number, action)
+    VALUES (p_officer_id, var_application.application_number, 'approve')
+    ON CONFLICT (officer_id, application_number) DO UPDATE SET action = EXCLUDED.action, assigned_at = CURRENT_TIMESTAMP;
+
+    INSERT INTO application_status_history (application_number, from_status, to_status, officer_id, reason)
+    VALUES (var_application.application_number, var_application.status, 'approved', p_officer_id, var_notes);
+
+    INSERT INTO application_outcome_audit (
+        application_number, applicant_id, application_type,
+        before_snapshot, after_snapshot, notes, officer_id
+    ) VALUES (
+        var_application.application_number,
+        var_application.applicant_id,
+        var_application.application_type,
+        var_before,
+        snapshot_applicant_record(var_application.applicant_id),
+        var_notes,
+        p_officer_id
+    );
+
+    PERFORM set_config('app.applying_approval', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_application_approval(INTEGER, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.approve_application(
+    p_public_facing_id TEXT,
+    p_precinct_number TEXT DEFAULT NULL,
+    p_voter_id TEXT DEFAULT NULL
+)
+RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_officer_id INTEGER;
+    var_application application%ROWTYPE;
+BEGIN
+    SELECT o.officer_id INTO var_officer_id
+    FROM officer o
+    JOIN app_user u ON u.auth_id = o.auth_id
+    WHERE o.auth_id = auth.uid() AND u.role = 'officer';
+
+    IF var_officer_id IS NULL THEN
+        RAISE EXCEPTION 'Only officers can approve applications.' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO var_application FROM application WHERE public_facing_id = p_public_facing_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Application % not found.', p_public_facing_id;
+    END IF;
+    IF NOT officer_can_access_application(var_application.application_number) THEN
+        RAISE EXCEPTION 'Application % is outside your jurisdiction.', p_public_facing_id USING ERRCODE = '42501';
+    END IF;
+    IF var_application.application_type = 'register' AND NOT officer_has_permission('assign_vin') THEN
+        RAISE EXCEPTION 'Your position does not allow assigning voter IDs.' USING ERRCODE = '42501';
+    END IF;
+
+    PERFORM apply_application_approval(var_application.application_number, var_officer_id, p_precinct_number, p_voter_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.approve_application(TEXT, TEXT, TEXT) TO authenticated;
+
+
+/*
+  Functions related to deactivation:
+
+  - deactivate_voters: deactivates one or more Active voters for one of the statutory reasons.
+    Each voter gets an Unresolved applicant_deactivation_record, voting_status 'Deactivated'
+    and a voter_notification. Voters that are not Active or are outside the officer's jurisdictions are skipped;
+    the number deactivated is returned.
+    Deactivation records are resolved again by approving a reactivation (see approve_application).
+*/
+CREATE OR REPLACE FUNCTION public.deactivate_voters(
+    p_applicant_ids INTEGER[],
+    p_reason TEXT,
+    p_deactivation_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_applicant_id INTEGER;
+    var_count INTEGER := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM officer o
+        JOIN app_user u ON u.auth_id = o.auth_id
+        WHERE o.auth_id = auth.uid() AND u.role = 'officer'
+    ) THEN
+        RAISE EXCEPTION 'Only officers can deactivate voters.' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_deactivation_date > CURRENT_DATE THEN
+        RAISE EXCEPTION 'The deactivation date cannot be in the future.';
+    END IF;
+
+    -- Lets protect_voter_record accept the status changes below from officers who cannot assign voter IDs
+    PERFORM set_config('app.deactivating_voters', 'on', true);
+
+    FOR var_applicant_id IN
+        SELECT applicant_id FROM applicant
+        WHERE applicant_id = ANY(p_applicant_ids) AND voting_status = 'Active'
+          AND officer_can_access_applicant(applicant_id)
+        FOR UPDATE
+    LOOP
+        -- The CHECK constraint on reason rejects anything but the statutory grounds
+        INSERT INTO applicant_deactivation_record (applicant_id, reason, deactivation_date, status)
+        VALUES (var_applicant_id, p_reason, p_deactivation_date, 'Unresolved');
+
+        UPDATE applicant SET voting_status = 'Deactivated' WHERE applicant_id = var_applicant_id;
+
+        INSERT INTO voter_notification (applicant_id, title, message)
+        VALUES (
+            var_applicant_id,
+            'Your voter registration has been deactivated',
+            format(
+                'Your registration was deactivated effective %s. Ground: "%s". To vote again, file an application for reactivation.',
+                to_char(p_deactivation_date, 'FMMonth DD, YYYY'),
+                p_reason
+            )
+        );
+
+        var_count := var_count + 1;
+    END LOOP;
+
+    PERFORM set_config('app.deactivating_voters', 'off', true);
+
+    RETURN var_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.deactivate_voters(INTEGER[], TEXT, DATE) TO authenticated;
+
+
+/*
+  Functions related to election participation:
+
+  - import_election_participation: upserts participation rows for an election from the precinct book of voters.
+    p_rows is a JSON array of { "voter_id": TEXT, "voted": BOOLEAN }. Rows are matched to voters by voter ID;
+    voters outside the officer's jurisdictions are left out. Returns { "imported": INTEGER,
+    "unmatched": [voter IDs not found], "outside_jurisdiction": [voter IDs of voters left out] }.
+  - get_two_miss_deactivation_candidates: Active voters within the officer's jurisdictions recorded as not voting
+    in both of the two most recent regular elections, for ERB review before deactivation (see deactivate_voters)
+*/
+CREATE OR REPLACE FUNCTION public.import_election_participation(p_election_id INTEGER, p_rows JSONB)
+RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_imported INTEGER;
+    var_unmatched JSONB;
+    var_outside JSONB;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM app_user WHERE auth_id = auth.uid() AND role = 'officer') THEN
+        RAISE EXCEPTION 'Only officers can import election participation.' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM election WHERE election_id = p_election_id) THEN
+        RAISE EXCEPTION 'Election % not found.', p_election_id;
+    END IF;
+
+    WITH input AS (
+        SELECT TRIM(r ->> 'voter_id') AS voter_id, (r ->> 'voted')::BOOLEAN AS voted
+        FROM jsonb_array_elements(p_rows) AS r
+    ), upserted AS (
+        INSERT INTO election_participation (election_id, applicant_id, voted)
+        SELECT DISTINCT ON (v.applicant_id) p_election_id, v.applicant_id, i.voted
+        FROM input i
+        JOIN applicant_voter_record v ON v.voter_id = i.voter_id
+        WHERE officer_can_access_applicant(v.applicant_id)
+        ON CONFLICT (election_id, applicant_id) DO UPDATE SET
+            voted = EXCLUDED.voted,
+            imported_at = CURRENT_TIMESTAMP
+        RETURNING 1
+    )
+    SELECT COUNT(*) INTO var_imported FROM upserted;
+
+    SELECT COALESCE(jsonb_agg(DISTINCT i.voter_id), '[]'::JSONB) INTO var_unmatched
+    FROM (
+        SELECT TRIM(r ->> 'voter_id') AS voter_id
+        FROM jsonb_array_elements(p_rows) AS r
+    ) i
+    WHERE NOT EXISTS (SELECT 1 FROM applicant_voter_record v WHERE v.voter_id = i.voter_id);
+
+    SELECT COALESCE(jsonb_agg(DISTINCT v.voter_id), '[]'::JSONB) INTO var_outside
+    FROM jsonb_array_elements(p_rows) AS r
+    JOIN applicant_voter_record v ON v.voter_id = TRIM(r ->> 'voter_id')
+    WHERE NOT officer_can_access_applicant(v.applicant_id);
+
+    RETURN jsonb_build_object('imported', var_imported, 'unmatched', var_unmatched, 'outside_jurisdiction', var_outside);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_election_participation(INTEGER, JSONB) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_two_miss_deactivation_candidates()
+RETURNS TABLE (
+    applicant_id INTEGER,
+    first_name VARCHAR,
+    last_name VARCHAR,
+    middle_name VARCHAR,
+    voter_id VARCHAR,
+    precinct_number VARCHAR,
+    missed_elections TEXT[]
+) LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+    WITH last_two AS (
+        SELECT election_id, name, election_date
+        FROM election
+        WHERE election_type = 'Regular' AND election_date <= CURRENT_DATE
+        ORDER BY election_date DESC
+        LIMIT 2
+    )
+    SELECT a.applicant_id, a.first_name, a.last_name, a.middle_name, v.voter_id, v.precinct_number,
+           ARRAY_AGG(l.name ORDER BY l.election_date)
+    FROM applicant a
+    JOIN applicant_voter_record v ON v.applicant_id = a.applicant_id
+    JOIN election_participation p ON p.applicant_id = a.applicant_id AND p.voted = FALSE
+    JOIN last_two l ON l.election_id = p.election_id
+    WHERE a.voting_status = 'Active'
+      AND EXISTS (SELECT 1 FROM app_user WHERE auth_id = auth.uid() AND role = 'officer')
+      AND officer_can_access_applicant(a.applicant_id)
+      AND (SELECT COUNT(*) FROM last_two) = 2
+    GROUP BY a.applicant_id, a.first_name, a.last_name, a.middle_name, v.voter_id, v.precinct_number
+    HAVING COUNT(*) = 2
+    ORDER BY a.last_name, a.first_name;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_two_miss_deactivation_candidates() TO authenticated;
+
+
+/*
+  Functions related to ERB hearings:
+
+  - assign_application_to_hearing: puts a verified application on a session's docket, moving it from any
+    previous session. Raises if the session is full or already held. Returns the docket number.
+  - sync_erb_hearing_date: trigger copying the assigned session's date to application.erb_hearing_date
+  - cast_erb_ballot: records the signed-in Board Member's vote on a docket entry of a session whose board they
+    sit on, from the hearing date onwards. Returns the board's decision, or NULL while it is still open.
+
+  Quorum and majority: a side wins once it holds a majority of the whole board (which also means a quorum has
+  voted), so the remaining ballots cannot change the outcome. A board split evenly after every member has voted
+  defers the application to a later hearing. The decision is carried out on the application in the same
+  transaction: approvals through apply_application_approval (registrations and transfers go to the suggested
+  precinct), disapprovals with the disapproving members' notes as the reason. An approval that cannot be applied
+  (no precinct with room, undismissed duplicates, missing biometrics) leaves the application verified with the
+  cause in erb_hearing_docket.approval_blocked_reason; an Election Officer approves it once the cause is resolved.
+*/
+CREATE OR REPLACE FUNCTION public.assign_application_to_hearing(p_public_facing_id TEXT, p_session_id INTEGER)
+RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_application application%ROWTYPE;
+    var_session erb_hearing_session%ROWTYPE;
+    var_docket_number INTEGER;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM app_user WHERE auth_id = auth.uid() AND role = 'officer') THEN
+        RAISE EXCEPTION 'Only officers can schedule hearings.' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO var_application FROM application WHERE public_facing_id = p_public_facing_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Application % not found.', p_public_facing_id;
+    END IF;
+    IF NOT officer_can_access_application(var_application.application_number) THEN
+        RAISE EXCEPTION 'Application % is outside your jurisdiction.', p_public_facing_id USING ERRCODE = '42501';
+    END IF;
+    IF NOT officer_has_permission('schedule_hearing') THEN
+        RAISE EXCEPTION 'Your position does not allow scheduling hearings.' USING ERRCODE = '42501';
+    END IF;
+    IF var_application.status <> 'verified' THEN
+        RAISE EXCEPTION 'Only verified applications can be scheduled for an ERB hearing.';
+    END IF;
+
+    -- Lock the session so concurrent assignments cannot exceed its capacity
+    SELECT * INTO var_session FROM erb_hearing_session WHERE session_id = p_session_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Hearing session % not found.', p_session_id;
+    END IF;
+    IF var_session.hearing_date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'This hearing session has already been held.';
+    END IF;
+
+    SELECT docket_number INTO var_docket_number
+    FROM erb_hearing_docket
+    WHERE application_number = var_application.application_number AND session_id = p_session_id;
+    IF FOUND THEN
+        RETURN var_docket_number;
+    END IF;
+
+    IF (SELECT COUNT(*) FROM erb_hearing_docket WHERE session_id = p_session_id) >= var_session.capacity THEN
+        RAISE EXCEPTION 'This hearing session is full (capacity %).', var_session.capacity;
+    END IF;
+
+    SELECT COALESCE(MAX(docket_number), 0) + 1 INTO var_docket_number
+    FROM erb_hearing_docket WHERE session_id = p_session_id;
+
+    -- Ballots cast in a previous session do not carry over to the new one
+    DELETE FROM erb_hearing_ballot WHERE application_number = var_application.application_number;
+
+    INSERT INTO erb_hearing_docket (application_number, session_id, docket_number)
+    VALUES (var_application.application_number, p_session_id, var_docket_number)
+    ON CONFLICT (application_number) DO UPDATE SET
+        session_id = EXCLUDED.session_id,
+        docket_number = EXCLUDED.docket_number,
+        decision = NULL,
+        decision_notes = NULL,
+        decided_by = NULL,
+        decided_at = NULL,
+        approval_blocked_reason = NULL;
+
+    RETURN var_docket_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.assign_application_to_hearing(TEXT, INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_erb_hearing_date()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        UPDATE application SET erb_hearing_date = NULL
+        WHERE application_number = OLD.application_number;
+        RETURN OLD;
+    END IF;
+
+    UPDATE application
+    SET erb_hearing_date = (SELECT hearing_date FROM erb_hearing_session WHERE session_id = NEW.session_id)
+    WHERE application_number = NEW.application_number;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_erb_hearing_date
+AFTER INSERT OR DELETE OR UPDATE OF session_id ON erb_hearing_docket
+FOR EACH ROW EXECUTE FUNCTION public.sync_erb_hearing_date();
+
+CREATE OR REPLACE FUNCTION public.cast_erb_ballot(
+    p_application_number INTEGER,
+    p_vote TEXT,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS TEXT LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_officer_id INTEGER;
+    var_docket erb_hearing_docket%ROWTYPE;
+    var_application application%ROWTYPE;
+    var_hearing_date DATE;
+    var_members INTEGER;
+    var_approvals INTEGER;
+    var_disapprovals INTEGER;
+    var_decision TEXT;
+    var_precinct TEXT;
+    var_reason TEXT;
+BEGIN
+    SELECT o.officer_id INTO var_officer_id
+    FROM officer o
+    JOIN app_user u ON u.auth_id = o.auth_id
+    WHERE o.auth_id = auth.uid() AND u.role = 'officer';
+
+    IF var_officer_id IS NULL THEN
+        RAISE EXCEPTION 'Only officers can vote on ERB hearings.' USING ERRCODE = '42501';
+    END IF;
+    IF NOT officer_has_permission('record_hearing_decision') THEN
+        RAISE EXCEPTION 'Your position does not allow voting on ERB decisions.' USING ERRCODE = '42501';
+    END IF;
+
+    -- Lock the docket entry so concurrent ballots are tallied one at a time
+    SELECT * INTO var_docket FROM erb_hearing_docket WHERE application_number = p_application_number FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This application is not on any hearing docket.';
+    END IF;
+
+    SELECT * INTO var_application FROM application WHERE application_number = p_application_number;
+    IF NOT officer_can_access_application(p_application_number) THEN
+        RAISE EXCEPTION 'Application % is outside your jurisdiction.', var_application.public_facing_id USING ERRCODE = '42501';
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM erb_hearing_board
+        WHERE session_id = var_docket.session_id AND officer_id = var_officer_id
+    ) THEN
+        RAISE EXCEPTION 'You are not on the board for this hearing.' USING ERRCODE = '42501';
+    END IF;
+    IF var_docket.decision IS NOT NULL THEN
+        RAISE EXCEPTION 'The board has already decided on application %.', var_application.public_facing_id;
+    END IF;
+    IF var_application.status <> 'verified' THEN
+        RAISE EXCEPTION 'Only verified applications can be voted on.';
+    END IF;
+
+    SELECT hearing_date INTO var_hearing_date FROM erb_hearing_session WHERE session_id = var_docket.session_id;
+    IF var_hearing_date > CURRENT_DATE THEN
+        RAISE EXCEPTION 'Ballots can be cast from the hearing date (%) onwards.', var_hearing_date;
+    END IF;
+
+    IF p_vote NOT IN ('approve', 'disapprove') THEN
+        RAISE EXCEPTION 'A ballot must either approve or disapprove the application.';
+    END IF;
+    IF p_vote = 'disapprove' AND NULLIF(TRIM(p_notes), '') IS NULL THEN
+        RAISE EXCEPTION 'A vote to disapprove must give the grounds in its note.';
+    END IF;
+
+    INSERT INTO erb_hearing_ballot (application_number, session_id, officer_id, vote, notes)
+    VALUES (p_application_number, var_docket.session_id, var_officer_id, p_vote, NULLIF(TRIM(p_notes), ''))
+    ON CONFLICT (application_number, officer_id) DO UPDATE SET
+        vote = EXCLUDED.vote,
+        notes = EXCLUDED.notes,
+        cast_at = CURRENT_TIMESTAMP;
+
+    SELECT COUNT(*) INTO var_members FROM erb_hearing_board WHERE session_id = var_docket.session_id;
+
+    SELECT COUNT(*) FILTER (WHERE vote = 'approve'), COUNT(*) FILTER (WHERE vote = 'disapprove')
+    INTO var_approvals, var_disapprovals
+    FROM erb_hearing_ballot
+    WHERE application_number = p_application_number AND session_id = var_docket.session_id;
+
+    IF var_approvals * 2 > var_members THEN
+        var_decision := 'approved';
+    ELSIF var_disapprovals * 2 > var_members THEN
+        var_decision := 'disapproved';
+    ELSIF var_approvals + var_disapprovals = var_members THEN
+        var_decision := 'deferred';
+    ELSE
+        RETURN NULL;
+    END IF;
+
+    UPDATE erb_hearing_docket SET
+        decision = var_decision,
+        decision_notes = format('Voted %s to approve, %s to disapprove (board of %s).', var_approvals, var_disapprovals, var_members),
+        decided_by = var_officer_id,
+        decided_at = CURRENT_TIMESTAMP
+    WHERE application_number = p_application_number;
+
+    -- Board Members may lack the approve and disapprove permissions, so the status trigger is told that this
+    -- change carries out the board's decision
+    PERFORM set_config('app.applying_erb_decision', 'on', true);
+
+    IF var_decision = 'approved' THEN
+        -- An approval that cannot be applied does not undo the vote: the ballots and the decision stay recorded,
+        -- the application stays verified and the docket shows why
+        BEGIN
+            IF var_application.application_type IN ('register', 'transfer', 'transfer_with_reactivation') THEN
+                var_precinct := suggest_precinct(p_application_number);
+                IF var_precinct IS NULL THEN
+                    RAISE EXCEPTION 'No precinct in the declared barangay of application % has room for another voter.',
+                        var_application.public_facing_id;
+                END IF;
+            END IF;
+
+            PERFORM apply_application_approval(p_application_number, var_officer_id, var_precinct, NULL);
+        EXCEPTION WHEN OTHERS THEN
+            UPDATE erb_hearing_docket SET approval_blocked_reason = SQLERRM
+            WHERE application_number = p_application_number;
+        END;
+    ELSIF var_decision = 'disapproved' THEN
+        SELECT 'Disapproved by the Election Registration Board: ' || STRING_AGG(notes, '; ' ORDER BY cast_at)
+        INTO var_reason
+        FROM erb_hearing_ballot
+        WHERE application_number = p_application_number AND session_id = var_docket.session_id AND vote = 'disapprove';
+
+        UPDATE application
+        SET status = 'disapproved', processing_date = CURRENT_TIMESTAMP, reason_for_disapproval = var_reason
+        WHERE application_number = p_application_number;
+
+        INSERT INTO officer_assignment (officer_id, application_number, action)
+        VALUES (var_officer_id, p_application_number, 'disapprove')
+        ON CONFLICT (officer_id, application_number) DO UPDATE SET action = EXCLUDED.action, assigned_at = CURRENT_TIMESTAMP;
+
+        INSERT INTO application_status_history (application_number, from_status, to_status, officer_id, reason)
+        VALUES (p_application_number, var_application.status, 'disapproved', var_officer_id, var_reason);
+    END IF;
+
+    PERFORM set_config('app.applying_erb_decision', 'off', true);
+
+    RETURN var_decision;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cast_erb_ballot(INTEGER, TEXT, TEXT) TO authenticated;
+
+
+/*
+  Functions related to registration periods:
+
+  - get_registration_windows: each registration period's dates and application types as they apply to a
+    municipality, i.e. with the municipality's override when it has one. Not callable by clients.
+  - get_registration_status: whether each application type can be filed today in a municipality (by default the
+    caller's current residence), with the reason when it cannot and the date the current period closes
+*/
+CREATE OR REPLACE FUNCTION public.get_registration_windows(p_city_municipality TEXT, p_province TEXT)
+RETURNS TABLE (
+    name TEXT,
+    start_date DATE,
+    end_date DATE,
+    allowed TEXT[],
+    override_reason TEXT
+)
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+    SELECT p.name::TEXT,
+           COALESCE(o.start_date, p.start_date),
+           COALESCE(o.end_date, p.end_date),
+           COALESCE(o.allowed_application_types, p.allowed_application_types),
+           o.reason
+    FROM registration_period p
+    LEFT JOIN registration_period_override o
+        ON o.period_id = p.period_id
+        AND LOWER(o.city_municipality) = LOWER(p_city_municipality)
+        AND LOWER(o.province) = LOWER(p_province);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_registration_windows(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_registration_status(
+    p_city_municipality TEXT DEFAULT NULL,
+    p_province TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    application_type TEXT,
+    is_open BOOLEAN,
+    reason TEXT,
+    period_name TEXT,
+    opens_on DATE,
+    closes_on DATE
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_city TEXT := p_city_municipality;
+    var_province TEXT := p_province;
+    var_types TEXT[] := ARRAY['register', 'transfer', 'reactivation', 'transfer_with_reactivation', 'correction_of_entry', 'reinstatement'];
+BEGIN
+    -- Registration is not suspended until officers configure a period
+    IF NOT EXISTS (SELECT 1 FROM registration_period) THEN
+        RETURN QUERY SELECT unnest(var_types), TRUE, NULL::TEXT, NULL::TEXT, NULL::DATE, NULL::DATE;
+        RETURN;
+    END IF;
+
+    IF var_city IS NULL THEN
+        SELECT r.city_municipality, r.province INTO var_city, var_province
+        FROM applicant_residence r
+        JOIN applicant a ON a.applicant_id = r.applicant_id
+        WHERE a.auth_id = auth.uid() AND r.effective_to IS NULL;
+    END IF;
+
+    RETURN QUERY
+    WITH windows AS (
+        SELECT * FROM get_registration_windows(var_city, var_province)
+    )
+    SELECT t.type_code,
+           cur.name IS NOT NULL,
+           CASE
+               WHEN cur.name IS NOT NULL THEN NULL
+               WHEN other.name IS NOT NULL THEN COALESCE(
+                   other.override_reason,
+                   format('Not accepted during %s.', other.name)
+               )
+               WHEN nxt.start_date IS NOT NULL THEN
+                   format('Registration is suspended until %s.', to_char(nxt.start_date, 'FMMonth FMDD, YYYY'))
+               ELSE 'Registration is suspended.'
+           END,
+           COALESCE(cur.name, other.name),
+           CASE WHEN cur.name IS NULL THEN nxt.start_date END,
+           cur.end_date
+    FROM unnest(var_types) AS t(type_code)
+    -- Open period accepting this type
+    LEFT JOIN LATERAL (
+        SELECT w.name, w.end_date FROM windows w
+        WHERE CURRENT_DATE BETWEEN w.start_date AND w.end_date AND t.type_code = ANY(w.allowed)
+        ORDER BY w.end_date DESC LIMIT 1
+    ) cur ON TRUE
+    -- Open period that does not accept this type
+    LEFT JOIN LATERAL (
+        SELECT w.name, w.override_reason FROM windows w
+        WHERE CURRENT_DATE BETWEEN w.start_date AND w.end_date
+        ORDER BY w.end_date DESC LIMIT 1
+    ) other ON TRUE
+    -- Next period accepting this type
+    LEFT JOIN LATERAL (
+        SELECT w.start_date FROM windows w
+        WHERE w.start_date > CURRENT_DATE AND t.type_code = ANY(w.allowed)
+        ORDER BY w.start_date LIMIT 1
+    ) nxt ON TRUE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_registration_status(TEXT, TEXT) TO authenticated;
+
+
+/*
+  Functions related to biometrics appointments:
+
+  - get_appointment_closure_reason: why no appointments can be held on a date (past, holiday, outside every
+    registration period), or NULL when the office is open for appointments. Periods are resolved for the given
+    municipality through get_registration_windows; without one, a period or any municipality's override keeps
+    the office open.
+  - get_application_municipality: the city/municipality and province an application is processed in: its
+    declared address, or the applicant's current residence
+  - get_biometrics_slots: slots between two dates with their booked counts and closure reason, for an
+    application's municipality when one is given
+  - create_biometrics_slots: opens an office day by splitting a time range into slots of equal length
+  - book_biometrics_appointment: books an application into a slot, or moves its appointment to another slot.
+    Callable by the applicant who owns the application and by officers within its jurisdiction.
+    Raises if the slot is full or closed.
+  - cancel_biometrics_appointment: cancels an application's booked appointment, with the same callers
+
+  Dates and times are the office's (Asia/Manila), whatever the database server's time zone.
+*/
+CREATE OR REPLACE FUNCTION public.get_appointment_closure_reason(
+    p_date DATE,
+    p_city_municipality TEXT DEFAULT NULL,
+    p_province TEXT DEFAULT NULL
+)
+RETURNS TEXT LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_holiday_name TEXT;
+BEGIN
+    IF p_date < (now() AT TIME ZONE 'Asia/Manila')::DATE THEN
+        RETURN 'This date has passed.';
+    END IF;
+
+    SELECT name INTO var_holiday_name FROM office_holiday WHERE holiday_date = p_date;
+    IF FOUND THEN
+        RETURN format('The office is closed for %s.', var_holiday_name);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM registration_period) THEN
+        RETURN NULL;
+    END IF;
+
+    IF p_city_municipality IS NULL THEN
+        IF NOT EXISTS (SELECT 1 FROM registration_period WHERE p_date BETWEEN start_date AND end_date)
+           AND NOT EXISTS (SELECT 1 FROM registration_period_override WHERE p_date BETWEEN start_date AND end_date) THEN
+            RETURN 'Registration is suspended on this date.';
+        END IF;
+    ELSIF NOT EXISTS (
+        SELECT 1 FROM get_registration_windows(p_city_municipality, p_province) w
+        WHERE p_date BETWEEN w.start_date AND w.end_date
+    ) THEN
+        RETURN 'Registration is suspended on this date.';
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_appointment_closure_reason(DATE, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_application_municipality(p_application_number INTEGER)
+RETURNS TABLE (city_municipality TEXT, province TEXT)
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+    SELECT COALESCE(d.city_municipality, r.city_municipality)::TEXT, COALESCE(d.province, r.province)::TEXT
+    FROM application a
+    LEFT JOIN application_declared_address d ON d.application_number = a.application_number
+    LEFT JOIN applicant_residence r ON r.applicant_id = a.applicant_id AND r.effective_to IS NULL
+    WHERE a.application_number = p_application_number;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_application_municipality(INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_biometrics_slots(p_from DATE, p_to DATE, p_public_facing_id TEXT DEFAULT NULL)
+RETURNS TABLE (
+    slot_id INTEGER,
+    slot_date DATE,
+    start_time TIME,
+    end_time TIME,
+    capacity INTEGER,
+    booked_count INTEGER,
+    closure_reason TEXT
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_city TEXT;
+    var_province TEXT;
+BEGIN
+    -- Only the caller's own application, or one in the officer's jurisdiction, decides the municipality
+    IF p_public_facing_id IS NOT NULL THEN
+        SELECT m.city_municipality, m.province INTO var_city, var_province
+        FROM application a
+        CROSS JOIN LATERAL get_application_municipality(a.application_number) m
+        WHERE a.public_facing_id = p_public_facing_id
+          AND (EXISTS (SELECT 1 FROM applicant WHERE applicant_id = a.applicant_id AND auth_id = auth.uid())
+               OR officer_can_access_application(a.application_number));
+    END IF;
+
+    -- Counts are computed here so applicants see availability without reading other applicants' appointments
+    RETURN QUERY
+    SELECT s.slot_id, s.slot_date, s.start_time, s.end_time, s.capacity,
+           COUNT(ba.application_number) FILTER (WHERE ba.status <> 'cancelled')::INTEGER,
+           public.get_appointment_closure_reason(s.slot_date, var_city, var_province)
+    FROM biometrics_slot s
+    LEFT JOIN biometrics_appointment ba ON ba.slot_id = s.slot_id
+    WHERE s.slot_date BETWEEN p_from AND p_to
+    GROUP BY s.slot_id
+    ORDER BY s.slot_date, s.start_time;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_biometrics_slots(DATE, DATE, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_biometrics_slots(
+    p_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_slot_minutes INTEGER,
+    p_capacity INTEGER
+)
+RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_officer_id INTEGER;
+    var_closure_reason TEXT;
+    var_slot_start TIME := p_start_time;
+    var_created INTEGER := 0;
+    var_inserted INTEGER;
+BEGIN
+    SELECT o.officer_id INTO var_officer_id
+    FROM app_user u
+    JOIN officer o ON o.auth_id = u.auth_id
+    WHERE u.auth_id = auth.uid() AND u.role = 'officer';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only officers can open appointment slots.' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_slot_minutes IS NULL OR p_slot_minutes < 5 THEN
+        RAISE EXCEPTION 'Slots must be at least 5 minutes long.';
+    END IF;
+    IF p_end_time <= p_start_time THEN
+        RAISE EXCEPTION 'The office day must end after it starts.';
+    END IF;
+
+    var_closure_reason := public.get_appointment_closure_reason(p_date);
+    IF var_closure_reason IS NOT NULL THEN
+        RAISE EXCEPTION 'Appointments cannot be held on %: %', to_char(p_date, 'FMMonth FMDD, YYYY'), var_closure_reason;
+    END IF;
+
+    -- Only whole slots that end by p_end_time; existing slots at the same start time are kept
+    WHILE var_slot_start + make_interval(mins => p_slot_minutes) <= p_end_time
+          AND var_slot_start + make_interval(mins => p_slot_minutes) > var_slot_start LOOP
+        INSERT INTO biometrics_slot (slot_date, start_time, end_time, capacity, created_by)
+        VALUES (p_date, var_slot_start, var_slot_start + make_interval(mins => p_slot_minutes), p_capacity, var_officer_id)
+        ON CONFLICT (slot_date, start_time) DO NOTHING;
+
+        GET DIAGNOSTICS var_inserted = ROW_COUNT;
+        var_created := var_created + var_inserted;
+        var_slot_start := var_slot_start + make_interval(mins => p_slot_minutes);
+    END LOOP;
+
+    RETURN var_created;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_biometrics_slots(DATE, TIME, TIME, INTEGER, INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.book_biometrics_appointment(p_public_facing_id TEXT, p_slot_id INTEGER)
+RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_application application%ROWTYPE;
+    var_slot biometrics_slot%ROWTYPE;
+    var_current biometrics_appointment%ROWTYPE;
+    var_closure_reason TEXT;
+    var_city TEXT;
+    var_province TEXT;
+    var_office_now TIMESTAMP := now() AT TIME ZONE 'Asia/Manila';
+BEGIN
+    SELECT * INTO var_application FROM application WHERE public_facing_id = p_public_facing_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Application % not found.', p_public_facing_id;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM applicant WHERE applicant_id = var_application.applicant_id AND auth_id = auth.uid()) THEN
+        IF NOT EXISTS (SELECT 1 FROM app_user WHERE auth_id = auth.uid() AND role = 'officer') THEN
+            RAISE EXCEPTION 'You can only book appointments for your own applications.' USING ERRCODE = '42501';
+        END IF;
+        IF NOT officer_can_access_application(var_application.application_number) THEN
+            RAISE EXCEPTION 'Application % is outside your jurisdiction.', p_public_facing_id USING ERRCODE = '42501';
+        END IF;
+    END IF;
+
+    IF var_application.status NOT IN ('pending', 'verified') THEN
+        RAISE EXCEPTION 'Appointments can only be booked while the application is being processed.';
+    END IF;
+
+    SELECT * INTO var_current FROM biometrics_appointment WHERE application_number = var_application.application_number;
+    IF FOUND AND var_current.status = 'attended' THEN
+        RAISE EXCEPTION 'Biometrics for this application have already been captured.';
+    END IF;
+
+    -- Lock the slot so concurrent bookings cannot exceed its capacity
+    SELECT * INTO var_slot FROM biometrics_slot WHERE slot_id = p_slot_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Appointment slot % not found.', p_slot_id;
+    END IF;
+    IF var_slot.slot_date = var_office_now::DATE AND var_slot.start_time <= var_office_now::TIME THEN
+        RAISE EXCEPTION 'This appointment slot has already started.';
+    END IF;
+
+    SELECT city_municipality, province INTO var_city, var_province
+    FROM get_application_municipality(var_application.application_number);
+    var_closure_reason := public.get_appointment_closure_reason(var_slot.slot_date, var_city, var_province);
+    IF var_closure_reason IS NOT NULL THEN
+        RAISE EXCEPTION '%', var_closure_reason;
+    END IF;
+
+    IF var_current.slot_id = p_slot_id AND var_current.status = 'booked' THEN
+        RETURN;
+    END IF;
+
+    IF (SELECT COUNT(*) FROM biometrics_appointment WHERE slot_id = p_slot_id AND status <> 'cancelled') >= var_slot.capacity THEN
+        RAISE EXCEPTION 'This appointment slot is full. Please choose another time.';
+    END IF;
+
+    INSERT INTO biometrics_appointment (application_number, slot_id)
+    VALUES (var_application.application_number, p_slot_id)
+    ON CONFLICT (application_number) DO UPDATE SET
+        slot_id = EXCLUDED.slot_id,
+        status = 'booked',
+        booked_at = CURRENT_TIMESTAMP,
+        marked_by = NULL,
+        marked_at = NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.book_biometrics_appointment(TEXT, INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_biometrics_appointment(p_public_facing_id TEXT)
+RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_application application%ROWTYPE;
+BEGIN
+    SELECT * INTO var_application FROM application WHERE public_facing_id = p_public_facing_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Application % not found.', p_public_facing_id;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM applicant WHERE applicant_id = var_application.applicant_id AND auth_id = auth.uid()) THEN
+        IF NOT EXISTS (SELECT 1 FROM app_user WHERE auth_id = auth.uid() AND role = 'officer') THEN
+            RAISE EXCEPTION 'You can only cancel appointments for your own applications.' USING ERRCODE = '42501';
+        END IF;
+        IF NOT officer_can_access_application(var_application.application_number) THEN
+            RAISE EXCEPTION 'Application % is outside your jurisdiction.', p_public_facing_id USING ERRCODE = '42501';
+        END IF;
+    END IF;
+
+    UPDATE biometrics_appointment
+    SET status = 'cancelled'
+    WHERE application_number = var_application.application_number AND status = 'booked';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This application has no booked appointment to cancel.';
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_biometrics_appointment(TEXT) TO authenticated;
+
+
+/*
+  Functions related to precincts:
+
+  - get_precincts: precinct master data with the number of active voters registered in each precinct
+  - suggest_precinct: the first precinct (by number) in an application's declared barangay and city/municipality
+    that is still below capacity, as suggestPrecinct in src/services/precinctService.ts. Used for board approvals.
+  - vin_check_digit: Luhn check digit of a string of digits
+  - is_valid_vin: whether a voter ID has the VIN structure RRPPMM-NNNNNN-C (locality code, sequence, check digit)
+  - generate_vin: issues the next VIN for a precinct's locality, skipping numbers already in use
+  - reissue_voter_id: replaces a voter's ID with a newly generated VIN and notifies the voter
+  - protect_voter_record: trigger rejecting direct writes of voter IDs and voting statuses by officers whose
+    position does not allow assigning voter IDs. apply_application_approval and deactivate_voters raise the
+    app.applying_approval and app.deactivating_voters flags around their own writes; changes made in SQL without
+    a signed-in user (migrations) are not checked.
+*/
+CREATE OR REPLACE FUNCTION public.get_precincts()
+RETURNS TABLE (
+    precinct_number VARCHAR,
+    barangay VARCHAR,
+    city_municipality VARCHAR,
+    province VARCHAR,
+    locality_code CHAR,
+    polling_place VARCHAR,
+    capacity INTEGER,
+    clustered_precinct VARCHAR,
+    registered_voters INTEGER
+)
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM app_user WHERE auth_id = auth.uid() AND role = 'officer') THEN
+        RAISE EXCEPTION 'Only officers can view precinct capacity.' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT p.precinct_number, p.barangay, p.city_municipality, p.province, p.locality_code, p.polling_place,
+           p.capacity, p.clustered_precinct, COUNT(a.applicant_id)::INTEGER
+    FROM precinct p
+    LEFT JOIN applicant_voter_record v ON v.precinct_number = p.precinct_number
+    LEFT JOIN applicant a ON a.applicant_id = v.applicant_id AND a.voting_status = 'Active'
+    GROUP BY p.precinct_number
+    ORDER BY p.city_municipality, p.barangay, p.precinct_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_precincts() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.suggest_precinct(p_application_number INTEGER)
+RETURNS TEXT LANGUAGE sql STABLE
+SET search_path = public AS $$
+    -- Place names are compared the way normalizePlaceName does ("Brgy. San Jose" vs "san jose")
+    WITH address AS (
+        SELECT
+            REGEXP_REPLACE(REGEXP_REPLACE(LOWER(TRIM(barangay)), '^(brgy\.?|barangay)\s+', ''), '\s+', ' ', 'g') AS barangay,
+            REGEXP_REPLACE(LOWER(TRIM(city_municipality)), '\s+', ' ', 'g') AS city_municipality
+        FROM application_declared_address
+        WHERE application_number = p_application_number
+    )
+    SELECT p.precinct_number
+    FROM precinct p, address d
+    WHERE REGEXP_REPLACE(REGEXP_REPLACE(LOWER(TRIM(p.barangay)), '^(brgy\.?|barangay)\s+', ''), '\s+', ' ', 'g') = d.barangay
+    AND REGEXP_REPLACE(LOWER(TRIM(p.city_municipality)), '\s+', ' ', 'g') = d.city_municipality
+    AND (
+        SELECT COUNT(*) FROM applicant_voter_record v
+        JOIN applicant a ON a.applicant_id = v.applicant_id
+        WHERE v.precinct_number = p.precinct_number AND a.voting_status = 'Active'
+    ) < p.capacity
+    ORDER BY p.precinct_number
+    LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.suggest_precinct(INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.vin_check_digit(p_digits TEXT)
+RETURNS INTEGER LANGUAGE plpgsql IMMUTABLE
+SET search_path = public AS $$
+DECLARE
+    var_sum INTEGER := 0;
+    var_digit INTEGER;
+    var_length INTEGER := LENGTH(p_digits);
+BEGIN
+    -- Double every second digit from the right, starting with the rightmost (the check digit is appended after it)
+    FOR i IN 1..var_length LOOP
+        var_digit := SUBSTRING(p_digits FROM var_length - i + 1 FOR 1)::INTEGER;
+        IF i % 2 = 1 THEN
+            var_digit := var_digit * 2;
+            IF var_digit > 9 THEN
+                var_digit := var_digit - 9;
+            END IF;
+        END IF;
+        var_sum := var_sum + var_digit;
+    END LOOP;
+
+    RETURN (10 - var_sum % 10) % 10;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_valid_vin(p_vin TEXT)
+RETURNS BOOLEAN LANGUAGE sql IMMUTABLE
+SET search_path = public AS $$
+    SELECT CASE
+        WHEN p_vin IS NULL OR p_vin !~ '^[0-9]{6}-[0-9]{6}-[0-9]$' THEN FALSE
+        ELSE vin_check_digit(SUBSTRING(p_vin FROM 1 FOR 6) || SUBSTRING(p_vin FROM 8 FOR 6)) = RIGHT(p_vin, 1)::INTEGER
+    END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_valid_vin(TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.generate_vin(p_precinct_number TEXT)
+RETURNS TEXT LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_locality_code CHAR(6);
+    var_sequence INTEGER;
+    var_digits TEXT;
+    var_vin TEXT;
+BEGIN
+    SELECT locality_code INTO var_locality_code FROM precinct WHERE precinct_number = p_precinct_number;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Precinct % does not exist.', p_precinct_number;
+    END IF;
+
+    LOOP
+        -- The upsert locks the locality's sequence row until the transaction ends
+        INSERT INTO vin_sequence (locality_code, last_sequence)
+        VALUES (var_locality_code, 1)
+        ON CONFLICT (locality_code) DO UPDATE SET last_sequence = vin_sequence.last_sequence + 1
+        RETURNING last_sequence INTO var_sequence;
+
+        IF var_sequence > 999999 THEN
+            RAISE EXCEPTION 'Voter ID numbers for locality % are exhausted.', var_locality_code;
+        END IF;
+
+        var_digits := var_locality_code || LPAD(var_sequence::TEXT, 6, '0');
+        var_vin := format('%s-%s-%s', var_locality_code, LPAD(var_sequence::TEXT, 6, '0'), vin_check_digit(var_digits));
+
+        -- Skip numbers already taken by manually entered voter IDs
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM applicant_voter_record WHERE voter_id = var_vin);
+    END LOOP;
+
+    RETURN var_vin;
+END;
+$$;
+
+-- Only called from approve_application and reissue_voter_id; direct calls would burn sequence numbers
+REVOKE EXECUTE ON FUNCTION public.generate_vin(TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.reissue_voter_id(p_applicant_id INTEGER)
+RETURNS TEXT LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_precinct TEXT;
+    var_old_voter_id TEXT;
+    var_voter_id TEXT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM app_user WHERE auth_id = auth.uid() AND role = 'officer') THEN
+        RAISE EXCEPTION 'Only officers can reissue voter IDs.' USING ERRCODE = '42501';
+    END IF;
+    IF NOT officer_can_access_applicant(p_applicant_id) THEN
+        RAISE EXCEPTION 'This voter is outside your jurisdiction.' USING ERRCODE = '42501';
+    END IF;
+    IF NOT officer_has_permission('assign_vin') THEN
+        RAISE EXCEPTION 'Your position does not allow assigning voter IDs.' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT precinct_number, voter_id INTO var_precinct, var_old_voter_id
+    FROM applicant_voter_record WHERE applicant_id = p_applicant_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'The applicant has no voter record.';
+    END IF;
+
+    var_voter_id := generate_vin(var_precinct);
+
+    UPDATE applicant_voter_record
+    SET voter_id = var_voter_id, voter_id_flagged = FALSE
+    WHERE applicant_id = p_applicant_id;
+
+    INSERT INTO voter_notification (applicant_id, title, message)
+    VALUES (
+        p_applicant_id,
+        'Your voter ID has been changed',
+        format('Your voter ID %s has been replaced with %s. Please use the new voter ID from now on.', var_old_voter_id, var_voter_id)
+    );
+
+    RETURN var_voter_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reissue_voter_id(INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.protect_voter_record()
+RETURNS TRIGGER LANGUAGE plpgsql
+SET search_path = public AS $$
+BEGIN
+    -- New applicants start Unregistered; only changes of the protected columns are checked
+    IF TG_TABLE_NAME = 'applicant' THEN
+        IF TG_OP = 'INSERT' AND NEW.voting_status = 'Unregistered' THEN
+            RETURN NEW;
+        ELSIF TG_OP = 'UPDATE' AND NEW.voting_status IS NOT DISTINCT FROM OLD.voting_status THEN
+            RETURN NEW;
+        END IF;
+    ELSIF TG_OP = 'UPDATE' AND NEW.voter_id IS NOT DISTINCT FROM OLD.voter_id THEN
+        RETURN NEW;
+    END IF;
+
+    IF auth.uid() IS NOT NULL
+        AND NOT officer_has_permission('assign_vin')
+        AND current_setting('app.applying_approval', true) IS DISTINCT FROM 'on'
+        AND current_setting('app.deactivating_voters', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'Your position does not allow assigning voter IDs.' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_voter_id
+BEFORE INSERT OR UPDATE OF voter_id ON applicant_voter_record
+FOR EACH ROW EXECUTE FUNCTION public.protect_voter_record();
+
+CREATE TRIGGER protect_voting_status
+BEFORE INSERT OR UPDATE OF voting_status ON applicant
+FOR EACH ROW EXECUTE FUNCTION public.protect_voter_record();
+
+
+/*
+  Functions related to address normalization:
+
+  - get_unnormalized_addresses: addresses and places of birth typed in as free text that have no PSGC code yet,
+    for applicants and applications within the officer's jurisdictions.
+    Within-city transfers are skipped; their previous city is the declared city.
+  - apply_psgc_codes: stores the PSGC codes an officer confirmed for those rows, leaving the names as written.
+    Rows outside the officer's jurisdictions are not updated.
+*/
+CREATE OR REPLACE FUNCTION public.get_unnormalized_addresses()
+RETURNS TABLE (
+    source TEXT,
+    record_id INTEGER,
+    context TEXT,
+    barangay VARCHAR,
+    city_municipality VARCHAR,
+    province VARCHAR
+)
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM app_user WHERE auth_id = auth.uid() AND role = 'officer') THEN
+        RAISE EXCEPTION 'Only officers can normalize addresses.' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT 'residence', r.residence_id, CONCAT_WS(' ', ap.first_name, ap.last_name),
+           r.barangay, r.city_municipality, r.province
+    FROM applicant_residence r
+    JOIN applicant ap ON ap.applicant_id = r.applicant_id
+    WHERE r.city_municipality_code IS NULL
+      AND officer_can_access_applicant(r.applicant_id)
+    UNION ALL
+    SELECT 'declared_address', d.application_number, a.public_facing_id,
+           d.barangay, d.city_municipality, d.province
+    FROM application_declared_address d
+    JOIN application a ON a.application_number = d.application_number
+    WHERE d.city_municipality_code IS NULL
+      AND officer_can_access_application(d.application_number)
+    UNION ALL
+    SELECT 'transfer', t.application_number, a.public_facing_id,
+           t.previous_barangay, t.previous_city_municipality, t.previous_province
+    FROM application_transfer t
+    JOIN application a ON a.application_number = t.application_number
+    WHERE t.previous_city_municipality IS NOT NULL AND t.previous_city_municipality_code IS NULL
+      AND officer_can_access_application(t.application_number)
+    UNION ALL
+    SELECT 'place_of_birth', ap.applicant_id, CONCAT_WS(' ', ap.first_name, ap.last_name),
+           NULL::VARCHAR, ap.place_of_birth_municipality, ap.place_of_birth_province
+    FROM applicant ap
+    WHERE ap.place_of_birth_municipality_code IS NULL
+      AND officer_can_access_applicant(ap.applicant_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_unnormalized_addresses() TO authenticated;
+
+-- p_rows: [{ "source", "record_id", "province_code", "city_municipality_code", "barangay_code" }]
+CREATE OR REPLACE FUNCTION public.apply_psgc_codes(p_rows JSONB)
+RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_row JSONB;
+    var_record_id INTEGER;
+    var_province_code TEXT;
+    var_city_code TEXT;
+    var_barangay_code TEXT;
+    var_updated INTEGER := 0;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM app_user WHERE auth_id = auth.uid() AND role = 'officer') THEN
+        RAISE EXCEPTION 'Only officers can normalize addresses.' USING ERRCODE = '42501';
+    END IF;
+
+    FOR var_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+        var_record_id := (var_row ->> 'record_id')::INTEGER;
+        var_province_code := NULLIF(var_row ->> 'province_code', '');
+        var_city_code := NULLIF(var_row ->> 'city_municipality_code', '');
+        var_barangay_code := NULLIF(var_row ->> 'barangay_code', '');
+
+        IF var_city_code IS NULL OR var_province_code IS NULL THEN
+            RAISE EXCEPTION 'A province and city/municipality code are required for every row.';
+        END IF;
+
+        CASE var_row ->> 'source'
+            WHEN 'residence' THEN
+                UPDATE applicant_residence SET
+                    province_code = var_province_code,
+                    city_municipality_code = var_city_code,
+                    barangay_code = var_barangay_code
+                WHERE residence_id = var_record_id AND officer_can_access_applicant(applicant_id);
+            WHEN 'declared_address' THEN
+                UPDATE application_declared_address SET
+                    province_code = var_province_code,
+                    city_municipality_code = var_city_code,
+                    barangay_code = var_barangay_code
+                WHERE application_number = var_record_id AND officer_can_access_application(application_number);
+            WHEN 'transfer' THEN
+                UPDATE application_transfer SET
+                    previous_province_code = var_province_code,
+                    previous_city_municipality_code = var_city_code,
+                    previous_barangay_code = var_barangay_code
+                WHERE application_number = var_record_id AND officer_can_access_application(application_number);
+            WHEN 'place_of_birth' THEN
+                UPDATE applicant SET
+                    place_of_birth_province_code = var_province_code,
+                    place_of_birth_municipality_code = var_city_code
+                WHERE applicant_id = var_record_id AND officer_can_access_applicant(applicant_id);
+            ELSE
+                RAISE EXCEPTION 'Unknown address source %.', var_row ->> 'source';
+        END CASE;
+
+        IF FOUND THEN
+            var_updated := var_updated + 1;
+        END IF;
+    END LOOP;
+
+    RETURN var_updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_psgc_codes(JSONB) TO authenticated;
+
+/*
+  Functions related to duplicate detection:
+
+  - normalize_person_name: lowercases, strips accents and punctuation and expands Filipino name
+    abbreviations (Ma. -> Maria, Sto. -> Santo, ...) so that name variants compare equal
+  - normalize_applicant_name: the normalized first and last name, indexed with trigrams on applicant
+  - detect_duplicate_applicants: scores a registration's applicant against the applicants whose first and
+    last name are trigram-similar enough for the score to reach 0.7 (found through the index) and
+    records matches scoring at least 0.7 in applicant_duplicate_match. Reviewed matches keep their status;
+    pending matches that no longer score are removed. Returns the number of pending matches.
+  - rerun_duplicate_check: lets officers re-run detection, e.g. after the applicant's details were corrected
+
+  Score weights: name 0.35, date of birth 0.25, father's name 0.15, mother's maiden name 0.15,
+  place of birth 0.10. Names use trigram similarity after normalization; a date of birth with day and
+  month swapped counts half.
+*/
+CREATE OR REPLACE FUNCTION public.normalize_person_name(p_name TEXT)
+RETURNS TEXT LANGUAGE sql IMMUTABLE
+SET search_path = public AS $$
+    SELECT COALESCE(STRING_AGG(
+        CASE t.token
+            WHEN 'ma' THEN 'maria'
+            WHEN 'sto' THEN 'santo'
+            WHEN 'sta' THEN 'santa'
+            WHEN 'fco' THEN 'francisco'
+            ELSE t.token
+        END, ' ' ORDER BY t.position), '')
+    FROM UNNEST(REGEXP_SPLIT_TO_ARRAY(
+        TRIM(TRANSLATE(LOWER(COALESCE(p_name, '')), 'ñáéíóúü.,-''', 'naeiouu   ')),
+        '\s+'
+    )) WITH ORDINALITY AS t(token, position)
+    -- Generational suffixes are often left out of one of the two records
+    WHERE t.token NOT IN ('', 'jr', 'sr', 'ii', 'iii', 'iv');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.normalize_person_name(TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.normalize_applicant_name(p_first_name TEXT, p_last_name TEXT)
+RETURNS TEXT LANGUAGE sql IMMUTABLE
+SET search_path = public AS $$
+    -- CONCAT_WS is only STABLE, so it cannot be used in an index expression
+    SELECT normalize_person_name(COALESCE(p_first_name, '') || ' ' || COALESCE(p_last_name, ''));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.normalize_applicant_name(TEXT, TEXT) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_applicant_name_trgm
+    ON applicant USING gin (public.normalize_applicant_name(first_name, last_name) extensions.gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION public.detect_duplicate_applicants(p_application_number INTEGER)
+RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions AS $$
+DECLARE
+    var_applicant applicant%ROWTYPE;
+    var_pending INTEGER;
+    var_threshold TEXT := COALESCE(current_setting('pg_trgm.similarity_threshold', true), '0.3');
+BEGIN
+    SELECT ap.* INTO var_applicant
+    FROM application a
+    JOIN applicant ap ON ap.applicant_id = a.applicant_id
+    WHERE a.application_number = p_application_number;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Application % not found.', p_application_number;
+    END IF;
+
+    -- Every other field together weighs 0.65, so a match needs a name score of at least 0.05 / 0.35
+    PERFORM set_config('pg_trgm.similarity_threshold', '0.14', true);
+
+    CREATE TEMP TABLE tmp_duplicate_score ON COMMIT DROP AS
+    WITH scored AS (
+        SELECT
+            other.applicant_id,
+            GREATEST(
+                similarity(
+                    normalize_person_name(CONCAT_WS(' ', var_applicant.first_name, var_applicant.middle_name, var_applicant.last_name)),
+                    normalize_person_name(CONCAT_WS(' ', other.first_name, other.middle_name, other.last_name))
+                ),
+                -- The middle name is often left out of one of the two records
+                similarity(
+                    normalize_applicant_name(var_applicant.first_name, var_applicant.last_name),
+                    normalize_applicant_name(other.first_name, other.last_name)
+                )
+            ) AS name_score,
+            CASE
+                WHEN other.date_of_birth = var_applicant.date_of_birth THEN 1.0
+                WHEN EXTRACT(YEAR FROM other.date_of_birth) = EXTRACT(YEAR FROM var_applicant.date_of_birth)
+                     AND EXTRACT(MONTH FROM other.date_of_birth) = EXTRACT(DAY FROM var_applicant.date_of_birth)
+                     AND EXTRACT(DAY FROM other.date_of_birth) = EXTRACT(MONTH FROM var_applicant.date_of_birth) THEN 0.5
+                ELSE 0.0
+            END AS birth_date_score,
+            similarity(
+                normalize_person_name(CONCAT_WS(' ', var_applicant.place_of_birth_municipality, var_applicant.place_of_birth_province)),
+                normalize_person_name(CONCAT_WS(' ', other.place_of_birth_municipality, other.place_of_birth_province))
+            ) AS birth_place_score,
+            similarity(normalize_person_name(var_applicant.father_name), normalize_person_name(other.father_name)) AS father_score,
+            similarity(normalize_person_name(var_applicant.mother_maiden_name), normalize_person_name(other.mother_maiden_name)) AS mother_score
+        FROM applicant other
+        WHERE other.applicant_id <> var_applicant.applicant_id
+          AND normalize_applicant_name(other.first_name, other.last_name)
+              % normalize_applicant_name(var_applicant.first_name, var_applicant.last_name)
+    )
+    SELECT
+        applicant_id,
+        ROUND((0.35 * name_score + 0.25 * birth_date_score + 0.10 * birth_place_score
+               + 0.15 * father_score + 0.15 * mother_score)::NUMERIC, 3) AS score,
+        ARRAY_REMOVE(ARRAY[
+            CASE WHEN name_score >= 0.8 THEN 'name' END,
+            CASE WHEN birth_date_score = 1 THEN 'date_of_birth' END,
+            CASE WHEN birth_place_score >= 0.8 THEN 'place_of_birth' END,
+            CASE WHEN father_score >= 0.8 THEN 'father_name' END,
+            CASE WHEN mother_score >= 0.8 THEN 'mother_maiden_name' END
+        ], NULL) AS matched_fields
+    FROM scored;
+
+    PERFORM set_config('pg_trgm.similarity_threshold', var_threshold, true);
+
+    INSERT INTO applicant_duplicate_match (application_number, matched_applicant_id, score, matched_fields)
+    SELECT p_application_number, applicant_id, score, matched_fields
+    FROM tmp_duplicate_score
+    WHERE score >= 0.7
+    ON CONFLICT (application_number, matched_applicant_id) DO UPDATE SET
+        score = EXCLUDED.score,
+        matched_fields = EXCLUDED.matched_fields,
+        detected_at = CURRENT_TIMESTAMP;
+
+    DELETE FROM applicant_duplicate_match m
+    WHERE m.application_number = p_application_number
+    AND m.status = 'pending'
+    AND NOT EXISTS (
+        SELECT 1 FROM tmp_duplicate_score t
+        WHERE t.applicant_id = m.matched_applicant_id AND t.score >= 0.7
+    );
+
+    DROP TABLE tmp_duplicate_score;
+
+    SELECT COUNT(*) INTO var_pending
+    FROM applicant_duplicate_match
+    WHERE application_number = p_application_number AND status = 'pending';
+
+    RETURN var_pending;
+END;
+$$;
+
+-- Only called from submit_application and rerun_duplicate_check
+REVOKE EXECUTE ON FUNCTION public.detect_duplicate_applicants(INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.rerun_duplicate_check(p_public_facing_id TEXT)
+RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_application_number INTEGER;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM app_user WHERE auth_id = auth.uid() AND role = 'officer') THEN
+        RAISE EXCEPTION 'Only officers can run duplicate checks.' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT application_number INTO var_application_number
+    FROM application WHERE public_facing_id = p_public_facing_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Application % not found.', p_public_facing_id;
+    END IF;
+    IF NOT officer_can_access_application(var_application_number) THEN
+        RAISE EXCEPTION 'Application % is outside your jurisdiction.', p_public_facing_id USING ERRCODE = '42501';
+    END IF;
+
+    RETURN detect_duplicate_applicants(var_application_number);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rerun_duplicate_check(TEXT) TO authenticated;
+
+/*
+  Functions related to officer jurisdictions:
+
+  - officer_covers_address: whether an address falls within one of the signed-in officer's jurisdictions.
+    Places match on PSGC code when both sides have one, otherwise on the name (case-insensitive).
+  - officer_covers_residence: whether the applicant's current residence is covered. Voters approved before
+    residences were recorded have none, so the declared address of their latest approved application stands in.
+  - officer_can_access_application: the declared address, the previous address of a transfer, or (for
+    applications without a declared address) the applicant's residence is covered.
+    Transfers are therefore visible to both the origin and the destination office.
+  - officer_can_access_applicant: the residence or any of the applicant's applications is covered.
+  These back the officer RLS policies in databaseRLSPolicy.sql; SECURITY DEFINER keeps them from recursing into RLS.
+*/
+CREATE OR REPLACE FUNCTION public.officer_covers_address(
+    p_province TEXT,
+    p_province_code TEXT,
+    p_city_municipality TEXT,
+    p_city_municipality_code TEXT,
+    p_barangay TEXT
+)
+RETURNS BOOLEAN LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1
+        FROM officer_jurisdiction j
+        JOIN officer o ON o.officer_id = j.officer_id
+        WHERE o.auth_id = auth.uid()
+          AND (
+              (j.province_code IS NOT NULL AND j.province_code = p_province_code)
+              OR LOWER(TRIM(j.province)) = LOWER(TRIM(p_province))
+          )
+          AND (
+              j.city_municipality IS NULL
+              OR (j.city_municipality_code IS NOT NULL AND j.city_municipality_code = p_city_municipality_code)
+              OR LOWER(TRIM(j.city_municipality)) = LOWER(TRIM(p_city_municipality))
+          )
+          AND (
+              j.district_barangays IS NULL
+              OR LOWER(TRIM(p_barangay)) IN (SELECT LOWER(TRIM(b)) FROM unnest(j.district_barangays) AS b)
+          )
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.officer_covers_address(TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.officer_covers_residence(p_applicant_id INTEGER)
+RETURNS BOOLEAN LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM applicant_residence WHERE applicant_id = p_applicant_id AND effective_to IS NULL) THEN
+        RETURN EXISTS (
+            SELECT 1 FROM applicant_residence r
+            WHERE r.applicant_id = p_applicant_id AND r.effective_to IS NULL
+              AND officer_covers_address(r.province, r.province_code, r.city_municipality, r.city_municipality_code, r.barangay)
+        );
+    END IF;
+
+    RETURN EXISTS (
+        SELECT 1
+        FROM (
+            SELECT d.province, d.province_code, d.city_municipality, d.city_municipality_code, d.barangay
+            FROM application a
+            JOIN application_declared_address d ON d.application_number = a.application_number
+            WHERE a.applicant_id = p_applicant_id AND a.status = 'approved'
+            ORDER BY a.processing_date DESC NULLS LAST, a.application_number DESC
+            LIMIT 1
+        ) latest
+        WHERE officer_covers_address(
+            latest.province, latest.province_code, latest.city_municipality, latest.city_municipality_code, latest.barangay
+        )
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.officer_covers_residence(INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.officer_can_access_application(p_application_number INTEGER)
+RETURNS BOOLEAN LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM application_declared_address d
+        WHERE d.application_number = p_application_number
+          AND officer_covers_address(d.province, d.province_code, d.city_municipality, d.city_municipality_code, d.barangay)
+    ) THEN
+        RETURN TRUE;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM application_transfer t
+        WHERE t.application_number = p_application_number
+          AND t.previous_city_municipality IS NOT NULL
+          AND officer_covers_address(
+              t.previous_province, t.previous_province_code,
+              t.previous_city_municipality, t.previous_city_municipality_code, t.previous_barangay
+          )
+    ) THEN
+        RETURN TRUE;
+    END IF;
+
+    RETURN EXISTS (
+        SELECT 1
+        FROM application a
+        WHERE a.application_number = p_application_number
+          AND NOT EXISTS (SELECT 1 FROM application_declared_address d WHERE d.application_number = a.application_number)
+          AND officer_covers_residence(a.applicant_id)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.officer_can_access_application(INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.officer_can_access_applicant(p_applicant_id INTEGER)
+RETURNS BOOLEAN LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+    IF officer_covers_residence(p_applicant_id) THEN
+        RETURN TRUE;
+    END IF;
+
+    RETURN EXISTS (
+        SELECT 1 FROM application a
+        WHERE a.applicant_id = p_applicant_id
+          AND officer_can_access_application(a.application_number)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.officer_can_access_applicant(INTEGER) TO authenticated;
+
+/*
+  Functions related to officer permissions:
+
+  - officer_has_permission: whether the signed-in officer's position grants a permission in officer_position_permission.
+    Used by the status transition trigger, the officer RPCs and the RLS policies in databaseRLSPolicy.sql.
+*/
+CREATE OR REPLACE FUNCTION public.officer_has_permission(p_permission TEXT)
+RETURNS BOOLEAN LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1
+        FROM officer o
+        JOIN app_user u ON u.auth_id = o.auth_id AND u.role = 'officer'
+        JOIN officer_position_permission p ON p.position = o.position
+        WHERE o.auth_id = auth.uid() AND p.permission = p_permission
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.officer_has_permission(TEXT) TO authenticated;
+
+
+/*
+  Functions related to officer administration:
+
+  - is_admin: whether the signed-in user has the 'admin' role in app_user
+  - grant_officer_invitation: makes an account an officer from an invitation: creates the officer with its first
+    jurisdiction, sets app_user.role to 'officer' and marks the invitation accepted. Not callable by clients.
+  - apply_officer_invitation: trigger granting a pending invitation when an account with the invited email is created
+  - invite_officer: invites an officer by email. An existing account becomes an officer at once ('activated');
+    otherwise the invitation waits until the person signs up with that email ('invited').
+  - set_officer_suspended: suspends an officer by returning the account to the 'public' role, or reactivates it.
+    Every officer check reads app_user.role, so a suspension takes effect on the officer's next request.
+    The public policies only reach the account's own applicant records, so no officer data stays readable.
+  - get_officer_recent_actions: an officer's latest status changes from application_status_history, newest first.
+    officer_assignment keeps only the latest action per application, so the history is read instead.
+  - get_officer_directory: names and positions of every officer, for officers and administrators. Officers can
+    only read their own officer row, so the names on dockets, boards and timelines are looked up here.
+
+  Administrators manage officers only; they do not process applications. Positions and jurisdictions are
+  edited directly under the admin policies in databaseRLSPolicy.sql; officers cannot change their own.
+*/
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+    RETURN EXISTS (SELECT 1 FROM app_user WHERE auth_id = auth.uid() AND role = 'admin');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.grant_officer_invitation(p_invitation_id INTEGER, p_auth_id UUID)
+RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_invitation officer_invitation%ROWTYPE;
+    var_officer_id INTEGER;
+BEGIN
+    SELECT * INTO var_invitation FROM officer_invitation WHERE invitation_id = p_invitation_id FOR UPDATE;
+    IF NOT FOUND OR var_invitation.accepted_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Invitation % is not pending.', p_invitation_id;
+    END IF;
+
+    INSERT INTO officer (first_name, last_name, auth_id, position)
+    VALUES (var_invitation.first_name, var_invitation.last_name, p_auth_id, var_invitation.position)
+    RETURNING officer_id INTO var_officer_id;
+
+    INSERT INTO officer_jurisdiction (officer_id, province, province_code, city_municipality, city_municipality_code)
+    VALUES (
+        var_officer_id, var_invitation.province, var_invitation.province_code,
+        var_invitation.city_municipality, var_invitation.city_municipality_code
+    );
+
+    UPDATE app_user SET role = 'officer' WHERE auth_id = p_auth_id;
+
+    UPDATE officer_invitation
+    SET accepted_at = CURRENT_TIMESTAMP, officer_id = var_officer_id
+    WHERE invitation_id = p_invitation_id;
+
+    RETURN var_officer_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grant_officer_invitation(INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.apply_officer_invitation()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_invitation_id INTEGER;
+BEGIN
+    SELECT invitation_id INTO var_invitation_id
+    FROM officer_invitation
+    WHERE LOWER(email) = LOWER(NEW.email) AND accepted_at IS NULL;
+
+    IF var_invitation_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM officer WHERE auth_id = NEW.auth_id) THEN
+        PERFORM grant_officer_invitation(var_invitation_id, NEW.auth_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_officer_invitation
+AFTER INSERT ON app_user
+FOR EACH ROW EXECUTE FUNCTION public.apply_officer_invitation();
+
+CREATE OR REPLACE FUNCTION public.invite_officer(
+    p_email TEXT,
+    p_first_name TEXT,
+    p_last_name TEXT,
+    p_position TEXT,
+    p_province TEXT,
+    p_province_code TEXT DEFAULT NULL,
+    p_city_municipality TEXT DEFAULT NULL,
+    p_city_municipality_code TEXT DEFAULT NULL
+)
+RETURNS TEXT LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_email TEXT := LOWER(NULLIF(TRIM(p_email), ''));
+    var_user app_user%ROWTYPE;
+    var_invitation_id INTEGER;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Only administrators can invite officers.' USING ERRCODE = '42501';
+    END IF;
+    IF var_email IS NULL THEN
+        RAISE EXCEPTION 'An email address is required.';
+    END IF;
+    IF NULLIF(TRIM(p_province), '') IS NULL THEN
+        RAISE EXCEPTION 'The officer''s jurisdiction needs at least a province.';
+    END IF;
+    IF EXISTS (SELECT 1 FROM officer_invitation WHERE LOWER(email) = var_email AND accepted_at IS NULL) THEN
+        RAISE EXCEPTION 'An invitation for % is already pending.', var_email;
+    END IF;
+
+    SELECT * INTO var_user FROM app_user WHERE LOWER(email) = var_email;
+    IF FOUND AND EXISTS (SELECT 1 FROM officer WHERE auth_id = var_user.auth_id) THEN
+        RAISE EXCEPTION '% already has an officer account; reactivate it instead.', var_email;
+    END IF;
+    IF FOUND AND var_user.role <> 'public' THEN
+        RAISE EXCEPTION '% is an administrator account.', var_email;
+    END IF;
+
+    INSERT INTO officer_invitation (
+        email, first_name, last_name, position,
+        province, province_code, city_municipality, city_municipality_code, invited_by
+    ) VALUES (
+        var_email, NULLIF(TRIM(p_first_name), ''), NULLIF(TRIM(p_last_name), ''), p_position,
+        TRIM(p_province), NULLIF(p_province_code, ''), NULLIF(TRIM(p_city_municipality), ''), NULLIF(p_city_municipality_code, ''),
+        auth.uid()
+    )
+    RETURNING invitation_id INTO var_invitation_id;
+
+    IF var_user.auth_id IS NOT NULL THEN
+        PERFORM grant_officer_invitation(var_invitation_id, var_user.auth_id);
+        RETURN 'activated';
+    END IF;
+
+    RETURN 'invited';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.invite_officer(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_officer_suspended(p_officer_id INTEGER, p_suspended BOOLEAN)
+RETURNS VOID LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+    var_auth_id UUID;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Only administrators can suspend or reactivate officers.' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE officer
+    SET suspended_at = CASE WHEN p_suspended THEN COALESCE(suspended_at, CURRENT_TIMESTAMP) END
+    WHERE officer_id = p_officer_id
+    RETURNING auth_id INTO var_auth_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Officer % not found.', p_officer_id;
+    END IF;
+
+    UPDATE app_user
+    SET role = CASE WHEN p_suspended THEN 'public' ELSE 'officer' END
+    WHERE auth_id = var_auth_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_officer_suspended(INTEGER, BOOLEAN) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_officer_recent_actions(p_officer_id INTEGER, p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+    history_id INTEGER,
+    public_facing_id VARCHAR,
+    application_type TEXT,
+    action TEXT,
+    changed_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Only administrators can view officer activity.' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT h.history_id, a.public_facing_id, a.application_type, t.action, h.changed_at
+    FROM application_status_history h
+    JOIN application a ON a.application_number = h.application_number
+    JOIN application_status_transition t ON t.from_status = h.from_status AND t.to_status = h.to_status
+    WHERE h.officer_id = p_officer_id
+    ORDER BY h.changed_at DESC, h.history_id DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_officer_recent_actions(INTEGER, INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_officer_directory()
+RETURNS TABLE (
+    officer_id INTEGER,
+    first_name VARCHAR,
+    last_name VARCHAR,
+    position TEXT
+)
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+    SELECT o.officer_id, o.first_name, o.last_name, o.position
+    FROM officer o
+    WHERE EXISTS (SELECT 1 FROM app_user WHERE auth_id = auth.uid() AND role IN ('officer', 'admin'));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_officer_directory() TO authenticated;
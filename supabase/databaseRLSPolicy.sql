@@ -11,9 +11,9 @@ BEGIN
     FROM pg_tables
     WHERE schemaname = 'public'
       AND tablename IN (
-        'applicant', 'applicant_biometrics', 'applicant_voter_record', 'applicant_deactivation_record', 'applicant_special_sector',
+        'applicant', 'applicant_voter_record', 'applicant_deactivation_record', 'applicant_special_sector',
         'application', 'application_registration', 'application_transfer', 'application_reactivation', 'application_correction',
-        'application_reinstatement', 'application_declared_address', 'officer', 'officer_assignment'
+        'application_reinstatement', 'application_declared_address', 'officer_assignment'
       )
   LOOP
     FOR pol IN SELECT unnest(ARRAY[
@@ -21,7 +21,9 @@ BEGIN
       'Public select',
       'Public insert',
       'Public update',
-      'Officer delete'
+      'Officer delete',
+      'Admin select',
+      'Admin delete'
     ])
     LOOP
       EXECUTE 'DROP POLICY IF EXISTS "' || pol || '" ON ' || quote_ident(tbl) || ';';
@@ -42,15 +44,17 @@ DROP POLICY IF EXISTS "Public select own applicant" ON applicant;
 DO $$
 DECLARE
   tbl TEXT;
+  scope TEXT;
+  own TEXT;
 BEGIN
   FOR tbl IN
     SELECT tablename
     FROM pg_tables
     WHERE schemaname = 'public'
       AND tablename IN (
-        'applicant', 'applicant_biometrics', 'applicant_voter_record', 'applicant_deactivation_record', 'applicant_special_sector',
+        'applicant', 'applicant_voter_record', 'applicant_deactivation_record', 'applicant_special_sector',
         'application', 'application_registration', 'application_transfer', 'application_reactivation', 'application_correction',
-        'application_reinstatement', 'application_declared_address', 'officer', 'officer_assignment'
+        'application_reinstatement', 'application_declared_address', 'officer_assignment'
       )
   LOOP
     -- Enable RLS
@@ -62,20 +66,56 @@ BEGIN
     EXECUTE 'DROP POLICY IF EXISTS "Public insert" ON ' || quote_ident(tbl) || ';';
     EXECUTE 'DROP POLICY IF EXISTS "Public update" ON ' || quote_ident(tbl) || ';';
     EXECUTE 'DROP POLICY IF EXISTS "Officer delete" ON ' || quote_ident(tbl) || ';';
+    EXECUTE 'DROP POLICY IF EXISTS "Admin select" ON ' || quote_ident(tbl) || ';';
+    EXECUTE 'DROP POLICY IF EXISTS "Admin delete" ON ' || quote_ident(tbl) || ';';
+
+    -- Officer full access (all operations), limited to applications and applicants within the officer's jurisdiction
+    scope := CASE
+      WHEN tbl LIKE 'application%' OR tbl = 'officer_assignment' THEN 'public.officer_can_access_application(application_number)'
+      WHEN tbl LIKE 'applicant%' THEN 'public.officer_can_access_applicant(applicant_id)'
+      ELSE 'FALSE'
+    END;
+
+    -- Public users only reach their own applicant record and its applications; officer assignments are not theirs at all.
+    -- The role check alone is not enough: a suspended officer is demoted to the public role (see set_officer_suspended).
+    own := CASE
+      WHEN tbl = 'applicant' THEN 'applicant.auth_id = auth.uid()'
+      WHEN tbl = 'application' OR tbl LIKE 'applicant%' THEN format(
+        'EXISTS (SELECT 1 FROM applicant ap WHERE ap.applicant_id = %I.applicant_id AND ap.auth_id = auth.uid())', tbl)
+      WHEN tbl LIKE 'application%' THEN format(
+        'EXISTS (SELECT 1 FROM application a JOIN applicant ap ON ap.applicant_id = a.applicant_id'
+        ' WHERE a.application_number = %I.application_number AND ap.auth_id = auth.uid())', tbl)
+      ELSE 'FALSE'
+    END;
 
-    -- Officer full access (all operations)
     EXECUTE 'CREATE POLICY "Officer full access" ON ' || quote_ident(tbl) || ' FOR ALL TO authenticated USING (
       EXISTS (
         SELECT 1 FROM app_user 
         WHERE auth_id = auth.uid() 
         AND role = ''officer''
       )
+      AND ' || scope || '
     ) WITH CHECK (
       EXISTS (
         SELECT 1 FROM app_user 
         WHERE auth_id = auth.uid() 
         AND role = ''officer''
       )
+      AND ' || scope || '
+    );';
+
+    -- Deleting records needs the delete_application permission, which no officer position grants; administrators may.
+    -- Administrators can read the rows they delete, but do not otherwise process applications.
+    EXECUTE 'CREATE POLICY "Officer delete" ON ' || quote_ident(tbl) || ' AS RESTRICTIVE FOR DELETE TO authenticated USING (
+      public.officer_has_permission(''delete_application'') OR public.is_admin()
+    );';
+
+    EXECUTE 'CREATE POLICY "Admin select" ON ' || quote_ident(tbl) || ' FOR SELECT TO authenticated USING (
+      public.is_admin()
+    );';
+
+    EXECUTE 'CREATE POLICY "Admin delete" ON ' || quote_ident(tbl) || ' FOR DELETE TO authenticated USING (
+      public.is_admin()
     );';
 
     -- Public SELECT (read) - can read their own data
@@ -85,6 +125,7 @@ BEGIN
         WHERE auth_id = auth.uid() 
         AND role = ''public''
       )
+      AND ' || own || '
     );';
 
     -- Public INSERT (create) - can create new records only
@@ -94,6 +135,7 @@ BEGIN
         WHERE auth_id = auth.uid() 
         AND role = ''public''
       )
+      AND ' || own || '
     );';
 
     -- Public UPDATE - allow users to update their own records (for re-applications)
@@ -103,12 +145,14 @@ BEGIN
         WHERE auth_id = auth.uid() 
         AND role = ''public''
       )
+      AND ' || own || '
     ) WITH CHECK (
       EXISTS (
         SELECT 1 FROM app_user 
         WHERE auth_id = auth.uid() 
         AND role = ''public''
       )
+      AND ' || own || '
     );';
 
   END LOOP;
@@ -122,6 +166,7 @@ DROP POLICY IF EXISTS "Officer full access" ON app_user;
 DROP POLICY IF EXISTS "Public select own" ON app_user;
 DROP POLICY IF EXISTS "Public insert own" ON app_user;
 DROP POLICY IF EXISTS "Public update own" ON app_user;
+DROP POLICY IF EXISTS "Admin select users" ON app_user;
 
 -- Re-create policies for app_user
 -- Officers can see and manage all user records
@@ -143,13 +188,19 @@ CREATE POLICY "Public insert own" ON app_user
   TO authenticated
   WITH CHECK (auth_id = auth.uid());
 
--- Public users can update their own profile (username, etc.)
+-- Public users can update their own profile (username, etc.); roles are guarded by the protect_app_user_role trigger
 CREATE POLICY "Public update own" ON app_user
   FOR UPDATE
   TO authenticated
   USING (auth_id = auth.uid())
   WITH CHECK (auth_id = auth.uid());
 
+-- Administrators see every account, e.g. the email addresses of officers
+CREATE POLICY "Admin select users" ON app_user
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
 -- Additional specific policies for applicant table to support UPSERT operations
 -- Public users can only update their own applicant record
 CREATE POLICY "Public update own applicant" ON applicant
@@ -163,3 +214,762 @@ CREATE POLICY "Public select own applicant" ON applicant
   FOR SELECT
   TO authenticated
   USING (auth_id = auth.uid());
+
+
+-- Application status history is append-only and written only by the status functions
+-- (change_application_status, apply_application_approval, cast_erb_ballot): officers may read, nobody may write directly
+ALTER TABLE application_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Officer select history" ON application_status_history;
+DROP POLICY IF EXISTS "Officer insert history" ON application_status_history;
+DROP POLICY IF EXISTS "Public select own history" ON application_status_history;
+
+CREATE POLICY "Officer select history" ON application_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_application(application_status_history.application_number)
+  );
+
+-- Public users can only read the history of their own applications
+CREATE POLICY "Public select own history" ON application_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM application a
+      JOIN applicant ap ON ap.applicant_id = a.applicant_id
+      WHERE a.application_number = application_status_history.application_number
+      AND ap.auth_id = auth.uid()
+    )
+  );
+
+-- The status transition table is reference data: readable by every signed-in user, managed only through SQL
+ALTER TABLE application_status_transition ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated select transitions" ON application_status_transition;
+
+CREATE POLICY "Authenticated select transitions" ON application_status_transition
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- The officer permission matrix is reference data too; the dashboard reads it to explain hidden actions
+ALTER TABLE officer_position_permission ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated select position permissions" ON officer_position_permission;
+
+CREATE POLICY "Authenticated select position permissions" ON officer_position_permission
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Outcome audit rows are written only by approve_application (SECURITY DEFINER); officers may read them
+ALTER TABLE application_outcome_audit ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Officer select outcome audit" ON application_outcome_audit;
+
+CREATE POLICY "Officer select outcome audit" ON application_outcome_audit
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_application(application_outcome_audit.application_number)
+  );
+
+-- Residences of record are written only by approve_application (SECURITY DEFINER)
+ALTER TABLE applicant_residence ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Officer select residence" ON applicant_residence;
+DROP POLICY IF EXISTS "Public select own residence" ON applicant_residence;
+
+CREATE POLICY "Officer select residence" ON applicant_residence
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_applicant(applicant_residence.applicant_id)
+  );
+
+-- Public users can only read their own residence history
+CREATE POLICY "Public select own residence" ON applicant_residence
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM applicant ap
+      WHERE ap.applicant_id = applicant_residence.applicant_id
+      AND ap.auth_id = auth.uid()
+    )
+  );
+
+-- Biometrics are captured in person by officers (see the biometrics storage bucket): only officers may read or
+-- save them, for applicants within their jurisdiction, and each save is recorded under the officer saving it
+ALTER TABLE applicant_biometrics ENABLE ROW LEVEL SECURITY;
+
+-- Policies from when applicant_biometrics shared the generic policies above
+DROP POLICY IF EXISTS "Officer full access" ON applicant_biometrics;
+DROP POLICY IF EXISTS "Public select" ON applicant_biometrics;
+DROP POLICY IF EXISTS "Public insert" ON applicant_biometrics;
+DROP POLICY IF EXISTS "Public update" ON applicant_biometrics;
+DROP POLICY IF EXISTS "Officer delete" ON applicant_biometrics;
+DROP POLICY IF EXISTS "Admin delete" ON applicant_biometrics;
+DROP POLICY IF EXISTS "Officer select biometrics" ON applicant_biometrics;
+DROP POLICY IF EXISTS "Officer insert biometrics" ON applicant_biometrics;
+DROP POLICY IF EXISTS "Officer update biometrics" ON applicant_biometrics;
+
+CREATE POLICY "Officer select biometrics" ON applicant_biometrics
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_applicant(applicant_biometrics.applicant_id)
+  );
+
+CREATE POLICY "Officer insert biometrics" ON applicant_biometrics
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM officer o
+      JOIN app_user u ON u.auth_id = o.auth_id
+      WHERE o.auth_id = auth.uid()
+      AND u.role = 'officer'
+      AND o.officer_id = applicant_biometrics.captured_by
+    )
+    AND public.officer_can_access_applicant(applicant_biometrics.applicant_id)
+  );
+
+CREATE POLICY "Officer update biometrics" ON applicant_biometrics
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_applicant(applicant_biometrics.applicant_id)
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM officer o
+      JOIN app_user u ON u.auth_id = o.auth_id
+      WHERE o.auth_id = auth.uid()
+      AND u.role = 'officer'
+      AND o.officer_id = applicant_biometrics.captured_by
+    )
+    AND public.officer_can_access_applicant(applicant_biometrics.applicant_id)
+  );
+
+-- Notifications are written by SECURITY DEFINER functions; voters may read theirs and mark them as read
+ALTER TABLE voter_notification ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Officer select notification" ON voter_notification;
+DROP POLICY IF EXISTS "Public select own notification" ON voter_notification;
+DROP POLICY IF EXISTS "Public update own notification" ON voter_notification;
+
+CREATE POLICY "Officer select notification" ON voter_notification
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_applicant(voter_notification.applicant_id)
+  );
+
+CREATE POLICY "Public select own notification" ON voter_notification
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM applicant ap
+      WHERE ap.applicant_id = voter_notification.applicant_id
+      AND ap.auth_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Public update own notification" ON voter_notification
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM applicant ap
+      WHERE ap.applicant_id = voter_notification.applicant_id
+      AND ap.auth_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM applicant ap
+      WHERE ap.applicant_id = voter_notification.applicant_id
+      AND ap.auth_id = auth.uid()
+    )
+  );
+
+-- Elections are readable by every signed-in user and managed by officers
+ALTER TABLE election ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated select elections" ON election;
+DROP POLICY IF EXISTS "Officer manage elections" ON election;
+
+CREATE POLICY "Authenticated select elections" ON election
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Officer manage elections" ON election
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  );
+
+-- Election names and dates are public so the calendar feed can be read without signing in
+DROP POLICY IF EXISTS "Public select elections" ON election;
+
+CREATE POLICY "Public select elections" ON election
+  FOR SELECT
+  TO anon
+  USING (true);
+
+-- Calendar events are public (voters subscribe to the .ics feed without signing in) and managed by officers
+ALTER TABLE election_event ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public select election events" ON election_event;
+DROP POLICY IF EXISTS "Officer manage election events" ON election_event;
+
+CREATE POLICY "Public select election events" ON election_event
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Officer manage election events" ON election_event
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  );
+
+-- Participation rows are written by import_election_participation (SECURITY DEFINER); officers may read those of
+-- voters within their jurisdictions
+ALTER TABLE election_participation ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Officer select participation" ON election_participation;
+
+CREATE POLICY "Officer select participation" ON election_participation
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_applicant(election_participation.applicant_id)
+  );
+
+-- Hearing sessions are readable by every signed-in user (voters see their hearing venue) and managed by officers
+ALTER TABLE erb_hearing_session ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated select hearing sessions" ON erb_hearing_session;
+DROP POLICY IF EXISTS "Officer manage hearing sessions" ON erb_hearing_session;
+
+CREATE POLICY "Authenticated select hearing sessions" ON erb_hearing_session
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Officer manage hearing sessions" ON erb_hearing_session
+  FOR ALL
+  TO authenticated
+  USING (
+    public.officer_has_permission('schedule_hearing')
+  )
+  WITH CHECK (
+    public.officer_has_permission('schedule_hearing')
+  );
+
+-- Docket rows are inserted by assign_application_to_hearing and decided by cast_erb_ballot; officers remove entries
+ALTER TABLE erb_hearing_docket ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Officer manage docket" ON erb_hearing_docket;
+DROP POLICY IF EXISTS "Officer decide docket" ON erb_hearing_docket;
+DROP POLICY IF EXISTS "Board decides docket" ON erb_hearing_docket;
+DROP POLICY IF EXISTS "Docket entries start undecided" ON erb_hearing_docket;
+DROP POLICY IF EXISTS "Officer remove docket" ON erb_hearing_docket;
+DROP POLICY IF EXISTS "Public select own docket" ON erb_hearing_docket;
+
+CREATE POLICY "Officer manage docket" ON erb_hearing_docket
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_application(erb_hearing_docket.application_number)
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_application(erb_hearing_docket.application_number)
+  );
+
+-- Board decisions are only reached through the members' ballots; entries are removed by those who schedule hearings
+CREATE POLICY "Board decides docket" ON erb_hearing_docket
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (false);
+
+CREATE POLICY "Docket entries start undecided" ON erb_hearing_docket
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    decision IS NULL
+    AND decision_notes IS NULL
+    AND decided_by IS NULL
+    AND decided_at IS NULL
+    AND approval_blocked_reason IS NULL
+  );
+
+CREATE POLICY "Officer remove docket" ON erb_hearing_docket
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (
+    public.officer_has_permission('schedule_hearing')
+  );
+
+-- Public users can only see the docket entries of their own applications
+CREATE POLICY "Public select own docket" ON erb_hearing_docket
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM application a
+      JOIN applicant ap ON ap.applicant_id = a.applicant_id
+      WHERE a.application_number = erb_hearing_docket.application_number
+      AND ap.auth_id = auth.uid()
+    )
+  );
+
+-- Board Members are seated on a session's board by those who schedule hearings
+ALTER TABLE erb_hearing_board ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Officer select hearing board" ON erb_hearing_board;
+DROP POLICY IF EXISTS "Officer manage hearing board" ON erb_hearing_board;
+
+CREATE POLICY "Officer select hearing board" ON erb_hearing_board
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  );
+
+CREATE POLICY "Officer manage hearing board" ON erb_hearing_board
+  FOR ALL
+  TO authenticated
+  USING (
+    public.officer_has_permission('schedule_hearing')
+  )
+  WITH CHECK (
+    public.officer_has_permission('schedule_hearing')
+    AND EXISTS (
+      SELECT 1 FROM public.get_officer_directory() o
+      WHERE o.officer_id = erb_hearing_board.officer_id
+      AND o.position = 'Board Member'
+    )
+  );
+
+-- Ballots are cast through cast_erb_ballot only; officers read the ballots on applications they can access
+ALTER TABLE erb_hearing_ballot ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Officer select ballots" ON erb_hearing_ballot;
+
+CREATE POLICY "Officer select ballots" ON erb_hearing_ballot
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_application(erb_hearing_ballot.application_number)
+  );
+
+-- Precincts are readable by all signed-in users (voters see their polling place); only officers maintain them
+ALTER TABLE precinct ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated select precincts" ON precinct;
+DROP POLICY IF EXISTS "Officer manage precincts" ON precinct;
+
+CREATE POLICY "Authenticated select precincts" ON precinct
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Officer manage precincts" ON precinct
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  );
+
+-- Duplicate matches are written by detect_duplicate_applicants (SECURITY DEFINER); officers review and resolve
+-- the matches of applications within their jurisdictions
+ALTER TABLE applicant_duplicate_match ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Officer select duplicate matches" ON applicant_duplicate_match;
+DROP POLICY IF EXISTS "Officer update duplicate matches" ON applicant_duplicate_match;
+
+CREATE POLICY "Officer select duplicate matches" ON applicant_duplicate_match
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_application(applicant_duplicate_match.application_number)
+  );
+
+CREATE POLICY "Officer update duplicate matches" ON applicant_duplicate_match
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_application(applicant_duplicate_match.application_number)
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_application(applicant_duplicate_match.application_number)
+  );
+
+-- Accepted ID types are readable by all signed-in users (applicants pick one when registering); only officers maintain them
+ALTER TABLE accepted_id_type ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated select accepted ID types" ON accepted_id_type;
+DROP POLICY IF EXISTS "Officer manage accepted ID types" ON accepted_id_type;
+
+CREATE POLICY "Authenticated select accepted ID types" ON accepted_id_type
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Officer manage accepted ID types" ON accepted_id_type
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  );
+
+-- Registration periods are readable by all signed-in users (applicants see when registration is open); only officers maintain them
+ALTER TABLE registration_period ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated select registration periods" ON registration_period;
+DROP POLICY IF EXISTS "Officer manage registration periods" ON registration_period;
+
+CREATE POLICY "Authenticated select registration periods" ON registration_period
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Officer manage registration periods" ON registration_period
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  );
+
+-- Municipality overrides follow their registration period
+ALTER TABLE registration_period_override ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated select registration period overrides" ON registration_period_override;
+DROP POLICY IF EXISTS "Officer manage registration period overrides" ON registration_period_override;
+
+CREATE POLICY "Authenticated select registration period overrides" ON registration_period_override
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Officer manage registration period overrides" ON registration_period_override
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  );
+
+-- Office holidays are readable by all signed-in users (applicants see closed dates); only officers maintain them
+ALTER TABLE office_holiday ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated select office holidays" ON office_holiday;
+DROP POLICY IF EXISTS "Officer manage office holidays" ON office_holiday;
+
+CREATE POLICY "Authenticated select office holidays" ON office_holiday
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Officer manage office holidays" ON office_holiday
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  );
+
+-- Appointment slots are readable by all signed-in users (booked counts come from get_biometrics_slots); only officers maintain them
+ALTER TABLE biometrics_slot ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated select appointment slots" ON biometrics_slot;
+DROP POLICY IF EXISTS "Officer manage appointment slots" ON biometrics_slot;
+
+CREATE POLICY "Authenticated select appointment slots" ON biometrics_slot
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Officer manage appointment slots" ON biometrics_slot
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+  );
+
+-- Appointments are written by book_biometrics_appointment and cancel_biometrics_appointment; officers record attendance
+ALTER TABLE biometrics_appointment ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Officer manage appointments" ON biometrics_appointment;
+DROP POLICY IF EXISTS "Public select own appointments" ON biometrics_appointment;
+
+CREATE POLICY "Officer manage appointments" ON biometrics_appointment
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_application(biometrics_appointment.application_number)
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM app_user
+      WHERE auth_id = auth.uid()
+      AND role = 'officer'
+    )
+    AND public.officer_can_access_application(biometrics_appointment.application_number)
+  );
+
+-- Public users can only see the appointments of their own applications
+CREATE POLICY "Public select own appointments" ON biometrics_appointment
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM application a
+      JOIN applicant ap ON ap.applicant_id = a.applicant_id
+      WHERE a.application_number = biometrics_appointment.application_number
+      AND ap.auth_id = auth.uid()
+    )
+  );
+
+-- Jurisdictions are assigned by administrators; officers may read their own to see which offices they act for
+ALTER TABLE officer_jurisdiction ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Officer select own jurisdiction" ON officer_jurisdiction;
+DROP POLICY IF EXISTS "Admin manage jurisdictions" ON officer_jurisdiction;
+
+CREATE POLICY "Officer select own jurisdiction" ON officer_jurisdiction
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM officer o
+      WHERE o.officer_id = officer_jurisdiction.officer_id
+      AND o.auth_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admin manage jurisdictions" ON officer_jurisdiction
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Officers read only their own row: the position behind officer_has_permission is changed by administrators alone.
+-- Other officers' names come from get_officer_directory. Administrators list officers and change their positions;
+-- suspension goes through set_officer_suspended
+ALTER TABLE officer ENABLE ROW LEVEL SECURITY;
+
+-- Policies from when officer shared the generic policies above
+DROP POLICY IF EXISTS "Officer full access" ON officer;
+DROP POLICY IF EXISTS "Public select" ON officer;
+DROP POLICY IF EXISTS "Public insert" ON officer;
+DROP POLICY IF EXISTS "Public update" ON officer;
+DROP POLICY IF EXISTS "Officer delete" ON officer;
+DROP POLICY IF EXISTS "Admin delete" ON officer;
+DROP POLICY IF EXISTS "Officer select own officer" ON officer;
+DROP POLICY IF EXISTS "Admin select officers" ON officer;
+DROP POLICY IF EXISTS "Admin update officers" ON officer;
+
+CREATE POLICY "Officer select own officer" ON officer
+  FOR SELECT
+  TO authenticated
+  USING (auth_id = auth.uid());
+
+CREATE POLICY "Admin select officers" ON officer
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admin update officers" ON officer
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Invitations are created by invite_officer; administrators list and revoke pending ones
+ALTER TABLE officer_invitation ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admin select invitations" ON officer_invitation;
+DROP POLICY IF EXISTS "Admin revoke invitations" ON officer_invitation;
+
+CREATE POLICY "Admin select invitations" ON officer_invitation
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admin revoke invitations" ON officer_invitation
+  FOR DELETE
+  TO authenticated
+  USING (public.is_admin() AND accepted_at IS NULL);
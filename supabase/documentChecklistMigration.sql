@@ -0,0 +1,12 @@
+/*
+===============================================================================
+  Document review checklist migration
+
+  Description:
+  Adds application_status_history.document_checklist from businessSchema.sql
+  to an existing database. Status changes recorded before this change keep a
+  NULL checklist.
+===============================================================================
+*/
+
+ALTER TABLE application_status_history ADD COLUMN IF NOT EXISTS document_checklist JSONB;
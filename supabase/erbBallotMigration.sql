@@ -0,0 +1,47 @@
+/*
+===============================================================================
+  ERB ballot migration
+
+  Description:
+  Replaces the single officer's ERB decision with ballots from every Board
+  Member seated on a hearing. Once a majority of the board agrees, the
+  decision is written to the docket and carried out on the application.
+  Decisions already recorded on the docket are kept as they are. Board
+  approvals that cannot be applied are recorded with the cause in
+  erb_hearing_docket.approval_blocked_reason.
+
+  Run this once, then run apply_application_approval, suggest_precinct and
+  cast_erb_ballot from businessSchema.sql, re-run the CREATE OR REPLACE
+  FUNCTION statements for approve_application,
+  enforce_application_status_transition and assign_application_to_hearing,
+  and re-run databaseRLSPolicy.sql. Seat the Board Members of upcoming
+  hearings from each hearing's docket page.
+===============================================================================
+*/
+
+BEGIN;
+
+ALTER TABLE erb_hearing_docket ADD COLUMN IF NOT EXISTS approval_blocked_reason TEXT;
+
+CREATE TABLE IF NOT EXISTS erb_hearing_board (
+    session_id INTEGER NOT NULL REFERENCES erb_hearing_session(session_id) ON DELETE CASCADE,
+    officer_id INTEGER NOT NULL REFERENCES officer(officer_id) ON DELETE CASCADE,
+
+    PRIMARY KEY (session_id, officer_id)
+);
+
+CREATE TABLE IF NOT EXISTS erb_hearing_ballot (
+    application_number INTEGER NOT NULL REFERENCES erb_hearing_docket(application_number) ON DELETE CASCADE,
+    session_id INTEGER NOT NULL,
+    officer_id INTEGER NOT NULL,
+
+    vote TEXT NOT NULL CHECK (vote IN ('approve', 'disapprove')),
+    notes TEXT,
+    cast_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (application_number, officer_id),
+    FOREIGN KEY (session_id, officer_id) REFERENCES erb_hearing_board(session_id, officer_id),
+    CONSTRAINT disapproval_requires_notes CHECK (vote = 'approve' OR NULLIF(TRIM(notes), '') IS NOT NULL)
+);
+
+COMMIT;
@@ -0,0 +1,29 @@
+/*
+===============================================================================
+  ID image quality migration
+
+  Description:
+  Adds the ID photo quality scores from businessSchema.sql to an existing
+  application_registration table. Applications submitted before this change
+  keep NULL scores and sort as lowest quality on the applications table.
+
+  Run this once, then re-run the CREATE OR REPLACE FUNCTION statement for
+  submit_application from businessSchema.sql.
+===============================================================================
+*/
+
+BEGIN;
+
+ALTER TABLE application_registration
+    ADD COLUMN IF NOT EXISTS government_id_front_quality JSONB,
+    ADD COLUMN IF NOT EXISTS government_id_back_quality JSONB,
+    ADD COLUMN IF NOT EXISTS id_selfie_quality JSONB;
+
+ALTER TABLE application_registration
+    ADD COLUMN IF NOT EXISTS id_quality_score SMALLINT GENERATED ALWAYS AS (LEAST(
+        (government_id_front_quality ->> 'score')::SMALLINT,
+        (government_id_back_quality ->> 'score')::SMALLINT,
+        (id_selfie_quality ->> 'score')::SMALLINT
+    )) STORED;
+
+COMMIT;
@@ -0,0 +1,25 @@
+/*
+===============================================================================
+  Accepted ID type migration
+
+  Description:
+  Adds the ID type and number of registrations to an existing database.
+  Registrations submitted before this change keep NULL id_type_code and
+  id_number; the back photo becomes optional because some IDs (e.g. passports)
+  have no back side to capture.
+
+  First run the CREATE TABLE and INSERT statements for accepted_id_type from
+  businessSchema.sql, then run this once, then re-run the CREATE OR REPLACE
+  FUNCTION statement for submit_application.
+===============================================================================
+*/
+
+BEGIN;
+
+ALTER TABLE application_registration
+    ADD COLUMN IF NOT EXISTS id_type_code VARCHAR(20) REFERENCES accepted_id_type(id_type_code),
+    ADD COLUMN IF NOT EXISTS id_number VARCHAR(50);
+
+ALTER TABLE application_registration ALTER COLUMN government_id_back_path DROP NOT NULL;
+
+COMMIT;
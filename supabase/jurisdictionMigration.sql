@@ -0,0 +1,50 @@
+/*
+===============================================================================
+  Officer jurisdiction migration
+
+  Description:
+  Adds the jurisdictions officers act for to an existing database. Once the
+  policies are re-run, officers only see applications whose declared or
+  previous address falls within their jurisdictions, so assign every officer
+  at least one jurisdiction before re-running them (see the example below).
+  Reactivations, corrections and reinstatements have no declared address and
+  are matched on the voter's residence; voters approved before residences
+  were recorded are matched on their latest approved declared address.
+
+  Run this once, then run the "Functions related to officer jurisdictions"
+  block of businessSchema.sql, re-run the CREATE OR REPLACE FUNCTION
+  statements for approve_application, assign_application_to_hearing,
+  reissue_voter_id and rerun_duplicate_check, and re-run databaseRLSPolicy.sql.
+===============================================================================
+*/
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS officer_jurisdiction (
+    jurisdiction_id SERIAL PRIMARY KEY,
+    officer_id INTEGER NOT NULL REFERENCES officer(officer_id) ON DELETE CASCADE,
+
+    province VARCHAR(50) NOT NULL,
+    province_code CHAR(9) CHECK (province_code ~ '^[0-9]{9}$'),
+    city_municipality VARCHAR(50),
+    city_municipality_code CHAR(9) CHECK (city_municipality_code ~ '^[0-9]{9}$'),
+
+    district VARCHAR(50),
+    district_barangays VARCHAR(50)[],
+
+    CONSTRAINT city_code_requires_city CHECK (city_municipality_code IS NULL OR city_municipality IS NOT NULL),
+    CONSTRAINT district_requires_city CHECK (district IS NULL OR city_municipality IS NOT NULL),
+    CONSTRAINT district_lists_barangays CHECK (
+        (district IS NULL AND district_barangays IS NULL)
+        OR (district IS NOT NULL AND cardinality(district_barangays) > 0)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_officer_jurisdiction_officer
+    ON officer_jurisdiction (officer_id);
+
+-- Example: the Election Officer of Antipolo
+-- INSERT INTO officer_jurisdiction (officer_id, province, province_code, city_municipality, city_municipality_code)
+-- VALUES (1, 'Rizal', '045800000', 'City of Antipolo', '045802000');
+
+COMMIT;
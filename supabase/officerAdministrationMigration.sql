@@ -0,0 +1,55 @@
+/*
+===============================================================================
+  Officer administration migration
+
+  Description:
+  Adds the 'admin' role and what the officer administration console needs:
+  invitations, suspension and the time of each officer's latest action.
+  Roles can no longer be changed by writing to app_user directly.
+
+  Run this once, then run the protect_app_user_role function and trigger
+  from authSchema.sql (not the whole file: it recreates app_user), run the
+  "Functions related to officer administration" block of businessSchema.sql,
+  re-run the CREATE OR REPLACE FUNCTION statements for
+  apply_application_approval and cast_erb_ballot, and re-run
+  databaseRLSPolicy.sql. Make the first administrator with the example below.
+===============================================================================
+*/
+
+BEGIN;
+
+ALTER TABLE app_user DROP CONSTRAINT IF EXISTS app_user_role_check;
+ALTER TABLE app_user
+    ADD CONSTRAINT app_user_role_check CHECK (role IN ('public', 'officer', 'admin'));
+
+ALTER TABLE officer ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMPTZ;
+
+-- Existing assignments keep the migration time as their latest action
+ALTER TABLE officer_assignment
+    ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS officer_invitation (
+    invitation_id SERIAL PRIMARY KEY,
+    email VARCHAR(255) NOT NULL,
+    first_name VARCHAR(50),
+    last_name VARCHAR(50),
+    position TEXT NOT NULL CHECK (position IN ('Election Officer', 'Board Member')),
+
+    province VARCHAR(50) NOT NULL,
+    province_code CHAR(9) CHECK (province_code ~ '^[0-9]{9}$'),
+    city_municipality VARCHAR(50),
+    city_municipality_code CHAR(9) CHECK (city_municipality_code ~ '^[0-9]{9}$'),
+
+    invited_by UUID REFERENCES app_user(auth_id) ON DELETE SET NULL,
+    invited_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    accepted_at TIMESTAMPTZ,
+    officer_id INTEGER REFERENCES officer(officer_id) ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_officer_invitation_pending_email
+    ON officer_invitation (LOWER(email)) WHERE accepted_at IS NULL;
+
+-- Example: make the first administrator (run as the database owner)
+-- UPDATE app_user SET role = 'admin' WHERE email = 'admin@example.com';
+
+COMMIT;
@@ -0,0 +1,43 @@
+/*
+===============================================================================
+  Officer permission migration
+
+  Description:
+  Adds the permission matrix that separates what Election Officers and Board
+  Members may do. Election Officers verify, approve and disapprove
+  applications, assign voter IDs and schedule ERB hearings; Board Members
+  record ERB decisions. No officer position may delete records.
+
+  Run this once, then run the "Functions related to officer permissions"
+  block of businessSchema.sql, re-run the CREATE OR REPLACE FUNCTION
+  statements for enforce_application_status_transition, approve_application,
+  apply_application_approval, deactivate_voters,
+  assign_application_to_hearing and reissue_voter_id, run
+  protect_voter_record with its protect_voter_id and protect_voting_status
+  triggers, and re-run databaseRLSPolicy.sql.
+===============================================================================
+*/
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS officer_position_permission (
+    position TEXT NOT NULL CHECK (position IN ('Election Officer', 'Board Member')),
+    permission TEXT NOT NULL CHECK (permission IN (
+        'verify', 'set_pending', 'approve', 'disapprove',
+        'assign_vin', 'schedule_hearing', 'record_hearing_decision', 'delete_application'
+    )),
+
+    PRIMARY KEY (position, permission)
+);
+
+INSERT INTO officer_position_permission (position, permission) VALUES
+    ('Election Officer', 'verify'),
+    ('Election Officer', 'set_pending'),
+    ('Election Officer', 'approve'),
+    ('Election Officer', 'disapprove'),
+    ('Election Officer', 'assign_vin'),
+    ('Election Officer', 'schedule_hearing'),
+    ('Board Member', 'record_hearing_decision')
+ON CONFLICT (position, permission) DO NOTHING;
+
+COMMIT;
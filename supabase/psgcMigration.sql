@@ -0,0 +1,40 @@
+/*
+===============================================================================
+  PSGC address code migration
+
+  Description:
+  Adds Philippine Standard Geographic Code (PSGC) columns alongside the
+  free-text place names of declared addresses, residences, previous addresses
+  of transfers and places of birth. Existing rows keep NULL codes until an
+  officer resolves them with the Address Normalizer in the dashboard.
+
+  Run this once, then re-run the CREATE OR REPLACE FUNCTION statements for
+  submit_application, approve_application, get_unnormalized_addresses and
+  apply_psgc_codes from businessSchema.sql.
+===============================================================================
+*/
+
+BEGIN;
+
+ALTER TABLE applicant
+    ADD COLUMN IF NOT EXISTS place_of_birth_municipality_code CHAR(9)
+        CHECK (place_of_birth_municipality_code ~ '^[0-9]{9}$'),
+    ADD COLUMN IF NOT EXISTS place_of_birth_province_code CHAR(9)
+        CHECK (place_of_birth_province_code ~ '^[0-9]{9}$');
+
+ALTER TABLE application_transfer
+    ADD COLUMN IF NOT EXISTS previous_barangay_code CHAR(9) CHECK (previous_barangay_code ~ '^[0-9]{9}$'),
+    ADD COLUMN IF NOT EXISTS previous_city_municipality_code CHAR(9) CHECK (previous_city_municipality_code ~ '^[0-9]{9}$'),
+    ADD COLUMN IF NOT EXISTS previous_province_code CHAR(9) CHECK (previous_province_code ~ '^[0-9]{9}$');
+
+ALTER TABLE application_declared_address
+    ADD COLUMN IF NOT EXISTS barangay_code CHAR(9) CHECK (barangay_code ~ '^[0-9]{9}$'),
+    ADD COLUMN IF NOT EXISTS city_municipality_code CHAR(9) CHECK (city_municipality_code ~ '^[0-9]{9}$'),
+    ADD COLUMN IF NOT EXISTS province_code CHAR(9) CHECK (province_code ~ '^[0-9]{9}$');
+
+ALTER TABLE applicant_residence
+    ADD COLUMN IF NOT EXISTS barangay_code CHAR(9) CHECK (barangay_code ~ '^[0-9]{9}$'),
+    ADD COLUMN IF NOT EXISTS city_municipality_code CHAR(9) CHECK (city_municipality_code ~ '^[0-9]{9}$'),
+    ADD COLUMN IF NOT EXISTS province_code CHAR(9) CHECK (province_code ~ '^[0-9]{9}$');
+
+COMMIT;
@@ -0,0 +1,58 @@
+/*
+===============================================================================
+  Registration period migration
+
+  Description:
+  Adds the application types accepted during each registration period and
+  per-municipality overrides to an existing database. Existing periods keep
+  accepting every application type.
+
+  Run this once, then re-run the registration_period_override section of
+  databaseRLSPolicy.sql, the DROP FUNCTION statements for
+  get_appointment_closure_reason and get_biometrics_slots, and the
+  CREATE OR REPLACE FUNCTION statements for get_registration_windows,
+  get_registration_status, submit_application, get_appointment_closure_reason,
+  get_application_municipality, get_biometrics_slots,
+  book_biometrics_appointment and create_biometrics_slots from
+  businessSchema.sql.
+===============================================================================
+*/
+
+BEGIN;
+
+ALTER TABLE registration_period
+    ADD COLUMN IF NOT EXISTS allowed_application_types TEXT[] NOT NULL DEFAULT ARRAY[
+        'register', 'transfer', 'reactivation', 'transfer_with_reactivation', 'correction_of_entry', 'reinstatement'
+    ];
+
+ALTER TABLE registration_period
+    ADD CONSTRAINT valid_period_application_types CHECK (
+        allowed_application_types <@ ARRAY[
+            'register', 'transfer', 'reactivation', 'transfer_with_reactivation', 'correction_of_entry', 'reinstatement'
+        ]
+    );
+
+CREATE TABLE IF NOT EXISTS registration_period_override (
+    override_id SERIAL PRIMARY KEY,
+    period_id INTEGER NOT NULL,
+    city_municipality VARCHAR(50) NOT NULL,
+    province VARCHAR(50) NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    allowed_application_types TEXT[] NOT NULL,
+    reason TEXT,
+
+    CONSTRAINT fk_override_period
+        FOREIGN KEY (period_id)
+        REFERENCES registration_period(period_id)
+        ON DELETE CASCADE,
+    CONSTRAINT valid_override_period CHECK (end_date >= start_date),
+    CONSTRAINT valid_override_application_types CHECK (
+        allowed_application_types <@ ARRAY[
+            'register', 'transfer', 'reactivation', 'transfer_with_reactivation', 'correction_of_entry', 'reinstatement'
+        ]
+    ),
+    CONSTRAINT unique_period_municipality UNIQUE (period_id, city_municipality, province)
+);
+
+COMMIT;
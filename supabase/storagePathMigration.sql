@@ -0,0 +1,48 @@
+/*
+===============================================================================
+  ID image storage path migration
+
+  Description:
+  Brings an existing database up to the private ID image storage in
+  businessSchema.sql and storageRLSPolicy.sql without dropping data.
+  application_registration now keeps storage object paths instead of public
+  URLs; existing public URLs are trimmed down to their paths and
+  percent-decoded (e.g. %20 back to a space) so the app can mint signed URLs
+  for them.
+
+  Run this once, then run storageRLSPolicy.sql and re-run the
+  CREATE OR REPLACE FUNCTION statement for submit_application from
+  businessSchema.sql.
+===============================================================================
+*/
+
+BEGIN;
+
+ALTER TABLE application_registration RENAME COLUMN government_id_front_url TO government_id_front_path;
+ALTER TABLE application_registration RENAME COLUMN government_id_back_url TO government_id_back_path;
+ALTER TABLE application_registration RENAME COLUMN id_selfie_url TO id_selfie_path;
+
+-- Decodes %XX escapes as UTF-8 bytes; a '%' not followed by two hex digits is kept as is
+CREATE FUNCTION pg_temp.percent_decode(p_value TEXT)
+RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+    SELECT COALESCE(convert_from(string_agg(
+        CASE WHEN part[1] IS NOT NULL THEN decode(part[1], 'hex') ELSE convert_to(part[2], 'UTF8') END,
+        ''::BYTEA ORDER BY position
+    ), 'UTF8'), p_value)
+    FROM regexp_matches(p_value, '%([0-9A-Fa-f]{2})|([^%]+|%)', 'g') WITH ORDINALITY AS t(part, position);
+$$;
+
+-- Strip '<project url>/storage/v1/object/public/<bucket>/' from stored public URLs and decode what is left;
+-- values that are already paths are left alone
+UPDATE application_registration
+SET government_id_front_path = CASE WHEN government_id_front_path ~ '/storage/v1/object/public/government-ids/'
+        THEN pg_temp.percent_decode(regexp_replace(government_id_front_path, '^.*/storage/v1/object/public/government-ids/', ''))
+        ELSE government_id_front_path END,
+    government_id_back_path = CASE WHEN government_id_back_path ~ '/storage/v1/object/public/government-ids/'
+        THEN pg_temp.percent_decode(regexp_replace(government_id_back_path, '^.*/storage/v1/object/public/government-ids/', ''))
+        ELSE government_id_back_path END,
+    id_selfie_path = CASE WHEN id_selfie_path ~ '/storage/v1/object/public/id-selfies/'
+        THEN pg_temp.percent_decode(regexp_replace(id_selfie_path, '^.*/storage/v1/object/public/id-selfies/', ''))
+        ELSE id_selfie_path END;
+
+COMMIT;
@@ -1,27 +1,69 @@
--- Policy: Allow authenticated users to upload to 'government-ids' bucket
-CREATE POLICY "Allow authenticated upload to government-ids"
+-- ID images are private: the app stores object paths and reads them through short-lived signed URLs
+UPDATE storage.buckets SET public = false WHERE id IN ('government-ids', 'id-selfies');
+
+DROP POLICY IF EXISTS "Allow authenticated upload to government-ids" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated read from government-ids" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated upload to id-selfies" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated read from id-selfies" ON storage.objects;
+
+-- Policy: Allow users to upload ID images only into their own folder (<auth uid>/...)
+DROP POLICY IF EXISTS "Allow owner upload to ID buckets" ON storage.objects;
+CREATE POLICY "Allow owner upload to ID buckets"
 ON storage.objects
 FOR INSERT
 TO authenticated
-WITH CHECK (bucket_id = 'government-ids');
+WITH CHECK (
+  bucket_id IN ('government-ids', 'id-selfies')
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
 
--- Policy: Allow authenticated users to read from 'government-ids' bucket
-CREATE POLICY "Allow authenticated read from government-ids"
+-- Policy: Allow users to read their own ID images (files uploaded before owner folders are matched on owner)
+DROP POLICY IF EXISTS "Allow owner read from ID buckets" ON storage.objects;
+CREATE POLICY "Allow owner read from ID buckets"
 ON storage.objects
 FOR SELECT
 TO authenticated
-USING (bucket_id = 'government-ids');
+USING (
+  bucket_id IN ('government-ids', 'id-selfies')
+  AND ((storage.foldername(name))[1] = auth.uid()::text OR owner = auth.uid())
+);
 
--- Policy: Allow authenticated users to upload to 'id-selfies' bucket
-CREATE POLICY "Allow authenticated upload to id-selfies"
+-- Policy: Allow officers to read every ID image
+DROP POLICY IF EXISTS "Allow officer read from ID buckets" ON storage.objects;
+CREATE POLICY "Allow officer read from ID buckets"
 ON storage.objects
-FOR INSERT
+FOR SELECT
 TO authenticated
-WITH CHECK (bucket_id = 'id-selfies');
+USING (
+  bucket_id IN ('government-ids', 'id-selfies')
+  AND EXISTS (
+    SELECT 1 FROM public.app_user
+    WHERE auth_id = auth.uid() AND role = 'officer'
+  )
+);
+
+-- Biometrics (thumbprints, signature and photo) are captured in person by officers and never read by applicants
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('biometrics', 'biometrics', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
 
--- Policy: Allow authenticated users to read from 'id-selfies' bucket
-CREATE POLICY "Allow authenticated read from id-selfies"
+-- Policy: Allow officers to upload, read and replace biometrics
+DROP POLICY IF EXISTS "Allow officer access to biometrics" ON storage.objects;
+CREATE POLICY "Allow officer access to biometrics"
 ON storage.objects
-FOR SELECT
+FOR ALL
 TO authenticated
-USING (bucket_id = 'id-selfies');
+USING (
+  bucket_id = 'biometrics'
+  AND EXISTS (
+    SELECT 1 FROM public.app_user
+    WHERE auth_id = auth.uid() AND role = 'officer'
+  )
+)
+WITH CHECK (
+  bucket_id = 'biometrics'
+  AND EXISTS (
+    SELECT 1 FROM public.app_user
+    WHERE auth_id = auth.uid() AND role = 'officer'
+  )
+);
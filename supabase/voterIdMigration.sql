@@ -0,0 +1,52 @@
+/*
+===============================================================================
+  Voter ID uniqueness migration
+
+  Description:
+  Brings an existing database up to the voter ID rules in businessSchema.sql
+  without dropping data. Voter IDs shared by more than one voter are flagged
+  (applicant_voter_record.voter_id_flagged) instead of being changed, so the
+  unique index can be created; officers clear a flag by reissuing a VIN from
+  the Voters page.
+
+  Run this once, then re-run the CREATE OR REPLACE FUNCTION statements for
+  vin_check_digit, is_valid_vin, generate_vin, reissue_voter_id, get_precincts
+  and approve_application from businessSchema.sql.
+===============================================================================
+*/
+
+BEGIN;
+
+-- Locality code of each precinct, used as the VIN prefix. Fill it in for existing
+-- precincts before approving registrations; generate_vin requires it.
+ALTER TABLE precinct ADD COLUMN IF NOT EXISTS locality_code CHAR(6)
+    CHECK (locality_code ~ '^[0-9]{6}$');
+
+CREATE TABLE IF NOT EXISTS vin_sequence (
+    locality_code CHAR(6) PRIMARY KEY,
+    last_sequence INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE applicant_voter_record ADD COLUMN IF NOT EXISTS voter_id_flagged BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Flag every voter record whose voter ID (ignoring case and surrounding spaces) is shared with another
+UPDATE applicant_voter_record
+SET voter_id_flagged = TRUE
+WHERE UPPER(TRIM(voter_id)) IN (
+    SELECT UPPER(TRIM(voter_id))
+    FROM applicant_voter_record
+    GROUP BY UPPER(TRIM(voter_id))
+    HAVING COUNT(*) > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_voter_record_voter_id
+    ON applicant_voter_record (voter_id) WHERE NOT voter_id_flagged;
+
+COMMIT;
+
+-- Review the flagged voter records
+SELECT v.voter_id, v.applicant_id, a.last_name, a.first_name, v.precinct_number
+FROM applicant_voter_record v
+JOIN applicant a ON a.applicant_id = v.applicant_id
+WHERE v.voter_id_flagged
+ORDER BY v.voter_id, v.applicant_id;